@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "HttpMethod" AS ENUM ('GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS');
+
+-- CreateEnum
+CREATE TYPE "RequestBodyType" AS ENUM ('NONE', 'JSON', 'RAW');
+
+-- AlterTable
+ALTER TABLE "endpoints" ADD COLUMN     "body" TEXT,
+ADD COLUMN     "body_type" "RequestBodyType" NOT NULL DEFAULT 'NONE',
+ADD COLUMN     "headers" JSONB,
+ADD COLUMN     "method" "HttpMethod" NOT NULL DEFAULT 'GET',
+ADD COLUMN     "query_params" JSONB;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "checks" ADD COLUMN     "assertion_results" JSONB;
+
+-- AlterTable
+ALTER TABLE "endpoints" ADD COLUMN     "assertions" JSONB;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "MonitorType" AS ENUM ('HTTP', 'TCP');
+
+-- AlterTable
+ALTER TABLE "endpoints" ADD COLUMN     "monitor_type" "MonitorType" NOT NULL DEFAULT 'HTTP';
@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "MonitorType" ADD VALUE 'DNS';
+
+-- CreateEnum
+CREATE TYPE "DnsRecordType" AS ENUM ('A', 'AAAA', 'CNAME', 'MX', 'TXT');
+
+-- AlterTable
+ALTER TABLE "checks" ADD COLUMN     "dns_result" JSONB;
+
+-- AlterTable
+ALTER TABLE "endpoints" ADD COLUMN     "dns_expected" JSONB,
+ADD COLUMN     "dns_record_type" "DnsRecordType" NOT NULL DEFAULT 'A',
+ADD COLUMN     "dns_resolver" TEXT;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "certificates" (
+    "id" UUID NOT NULL,
+    "endpoint_id" UUID NOT NULL,
+    "subject" TEXT NOT NULL,
+    "issuer" TEXT NOT NULL,
+    "sans" TEXT[],
+    "valid_from" TIMESTAMP(3) NOT NULL,
+    "valid_to" TIMESTAMP(3) NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "chain_valid" BOOLEAN NOT NULL,
+    "chain_error" TEXT,
+    "last_warning_days" INTEGER,
+    "checked_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "certificates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "certificates_endpoint_id_key" ON "certificates"("endpoint_id");
+
+-- CreateIndex
+CREATE INDEX "certificates_valid_to_idx" ON "certificates"("valid_to");
+
+-- AddForeignKey
+ALTER TABLE "certificates" ADD CONSTRAINT "certificates_endpoint_id_fkey" FOREIGN KEY ("endpoint_id") REFERENCES "endpoints"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "MonitorType" ADD VALUE 'HEARTBEAT';
+
+-- AlterTable
+ALTER TABLE "endpoints" ADD COLUMN     "heartbeat_grace" INTEGER NOT NULL DEFAULT 3600,
+ADD COLUMN     "heartbeat_last_ping_at" TIMESTAMP(3),
+ADD COLUMN     "heartbeat_last_status" "CheckStatus",
+ADD COLUMN     "heartbeat_period" INTEGER NOT NULL DEFAULT 86400,
+ADD COLUMN     "heartbeat_started_at" TIMESTAMP(3),
+ADD COLUMN     "heartbeat_token" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "endpoints_heartbeat_token_key" ON "endpoints"("heartbeat_token");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "endpoints" ADD COLUMN     "alert_threshold" INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN     "interval_seconds" INTEGER NOT NULL DEFAULT 30,
+ADD COLUMN     "retries" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "timeout_seconds" INTEGER NOT NULL DEFAULT 30;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "downtime_trackers" (
+    "id" UUID NOT NULL,
+    "endpoint_id" UUID NOT NULL,
+    "consecutive_failures" INTEGER NOT NULL DEFAULT 0,
+    "first_failure_at" TIMESTAMP(3),
+    "alert_sent" BOOLEAN NOT NULL DEFAULT false,
+    "last_status" "CheckStatus",
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "downtime_trackers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "downtime_trackers_endpoint_id_key" ON "downtime_trackers"("endpoint_id");
+
+-- AddForeignKey
+ALTER TABLE "downtime_trackers" ADD CONSTRAINT "downtime_trackers_endpoint_id_fkey" FOREIGN KEY ("endpoint_id") REFERENCES "endpoints"("id") ON DELETE CASCADE ON UPDATE CASCADE;
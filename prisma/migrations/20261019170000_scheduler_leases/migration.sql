@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "scheduler_leases" (
+    "name" TEXT NOT NULL,
+    "holder" TEXT NOT NULL,
+    "acquired_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduler_leases_pkey" PRIMARY KEY ("name")
+);
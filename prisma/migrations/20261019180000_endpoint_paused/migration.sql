@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "endpoints" ADD COLUMN     "paused" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "NotificationChannelType" AS ENUM ('SLACK', 'WEBHOOK', 'EMAIL', 'TEAMS', 'DISCORD', 'PAGERDUTY');
+
+-- CreateTable
+CREATE TABLE "notification_channels" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "NotificationChannelType" NOT NULL,
+    "config" JSONB NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_channels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "endpoint_notification_channels" (
+    "endpoint_id" UUID NOT NULL,
+    "channel_id" UUID NOT NULL,
+
+    CONSTRAINT "endpoint_notification_channels_pkey" PRIMARY KEY ("endpoint_id","channel_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notification_channels_name_key" ON "notification_channels"("name");
+
+-- CreateIndex
+CREATE INDEX "endpoint_notification_channels_channel_id_idx" ON "endpoint_notification_channels"("channel_id");
+
+-- AddForeignKey
+ALTER TABLE "endpoint_notification_channels" ADD CONSTRAINT "endpoint_notification_channels_endpoint_id_fkey" FOREIGN KEY ("endpoint_id") REFERENCES "endpoints"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "endpoint_notification_channels" ADD CONSTRAINT "endpoint_notification_channels_channel_id_fkey" FOREIGN KEY ("channel_id") REFERENCES "notification_channels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "endpoints" ADD COLUMN     "alerts_muted_until" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "downtime_trackers" ADD COLUMN     "acknowledged_at" TIMESTAMP(3),
+ADD COLUMN     "acknowledged_by" TEXT;
+
+-- CreateTable
+CREATE TABLE "slack_messages" (
+    "id" UUID NOT NULL,
+    "endpoint_id" UUID NOT NULL,
+    "channel_id" UUID NOT NULL,
+    "slack_channel" TEXT NOT NULL,
+    "ts" TEXT NOT NULL,
+    "resolved_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "slack_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "slack_messages_endpoint_id_channel_id_resolved_at_idx" ON "slack_messages"("endpoint_id", "channel_id", "resolved_at");
+
+-- AddForeignKey
+ALTER TABLE "slack_messages" ADD CONSTRAINT "slack_messages_endpoint_id_fkey" FOREIGN KEY ("endpoint_id") REFERENCES "endpoints"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "slack_messages" ADD CONSTRAINT "slack_messages_channel_id_fkey" FOREIGN KEY ("channel_id") REFERENCES "notification_channels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
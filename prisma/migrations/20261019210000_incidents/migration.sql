@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "IncidentStatus" AS ENUM ('OPEN', 'ACKNOWLEDGED', 'RESOLVED');
+
+-- CreateEnum
+CREATE TYPE "IncidentEventType" AS ENUM ('OPENED', 'ACKNOWLEDGED', 'NOTE', 'RESOLVED');
+
+-- AlterTable: acknowledgements now live on incidents
+ALTER TABLE "downtime_trackers" DROP COLUMN "acknowledged_at",
+DROP COLUMN "acknowledged_by",
+ADD COLUMN     "first_error" TEXT,
+ADD COLUMN     "first_http_code" INTEGER;
+
+-- CreateTable
+CREATE TABLE "incidents" (
+    "id" UUID NOT NULL,
+    "endpoint_id" UUID NOT NULL,
+    "status" "IncidentStatus" NOT NULL DEFAULT 'OPEN',
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3),
+    "first_error" TEXT,
+    "http_code" INTEGER,
+    "acknowledged_at" TIMESTAMP(3),
+    "acknowledged_by" TEXT,
+    "resolution_notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "incidents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "incident_events" (
+    "id" UUID NOT NULL,
+    "incident_id" UUID NOT NULL,
+    "type" "IncidentEventType" NOT NULL,
+    "message" TEXT NOT NULL,
+    "author" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "incident_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "incidents_endpoint_id_started_at_idx" ON "incidents"("endpoint_id", "started_at");
+
+-- CreateIndex
+CREATE INDEX "incidents_status_idx" ON "incidents"("status");
+
+-- CreateIndex
+CREATE INDEX "incident_events_incident_id_created_at_idx" ON "incident_events"("incident_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "incidents" ADD CONSTRAINT "incidents_endpoint_id_fkey" FOREIGN KEY ("endpoint_id") REFERENCES "endpoints"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "incident_events" ADD CONSTRAINT "incident_events_incident_id_fkey" FOREIGN KEY ("incident_id") REFERENCES "incidents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
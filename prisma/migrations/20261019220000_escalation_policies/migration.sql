@@ -0,0 +1,27 @@
+-- AlterEnum
+ALTER TYPE "IncidentEventType" ADD VALUE 'NOTIFIED';
+
+-- AlterTable
+ALTER TABLE "endpoints" ADD COLUMN     "escalation_policy_id" UUID;
+
+-- AlterTable
+ALTER TABLE "incidents" ADD COLUMN     "escalation_step" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "last_notified_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "escalation_policies" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "steps" JSONB NOT NULL,
+    "repeat_interval_minutes" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "escalation_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "escalation_policies_name_key" ON "escalation_policies"("name");
+
+-- AddForeignKey
+ALTER TABLE "endpoints" ADD CONSTRAINT "endpoints_escalation_policy_id_fkey" FOREIGN KEY ("escalation_policy_id") REFERENCES "escalation_policies"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "RotationType" AS ENUM ('DAILY', 'WEEKLY');
+
+-- AlterTable
+ALTER TABLE "endpoints" ADD COLUMN     "oncall_schedule_id" UUID;
+
+-- CreateTable
+CREATE TABLE "oncall_schedules" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+    "rotation_type" "RotationType" NOT NULL DEFAULT 'WEEKLY',
+    "handoff_time" TEXT NOT NULL DEFAULT '09:00',
+    "starts_on" TEXT NOT NULL,
+    "members" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "oncall_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "oncall_overrides" (
+    "id" UUID NOT NULL,
+    "schedule_id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "slack_user_id" TEXT,
+    "email" TEXT,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "ends_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "oncall_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "oncall_schedules_name_key" ON "oncall_schedules"("name");
+
+-- CreateIndex
+CREATE INDEX "oncall_overrides_schedule_id_ends_at_idx" ON "oncall_overrides"("schedule_id", "ends_at");
+
+-- AddForeignKey
+ALTER TABLE "endpoints" ADD CONSTRAINT "endpoints_oncall_schedule_id_fkey" FOREIGN KEY ("oncall_schedule_id") REFERENCES "oncall_schedules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "oncall_overrides" ADD CONSTRAINT "oncall_overrides_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "oncall_schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "downtime_trackers" ADD COLUMN     "recent_statuses" TEXT NOT NULL DEFAULT '',
+ADD COLUMN     "flapping_since" TIMESTAMP(3);
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "MaintenanceRecurrence" AS ENUM ('NONE', 'DAILY', 'WEEKLY');
+
+-- AlterTable
+ALTER TABLE "checks" ADD COLUMN     "in_maintenance" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "maintenance_windows" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "endpoint_id" UUID,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "ends_at" TIMESTAMP(3) NOT NULL,
+    "recurrence" "MaintenanceRecurrence" NOT NULL DEFAULT 'NONE',
+    "timezone" TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+    "repeat_until" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "maintenance_windows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "maintenance_windows_endpoint_id_idx" ON "maintenance_windows"("endpoint_id");
+
+-- AddForeignKey
+ALTER TABLE "maintenance_windows" ADD CONSTRAINT "maintenance_windows_endpoint_id_fkey" FOREIGN KEY ("endpoint_id") REFERENCES "endpoints"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterEnum
+ALTER TYPE "IncidentEventType" ADD VALUE 'DEPENDENT';
+
+-- AlterTable
+ALTER TABLE "checks" ADD COLUMN     "root_cause_endpoint_id" UUID;
+
+-- CreateTable
+CREATE TABLE "endpoint_dependencies" (
+    "endpoint_id" UUID NOT NULL,
+    "depends_on_id" UUID NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "endpoint_dependencies_pkey" PRIMARY KEY ("endpoint_id","depends_on_id")
+);
+
+-- CreateIndex
+CREATE INDEX "endpoint_dependencies_depends_on_id_idx" ON "endpoint_dependencies"("depends_on_id");
+
+-- AddForeignKey
+ALTER TABLE "endpoint_dependencies" ADD CONSTRAINT "endpoint_dependencies_endpoint_id_fkey" FOREIGN KEY ("endpoint_id") REFERENCES "endpoints"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "endpoint_dependencies" ADD CONSTRAINT "endpoint_dependencies_depends_on_id_fkey" FOREIGN KEY ("depends_on_id") REFERENCES "endpoints"("id") ON DELETE CASCADE ON UPDATE CASCADE;
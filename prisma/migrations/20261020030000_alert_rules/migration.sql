@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "AlertSeverity" AS ENUM ('CRITICAL', 'WARNING', 'INFO');
+
+-- AlterTable
+ALTER TABLE "endpoints" ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "alert_rules" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "endpoint_types" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "severities" "AlertSeverity"[] DEFAULT ARRAY[]::"AlertSeverity"[],
+    "days" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "start_time" TEXT,
+    "end_time" TEXT,
+    "timezone" TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+    "channel_ids" JSONB NOT NULL,
+    "throttle_minutes" INTEGER,
+    "message_template" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "alert_rule_throttles" (
+    "rule_id" UUID NOT NULL,
+    "endpoint_id" UUID NOT NULL,
+    "event" TEXT NOT NULL,
+    "last_sent_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_rule_throttles_pkey" PRIMARY KEY ("rule_id","endpoint_id","event")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "alert_rules_name_key" ON "alert_rules"("name");
+
+-- CreateIndex
+CREATE INDEX "alert_rules_position_idx" ON "alert_rules"("position");
+
+-- CreateIndex
+CREATE INDEX "alert_rule_throttles_endpoint_id_idx" ON "alert_rule_throttles"("endpoint_id");
+
+-- AddForeignKey
+ALTER TABLE "alert_rule_throttles" ADD CONSTRAINT "alert_rule_throttles_rule_id_fkey" FOREIGN KEY ("rule_id") REFERENCES "alert_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "alert_rule_throttles" ADD CONSTRAINT "alert_rule_throttles_endpoint_id_fkey" FOREIGN KEY ("endpoint_id") REFERENCES "endpoints"("id") ON DELETE CASCADE ON UPDATE CASCADE;
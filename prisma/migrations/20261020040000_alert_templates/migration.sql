@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "AlertTemplateEvent" AS ENUM ('DOWN', 'RECOVERY', 'DEGRADED', 'CERTIFICATE', 'FLAPPING');
+
+-- CreateTable
+CREATE TABLE "alert_templates" (
+    "id" UUID NOT NULL,
+    "channel_id" UUID,
+    "event" "AlertTemplateEvent" NOT NULL,
+    "title" TEXT,
+    "body" TEXT NOT NULL,
+    "timezone" TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "alert_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "alert_templates_event_idx" ON "alert_templates"("event");
+
+-- CreateIndex
+CREATE INDEX "alert_templates_channel_id_idx" ON "alert_templates"("channel_id");
+
+-- AddForeignKey
+ALTER TABLE "alert_templates" ADD CONSTRAINT "alert_templates_channel_id_fkey" FOREIGN KEY ("channel_id") REFERENCES "notification_channels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "DeliveryStatus" AS ENUM ('SENT', 'RETRYING', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "notification_deliveries" (
+    "id" UUID NOT NULL,
+    "channel_id" UUID,
+    "channel_name" TEXT NOT NULL,
+    "channel_type" TEXT NOT NULL,
+    "endpoint_id" UUID,
+    "event" TEXT NOT NULL,
+    "notification" JSONB NOT NULL,
+    "status" "DeliveryStatus" NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_retry_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "notification_attempts" (
+    "id" UUID NOT NULL,
+    "delivery_id" UUID NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "payload" JSONB,
+    "response_code" INTEGER,
+    "latency_ms" INTEGER NOT NULL,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notification_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_status_next_retry_at_idx" ON "notification_deliveries"("status", "next_retry_at");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_created_at_idx" ON "notification_deliveries"("created_at");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_channel_id_idx" ON "notification_deliveries"("channel_id");
+
+-- CreateIndex
+CREATE INDEX "notification_deliveries_endpoint_id_idx" ON "notification_deliveries"("endpoint_id");
+
+-- CreateIndex
+CREATE INDEX "notification_attempts_delivery_id_idx" ON "notification_attempts"("delivery_id");
+
+-- AddForeignKey
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_channel_id_fkey" FOREIGN KEY ("channel_id") REFERENCES "notification_channels"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_deliveries" ADD CONSTRAINT "notification_deliveries_endpoint_id_fkey" FOREIGN KEY ("endpoint_id") REFERENCES "endpoints"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_attempts" ADD CONSTRAINT "notification_attempts_delivery_id_fkey" FOREIGN KEY ("delivery_id") REFERENCES "notification_deliveries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "CheckStatus" ADD VALUE 'DEGRADED';
+
+-- AlterTable
+ALTER TABLE "endpoints" ADD COLUMN "degraded_threshold_ms" INTEGER;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "endpoints" ADD COLUMN "retry_delay_seconds" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "checks" ADD COLUMN "attempts" JSONB;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "incidents" ADD COLUMN     "alerted_channel_ids" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Ongoing incidents take the channels their down alerts were delivered to
+UPDATE "incidents" SET "alerted_channel_ids" = ARRAY(
+    SELECT DISTINCT CASE WHEN d."channel_type" = 'SLACK_WEBHOOK_URL' THEN 'SLACK_WEBHOOK_URL' ELSE d."channel_id"::TEXT END
+    FROM "notification_deliveries" d
+    WHERE d."endpoint_id" = "incidents"."endpoint_id"
+      AND d."event" = 'down'
+      AND d."created_at" >= "incidents"."created_at"
+      AND (d."channel_id" IS NOT NULL OR d."channel_type" = 'SLACK_WEBHOOK_URL')
+)
+WHERE "ended_at" IS NULL;
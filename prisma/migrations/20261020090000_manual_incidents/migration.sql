@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "incidents" ADD COLUMN     "manual" BOOLEAN NOT NULL DEFAULT false;
+
+-- Incidents reported from the dashboard are opened with this event and nothing else
+UPDATE "incidents" SET "manual" = true
+WHERE "id" IN (SELECT "incident_id" FROM "incident_events" WHERE "type" = 'OPENED' AND "message" = 'Reported manually');
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "endpoints" ADD COLUMN     "last_checked_at" TIMESTAMP(3);
+
+-- Endpoints keep their schedule from their latest check
+UPDATE "endpoints" SET "last_checked_at" = (
+    SELECT MAX("checked_at") FROM "checks" WHERE "checks"."endpoint_id" = "endpoints"."id"
+);
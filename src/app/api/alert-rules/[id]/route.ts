@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parseAlertRuleInput, serializeAlertRule } from "@/lib/alertRules";
+
+/**
+ * PATCH /api/alert-rules/[id]
+ * Update an alert rule's conditions, channels, throttling or template, or enable/disable it
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const current = await prisma.alert_rules.findUnique({
+      where: { id },
+    });
+    if (!current) {
+      return NextResponse.json(
+        { error: "Alert rule not found" },
+        { status: 404 }
+      );
+    }
+
+    const ruleInput = await parseAlertRuleInput(body, current);
+    if (!ruleInput.data) {
+      return NextResponse.json(
+        { error: ruleInput.error },
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.alert_rules.update({
+      where: { id },
+      data: ruleInput.data,
+    });
+
+    return NextResponse.json({ rule: serializeAlertRule(rule) });
+  } catch (error: any) {
+    console.error("Error updating alert rule:", error);
+
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A rule with this name already exists" },
+        { status: 409 }
+      );
+    }
+    if (error.code === "P2025") {
+      return NextResponse.json(
+        { error: "Alert rule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/alert-rules/[id]
+ * Delete an alert rule; alerts it matched fall through to the next rule or the endpoint's channels
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    await prisma.alert_rules.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ message: "Alert rule deleted successfully" });
+  } catch (error: any) {
+    console.error("Error deleting alert rule:", error);
+
+    if (error.code === "P2025") {
+      return NextResponse.json(
+        { error: "Alert rule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parseAlertRuleInput, serializeAlertRule } from "@/lib/alertRules";
+
+/**
+ * GET /api/alert-rules
+ * List all alert routing rules in the order they are evaluated
+ */
+export async function GET() {
+  try {
+    const rules = await prisma.alert_rules.findMany({
+      orderBy: [{ position: "asc" }, { created_at: "asc" }],
+    });
+
+    return NextResponse.json({ rules: rules.map(serializeAlertRule) });
+  } catch (error: any) {
+    console.error("Error fetching alert rules:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/alert-rules
+ * Create an alert routing rule: which alerts it matches and the channels, throttling and message it uses
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body.name || !body.channelIds) {
+      return NextResponse.json(
+        { error: "Name and notification channels are required" },
+        { status: 400 }
+      );
+    }
+
+    const ruleInput = await parseAlertRuleInput(body);
+    if (!ruleInput.data) {
+      return NextResponse.json(
+        { error: ruleInput.error },
+        { status: 400 }
+      );
+    }
+
+    const rule = await prisma.alert_rules.create({
+      data: {
+        ...ruleInput.data,
+        name: ruleInput.data.name!,
+        channel_ids: ruleInput.data.channel_ids!,
+      },
+    });
+
+    return NextResponse.json({ rule: serializeAlertRule(rule) }, { status: 201 });
+  } catch (error: any) {
+    console.error("Error creating alert rule:", error);
+
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A rule with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
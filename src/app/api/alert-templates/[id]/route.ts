@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parseTemplateInput, serializeTemplate } from "@/lib/templates";
+
+/**
+ * PATCH /api/alert-templates/[id]
+ * Update a template's channel, event, title, message or timezone
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const current = await prisma.alert_templates.findUnique({
+      where: { id },
+    });
+    if (!current) {
+      return NextResponse.json(
+        { error: "Alert template not found" },
+        { status: 404 }
+      );
+    }
+
+    const templateInput = await parseTemplateInput(body, current);
+    if (!templateInput.data) {
+      return NextResponse.json(
+        { error: templateInput.error },
+        { status: templateInput.conflict ? 409 : 400 }
+      );
+    }
+
+    const template = await prisma.alert_templates.update({
+      where: { id },
+      data: templateInput.data,
+      include: { channel: { select: { name: true } } },
+    });
+
+    return NextResponse.json({ template: serializeTemplate(template) });
+  } catch (error: any) {
+    console.error("Error updating alert template:", error);
+
+    if (error.code === "P2025") {
+      return NextResponse.json(
+        { error: "Alert template not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/alert-templates/[id]
+ * Delete a template; its alerts go back to the default template or the built-in wording
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    await prisma.alert_templates.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ message: "Alert template deleted successfully" });
+  } catch (error: any) {
+    console.error("Error deleting alert template:", error);
+
+    if (error.code === "P2025") {
+      return NextResponse.json(
+        { error: "Alert template not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
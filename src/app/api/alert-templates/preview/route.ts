@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { applyTemplate, buildPreviewNotification, parseTemplateContent } from "@/lib/templates";
+import { getNotificationSeverity } from "@/lib/alertRules";
+import { AlertTemplateEvent } from "@/generated/prisma";
+
+/**
+ * POST /api/alert-templates/preview
+ * Render an unsaved template against sample data, or an endpoint's most recent check and incident
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body.event || !body.body) {
+      return NextResponse.json(
+        { error: "Event and message are required" },
+        { status: 400 }
+      );
+    }
+
+    const templateInput = parseTemplateContent({
+      event: body.event,
+      title: body.title,
+      body: body.body,
+      timezone: body.timezone ?? "Asia/Kolkata",
+    });
+    if (!templateInput.data) {
+      return NextResponse.json(
+        { error: templateInput.error },
+        { status: 400 }
+      );
+    }
+
+    const event = templateInput.data.event as AlertTemplateEvent;
+    const notification = await buildPreviewNotification(event, body.endpointId);
+    if (!notification) {
+      return NextResponse.json(
+        { error: "Endpoint not found" },
+        { status: 404 }
+      );
+    }
+
+    const rendered = applyTemplate(
+      notification,
+      {
+        title: templateInput.data.title ?? null,
+        body: templateInput.data.body!,
+        timezone: templateInput.data.timezone!,
+      },
+      getNotificationSeverity(notification.event)
+    );
+
+    return NextResponse.json({ title: rendered.title, message: rendered.message });
+  } catch (error: any) {
+    console.error("Error previewing alert template:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parseTemplateInput, serializeTemplate } from "@/lib/templates";
+
+/**
+ * GET /api/alert-templates
+ * List all alert message templates, default templates first
+ */
+export async function GET() {
+  try {
+    const templates = await prisma.alert_templates.findMany({
+      include: { channel: { select: { name: true } } },
+      orderBy: [{ event: "asc" }, { created_at: "asc" }],
+    });
+
+    return NextResponse.json({ templates: templates.map(serializeTemplate) });
+  } catch (error: any) {
+    console.error("Error fetching alert templates:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/alert-templates
+ * Create the message template of an event, for one channel or as the default for all channels
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body.event || !body.body) {
+      return NextResponse.json(
+        { error: "Event and message are required" },
+        { status: 400 }
+      );
+    }
+
+    const templateInput = await parseTemplateInput(body);
+    if (!templateInput.data) {
+      return NextResponse.json(
+        { error: templateInput.error },
+        { status: templateInput.conflict ? 409 : 400 }
+      );
+    }
+
+    const template = await prisma.alert_templates.create({
+      data: {
+        ...templateInput.data,
+        event: templateInput.data.event!,
+        body: templateInput.data.body!,
+      },
+      include: { channel: { select: { name: true } } },
+    });
+
+    return NextResponse.json({ template: serializeTemplate(template) }, { status: 201 });
+  } catch (error: any) {
+    console.error("Error creating alert template:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,187 +1,85 @@
+import { randomUUID } from "crypto";
 import { NextRequest, NextResponse } from "next/server";
 import { verifySignatureAppRouter } from "@upstash/qstash/nextjs";
-import { prisma } from "@/lib/prisma";
-import { checkServiceStatus } from "@/lib/monitoring";
-import { sendSlackAlert, formatDowntimeAlert, formatRecoveryAlert } from "@/lib/slack";
-import { CheckStatus } from "@/generated/prisma";
+import { runMonitoringCycle } from "@/lib/monitoringCycle";
+import { INSTANCE_ID, MONITORING_LEASE, acquireLease, releaseLease } from "@/lib/leaderElection";
 
 // Runtime configuration
 export const runtime = "nodejs";
 export const maxDuration = 60; // 60 seconds max execution time
 
-// Track downtime for each endpoint
-interface DowntimeTracker {
-  consecutiveFailures: number;
-  firstFailureTime: Date | null;
-  alertSent: boolean;
-  lastStatus: CheckStatus | null;
-}
-
-// In-memory downtime tracker (persists across invocations in same instance)
-const downtimeTrackers = new Map<string, DowntimeTracker>();
-
-// Constants
-const ALERT_THRESHOLD_CHECKS = 3; // 3 consecutive failures = send alert (3 minutes)
+// Held for one cycle only; outlives maxDuration so a killed invocation still frees it
+const CRON_LEASE_SECONDS = 90;
 
 /**
  * GET /api/cron/monitor
  * 
  * This endpoint can be triggered by external cron services or called directly.
+ * Only endpoints whose check interval has elapsed are checked, so intervals
+ * shorter than the trigger cadence are effectively rounded up to it.
+ * The cycle is skipped while another instance (or the scheduler leader) holds the monitoring lease.
  * No authentication required - monitoring is public.
  * 
  * @example
  * curl -X GET https://your-domain.vercel.app/api/cron/monitor
  */
 export async function GET(request: NextRequest) {
-  const startTime = Date.now();
-  
+  // Unique per invocation: an overlapping invocation in this process must not renew, then release, this one's lease
+  const holder = `${INSTANCE_ID}:cron:${randomUUID()}`;
+
   try {
     console.log(`\n🔄 [CRON] Starting monitoring cycle at ${new Date().toISOString()}`);
 
-    // Fetch all active endpoints from database
-    const endpoints = await prisma.endpoints.findMany({
-      orderBy: { name: "asc" },
-    });
-
-    if (endpoints.length === 0) {
-      console.log("ℹ️ No endpoints configured for monitoring");
+    // Only one instance may run a cycle at a time
+    const acquired = await acquireLease(MONITORING_LEASE, holder, CRON_LEASE_SECONDS);
+    if (!acquired) {
+      console.log("⏸️ [CRON] Monitoring lease held by another instance, skipping cycle");
       return NextResponse.json({
         success: true,
-        message: "No endpoints to monitor",
+        message: "Monitoring cycle is running on another instance",
         checked: 0,
-        duration: Date.now() - startTime,
+        skipped: true,
       });
     }
 
-    console.log(`📊 Found ${endpoints.length} endpoint(s) to check`);
-
-    // Check all endpoints
-    const results = [];
-    let upCount = 0;
-    let downCount = 0;
-
-    for (const endpoint of endpoints) {
-      console.log(`\n🔍 Checking: ${endpoint.name} (${endpoint.url})`);
-      
-      // Perform health check
-      const result = await checkServiceStatus(endpoint.url);
-      
-      // Save check result to database
-      await prisma.checks.create({
-        data: {
-          endpoint_id: endpoint.id,
-          status: result.status,
-          http_code: result.httpCode,
-          response_time: result.responseTime,
-          error_message: result.errorMessage,
-        },
-      });
-
-      // Update endpoint counts
-      if (result.status === CheckStatus.UP) {
-        upCount++;
-        console.log(`✅ UP - ${result.responseTime}ms - HTTP ${result.httpCode}`);
-      } else {
-        downCount++;
-        console.log(`❌ DOWN - ${result.errorMessage}`);
-      }
-
-      // Initialize downtime tracker if needed
-      if (!downtimeTrackers.has(endpoint.id)) {
-        downtimeTrackers.set(endpoint.id, {
-          consecutiveFailures: 0,
-          firstFailureTime: null,
-          alertSent: false,
-          lastStatus: null,
-        });
-      }
-
-      const tracker = downtimeTrackers.get(endpoint.id)!;
-
-      // Handle downtime tracking and alerts
-      if (result.status === CheckStatus.DOWN) {
-        tracker.consecutiveFailures++;
-
-        // Record first failure time
-        if (tracker.consecutiveFailures === 1) {
-          tracker.firstFailureTime = new Date();
-        }
-
-        console.log(`⚠️ Consecutive failures: ${tracker.consecutiveFailures}/${ALERT_THRESHOLD_CHECKS}`);
-
-        // Send Slack alert if threshold reached and not already sent
-        if (tracker.consecutiveFailures >= ALERT_THRESHOLD_CHECKS && !tracker.alertSent) {
-          console.log(`🚨 Sending downtime alert for ${endpoint.name}`);
-          
-          const downtimeDuration = tracker.firstFailureTime
-            ? Math.round((Date.now() - tracker.firstFailureTime.getTime()) / 1000 / 60)
-            : tracker.consecutiveFailures;
-
-          const alertMessage = formatDowntimeAlert(
-            endpoint.name,
-            endpoint.url,
-            downtimeDuration,
-            tracker.firstFailureTime!,
-            result.httpCode || undefined,
-            result.errorMessage || "Service unreachable"
-          );
-
-          await sendSlackAlert(alertMessage);
-          tracker.alertSent = true;
-        }
-      } else {
-        // Service is UP
-        // Send recovery alert if it was previously down
-        if (tracker.lastStatus === CheckStatus.DOWN && tracker.alertSent) {
-          console.log(`✅ Sending recovery alert for ${endpoint.name}`);
-          
-          const downtimeDuration = tracker.firstFailureTime
-            ? Math.round((Date.now() - tracker.firstFailureTime.getTime()) / 1000 / 60)
-            : tracker.consecutiveFailures;
-
-          const recoveryMessage = formatRecoveryAlert(
-            endpoint.name,
-            endpoint.url,
-            downtimeDuration
-          );
-
-          await sendSlackAlert(recoveryMessage);
-        }
-
-        // Reset tracker
-        tracker.consecutiveFailures = 0;
-        tracker.firstFailureTime = null;
-        tracker.alertSent = false;
-      }
-
-      // Update last status
-      tracker.lastStatus = result.status;
+    let report;
+    try {
+      report = await runMonitoringCycle("cron");
+    } finally {
+      await releaseLease(MONITORING_LEASE, holder);
+    }
 
-      results.push({
-        id: endpoint.id,
-        name: endpoint.name,
-        url: endpoint.url,
-        status: result.status,
-        responseTime: result.responseTime,
-        httpCode: result.httpCode,
+    if (report.total === 0) {
+      console.log("ℹ️ No endpoints configured for monitoring");
+      return NextResponse.json({
+        success: true,
+        message: "No endpoints to monitor",
+        checked: 0,
+        duration: report.duration,
       });
     }
 
-    const duration = Date.now() - startTime;
-    console.log(`\n✅ [CRON] Completed monitoring cycle in ${duration}ms`);
-    console.log(`📈 Summary: ${upCount} UP, ${downCount} DOWN\n`);
+    console.log(`\n✅ [CRON] Completed monitoring cycle in ${report.duration}ms`);
+    console.log(`📈 Summary: ${report.up} UP, ${report.down} DOWN, ${report.degraded} DEGRADED, ${report.maintenance} in maintenance, ${report.skipped.length} still in flight\n`);
 
     // Return success response
     return NextResponse.json({
       success: true,
-      timestamp: new Date().toISOString(),
+      timestamp: report.finishedAt.toISOString(),
       summary: {
-        total: endpoints.length,
-        up: upCount,
-        down: downCount,
+        total: report.total,
+        checked: report.checked,
+        up: report.up,
+        down: report.down,
+        degraded: report.degraded,
+        maintenance: report.maintenance,
+        skipped: report.skipped.length,
+        escalations: report.escalations,
+        retries: report.retries,
       },
-      results,
-      duration,
+      results: report.results,
+      skipped: report.skipped,
+      duration: report.duration,
     });
 
   } catch (error: any) {
@@ -1,9 +1,13 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import type { CheckAttempt } from "@/lib/monitoring";
 
 /**
  * GET /api/day-detail
  * Get detailed hourly data for a specific day in IST timezone
+ * Checks run during maintenance windows are counted separately and left out of uptime and incidents
+ * DEGRADED (slow) checks count towards uptime but are reported separately from downtime
+ * Incidents caused by a down dependency carry the inferred root cause, retried ones every attempt
  * Query params:
  * - endpointId: UUID of the endpoint
  * - date: ISO date string (YYYY-MM-DD) - interpreted as IST date
@@ -43,7 +47,7 @@ export async function GET(request: Request) {
     // Get endpoint details
     const endpoint = await prisma.endpoints.findUnique({
       where: { id: endpointId },
-      select: { name: true, url: true },
+      select: { name: true, url: true, interval_seconds: true, degraded_threshold_ms: true },
     });
 
     if (!endpoint) {
@@ -71,6 +75,9 @@ export async function GET(request: Request) {
         checked_at: true,
         error_message: true,
         http_code: true,
+        in_maintenance: true,
+        root_cause_endpoint_id: true,
+        attempts: true,
       },
     });
 
@@ -81,12 +88,19 @@ export async function GET(request: Request) {
       });
     }
 
-    // Calculate statistics
-    const upChecks = checks.filter(c => c.status === "UP").length;
-    const downChecks = checks.filter(c => c.status === "DOWN").length;
-    const uptimePercent = ((upChecks / checks.length) * 100).toFixed(2);
+    // Calculate statistics (a day spent entirely in maintenance had no unplanned downtime)
+    const monitoredChecks = checks.filter(c => !c.in_maintenance);
+    const maintenanceChecks = checks.length - monitoredChecks.length;
+    const upChecks = monitoredChecks.filter(c => c.status === "UP").length;
+    const downChecks = monitoredChecks.filter(c => c.status === "DOWN").length;
+    const degradedChecks = monitoredChecks.filter(c => c.status === "DEGRADED").length;
+    // Like downtime on the status page, each slow check stands for one check interval
+    const degradedMinutes = Math.round((degradedChecks * endpoint.interval_seconds) / 60);
+    const uptimePercent = monitoredChecks.length > 0
+      ? (((upChecks + degradedChecks) / monitoredChecks.length) * 100).toFixed(2)
+      : "100.00";
     
-    const responseTimes = checks
+    const responseTimes = monitoredChecks
       .filter(c => c.response_time !== null)
       .map(c => c.response_time as number);
     
@@ -110,13 +124,15 @@ export async function GET(request: Request) {
       const istHourStart = new Date(startOfDay.getTime() + (istHour * 60 * 60 * 1000));
       const istHourEnd = new Date(istHourStart.getTime() + (60 * 60 * 1000) - 1);
 
-      const hourChecks = checks.filter(c => {
+      const hourAllChecks = checks.filter(c => {
         const checkTime = new Date(c.checked_at);
         return checkTime >= istHourStart && checkTime <= istHourEnd;
       });
+      const hourChecks = hourAllChecks.filter(c => !c.in_maintenance);
 
       const hourUp = hourChecks.filter(c => c.status === "UP").length;
       const hourDown = hourChecks.filter(c => c.status === "DOWN").length;
+      const hourDegraded = hourChecks.filter(c => c.status === "DEGRADED").length;
       const hourResponseTimes = hourChecks
         .filter(c => c.response_time !== null)
         .map(c => c.response_time as number);
@@ -131,15 +147,27 @@ export async function GET(request: Request) {
         totalChecks: hourChecks.length,
         upChecks: hourUp,
         downChecks: hourDown,
+        degradedChecks: hourDegraded,
+        maintenanceChecks: hourAllChecks.length - hourChecks.length,
         uptimePercent: hourChecks.length > 0 
-          ? ((hourUp / hourChecks.length) * 100) 
+          ? (((hourUp + hourDegraded) / hourChecks.length) * 100) 
           : null,
         avgResponseTime: hourAvgResponseTime,
       };
-    }).filter(h => h.totalChecks > 0); // Only return hours with data
+    }).filter(h => h.totalChecks > 0 || h.maintenanceChecks > 0); // Only return hours with data
 
     // Get incidents (downtime periods) - send raw timestamps with status codes and duration
-    const downtimeChecks = checks.filter(c => c.status === "DOWN");
+    const downtimeChecks = monitoredChecks.filter(c => c.status === "DOWN");
+
+    // Root causes are stored by id only, the parent may have been renamed or deleted since
+    const rootCauseIds = [...new Set(downtimeChecks.map(c => c.root_cause_endpoint_id).filter((id): id is string => id !== null))];
+    const rootCauses = rootCauseIds.length > 0
+      ? await prisma.endpoints.findMany({
+          where: { id: { in: rootCauseIds } },
+          select: { id: true, name: true },
+        })
+      : [];
+    const rootCauseById = new Map(rootCauses.map(rootCause => [rootCause.id, rootCause]));
     
     const incidents = downtimeChecks.map((c, index) => {
       let errorMessage = c.error_message || "Service unavailable";
@@ -149,10 +177,10 @@ export async function GET(request: Request) {
         errorMessage = `HTTP ${c.http_code}: ${errorMessage}`;
       }
       
-      // Calculate duration until recovery (next UP check or end of checks)
+      // Calculate duration until recovery (next UP or DEGRADED check or end of checks)
       const currentCheckTime = new Date(c.checked_at).getTime();
       const nextUpCheck = checks.find((check, idx) => 
-        idx > checks.indexOf(c) && check.status === "UP"
+        idx > checks.indexOf(c) && check.status !== "DOWN"
       );
       
       let durationMs = null;
@@ -189,6 +217,8 @@ export async function GET(request: Request) {
         responseTime: c.response_time, // Response time of the failed check
         durationMs,
         duration: durationFormatted,
+        rootCause: c.root_cause_endpoint_id ? rootCauseById.get(c.root_cause_endpoint_id) ?? null : null,
+        attempts: (c.attempts as unknown as CheckAttempt[] | null) ?? [],
       };
     });
 
@@ -203,6 +233,7 @@ export async function GET(request: Request) {
       status: c.status,
       responseTime: c.response_time,
       timestamp: c.checked_at,
+      inMaintenance: c.in_maintenance,
     }));
 
     return NextResponse.json({
@@ -210,6 +241,7 @@ export async function GET(request: Request) {
       endpoint: {
         name: endpoint.name,
         url: endpoint.url,
+        degradedThresholdMs: endpoint.degraded_threshold_ms,
       },
       date: dateParam, // Already in YYYY-MM-DD format
       dateFormatted: startOfDay.toLocaleDateString('en-US', {
@@ -223,6 +255,9 @@ export async function GET(request: Request) {
         totalChecks: checks.length,
         upChecks,
         downChecks,
+        degradedChecks,
+        degradedMinutes,
+        maintenanceChecks,
         uptimePercent,
         avgResponseTime,
         maxResponseTime,
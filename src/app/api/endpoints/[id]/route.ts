@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { parseEndpointConfig, serializeEndpoint, validateCheckTiming, validateTarget } from "@/lib/endpointConfig";
+import { generateHeartbeatToken, getHeartbeatPath } from "@/lib/heartbeat";
+import { parseChannelIds } from "@/lib/notificationChannels";
+import { parseDependencyIds } from "@/lib/dependencies";
+import { parsePolicyId } from "@/lib/escalation";
+import { parseScheduleId } from "@/lib/oncall";
+import { MonitorType, RequestBodyType } from "@/generated/prisma";
 
 /**
  * GET /api/endpoints/[id]
@@ -15,6 +22,10 @@ export async function GET(
     const endpoint = await prisma.endpoints.findUnique({
       where: { id },
       include: {
+        certificate: true,
+        notification_channels: { select: { channel_id: true } },
+        downtime_tracker: { select: { flapping_since: true } },
+        dependencies: { select: { depends_on_id: true } },
         checks: {
           orderBy: {
             checked_at: "desc",
@@ -77,27 +88,168 @@ export async function PATCH(
   try {
     const { id } = await params;
     const body = await request.json();
-    const { name, url, type } = body;
+    const { name, type } = body;
+    let url: string | undefined = body.url;
+    let heartbeatToken: string | undefined;
+
+    // A new body or body type is validated together with the stored one it goes with
+    let currentRequest: { body: string | null; body_type: RequestBodyType } | undefined;
+    if (body.body !== undefined || body.bodyType !== undefined) {
+      const current = await prisma.endpoints.findUnique({
+        where: { id },
+        select: { body: true, body_type: true },
+      });
+
+      if (!current) {
+        return NextResponse.json(
+          { error: "Endpoint not found" },
+          { status: 404 }
+        );
+      }
+      currentRequest = current;
+    }
+
+    // Validate monitor type, request configuration (method, headers, query params, body) and assertions
+    const endpointConfig = parseEndpointConfig(body, currentRequest);
+    if (!endpointConfig.data) {
+      return NextResponse.json(
+        { error: endpointConfig.error },
+        { status: 400 }
+      );
+    }
+
+    // Validate the channels this endpoint routes its alerts to
+    let channelIds: string[] | undefined;
+    if (body.notificationChannelIds !== undefined) {
+      const channels = await parseChannelIds(body.notificationChannelIds);
+      if (!channels.channelIds) {
+        return NextResponse.json(
+          { error: channels.error },
+          { status: 400 }
+        );
+      }
+      channelIds = channels.channelIds;
+    }
+
+    // Validate the escalation policy (null switches back to the endpoint's own channels)
+    let escalationPolicyId: string | null | undefined;
+    if (body.escalationPolicyId !== undefined) {
+      const policy = await parsePolicyId(body.escalationPolicyId);
+      if (policy.error !== undefined) {
+        return NextResponse.json(
+          { error: policy.error },
+          { status: 400 }
+        );
+      }
+      escalationPolicyId = policy.policyId;
+    }
+
+    // Validate the on-call schedule (null stops mentioning an on-call user)
+    let oncallScheduleId: string | null | undefined;
+    if (body.oncallScheduleId !== undefined) {
+      const schedule = await parseScheduleId(body.oncallScheduleId);
+      if (schedule.error !== undefined) {
+        return NextResponse.json(
+          { error: schedule.error },
+          { status: 400 }
+        );
+      }
+      oncallScheduleId = schedule.scheduleId;
+    }
+
+    // Validate the endpoints this one depends on (an empty list removes all dependencies)
+    let dependencyIds: string[] | undefined;
+    if (body.dependsOnIds !== undefined) {
+      const dependencies = await parseDependencyIds(body.dependsOnIds, id);
+      if (!dependencies.dependencyIds) {
+        return NextResponse.json(
+          { error: dependencies.error },
+          { status: 400 }
+        );
+      }
+      dependencyIds = dependencies.dependencyIds;
+    }
 
     // Validation
-    if (!name && !url && !type) {
+    if (
+      !name && !url && !type && !channelIds && escalationPolicyId === undefined &&
+      oncallScheduleId === undefined && !dependencyIds && Object.keys(endpointConfig.data).length === 0
+    ) {
       return NextResponse.json(
-        { error: "At least one field (name, url, or type) is required" },
+        { error: "At least one field (name, url, type, tags, request settings, notifications, on-call schedule or dependencies) is required" },
         { status: 400 }
       );
     }
 
-    // Validate URL format if provided
-    if (url) {
-      try {
-        new URL(url);
-      } catch {
+    // A check and its retries must still finish in time when the monitor type or a check setting changes
+    const { monitor_type, interval_seconds, timeout_seconds, retries, retry_delay_seconds } = endpointConfig.data;
+    if (
+      [monitor_type, interval_seconds, timeout_seconds, retries, retry_delay_seconds].some((value) => value !== undefined)
+    ) {
+      const current = await prisma.endpoints.findUnique({
+        where: { id },
+        select: {
+          monitor_type: true,
+          interval_seconds: true,
+          timeout_seconds: true,
+          retries: true,
+          retry_delay_seconds: true,
+        },
+      });
+
+      if (!current) {
+        return NextResponse.json(
+          { error: "Endpoint not found" },
+          { status: 404 }
+        );
+      }
+
+      const timingError = validateCheckTiming({
+        monitor_type: monitor_type ?? current.monitor_type,
+        interval_seconds: interval_seconds ?? current.interval_seconds,
+        timeout_seconds: timeout_seconds ?? current.timeout_seconds,
+        retries: retries ?? current.retries,
+        retry_delay_seconds: retry_delay_seconds ?? current.retry_delay_seconds,
+      });
+      if (timingError) {
         return NextResponse.json(
-          { error: "Invalid URL format" },
+          { error: timingError },
           { status: 400 }
         );
       }
+    }
+
+    // Validate URL (host:port for TCP, hostname for DNS monitors) format if the target or monitor type changes
+    if (url || endpointConfig.data.monitor_type) {
+      const existing = await prisma.endpoints.findUnique({
+        where: { id },
+        select: { url: true, monitor_type: true, heartbeat_token: true },
+      });
+
+      if (!existing) {
+        return NextResponse.json(
+          { error: "Endpoint not found" },
+          { status: 404 }
+        );
+      }
 
+      const monitorType = endpointConfig.data.monitor_type || existing.monitor_type;
+      if (monitorType === MonitorType.HEARTBEAT) {
+        // Heartbeat endpoints keep their generated ping URL
+        heartbeatToken = existing.heartbeat_token || generateHeartbeatToken();
+        url = getHeartbeatPath(heartbeatToken);
+      } else {
+        const targetError = validateTarget(monitorType, url || existing.url);
+        if (targetError) {
+          return NextResponse.json(
+            { error: targetError },
+            { status: 400 }
+          );
+        }
+      }
+    }
+
+    if (url) {
       // Check if new URL already exists (but not for this endpoint)
       const existingUrl = await prisma.endpoints.findFirst({
         where: { 
@@ -138,18 +290,33 @@ export async function PATCH(
         ...(name && { name }),
         ...(url && { url }),
         ...(type && { type }),
+        ...(heartbeatToken && { heartbeat_token: heartbeatToken }),
+        ...endpointConfig.data,
+        ...(escalationPolicyId !== undefined && { escalation_policy_id: escalationPolicyId }),
+        ...(oncallScheduleId !== undefined && { oncall_schedule_id: oncallScheduleId }),
+        ...(channelIds && {
+          notification_channels: {
+            deleteMany: {},
+            create: channelIds.map((channel_id) => ({ channel_id })),
+          },
+        }),
+        ...(dependencyIds && {
+          dependencies: {
+            deleteMany: {},
+            create: dependencyIds.map((depends_on_id) => ({ depends_on_id })),
+          },
+        }),
+      },
+      include: {
+        certificate: true,
+        notification_channels: { select: { channel_id: true } },
+        downtime_tracker: { select: { flapping_since: true } },
+        dependencies: { select: { depends_on_id: true } },
       },
     });
 
     // Transform snake_case to camelCase for frontend
-    const transformedEndpoint = {
-      id: endpoint.id,
-      name: endpoint.name,
-      url: endpoint.url,
-      type: endpoint.type,
-      createdAt: endpoint.created_at.toISOString(),
-      updatedAt: endpoint.updated_at.toISOString(),
-    };
+    const transformedEndpoint = serializeEndpoint(endpoint);
 
     return NextResponse.json({ 
       success: true,
@@ -1,6 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { checkServiceStatus } from "@/lib/monitoring";
+import { checkEndpoint, toCheckData } from "@/lib/monitoring";
+import {
+  DEFAULT_CHECK_SETTINGS,
+  parseEndpointConfig,
+  serializeEndpoint,
+  validateCheckTiming,
+  validateTarget,
+} from "@/lib/endpointConfig";
+import { generateHeartbeatToken, getHeartbeatPath } from "@/lib/heartbeat";
+import { parseChannelIds } from "@/lib/notificationChannels";
+import { parseDependencyIds } from "@/lib/dependencies";
+import { parsePolicyId } from "@/lib/escalation";
+import { parseScheduleId } from "@/lib/oncall";
+import { MonitorType } from "@/generated/prisma";
 
 /**
  * POST /api/endpoints
@@ -9,7 +22,34 @@ import { checkServiceStatus } from "@/lib/monitoring";
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { name, url, type } = body;
+    const { name, type } = body;
+
+    // Validate monitor type, request configuration (method, headers, query params, body) and assertions
+    const endpointConfig = parseEndpointConfig(body);
+    if (!endpointConfig.data) {
+      return NextResponse.json(
+        { error: endpointConfig.error },
+        { status: 400 }
+      );
+    }
+
+    // Heartbeat endpoints get a generated ping URL instead of a target to poll
+    const monitorType = endpointConfig.data.monitor_type || MonitorType.HTTP;
+    const heartbeatToken = monitorType === MonitorType.HEARTBEAT ? generateHeartbeatToken() : null;
+    const url = heartbeatToken ? getHeartbeatPath(heartbeatToken) : body.url;
+
+    // A check and its retries must finish before the next one is due and within the cycle's time limit
+    const timingError = validateCheckTiming({
+      ...DEFAULT_CHECK_SETTINGS,
+      ...endpointConfig.data,
+      monitor_type: monitorType,
+    });
+    if (timingError) {
+      return NextResponse.json(
+        { error: timingError },
+        { status: 400 }
+      );
+    }
 
     // Validation
     if (!name || !url || !type) {
@@ -19,16 +59,67 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate URL format
-    try {
-      new URL(url);
-    } catch {
+    // Validate URL (host:port for TCP, hostname for DNS monitors) format
+    const targetError = validateTarget(monitorType, url);
+    if (targetError) {
       return NextResponse.json(
-        { error: "Invalid URL format" },
+        { error: targetError },
         { status: 400 }
       );
     }
 
+    // Validate the channels this endpoint routes its alerts to (default channels when empty)
+    let channelIds: string[] = [];
+    if (body.notificationChannelIds !== undefined) {
+      const channels = await parseChannelIds(body.notificationChannelIds);
+      if (!channels.channelIds) {
+        return NextResponse.json(
+          { error: channels.error },
+          { status: 400 }
+        );
+      }
+      channelIds = channels.channelIds;
+    }
+
+    // Validate the escalation policy that pages for this endpoint's incidents
+    let escalationPolicyId: string | null = null;
+    if (body.escalationPolicyId !== undefined) {
+      const policy = await parsePolicyId(body.escalationPolicyId);
+      if (policy.error !== undefined) {
+        return NextResponse.json(
+          { error: policy.error },
+          { status: 400 }
+        );
+      }
+      escalationPolicyId = policy.policyId;
+    }
+
+    // Validate the on-call schedule whose on-call user is mentioned in alerts
+    let oncallScheduleId: string | null = null;
+    if (body.oncallScheduleId !== undefined) {
+      const schedule = await parseScheduleId(body.oncallScheduleId);
+      if (schedule.error !== undefined) {
+        return NextResponse.json(
+          { error: schedule.error },
+          { status: 400 }
+        );
+      }
+      oncallScheduleId = schedule.scheduleId;
+    }
+
+    // Validate the endpoints this one depends on (their outages suppress its alerts)
+    let dependencyIds: string[] = [];
+    if (body.dependsOnIds !== undefined) {
+      const dependencies = await parseDependencyIds(body.dependsOnIds);
+      if (!dependencies.dependencyIds) {
+        return NextResponse.json(
+          { error: dependencies.error },
+          { status: 400 }
+        );
+      }
+      dependencyIds = dependencies.dependencyIds;
+    }
+
     // Check if name already exists
     const existingName = await prisma.endpoints.findFirst({
       where: { name },
@@ -59,30 +150,33 @@ export async function POST(request: NextRequest) {
         name,
         url,
         type,
+        heartbeat_token: heartbeatToken,
+        ...endpointConfig.data,
+        escalation_policy_id: escalationPolicyId,
+        oncall_schedule_id: oncallScheduleId,
+        notification_channels: {
+          create: channelIds.map((channel_id) => ({ channel_id })),
+        },
+        dependencies: {
+          create: dependencyIds.map((depends_on_id) => ({ depends_on_id })),
+        },
       },
-    });
-
-    // Perform an initial check
-    const initialCheck = await checkServiceStatus(url);
-    await prisma.checks.create({
-      data: {
-        endpoint_id: endpoint.id,
-        status: initialCheck.status,
-        http_code: initialCheck.httpCode,
-        response_time: initialCheck.responseTime,
-        error_message: initialCheck.errorMessage,
+      include: {
+        notification_channels: { select: { channel_id: true } },
+        dependencies: { select: { depends_on_id: true } },
       },
     });
 
+    // Perform an initial check (heartbeat endpoints wait for their first ping)
+    if (endpoint.monitor_type !== MonitorType.HEARTBEAT) {
+      const initialCheck = await checkEndpoint(endpoint);
+      await prisma.checks.create({
+        data: toCheckData(endpoint.id, initialCheck),
+      });
+    }
+
     // Transform snake_case to camelCase for frontend
-    const transformedEndpoint = {
-      id: endpoint.id,
-      name: endpoint.name,
-      url: endpoint.url,
-      type: endpoint.type,
-      createdAt: endpoint.created_at.toISOString(),
-      updatedAt: endpoint.updated_at.toISOString(),
-    };
+    const transformedEndpoint = serializeEndpoint(endpoint);
 
     return NextResponse.json(
       {
@@ -128,17 +222,16 @@ export async function GET() {
       orderBy: {
         created_at: "desc",
       },
+      include: {
+        certificate: true,
+        notification_channels: { select: { channel_id: true } },
+        downtime_tracker: { select: { flapping_since: true } },
+        dependencies: { select: { depends_on_id: true } },
+      },
     });
 
     
-    const transformedEndpoints = endpoints.map((endpoint) => ({
-      id: endpoint.id,
-      name: endpoint.name,
-      url: endpoint.url,
-      type: endpoint.type,
-      createdAt: endpoint.created_at.toISOString(),
-      updatedAt: endpoint.updated_at.toISOString(),
-    }));
+    const transformedEndpoints = endpoints.map(serializeEndpoint);
 
     return NextResponse.json({ endpoints: transformedEndpoints });
   } catch (error: any) {
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parsePolicyInput, serializePolicy } from "@/lib/escalation";
+
+/**
+ * PATCH /api/escalation-policies/[id]
+ * Update an escalation policy (ongoing incidents continue from the step they reached)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const policyInput = await parsePolicyInput(body);
+    if (!policyInput.data) {
+      return NextResponse.json(
+        { error: policyInput.error },
+        { status: 400 }
+      );
+    }
+
+    const policy = await prisma.escalation_policies.update({
+      where: { id },
+      data: policyInput.data,
+      include: { _count: { select: { endpoints: true } } },
+    });
+
+    return NextResponse.json({ policy: serializePolicy(policy) });
+  } catch (error: any) {
+    console.error("Error updating escalation policy:", error);
+
+    if (error.code === "P2025") {
+      return NextResponse.json(
+        { error: "Escalation policy not found" },
+        { status: 404 }
+      );
+    }
+
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A policy with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/escalation-policies/[id]
+ * Delete an escalation policy (its endpoints go back to their own notification channels)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    await prisma.escalation_policies.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ message: "Escalation policy deleted successfully" });
+  } catch (error: any) {
+    console.error("Error deleting escalation policy:", error);
+
+    if (error.code === "P2025") {
+      return NextResponse.json(
+        { error: "Escalation policy not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
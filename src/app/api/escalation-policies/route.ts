@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parsePolicyInput, serializePolicy } from "@/lib/escalation";
+
+/**
+ * GET /api/escalation-policies
+ * List all escalation policies with the number of endpoints using each
+ */
+export async function GET() {
+  try {
+    const policies = await prisma.escalation_policies.findMany({
+      include: { _count: { select: { endpoints: true } } },
+      orderBy: { created_at: "desc" },
+    });
+
+    return NextResponse.json({ policies: policies.map(serializePolicy) });
+  } catch (error: any) {
+    console.error("Error fetching escalation policies:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/escalation-policies
+ * Create an escalation policy: steps of channels paged after N minutes without acknowledgement
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body.name || !body.steps) {
+      return NextResponse.json(
+        { error: "Name and steps are required" },
+        { status: 400 }
+      );
+    }
+
+    const policyInput = await parsePolicyInput(body);
+    if (!policyInput.data) {
+      return NextResponse.json(
+        { error: policyInput.error },
+        { status: 400 }
+      );
+    }
+
+    const policy = await prisma.escalation_policies.create({
+      data: {
+        name: policyInput.data.name!,
+        steps: policyInput.data.steps!,
+        repeat_interval_minutes: policyInput.data.repeat_interval_minutes,
+      },
+    });
+
+    return NextResponse.json({ policy: serializePolicy(policy) }, { status: 201 });
+  } catch (error: any) {
+    console.error("Error creating escalation policy:", error);
+
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A policy with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
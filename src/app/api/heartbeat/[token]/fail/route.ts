@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordHeartbeatPing } from "@/lib/heartbeat";
+import { runImmediateCycle } from "@/lib/scheduler";
+
+/**
+ * GET|POST /api/heartbeat/[token]/fail
+ * Called by a job when it fails; the failure is recorded as a DOWN check and alerted right away
+ * (on the scheduler's next tick instead while another instance holds the monitoring lease)
+ * An optional message can be sent as ?message=... or as the plain-text POST body
+ *
+ * @example
+ * curl -fsS --data "exit code 1" https://your-domain.vercel.app/api/heartbeat/<token>/fail
+ */
+async function handler(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+    const message = request.nextUrl.searchParams.get("message")
+      || (request.method === "POST" ? (await request.text()).trim() : null);
+
+    const endpoint = await recordHeartbeatPing(token, "fail", message);
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: "Heartbeat not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!endpoint.paused && !(await runImmediateCycle("heartbeat", [endpoint.id]))) {
+      console.log(`⏸️ Monitoring lease held by another instance, ${endpoint.name} is evaluated on its next tick`);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Error recording heartbeat failure:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handler;
+export const POST = handler;
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordHeartbeatPing } from "@/lib/heartbeat";
+
+/**
+ * GET|POST /api/heartbeat/[token]
+ * Called by a cron job or worker when it completes successfully
+ * No authentication required - the token in the URL identifies the monitor
+ *
+ * @example
+ * curl -fsS https://your-domain.vercel.app/api/heartbeat/<token>
+ */
+async function handler(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const found = await recordHeartbeatPing(token, "success");
+    if (!found) {
+      return NextResponse.json(
+        { error: "Heartbeat not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Error recording heartbeat:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handler;
+export const POST = handler;
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordHeartbeatPing } from "@/lib/heartbeat";
+
+/**
+ * GET|POST /api/heartbeat/[token]/start
+ * Called by a job when it starts, so the next ping records the run duration
+ */
+async function handler(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token } = await params;
+
+    const found = await recordHeartbeatPing(token, "start");
+    if (!found) {
+      return NextResponse.json(
+        { error: "Heartbeat not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Error recording heartbeat start:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = handler;
+export const POST = handler;
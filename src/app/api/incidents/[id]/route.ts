@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { acknowledgeIncident, formatDuration, serializeIncident } from "@/lib/incidents";
+import { IncidentEventType, IncidentStatus } from "@/generated/prisma";
+
+const includeDetails = {
+  endpoint: { select: { name: true, url: true } },
+  events: { orderBy: { created_at: "asc" as const } },
+};
+
+/**
+ * GET /api/incidents/[id]
+ * Get an incident with its timeline
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const incident = await prisma.incidents.findUnique({
+      where: { id },
+      include: includeDetails,
+    });
+
+    if (!incident) {
+      return NextResponse.json(
+        { error: "Incident not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ incident: serializeIncident(incident) });
+  } catch (error: any) {
+    console.error("Error fetching incident:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/incidents/[id]
+ * Update an incident:
+ * - { status: "ACKNOWLEDGED" } to acknowledge it, { status: "RESOLVED" } to resolve it manually
+ * - { resolutionNotes } to describe the cause and fix
+ * - { note } to add a note to the timeline
+ * - { author } who made the change, shown in the timeline (defaults to "Dashboard")
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { status, resolutionNotes, note } = body;
+    const author = typeof body.author === "string" && body.author.trim() ? body.author.trim() : "Dashboard";
+
+    if (status !== undefined && status !== IncidentStatus.ACKNOWLEDGED && status !== IncidentStatus.RESOLVED) {
+      return NextResponse.json(
+        { error: "Status can only be changed to ACKNOWLEDGED or RESOLVED" },
+        { status: 400 }
+      );
+    }
+
+    if (resolutionNotes !== undefined && resolutionNotes !== null && typeof resolutionNotes !== "string") {
+      return NextResponse.json(
+        { error: "Resolution notes must be text" },
+        { status: 400 }
+      );
+    }
+
+    if (note !== undefined && (typeof note !== "string" || !note.trim())) {
+      return NextResponse.json(
+        { error: "Note must be non-empty text" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.incidents.findUnique({
+      where: { id },
+      select: { id: true, status: true, started_at: true, ended_at: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Incident not found" },
+        { status: 404 }
+      );
+    }
+
+    if (status === IncidentStatus.ACKNOWLEDGED) {
+      if (existing.status !== IncidentStatus.OPEN) {
+        return NextResponse.json(
+          { error: `Incident is already ${existing.status.toLowerCase()}` },
+          { status: 409 }
+        );
+      }
+      await acknowledgeIncident(id, author);
+    }
+
+    if (status === IncidentStatus.RESOLVED && existing.status !== IncidentStatus.RESOLVED) {
+      const endedAt = existing.ended_at ?? new Date();
+      await prisma.incidents.update({
+        where: { id },
+        data: {
+          status: IncidentStatus.RESOLVED,
+          ended_at: endedAt,
+          events: {
+            create: {
+              type: IncidentEventType.RESOLVED,
+              message: `Resolved manually after ${formatDuration(endedAt.getTime() - existing.started_at.getTime())}`,
+              author,
+            },
+          },
+        },
+      });
+    }
+
+    if (resolutionNotes !== undefined) {
+      await prisma.incidents.update({
+        where: { id },
+        data: { resolution_notes: resolutionNotes?.trim() || null },
+      });
+    }
+
+    if (note !== undefined) {
+      await prisma.incident_events.create({
+        data: {
+          incident_id: id,
+          type: IncidentEventType.NOTE,
+          message: note.trim(),
+          author,
+        },
+      });
+    }
+
+    const incident = await prisma.incidents.findUniqueOrThrow({
+      where: { id },
+      include: includeDetails,
+    });
+
+    return NextResponse.json({
+      success: true,
+      incident: serializeIncident(incident),
+    });
+  } catch (error: any) {
+    console.error("Error updating incident:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/incidents/[id]
+ * Delete an incident and its timeline
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    await prisma.incidents.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error("Error deleting incident:", error);
+
+    if (error.code === "P2025") {
+      return NextResponse.json(
+        { error: "Incident not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
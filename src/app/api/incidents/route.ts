@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { INCIDENT_STATUSES, parseNewIncident, serializeIncident } from "@/lib/incidents";
+import { IncidentStatus, Prisma } from "@/generated/prisma";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * GET /api/incidents
+ * List incidents, newest first
+ * Query params:
+ * - endpointId: Optional - only incidents of this endpoint
+ * - status: Optional - OPEN, ACKNOWLEDGED or RESOLVED
+ * - from / to: Optional - ISO dates; incidents overlapping this range
+ * - limit: Optional - maximum number of incidents (default 50, max 500)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const endpointId = searchParams.get("endpointId");
+    const status = searchParams.get("status");
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+    const limit = Math.min(parseInt(searchParams.get("limit") || "") || DEFAULT_LIMIT, MAX_LIMIT);
+
+    if (status && !INCIDENT_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Status must be one of: ${INCIDENT_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const fromDate = from ? new Date(from) : null;
+    const toDate = to ? new Date(to) : null;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return NextResponse.json(
+        { error: "from and to must be ISO dates" },
+        { status: 400 }
+      );
+    }
+
+    const where: Prisma.incidentsWhereInput = {
+      ...(endpointId && { endpoint_id: endpointId }),
+      ...(status && { status: status as IncidentStatus }),
+      ...(toDate && { started_at: { lte: toDate } }),
+      ...(fromDate && { OR: [{ ended_at: null }, { ended_at: { gte: fromDate } }] }),
+    };
+
+    const incidents = await prisma.incidents.findMany({
+      where,
+      include: { endpoint: { select: { name: true, url: true } } },
+      orderBy: { started_at: "desc" },
+      take: limit,
+    });
+
+    return NextResponse.json({ incidents: incidents.map(serializeIncident) });
+  } catch (error: any) {
+    console.error("Error fetching incidents:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/incidents
+ * Record an incident manually, e.g. an outage the monitor could not see
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const incidentInput = parseNewIncident(body);
+    if (!incidentInput.data) {
+      return NextResponse.json(
+        { error: incidentInput.error },
+        { status: 400 }
+      );
+    }
+
+    const endpoint = await prisma.endpoints.findUnique({
+      where: { id: incidentInput.data.endpoint_id },
+      select: { id: true },
+    });
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: "Endpoint not found" },
+        { status: 404 }
+      );
+    }
+
+    const incident = await prisma.incidents.create({
+      data: incidentInput.data,
+      include: {
+        endpoint: { select: { name: true, url: true } },
+        events: { orderBy: { created_at: "asc" } },
+      },
+    });
+
+    return NextResponse.json({ incident: serializeIncident(incident) }, { status: 201 });
+  } catch (error: any) {
+    console.error("Error creating incident:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
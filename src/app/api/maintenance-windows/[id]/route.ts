@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parseMaintenanceWindowInput, serializeMaintenanceWindow } from "@/lib/maintenance";
+
+/**
+ * PATCH /api/maintenance-windows/[id]
+ * Update a maintenance window's times, recurrence or scope
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const current = await prisma.maintenance_windows.findUnique({
+      where: { id },
+    });
+    if (!current) {
+      return NextResponse.json(
+        { error: "Maintenance window not found" },
+        { status: 404 }
+      );
+    }
+
+    const windowInput = await parseMaintenanceWindowInput(body, current);
+    if (!windowInput.data) {
+      return NextResponse.json(
+        { error: windowInput.error },
+        { status: 400 }
+      );
+    }
+
+    const window = await prisma.maintenance_windows.update({
+      where: { id },
+      data: windowInput.data,
+      include: { endpoint: { select: { name: true } } },
+    });
+
+    return NextResponse.json({ window: serializeMaintenanceWindow(window) });
+  } catch (error: any) {
+    console.error("Error updating maintenance window:", error);
+
+    if (error.code === "P2025") {
+      return NextResponse.json(
+        { error: "Maintenance window not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/maintenance-windows/[id]
+ * Delete a maintenance window (checks already tagged as maintenance keep their tag)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    await prisma.maintenance_windows.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ message: "Maintenance window deleted successfully" });
+  } catch (error: any) {
+    console.error("Error deleting maintenance window:", error);
+
+    if (error.code === "P2025") {
+      return NextResponse.json(
+        { error: "Maintenance window not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parseMaintenanceWindowInput, serializeMaintenanceWindow } from "@/lib/maintenance";
+
+/**
+ * GET /api/maintenance-windows
+ * List all maintenance windows with their current or next occurrence
+ */
+export async function GET() {
+  try {
+    const now = new Date();
+    const windows = await prisma.maintenance_windows.findMany({
+      include: { endpoint: { select: { name: true } } },
+      orderBy: { starts_at: "desc" },
+    });
+
+    return NextResponse.json({ windows: windows.map((window) => serializeMaintenanceWindow(window, now)) });
+  } catch (error: any) {
+    console.error("Error fetching maintenance windows:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/maintenance-windows
+ * Schedule a one-off or recurring maintenance window for one endpoint or all of them
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body.name || !body.startsAt || !body.endsAt) {
+      return NextResponse.json(
+        { error: "Name, start time and end time are required" },
+        { status: 400 }
+      );
+    }
+
+    const windowInput = await parseMaintenanceWindowInput(body);
+    if (!windowInput.data) {
+      return NextResponse.json(
+        { error: windowInput.error },
+        { status: 400 }
+      );
+    }
+
+    const window = await prisma.maintenance_windows.create({
+      data: {
+        ...windowInput.data,
+        name: windowInput.data.name!,
+        starts_at: windowInput.data.starts_at!,
+        ends_at: windowInput.data.ends_at!,
+      },
+      include: { endpoint: { select: { name: true } } },
+    });
+
+    return NextResponse.json({ window: serializeMaintenanceWindow(window) }, { status: 201 });
+  } catch (error: any) {
+    console.error("Error creating maintenance window:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parseChannelInput, serializeChannel } from "@/lib/notificationChannels";
+
+/**
+ * PATCH /api/notification-channels/[id]
+ * Update a notification channel
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await prisma.notification_channels.findUnique({
+      where: { id },
+      select: { type: true, config: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Notification channel not found" },
+        { status: 404 }
+      );
+    }
+
+    const channelInput = parseChannelInput(body, existing);
+    if (!channelInput.data) {
+      return NextResponse.json(
+        { error: channelInput.error },
+        { status: 400 }
+      );
+    }
+
+    const channel = await prisma.notification_channels.update({
+      where: { id },
+      data: channelInput.data,
+      include: { _count: { select: { endpoints: true } } },
+    });
+
+    return NextResponse.json({ channel: serializeChannel(channel) });
+  } catch (error: any) {
+    console.error("Error updating notification channel:", error);
+
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A channel with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/notification-channels/[id]
+ * Delete a notification channel (endpoints routed to it stop using it)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    await prisma.notification_channels.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ message: "Notification channel deleted successfully" });
+  } catch (error: any) {
+    console.error("Error deleting notification channel:", error);
+
+    if (error.code === "P2025") {
+      return NextResponse.json(
+        { error: "Notification channel not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
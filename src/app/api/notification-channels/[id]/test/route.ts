@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { deliverToChannel } from "@/lib/notifications";
+
+/**
+ * POST /api/notification-channels/[id]/test
+ * Send a test notification to one channel, optionally with a custom { message }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const channel = await prisma.notification_channels.findUnique({
+      where: { id },
+    });
+
+    if (!channel) {
+      return NextResponse.json(
+        { error: "Notification channel not found" },
+        { status: 404 }
+      );
+    }
+
+    const message = typeof body.message === "string" && body.message.trim()
+      ? body.message
+      : `🔔 *Test notification*\n\nThis is a test alert for the *${channel.name}* channel of Loft Uptime Monitor.`;
+
+    const delivery = await deliverToChannel(
+      channel,
+      {
+        event: "test",
+        title: `Test notification for ${channel.name}`,
+        message,
+      },
+      null
+    );
+    if (!delivery.success) {
+      return NextResponse.json(
+        { error: `Failed to send test notification: ${delivery.error}` },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Test notification sent successfully",
+    });
+  } catch (error: any) {
+    console.error("Error sending test notification:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
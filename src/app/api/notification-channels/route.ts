@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parseChannelInput, serializeChannel } from "@/lib/notificationChannels";
+
+/**
+ * GET /api/notification-channels
+ * List all notification channels with the number of endpoints routed to each
+ */
+export async function GET() {
+  try {
+    const channels = await prisma.notification_channels.findMany({
+      include: { _count: { select: { endpoints: true } } },
+      orderBy: { created_at: "desc" },
+    });
+
+    return NextResponse.json({ channels: channels.map(serializeChannel) });
+  } catch (error: any) {
+    console.error("Error fetching notification channels:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/notification-channels
+ * Create a notification channel (Slack, webhook, email, Teams, Discord or PagerDuty)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body.name || !body.type || !body.config) {
+      return NextResponse.json(
+        { error: "Name, type and settings are required" },
+        { status: 400 }
+      );
+    }
+
+    const channelInput = parseChannelInput(body);
+    if (!channelInput.data) {
+      return NextResponse.json(
+        { error: channelInput.error },
+        { status: 400 }
+      );
+    }
+
+    const channel = await prisma.notification_channels.create({
+      data: {
+        name: channelInput.data.name!,
+        type: channelInput.data.type!,
+        config: channelInput.data.config!,
+        enabled: channelInput.data.enabled,
+        is_default: channelInput.data.is_default,
+      },
+    });
+
+    return NextResponse.json({ channel: serializeChannel(channel) }, { status: 201 });
+  } catch (error: any) {
+    console.error("Error creating notification channel:", error);
+
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A channel with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
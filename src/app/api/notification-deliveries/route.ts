@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { DELIVERY_STATUSES, serializeDelivery } from "@/lib/deliveries";
+import { DeliveryStatus, Prisma } from "@/generated/prisma";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/**
+ * GET /api/notification-deliveries
+ * List alert deliveries with every attempt, newest first
+ * Query params:
+ * - status: Optional - SENT, RETRYING or FAILED
+ * - channelId: Optional - only deliveries to this channel
+ * - endpointId: Optional - only alerts about this endpoint
+ * - from / to: Optional - ISO dates; deliveries created in this range
+ * - limit: Optional - maximum number of deliveries (default 50, max 500)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status");
+    const channelId = searchParams.get("channelId");
+    const endpointId = searchParams.get("endpointId");
+    const from = searchParams.get("from");
+    const to = searchParams.get("to");
+    const limit = Math.min(parseInt(searchParams.get("limit") || "") || DEFAULT_LIMIT, MAX_LIMIT);
+
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Status must be one of: ${DELIVERY_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const fromDate = from ? new Date(from) : null;
+    const toDate = to ? new Date(to) : null;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return NextResponse.json(
+        { error: "from and to must be ISO dates" },
+        { status: 400 }
+      );
+    }
+
+    const where: Prisma.notification_deliveriesWhereInput = {
+      ...(status && { status: status as DeliveryStatus }),
+      ...(channelId && { channel_id: channelId }),
+      ...(endpointId && { endpoint_id: endpointId }),
+      ...((fromDate || toDate) && {
+        created_at: { ...(fromDate && { gte: fromDate }), ...(toDate && { lte: toDate }) },
+      }),
+    };
+
+    const deliveries = await prisma.notification_deliveries.findMany({
+      where,
+      include: {
+        endpoint: { select: { name: true } },
+        attempt_logs: { orderBy: { attempt: "asc" } },
+      },
+      orderBy: { created_at: "desc" },
+      take: limit,
+    });
+
+    return NextResponse.json({ deliveries: deliveries.map(serializeDelivery) });
+  } catch (error: any) {
+    console.error("Error fetching notification deliveries:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
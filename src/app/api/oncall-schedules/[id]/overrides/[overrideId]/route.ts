@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * DELETE /api/oncall-schedules/[id]/overrides/[overrideId]
+ * Remove an override so the rotation applies again
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; overrideId: string }> }
+) {
+  try {
+    const { id, overrideId } = await params;
+
+    const { count } = await prisma.oncall_overrides.deleteMany({
+      where: { id: overrideId, schedule_id: id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Override not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ message: "Override deleted successfully" });
+  } catch (error: any) {
+    console.error("Error deleting on-call override:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parseOverrideInput } from "@/lib/oncall";
+
+/**
+ * POST /api/oncall-schedules/[id]/overrides
+ * Put someone else on call for a time range, e.g. while the scheduled person is away
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const overrideInput = parseOverrideInput(body);
+    if (!overrideInput.data) {
+      return NextResponse.json(
+        { error: overrideInput.error },
+        { status: 400 }
+      );
+    }
+
+    const override = await prisma.oncall_overrides.create({
+      data: { ...overrideInput.data, schedule_id: id },
+    });
+
+    return NextResponse.json(
+      {
+        override: {
+          id: override.id,
+          name: override.name,
+          slackUserId: override.slack_user_id,
+          email: override.email,
+          startsAt: override.starts_at.toISOString(),
+          endsAt: override.ends_at.toISOString(),
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    console.error("Error creating on-call override:", error);
+
+    if (error.code === "P2003") {
+      return NextResponse.json(
+        { error: "On-call schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parseScheduleInput, serializeSchedule } from "@/lib/oncall";
+
+/**
+ * PATCH /api/oncall-schedules/[id]
+ * Update an on-call schedule's rotation or members
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const scheduleInput = parseScheduleInput(body);
+    if (!scheduleInput.data) {
+      return NextResponse.json(
+        { error: scheduleInput.error },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const schedule = await prisma.oncall_schedules.update({
+      where: { id },
+      data: scheduleInput.data,
+      include: {
+        overrides: { where: { ends_at: { gt: now } } },
+        _count: { select: { endpoints: true } },
+      },
+    });
+
+    return NextResponse.json({ schedule: serializeSchedule(schedule, now) });
+  } catch (error: any) {
+    console.error("Error updating on-call schedule:", error);
+
+    if (error.code === "P2025") {
+      return NextResponse.json(
+        { error: "On-call schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A schedule with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/oncall-schedules/[id]
+ * Delete an on-call schedule and its overrides (alerts of its endpoints stop mentioning anyone)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    await prisma.oncall_schedules.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ message: "On-call schedule deleted successfully" });
+  } catch (error: any) {
+    console.error("Error deleting on-call schedule:", error);
+
+    if (error.code === "P2025") {
+      return NextResponse.json(
+        { error: "On-call schedule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
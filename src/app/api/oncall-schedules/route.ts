@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { parseScheduleInput, serializeSchedule } from "@/lib/oncall";
+
+/**
+ * GET /api/oncall-schedules
+ * List all on-call schedules with who is on call now and next, and their upcoming overrides
+ */
+export async function GET() {
+  try {
+    const now = new Date();
+    const schedules = await prisma.oncall_schedules.findMany({
+      include: {
+        overrides: { where: { ends_at: { gt: now } } },
+        _count: { select: { endpoints: true } },
+      },
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json({ schedules: schedules.map((schedule) => serializeSchedule(schedule, now)) });
+  } catch (error: any) {
+    console.error("Error fetching on-call schedules:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/oncall-schedules
+ * Create an on-call schedule with a daily or weekly rotation
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    if (!body.name || !body.startsOn || !body.members) {
+      return NextResponse.json(
+        { error: "Name, start date and members are required" },
+        { status: 400 }
+      );
+    }
+
+    const scheduleInput = parseScheduleInput(body);
+    if (!scheduleInput.data) {
+      return NextResponse.json(
+        { error: scheduleInput.error },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await prisma.oncall_schedules.create({
+      data: {
+        ...scheduleInput.data,
+        name: scheduleInput.data.name!,
+        starts_on: scheduleInput.data.starts_on!,
+        members: scheduleInput.data.members!,
+      },
+      include: { overrides: true },
+    });
+
+    return NextResponse.json({ schedule: serializeSchedule(schedule) }, { status: 201 });
+  } catch (error: any) {
+    console.error("Error creating on-call schedule:", error);
+
+    if (error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A schedule with this name already exists" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
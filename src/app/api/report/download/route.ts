@@ -1,10 +1,40 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import ExcelJS from "exceljs";
+import { formatDuration, getIncidentDuration } from "@/lib/incidents";
+import { getMaintenancePeriods } from "@/lib/maintenance";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const REPORT_HEADERS = [
+  "Endpoint",
+  "Date",
+  "Uptime %",
+  "Total Checks",
+  "Failed Checks",
+  "Degraded Checks",
+  "Maintenance Checks",
+  "Incidents",
+  "Downtime Duration",
+  "Degraded Duration",
+  "Maintenance Duration",
+  "Error Message",
+  "Status Code",
+];
+
+/**
+ * Milliseconds of [start, end] that fall inside [from, to], 0 when they do not overlap
+ * Used for the per-day rows and the overall summary alike, so both add up the same time
+ */
+function getOverlapMs(start: Date, end: Date, from: number, to: number): number {
+  return Math.max(0, Math.min(end.getTime(), to) - Math.max(start.getTime(), from));
+}
 
 /**
  * GET /api/report/download
  * Generate and download an Excel report for uptime monitoring data
+ * Checks during maintenance windows are left out of uptime; maintenance time is reported in its own column
+ * DEGRADED (slow) checks count as up, their time is reported apart from downtime
  * Query params:
  * - startDate: ISO date string (YYYY-MM-DD)
  * - endDate: ISO date string (YYYY-MM-DD)
@@ -38,6 +68,7 @@ export async function GET(request: Request) {
         name: true,
         url: true,
         type: true,
+        interval_seconds: true,
       },
       orderBy: { name: "asc" },
     });
@@ -58,7 +89,8 @@ export async function GET(request: Request) {
     const reportSheet = workbook.addWorksheet("Daily Report");
     
     // Add title
-    reportSheet.mergeCells("A1:F1");
+    // Title, period and summary rows span the whole table
+    reportSheet.mergeCells(1, 1, 1, REPORT_HEADERS.length);
     const titleCell = reportSheet.getCell("A1");
     titleCell.value = "Uptime Monitoring - Daily Report";
     titleCell.font = { size: 16, bold: true };
@@ -71,7 +103,7 @@ export async function GET(request: Request) {
     titleCell.font = { size: 16, bold: true, color: { argb: "FFFFFFFF" } };
     
     // Add date range
-    reportSheet.mergeCells("A2:F2");
+    reportSheet.mergeCells(2, 1, 2, REPORT_HEADERS.length);
     const dateRangeCell = reportSheet.getCell("A2");
     dateRangeCell.value = `Period: ${startDateParam} to ${endDateParam}`;
     dateRangeCell.font = { size: 12, bold: true };
@@ -80,16 +112,7 @@ export async function GET(request: Request) {
     reportSheet.getRow(3).values = [];
     
     // Headers for day-by-day report
-    reportSheet.getRow(4).values = [
-      "Endpoint",
-      "Date",
-      "Uptime %",
-      "Total Checks",
-      "Failed Checks",
-      "Downtime Duration",
-      "Error Message",
-      "Status Code",
-    ];
+    reportSheet.getRow(4).values = REPORT_HEADERS;
     reportSheet.getRow(4).font = { bold: true, color: { argb: "FFFFFFFF" } };
     reportSheet.getRow(4).fill = {
       type: "pattern",
@@ -102,9 +125,57 @@ export async function GET(request: Request) {
     let overallTotalChecks = 0;
     let overallUpChecks = 0;
     let overallDownChecks = 0;
+    let overallDegradedChecks = 0;
+    let overallDegradedMs = 0;
+    let overallIncidents = 0;
+    let overallDowntimeMs = 0;
+    let overallMaintenanceChecks = 0;
+    let overallMaintenanceMs = 0;
+    const reportIncidents: {
+      endpointName: string;
+      startedAt: Date;
+      endedAt: Date | null;
+      durationMs: number;
+      status: string;
+      firstError: string | null;
+      httpCode: number | null;
+      acknowledgedBy: string | null;
+      resolutionNotes: string | null;
+    }[] = [];
 
     // Fetch data for each endpoint and generate day-by-day report
     for (const endpoint of endpoints) {
+      // Incidents overlapping the report period give the real downtime
+      const incidents = await prisma.incidents.findMany({
+        where: {
+          endpoint_id: endpoint.id,
+          started_at: { lte: endDate },
+          OR: [{ ended_at: null }, { ended_at: { gte: startDate } }],
+        },
+        orderBy: { started_at: "asc" },
+      });
+      const now = new Date();
+
+      for (const incident of incidents) {
+        const durationMs = getIncidentDuration(incident, now);
+        overallIncidents++;
+        // Only the part inside the report period counts, like the per-day rows
+        overallDowntimeMs += getOverlapMs(incident.started_at, incident.ended_at ?? now, startDate.getTime(), endDate.getTime());
+        reportIncidents.push({
+          endpointName: endpoint.name,
+          startedAt: incident.started_at,
+          endedAt: incident.ended_at,
+          durationMs,
+          status: incident.status,
+          firstError: incident.first_error,
+          httpCode: incident.http_code,
+          acknowledgedBy: incident.acknowledged_by,
+          resolutionNotes: incident.resolution_notes,
+        });
+      }
+
+      const maintenancePeriods = await getMaintenancePeriods(endpoint.id, startDate, endDate);
+
       // Get daily aggregated data
       const dailyStats = await prisma.$queryRaw<
         Array<{
@@ -112,6 +183,8 @@ export async function GET(request: Request) {
           total_checks: bigint;
           up_checks: bigint;
           down_checks: bigint;
+          degraded_checks: bigint;
+          maintenance_checks: bigint;
           first_error: string | null;
           first_http_code: number | null;
         }>
@@ -119,9 +192,11 @@ export async function GET(request: Request) {
         WITH daily_aggregates AS (
           SELECT 
             DATE(checked_at) as date,
-            COUNT(*) as total_checks,
-            COUNT(*) FILTER (WHERE status = 'UP') as up_checks,
-            COUNT(*) FILTER (WHERE status = 'DOWN') as down_checks
+            COUNT(*) FILTER (WHERE NOT in_maintenance) as total_checks,
+            COUNT(*) FILTER (WHERE status = 'UP' AND NOT in_maintenance) as up_checks,
+            COUNT(*) FILTER (WHERE status = 'DOWN' AND NOT in_maintenance) as down_checks,
+            COUNT(*) FILTER (WHERE status = 'DEGRADED' AND NOT in_maintenance) as degraded_checks,
+            COUNT(*) FILTER (WHERE in_maintenance) as maintenance_checks
           FROM checks
           WHERE endpoint_id = ${endpoint.id}::uuid
             AND checked_at >= ${startDate}
@@ -138,6 +213,7 @@ export async function GET(request: Request) {
             AND checked_at >= ${startDate}
             AND checked_at <= ${endDate}
             AND status = 'DOWN'
+            AND NOT in_maintenance
           ORDER BY DATE(checked_at), checked_at ASC
         )
         SELECT 
@@ -145,6 +221,8 @@ export async function GET(request: Request) {
           da.total_checks,
           da.up_checks,
           da.down_checks,
+          da.degraded_checks,
+          da.maintenance_checks,
           fe.first_error,
           fe.first_http_code
         FROM daily_aggregates da
@@ -157,7 +235,11 @@ export async function GET(request: Request) {
         const totalChecks = Number(day.total_checks);
         const upChecks = Number(day.up_checks);
         const downChecks = Number(day.down_checks);
-        const uptimePercent = totalChecks > 0 ? ((upChecks / totalChecks) * 100).toFixed(2) : "0.00";
+        const degradedChecks = Number(day.degraded_checks);
+        const maintenanceChecks = Number(day.maintenance_checks);
+        const uptimePercent = totalChecks > 0
+          ? (((upChecks + degradedChecks) / totalChecks) * 100).toFixed(2)
+          : maintenanceChecks > 0 ? "100.00" : "0.00";
         
         // Format date
         const dateStr = new Date(day.date).toLocaleDateString('en-US', {
@@ -172,19 +254,31 @@ export async function GET(request: Request) {
           errorMessage = `HTTP ${day.first_http_code}: ${errorMessage}`;
         }
 
-        // Calculate downtime duration (assuming ~1 minute per check)
-        let downtimeDuration = "-";
-        if (downChecks > 0) {
-          const totalMinutes = downChecks; // Approximately 1 check per minute
-          const hours = Math.floor(totalMinutes / 60);
-          const minutes = totalMinutes % 60;
-          
-          if (hours > 0) {
-            downtimeDuration = `${hours}h ${minutes}m`;
-          } else {
-            downtimeDuration = `${minutes}m`;
+        // Downtime is the part of each incident that falls on this day (days are UTC dates, like DATE(checked_at)),
+        // within the report period like the overall total
+        const dayStart = Math.max(new Date(day.date).getTime(), startDate.getTime());
+        const dayEnd = Math.min(new Date(day.date).getTime() + DAY_MS, endDate.getTime());
+        let downtimeMs = 0;
+        let dayIncidents = 0;
+        for (const incident of incidents) {
+          // Incidents that started before the period count on its first day, so the days add up to the total
+          const incidentStart = Math.max(incident.started_at.getTime(), startDate.getTime());
+          if (incidentStart >= dayStart && incidentStart < dayEnd) {
+            dayIncidents++;
           }
+          downtimeMs += getOverlapMs(incident.started_at, incident.ended_at ?? now, dayStart, dayEnd);
         }
+        const downtimeDuration = downtimeMs > 0 ? formatDuration(downtimeMs) : "-";
+
+        let maintenanceMs = 0;
+        for (const period of maintenancePeriods) {
+          maintenanceMs += getOverlapMs(period.start, period.end, dayStart, dayEnd);
+        }
+        const maintenanceDuration = maintenanceMs > 0 ? formatDuration(maintenanceMs) : "-";
+
+        // Each slow check stands for one check interval of degraded time
+        const degradedMs = degradedChecks * endpoint.interval_seconds * 1000;
+        const degradedDuration = degradedMs > 0 ? formatDuration(degradedMs) : "-";
 
         const row = reportSheet.getRow(currentRow);
         row.values = [
@@ -193,13 +287,24 @@ export async function GET(request: Request) {
           `${uptimePercent}%`,
           totalChecks,
           downChecks,
+          degradedChecks,
+          maintenanceChecks,
+          dayIncidents,
           downtimeDuration,
+          degradedDuration,
+          maintenanceDuration,
           errorMessage,
           day.first_http_code || "-",
         ];
 
-        // Color code based on uptime
-        if (parseFloat(uptimePercent) === 100) {
+        // Color code based on uptime, slow days without downtime in amber
+        if (parseFloat(uptimePercent) === 100 && degradedChecks > 0) {
+          row.fill = {
+            type: "pattern",
+            pattern: "solid",
+            fgColor: { argb: "FFFEF3C7" }, // Light amber
+          };
+        } else if (parseFloat(uptimePercent) === 100) {
           row.fill = {
             type: "pattern",
             pattern: "solid",
@@ -223,6 +328,10 @@ export async function GET(request: Request) {
         overallTotalChecks += totalChecks;
         overallUpChecks += upChecks;
         overallDownChecks += downChecks;
+        overallDegradedChecks += degradedChecks;
+        overallDegradedMs += degradedMs;
+        overallMaintenanceChecks += maintenanceChecks;
+        overallMaintenanceMs += maintenanceMs;
 
         currentRow++;
       }
@@ -231,7 +340,7 @@ export async function GET(request: Request) {
     // Add overall summary at the bottom
     currentRow += 2; // Add some spacing
     
-    reportSheet.mergeCells(`A${currentRow}:G${currentRow}`);
+    reportSheet.mergeCells(currentRow, 1, currentRow, REPORT_HEADERS.length);
     const summaryTitleCell = reportSheet.getCell(`A${currentRow}`);
     summaryTitleCell.value = "OVERALL SUMMARY";
     summaryTitleCell.font = { bold: true, size: 14, color: { argb: "FFFFFFFF" } };
@@ -243,9 +352,10 @@ export async function GET(request: Request) {
     summaryTitleCell.alignment = { horizontal: "center", vertical: "middle" };
     currentRow++;
 
+    // A period spent entirely in maintenance had no unplanned downtime
     const overallUptimePercent = overallTotalChecks > 0 
-      ? ((overallUpChecks / overallTotalChecks) * 100).toFixed(2)
-      : "0.00";
+      ? (((overallUpChecks + overallDegradedChecks) / overallTotalChecks) * 100).toFixed(2)
+      : overallMaintenanceChecks > 0 ? "100.00" : "0.00";
 
     reportSheet.getRow(currentRow).values = ["Total Checks:", overallTotalChecks];
     reportSheet.getRow(currentRow).font = { bold: true };
@@ -269,6 +379,35 @@ export async function GET(request: Request) {
     };
     currentRow++;
 
+    reportSheet.getRow(currentRow).values = ["Degraded Checks:", overallDegradedChecks];
+    reportSheet.getRow(currentRow).font = { bold: true };
+    reportSheet.getCell(`B${currentRow}`).fill = {
+      type: "pattern",
+      pattern: "solid",
+      fgColor: { argb: "FFFEF3C7" },
+    };
+    currentRow++;
+
+    reportSheet.getRow(currentRow).values = ["Maintenance Checks:", overallMaintenanceChecks];
+    reportSheet.getRow(currentRow).font = { bold: true };
+    currentRow++;
+
+    reportSheet.getRow(currentRow).values = ["Incidents:", overallIncidents];
+    reportSheet.getRow(currentRow).font = { bold: true };
+    currentRow++;
+
+    reportSheet.getRow(currentRow).values = ["Total Downtime:", overallDowntimeMs > 0 ? formatDuration(overallDowntimeMs) : "-"];
+    reportSheet.getRow(currentRow).font = { bold: true };
+    currentRow++;
+
+    reportSheet.getRow(currentRow).values = ["Total Degraded:", overallDegradedMs > 0 ? formatDuration(overallDegradedMs) : "-"];
+    reportSheet.getRow(currentRow).font = { bold: true };
+    currentRow++;
+
+    reportSheet.getRow(currentRow).values = ["Total Maintenance:", overallMaintenanceMs > 0 ? formatDuration(overallMaintenanceMs) : "-"];
+    reportSheet.getRow(currentRow).font = { bold: true };
+    currentRow++;
+
     reportSheet.getRow(currentRow).values = ["Overall Uptime:", `${overallUptimePercent}%`];
     reportSheet.getRow(currentRow).font = { bold: true, size: 12 };
     reportSheet.getCell(`B${currentRow}`).font = { bold: true, size: 12, color: { argb: "FF2E75B6" } };
@@ -280,11 +419,62 @@ export async function GET(request: Request) {
       { width: 12 }, // Uptime
       { width: 15 }, // Total Checks
       { width: 15 }, // Failed Checks
+      { width: 16 }, // Degraded Checks
+      { width: 20 }, // Maintenance Checks
+      { width: 12 }, // Incidents
       { width: 18 }, // Downtime Duration
+      { width: 18 }, // Degraded Duration
+      { width: 22 }, // Maintenance Duration
       { width: 50 }, // Error Message
       { width: 15 }, // Status Code
     ];
 
+    // Incidents sheet with one row per incident
+    const incidentSheet = workbook.addWorksheet("Incidents");
+    incidentSheet.getRow(1).values = [
+      "Endpoint",
+      "Started",
+      "Ended",
+      "Duration",
+      "Status",
+      "First Error",
+      "Status Code",
+      "Acknowledged By",
+      "Resolution Notes",
+    ];
+    incidentSheet.getRow(1).font = { bold: true, color: { argb: "FFFFFFFF" } };
+    incidentSheet.getRow(1).fill = {
+      type: "pattern",
+      pattern: "solid",
+      fgColor: { argb: "FF2E75B6" },
+    };
+
+    reportIncidents.forEach((incident, index) => {
+      incidentSheet.getRow(index + 2).values = [
+        incident.endpointName,
+        incident.startedAt.toISOString(),
+        incident.endedAt ? incident.endedAt.toISOString() : "Ongoing",
+        formatDuration(incident.durationMs),
+        incident.status,
+        incident.firstError || "-",
+        incident.httpCode || "-",
+        incident.acknowledgedBy || "-",
+        incident.resolutionNotes || "-",
+      ];
+    });
+
+    incidentSheet.columns = [
+      { width: 30 }, // Endpoint
+      { width: 26 }, // Started
+      { width: 26 }, // Ended
+      { width: 12 }, // Duration
+      { width: 15 }, // Status
+      { width: 50 }, // First Error
+      { width: 12 }, // Status Code
+      { width: 20 }, // Acknowledged By
+      { width: 50 }, // Resolution Notes
+    ];
+
     // Generate Excel file
     const buffer = await workbook.xlsx.writeBuffer();
 
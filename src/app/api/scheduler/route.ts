@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getSchedulerStatus, runImmediateCycle, startMonitoringScheduler, stopMonitoringScheduler } from "@/lib/scheduler";
+import { getLastRunReport } from "@/lib/monitoringCycle";
+import { MONITORING_LEASE, getLease } from "@/lib/leaderElection";
+
+type SchedulerAction = "start" | "stop" | "run" | "pause" | "resume";
+
+const ACTIONS: SchedulerAction[] = ["start", "stop", "run", "pause", "resume"];
+
+/**
+ * Build the scheduler state returned by every handler
+ */
+async function getSchedulerState() {
+  const [lease, lastCheck] = await Promise.all([
+    getLease(MONITORING_LEASE),
+    prisma.checks.findFirst({
+      orderBy: { checked_at: "desc" },
+      select: { checked_at: true },
+    }),
+  ]);
+  const status = getSchedulerStatus();
+  const lastRun = getLastRunReport();
+  const leaseActive = lease !== null && lease.expires_at > new Date();
+
+  return {
+    running: status.running,
+    isLeader: status.isLeader,
+    tickSeconds: status.tickSeconds,
+    nextRunAt: status.nextRunAt?.toISOString() ?? null,
+    leader: leaseActive
+      ? {
+          holder: lease.holder,
+          acquiredAt: lease.acquired_at.toISOString(),
+          expiresAt: lease.expires_at.toISOString(),
+        }
+      : null,
+    lastCycle: lastRun
+      ? {
+          trigger: lastRun.trigger,
+          startedAt: lastRun.startedAt.toISOString(),
+          finishedAt: lastRun.finishedAt.toISOString(),
+          duration: lastRun.duration,
+          total: lastRun.total,
+          checked: lastRun.checked,
+          up: lastRun.up,
+          down: lastRun.down,
+          degraded: lastRun.degraded,
+          skipped: lastRun.skipped.length,
+        }
+      : null,
+    lastCheckAt: lastCheck?.checked_at.toISOString() ?? null,
+  };
+}
+
+/**
+ * GET /api/scheduler
+ * Report whether the scheduler runs on this instance, which instance leads,
+ * the last cycle run here and the next run time
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ scheduler: await getSchedulerState() });
+  } catch (error: any) {
+    console.error("Error fetching scheduler state:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/scheduler
+ * Control the scheduler: { action: "start" | "stop" } for this instance,
+ * { action: "run", endpointId? } to check one or all endpoints now (409 while another instance holds the monitoring lease),
+ * { action: "pause" | "resume", endpointId } to pause or resume an endpoint
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { action, endpointId } = body as { action?: SchedulerAction; endpointId?: string };
+
+    if (!action || !ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `Action must be one of: ${ACTIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if ((action === "pause" || action === "resume") && !endpointId) {
+      return NextResponse.json(
+        { error: "endpointId is required to pause or resume an endpoint" },
+        { status: 400 }
+      );
+    }
+
+    if (endpointId) {
+      const endpoint = await prisma.endpoints.findUnique({
+        where: { id: endpointId },
+        select: { id: true, paused: true },
+      });
+
+      if (!endpoint) {
+        return NextResponse.json(
+          { error: "Endpoint not found" },
+          { status: 404 }
+        );
+      }
+
+      if (action === "run" && endpoint.paused) {
+        return NextResponse.json(
+          { error: "Endpoint is paused - resume it before running a check" },
+          { status: 400 }
+        );
+      }
+    }
+
+    switch (action) {
+      case "start":
+        startMonitoringScheduler();
+        break;
+      case "stop":
+        stopMonitoringScheduler();
+        break;
+      case "pause":
+      case "resume":
+        await prisma.endpoints.update({
+          where: { id: endpointId },
+          data: { paused: action === "pause" },
+        });
+        break;
+      case "run": {
+        // Manual runs check right away, whether or not the interval has elapsed
+        const endpointIds = endpointId
+          ? [endpointId]
+          : (await prisma.endpoints.findMany({ select: { id: true } })).map((endpoint) => endpoint.id);
+
+        const report = await runImmediateCycle("manual", endpointIds);
+        if (!report) {
+          return NextResponse.json(
+            { error: "Monitoring cycle is running on another instance - try again in a moment" },
+            { status: 409 }
+          );
+        }
+
+        return NextResponse.json({
+          report,
+          scheduler: await getSchedulerState(),
+        });
+      }
+    }
+
+    return NextResponse.json({ scheduler: await getSchedulerState() });
+  } catch (error: any) {
+    console.error("Error controlling scheduler:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { acknowledgeIncident, getOngoingIncident } from "@/lib/incidents";
+import {
+  SLACK_ACTIONS,
+  SLACK_MUTE_DURATION_MS,
+  SlackBlock,
+  markSlackMessageHandled,
+  verifySlackSignature,
+} from "@/lib/slack";
+
+interface SlackInteractionPayload {
+  type: string;
+  user?: { id: string; username?: string; name?: string };
+  actions?: { action_id: string; value?: string }[];
+  response_url?: string;
+  message?: { text?: string; attachments?: { color?: string; blocks?: SlackBlock[] }[] };
+}
+
+/**
+ * POST /api/slack/interactions
+ * Handle the Acknowledge and Mute for 1h buttons on Slack alerts
+ * Public route: requests are authenticated with the Slack app's signing secret (SLACK_SIGNING_SECRET)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rawBody = await request.text();
+
+    const validSignature = verifySlackSignature(
+      rawBody,
+      request.headers.get("x-slack-request-timestamp"),
+      request.headers.get("x-slack-signature")
+    );
+    if (!validSignature) {
+      return NextResponse.json(
+        { error: "Invalid Slack signature" },
+        { status: 401 }
+      );
+    }
+
+    const payload = JSON.parse(new URLSearchParams(rawBody).get("payload") || "{}") as SlackInteractionPayload;
+    const action = payload.actions?.[0];
+
+    // Slack expects a 200 for every interaction, including ones we do not handle
+    if (payload.type !== "block_actions" || !action?.value) {
+      return new NextResponse(null, { status: 200 });
+    }
+
+    const user = payload.user ? `<@${payload.user.id}>` : "someone";
+    const endpoint = await prisma.endpoints.findUnique({
+      where: { id: action.value },
+      select: { id: true, name: true },
+    });
+
+    let note: string;
+    if (!endpoint) {
+      note = "⚠️ This endpoint is no longer monitored";
+    } else if (action.action_id === SLACK_ACTIONS.acknowledge) {
+      const incident = await getOngoingIncident(endpoint.id);
+      const acknowledged = incident
+        ? await acknowledgeIncident(
+            incident.id,
+            payload.user?.username || payload.user?.name || payload.user?.id || null
+          )
+        : null;
+      note = acknowledged
+        ? `👀 Acknowledged by ${user}`
+        : incident
+          ? `👀 Already acknowledged by ${incident.acknowledged_by || "someone else"}`
+          : "✅ This outage is already resolved";
+      console.log(`👀 Outage of ${endpoint.name} acknowledged from Slack by ${payload.user?.id}`);
+    } else if (action.action_id === SLACK_ACTIONS.mute) {
+      const mutedUntil = new Date(Date.now() + SLACK_MUTE_DURATION_MS);
+      await prisma.endpoints.update({
+        where: { id: endpoint.id },
+        data: { alerts_muted_until: mutedUntil },
+      });
+      const unix = Math.floor(mutedUntil.getTime() / 1000);
+      note = `🔕 Alerts muted by ${user} until <!date^${unix}^{time}|${mutedUntil.toISOString()}>`;
+      console.log(`🔕 Alerts for ${endpoint.name} muted from Slack until ${mutedUntil.toISOString()}`);
+    } else {
+      return new NextResponse(null, { status: 200 });
+    }
+
+    // Update the alert in place so the channel sees who handled it
+    if (payload.response_url && payload.message) {
+      await fetch(payload.response_url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          replace_original: true,
+          ...markSlackMessageHandled(payload.message, action.action_id, note),
+        }),
+        signal: AbortSignal.timeout(5000),
+      });
+    }
+
+    return new NextResponse(null, { status: 200 });
+  } catch (error: any) {
+    console.error("Error handling Slack interaction:", error);
+    return NextResponse.json(
+      { error: error.message || "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,14 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { getUpcomingMaintenance } from "@/lib/maintenance";
+
+// How far ahead the status page lists scheduled maintenance
+const UPCOMING_MAINTENANCE_DAYS = 14;
 
 /**
  * GET /api/status
  * Get overall status of all services with optimized daily aggregation
+ * Checks run during maintenance windows are counted separately and left out of uptime
  * Query params:
  * - endDate: ISO date string (defaults to today)
  * - days: number of days to fetch (defaults to 90)
@@ -31,6 +36,8 @@ export async function GET(request: Request) {
         name: true,
         url: true,
         type: true,
+        interval_seconds: true,
+        downtime_tracker: { select: { flapping_since: true } },
       },
     });
 
@@ -43,6 +50,7 @@ export async function GET(request: Request) {
           orderBy: { checked_at: "desc" },
           select: {
             status: true,
+            in_maintenance: true,
             checked_at: true,
           },
         });
@@ -54,6 +62,8 @@ export async function GET(request: Request) {
             total_checks: bigint;
             up_checks: bigint;
             down_checks: bigint;
+            degraded_checks: bigint;
+            maintenance_checks: bigint;
             avg_response_time: number | null;
             first_error: string | null;
             first_http_code: number | null;
@@ -62,10 +72,12 @@ export async function GET(request: Request) {
           WITH daily_aggregates AS (
             SELECT 
               DATE(checked_at) as date,
-              COUNT(*) as total_checks,
-              COUNT(*) FILTER (WHERE status = 'UP') as up_checks,
-              COUNT(*) FILTER (WHERE status = 'DOWN') as down_checks,
-              AVG(response_time) FILTER (WHERE response_time IS NOT NULL) as avg_response_time
+              COUNT(*) FILTER (WHERE NOT in_maintenance) as total_checks,
+              COUNT(*) FILTER (WHERE status = 'UP' AND NOT in_maintenance) as up_checks,
+              COUNT(*) FILTER (WHERE status = 'DOWN' AND NOT in_maintenance) as down_checks,
+              COUNT(*) FILTER (WHERE status = 'DEGRADED' AND NOT in_maintenance) as degraded_checks,
+              COUNT(*) FILTER (WHERE in_maintenance) as maintenance_checks,
+              AVG(response_time) FILTER (WHERE response_time IS NOT NULL AND NOT in_maintenance) as avg_response_time
             FROM checks
             WHERE endpoint_id = ${endpoint.id}::uuid
               AND checked_at >= ${startDate}
@@ -82,6 +94,7 @@ export async function GET(request: Request) {
               AND checked_at >= ${startDate}
               AND checked_at <= ${endDate}
               AND status = 'DOWN'
+              AND NOT in_maintenance
             ORDER BY DATE(checked_at), checked_at ASC
           )
           SELECT 
@@ -89,6 +102,8 @@ export async function GET(request: Request) {
             da.total_checks,
             da.up_checks,
             da.down_checks,
+            da.degraded_checks,
+            da.maintenance_checks,
             da.avg_response_time,
             fe.first_error,
             fe.first_http_code
@@ -102,13 +117,19 @@ export async function GET(request: Request) {
           (sum, day) => sum + Number(day.total_checks),
           0
         );
+        // Degraded checks were slow but answered, so they count towards uptime
         const totalUpChecks = dailyStats.reduce(
-          (sum, day) => sum + Number(day.up_checks),
+          (sum, day) => sum + Number(day.up_checks) + Number(day.degraded_checks),
+          0
+        );
+        const totalMaintenanceChecks = dailyStats.reduce(
+          (sum, day) => sum + Number(day.maintenance_checks),
           0
         );
+        // A period spent entirely in maintenance had no unplanned downtime
         const uptime = totalChecks > 0 
           ? ((totalUpChecks / totalChecks) * 100).toFixed(1)
-          : "0.0";
+          : totalMaintenanceChecks > 0 ? "100.0" : "0.0";
 
         // Calculate average response time
         const responseTimesAvg = dailyStats
@@ -135,9 +156,11 @@ export async function GET(request: Request) {
             totalChecks: Number(day.total_checks),
             upChecks: Number(day.up_checks),
             downChecks: Number(day.down_checks),
+            degradedChecks: Number(day.degraded_checks),
+            maintenanceChecks: Number(day.maintenance_checks),
             uptimePercent: Number(day.total_checks) > 0
-              ? ((Number(day.up_checks) / Number(day.total_checks)) * 100)
-              : 0,
+              ? (((Number(day.up_checks) + Number(day.degraded_checks)) / Number(day.total_checks)) * 100)
+              : Number(day.maintenance_checks) > 0 ? 100 : 0,
             errorMessage,
           };
         });
@@ -147,7 +170,11 @@ export async function GET(request: Request) {
           name: endpoint.name,
           url: endpoint.url,
           type: endpoint.type,
-          currentStatus: latestCheck?.status || "UNKNOWN",
+          intervalSeconds: endpoint.interval_seconds,
+          // A flapping service alternates between UP and DOWN, so its latest check says little
+          currentStatus: latestCheck?.in_maintenance
+            ? "MAINTENANCE"
+            : endpoint.downtime_tracker?.flapping_since ? "FLAPPING" : latestCheck?.status || "UNKNOWN",
           uptime,
           averageResponseTime,
           lastChecked: latestCheck?.checked_at || null,
@@ -162,9 +189,16 @@ export async function GET(request: Request) {
 
     const allOperational = services.every((s) => s.currentStatus === "UP");
 
+    const now = new Date();
+    const maintenance = await getUpcomingMaintenance(
+      now,
+      new Date(now.getTime() + UPCOMING_MAINTENANCE_DAYS * 24 * 60 * 60 * 1000)
+    );
+
     return NextResponse.json({
       allOperational,
       services,
+      maintenance,
       dateRange: {
         start: startDate.toISOString().split('T')[0],
         end: endDate.toISOString().split('T')[0],
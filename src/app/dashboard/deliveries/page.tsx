@@ -0,0 +1,90 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { NotificationChannelProvider } from "@/contexts/NotificationChannelContext";
+import { NotificationDeliveryProvider } from "@/contexts/NotificationDeliveryContext";
+import { ToastProvider } from "@/contexts/ToastContext";
+import { useAuth } from "@/contexts/AuthContext";
+import DeliveryLogPanel from "@/components/dashboard/DeliveryLogPanel";
+import ToastContainer from "@/components/ToastContainer";
+import Image from "next/image";
+
+function DeliveryLogContent() {
+  const router = useRouter();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center justify-between">
+            {/* Left: Logo and Title */}
+            <div className="flex items-center gap-3">
+              <Image
+                src="/logo/Logo.png"
+                alt="Loft Logo"
+                width={80}
+                height={40}
+                className="object-contain"
+              />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Loft Uptime Monitor</h1>
+                <p className="text-sm text-gray-500">Proof of every alert sent</p>
+              </div>
+            </div>
+
+            {/* Right: Actions */}
+            <button
+              onClick={() => router.push("/dashboard")}
+              className="hover:cursor-pointer px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Back to Dashboard
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <DeliveryLogPanel />
+      </main>
+
+      {/* Toast Notifications */}
+      <ToastContainer />
+    </div>
+  );
+}
+
+function AuthenticatedDeliveryLog() {
+  const { isAuthenticated, isLoading } = useAuth();
+
+  // Show loading while checking authentication
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="inline-block animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-600"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Don't load the providers until authenticated (prevents API calls)
+  if (!isAuthenticated) {
+    return null; // AuthModal will show
+  }
+
+  return (
+    <ToastProvider>
+      <NotificationChannelProvider>
+        <NotificationDeliveryProvider>
+          <DeliveryLogContent />
+        </NotificationDeliveryProvider>
+      </NotificationChannelProvider>
+    </ToastProvider>
+  );
+}
+
+export default function DeliveryLog() {
+  return <AuthenticatedDeliveryLog />;
+}
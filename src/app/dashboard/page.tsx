@@ -3,12 +3,27 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { EndpointProvider, useEndpoints } from "@/contexts/EndpointContext";
+import { NotificationChannelProvider, useNotificationChannels } from "@/contexts/NotificationChannelContext";
+import { IncidentProvider } from "@/contexts/IncidentContext";
+import { EscalationPolicyProvider, useEscalationPolicies } from "@/contexts/EscalationPolicyContext";
+import { OnCallScheduleProvider, useOnCallSchedules } from "@/contexts/OnCallScheduleContext";
+import { MaintenanceWindowProvider } from "@/contexts/MaintenanceWindowContext";
+import { AlertRuleProvider } from "@/contexts/AlertRuleContext";
+import { AlertTemplateProvider } from "@/contexts/AlertTemplateContext";
 import { ToastProvider } from "@/contexts/ToastContext";
 import { useAuth } from "@/contexts/AuthContext";
 import { Endpoint } from "@/services/endpointService";
 import EndpointFormModal, { EndpointFormData } from "@/components/dashboard/EndpointFormModal";
 import DeleteConfirmModal from "@/components/dashboard/DeleteConfirmModal";
 import EndpointsTable from "@/components/dashboard/EndpointsTable";
+import SchedulerPanel from "@/components/dashboard/SchedulerPanel";
+import NotificationChannelsPanel from "@/components/dashboard/NotificationChannelsPanel";
+import IncidentsPanel from "@/components/dashboard/IncidentsPanel";
+import EscalationPoliciesPanel from "@/components/dashboard/EscalationPoliciesPanel";
+import OnCallSchedulesPanel from "@/components/dashboard/OnCallSchedulesPanel";
+import MaintenanceWindowsPanel from "@/components/dashboard/MaintenanceWindowsPanel";
+import AlertRulesPanel from "@/components/dashboard/AlertRulesPanel";
+import AlertTemplatesPanel from "@/components/dashboard/AlertTemplatesPanel";
 import ToastContainer from "@/components/ToastContainer";
 import Image from "next/image";
 
@@ -17,10 +32,16 @@ function DashboardContent() {
   const {
     endpoints,
     loading,
+    fetchEndpoints,
     createEndpoint,
     updateEndpoint,
     deleteEndpoint,
+    runEndpointCheck,
+    setEndpointPaused,
   } = useEndpoints();
+  const { channels, fetchChannels } = useNotificationChannels();
+  const { policies, fetchPolicies } = useEscalationPolicies();
+  const { schedules, fetchSchedules } = useOnCallSchedules();
 
   const [showFormModal, setShowFormModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
@@ -50,6 +71,8 @@ function DashboardContent() {
     } else if (selectedEndpoint) {
       await updateEndpoint(selectedEndpoint.id, data);
     }
+    // Refresh the endpoint counts shown per channel, policy and schedule
+    await Promise.all([fetchChannels(), fetchPolicies(), fetchSchedules()]);
     setShowFormModal(false);
     setSelectedEndpoint(null);
   };
@@ -91,6 +114,12 @@ function DashboardContent() {
               >
                 View Status Page
               </button>
+              <button
+                onClick={() => router.push("/dashboard/deliveries")}
+                className="hover:cursor-pointer px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Delivery Log
+              </button>
               <button
                 onClick={handleOpenCreateModal}
                 className="hover:cursor-pointer px-4 py-2 bg-[#FF5A5F] text-white rounded-lg hover:bg-[#FC4C4C] transition-colors flex items-center gap-2"
@@ -107,6 +136,9 @@ function DashboardContent() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Scheduler Controls */}
+        <SchedulerPanel onChecksRun={fetchEndpoints} />
+
         {/* Endpoints Table */}
         {loading ? (
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
@@ -142,9 +174,27 @@ function DashboardContent() {
               endpoints={endpoints}
               onEdit={handleOpenEditModal}
               onDelete={handleOpenDeleteModal}
+              onRunCheck={(endpoint) => runEndpointCheck(endpoint.id)}
+              onTogglePause={(endpoint) => setEndpointPaused(endpoint.id, !endpoint.paused)}
             />
           </div>
         )}
+
+        {/* Incidents */}
+        <IncidentsPanel />
+
+        {/* Notification Channels */}
+        <NotificationChannelsPanel />
+
+        <AlertRulesPanel />
+
+        <AlertTemplatesPanel />
+
+        <EscalationPoliciesPanel />
+
+        <OnCallSchedulesPanel />
+
+        <MaintenanceWindowsPanel />
       </main>
 
       {/* Form Modal (Add/Edit) */}
@@ -157,6 +207,10 @@ function DashboardContent() {
         onSubmit={handleFormSubmit}
         mode={formMode}
         endpoint={selectedEndpoint}
+        channels={channels}
+        policies={policies}
+        schedules={schedules}
+        endpoints={endpoints}
       />
 
       {/* Delete Confirmation Modal */}
@@ -196,7 +250,21 @@ function AuthenticatedDashboard() {
   return (
     <ToastProvider>
       <EndpointProvider>
-        <DashboardContent />
+        <NotificationChannelProvider>
+          <EscalationPolicyProvider>
+            <OnCallScheduleProvider>
+              <MaintenanceWindowProvider>
+                <AlertRuleProvider>
+                  <AlertTemplateProvider>
+                    <IncidentProvider>
+                      <DashboardContent />
+                    </IncidentProvider>
+                  </AlertTemplateProvider>
+                </AlertRuleProvider>
+              </MaintenanceWindowProvider>
+            </OnCallScheduleProvider>
+          </EscalationPolicyProvider>
+        </NotificationChannelProvider>
       </EndpointProvider>
     </ToastProvider>
   );
@@ -9,6 +9,7 @@ import { useAuth } from "@/contexts/AuthContext";
 import UptimeBar from "@/components/UptimeBar";
 import DayDetailPanel from "@/components/DayDetailPanel";
 import DownloadReportModal from "@/components/DownloadReportModal";
+import ScheduledMaintenance from "@/components/ScheduledMaintenance";
 
 function StatusPageContent() {
   const { logout } = useAuth();
@@ -112,7 +113,8 @@ function StatusPageContent() {
           </div>
         </div>
 
-       
+        {/* Active and upcoming maintenance */}
+        <ScheduledMaintenance maintenance={statusData?.maintenance ?? []} />
 
         {/* Services List */}
         <div className="space-y-6">
@@ -161,6 +163,27 @@ function StatusPageContent() {
                     <h3 className="text-xl font-semibold text-gray-900">
                       {service.name}
                     </h3>
+                    {service.currentStatus === 'FLAPPING' && (
+                      <span
+                        className="px-2 py-0.5 text-xs font-medium text-orange-700 bg-orange-100 rounded"
+                        title="Switching between up and down repeatedly"
+                      >
+                        Flapping
+                      </span>
+                    )}
+                    {service.currentStatus === 'DEGRADED' && (
+                      <span
+                        className="px-2 py-0.5 text-xs font-medium text-amber-700 bg-amber-100 rounded"
+                        title="Up, but responding slower than expected"
+                      >
+                        Degraded
+                      </span>
+                    )}
+                    {service.currentStatus === 'MAINTENANCE' && (
+                      <span className="px-2 py-0.5 text-xs font-medium text-blue-700 bg-blue-100 rounded">
+                        Under maintenance
+                      </span>
+                    )}
                     
                     {/* Date Range Navigation */}
                     
@@ -179,6 +202,7 @@ function StatusPageContent() {
                     dailyData={service.dailyData} 
                     startDate={service.dateRange.start}
                     endDate={service.dateRange.end}
+                    intervalSeconds={service.intervalSeconds}
                     onDayClick={handleDayClick(service.id, service.name)}
                   />
                 </div>
@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useState, useRef } from "react";
-import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Area, AreaChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from "recharts";
 import {
     ChartConfig,
     ChartContainer,
@@ -118,6 +118,7 @@ export default function DayDetailPanel({
                 responseTime: hourData.avgResponseTime || 0,
                 uptime: hourData.uptimePercent || 0,
                 incidents: hourData.downChecks || 0,
+                degraded: hourData.degradedChecks || 0,
             };
         } else if (hour === 24) {
             // End of day marker (24:00 = 00:00 next day)
@@ -127,6 +128,7 @@ export default function DayDetailPanel({
                 responseTime: hourData?.avgResponseTime || 0,
                 uptime: hourData?.uptimePercent || 100,
                 incidents: 0,
+                degraded: 0,
             };
         } else {
             // No data for this hour - show empty
@@ -137,6 +139,7 @@ export default function DayDetailPanel({
                 responseTime: 0,
                 uptime: 100,
                 incidents: 0,
+                degraded: 0,
             };
         }
     });
@@ -145,6 +148,7 @@ export default function DayDetailPanel({
         ...(data.hourlyData?.map(h => h.avgResponseTime || 0) || [0]),
         100 // Minimum scale
     );
+    const degradedThresholdMs = data.endpoint?.degradedThresholdMs ?? null;
 
     return (
         <div className="fixed right-0 top-0 h-full w-[500px] bg-white shadow-2xl border-l border-gray-200 z-50 overflow-y-auto">
@@ -209,6 +213,22 @@ export default function DayDetailPanel({
                             }
                         </span>
                     </div>
+                    {!!data.summary?.degradedChecks && (
+                        <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full w-fit bg-amber-50">
+                            <span className="w-2 h-2 rounded-full bg-amber-500"></span>
+                            <span className="text-xs font-medium text-amber-700">
+                                Degraded for ~{data.summary.degradedMinutes} min ({data.summary.degradedChecks} slow check{data.summary.degradedChecks !== 1 ? 's' : ''}), counted as up
+                            </span>
+                        </div>
+                    )}
+                    {!!data.summary?.maintenanceChecks && (
+                        <div className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full w-fit bg-blue-50">
+                            <span className="w-2 h-2 rounded-full bg-blue-500"></span>
+                            <span className="text-xs font-medium text-blue-700">
+                                {data.summary.maintenanceChecks} check{data.summary.maintenanceChecks !== 1 ? 's' : ''} during scheduled maintenance, not counted in uptime
+                            </span>
+                        </div>
+                    )}
                 </div>
             </div>
 
@@ -285,11 +305,25 @@ export default function DayDetailPanel({
                                                         {item.payload.incidents} incident{item.payload.incidents > 1 ? 's' : ''}
                                                     </div>
                                                 )}
+                                                {item.payload.degraded > 0 && (
+                                                    <div className="text-xs text-amber-500">
+                                                        {item.payload.degraded} slow check{item.payload.degraded > 1 ? 's' : ''}
+                                                    </div>
+                                                )}
                                             </div>
                                         )}
                                     />
                                 }
                             />
+                            {degradedThresholdMs !== null && (
+                                <ReferenceLine
+                                    y={degradedThresholdMs}
+                                    stroke="#F59E0B"
+                                    strokeDasharray="4 4"
+                                    ifOverflow="extendDomain"
+                                    label={{ value: `Degraded ${degradedThresholdMs}ms`, position: 'insideTopRight', fontSize: 10, fill: '#B45309' }}
+                                />
+                            )}
                             <Area
                                 dataKey="responseTime"
                                 type="monotone"
@@ -299,6 +333,7 @@ export default function DayDetailPanel({
                                 dot={(props: any) => {
                                     const { cx, cy, payload, index } = props;
                                     const isDown = payload.incidents > 0;
+                                    const isDegraded = payload.degraded > 0;
 
                                     return (
                                         <circle
@@ -306,7 +341,7 @@ export default function DayDetailPanel({
                                             cx={cx}
                                             cy={cy}
                                             r={3}
-                                            fill={isDown ? "#EF4444" : "#10B981"}
+                                            fill={isDown ? "#EF4444" : isDegraded ? "#F59E0B" : "#10B981"}
                                             stroke="white"
                                             strokeWidth={2}
                                         />
@@ -360,6 +395,21 @@ export default function DayDetailPanel({
                                                 <div className="text-xs text-red-800 break-words leading-relaxed mb-1">
                                                     {incident.error || "Service unavailable"}
                                                 </div>
+                                                {incident.attempts.length > 1 && (
+                                                    <div
+                                                        className="text-xs text-red-600 mb-1"
+                                                        title={incident.attempts
+                                                            .map((attempt) => `#${attempt.attempt} ${formatTimeInTimezone(new Date(attempt.checkedAt), timezone, 'time')}: ${attempt.errorMessage || attempt.status}`)
+                                                            .join('\n')}
+                                                    >
+                                                        Confirmed after {incident.attempts.length} attempts
+                                                    </div>
+                                                )}
+                                                {incident.rootCause && (
+                                                    <div className="text-xs text-purple-700 mb-1">
+                                                        Root cause: {incident.rootCause.name} was down
+                                                    </div>
+                                                )}
                                                 {incident.responseTime && (
                                                     <div className="text-xs text-red-600 flex items-center gap-1">
                                                         <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -0,0 +1,52 @@
+import React from "react";
+import { ScheduledMaintenance as Maintenance } from "@/services/statusService";
+
+interface ScheduledMaintenanceProps {
+  maintenance: Maintenance[];
+}
+
+const formatTime = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export default function ScheduledMaintenance({ maintenance }: ScheduledMaintenanceProps) {
+  if (maintenance.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow border border-blue-200 mb-6 overflow-hidden">
+      <div className="px-6 py-3 bg-blue-50 border-b border-blue-200">
+        <h2 className="text-sm font-semibold text-blue-900">Scheduled Maintenance</h2>
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {maintenance.map((item) => (
+          <li key={`${item.id}-${item.startsAt}`} className="px-6 py-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2 min-w-0">
+                {item.active && (
+                  <span className="px-2 py-0.5 text-xs font-medium text-blue-700 bg-blue-100 rounded">
+                    In progress
+                  </span>
+                )}
+                <span className="text-sm font-medium text-gray-900 truncate">{item.name}</span>
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  {item.endpointName ?? 'All services'}
+                </span>
+              </div>
+              <span className="text-xs text-gray-600 whitespace-nowrap">
+                {formatTime(item.startsAt)} → {formatTime(item.endsAt)}
+              </span>
+            </div>
+            {item.description && (
+              <p className="mt-1 text-xs text-gray-500">{item.description}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ interface DailyData {
   totalChecks: number;
   upChecks: number;
   downChecks: number;
+  degradedChecks?: number; // Slow but up, part of uptime but shown apart from downtime
+  maintenanceChecks?: number; // Checks during maintenance windows, not part of uptime
   uptimePercent: number;
   errorMessage?: string | null;
 }
@@ -13,10 +15,11 @@ interface UptimeBarProps {
   dailyData: DailyData[];
   startDate: string;
   endDate: string;
+  intervalSeconds?: number;
   onDayClick?: (date: string, hasData: boolean) => void;
 }
 
-export default function UptimeBar({ dailyData, startDate, endDate, onDayClick }: UptimeBarProps) {
+export default function UptimeBar({ dailyData, startDate, endDate, intervalSeconds = 30, onDayClick }: UptimeBarProps) {
   // Generate all days in range (fill gaps with no data)
   const generateAllDays = (): Array<DailyData & { hasData: boolean }> => {
     // Parse dates in UTC to avoid timezone issues
@@ -53,8 +56,10 @@ export default function UptimeBar({ dailyData, startDate, endDate, onDayClick }:
 
   const getBarColor = (day: DailyData & { hasData: boolean }) => {
     if (!day.hasData) return "bg-gray-200"; // No data - gray/blank
+    if (day.totalChecks === 0 && day.maintenanceChecks) return "bg-[#3B82F6]"; // Only maintenance - blue
+    if (day.uptimePercent === 100 && day.degradedChecks) return "bg-[#F59E0B]"; // Up but slow - amber
     if (day.uptimePercent === 100) return "bg-[#10B981]"; // Perfect - green
-    if (day.uptimePercent >= 50) return "bg-[#F59E0B]"; // Partial - amber/orange
+    if (day.uptimePercent >= 50) return "bg-[#F97316]"; // Partial - orange
     return "bg-[#EF4444]"; // Major issues - red
   };
 
@@ -68,8 +73,8 @@ export default function UptimeBar({ dailyData, startDate, endDate, onDayClick }:
   };
 
   const getDowntimeDisplay = (downChecks: number) => {
-    // Assuming checks every 30 seconds: 2 checks per minute
-    const downMinutes = Math.round((downChecks * 30) / 60);
+    // Each failed check stands for one check interval of downtime (also used for degraded and maintenance time)
+    const downMinutes = Math.round((downChecks * intervalSeconds) / 60);
     const hours = Math.floor(downMinutes / 60);
     const mins = downMinutes % 60;
     
@@ -83,6 +88,8 @@ export default function UptimeBar({ dailyData, startDate, endDate, onDayClick }:
         {allDays.length > 0 ? (
           allDays.map((day, index) => {
             const downtime = getDowntimeDisplay(day.downChecks);
+            const degraded = getDowntimeDisplay(day.degradedChecks ?? 0);
+            const maintenance = getDowntimeDisplay(day.maintenanceChecks ?? 0);
             
             return (
               <div
@@ -101,8 +108,30 @@ export default function UptimeBar({ dailyData, startDate, endDate, onDayClick }:
                         <div className="font-bold text-sm mb-2 border-b border-gray-700 pb-2">
                           {formatDate(day.date)}
                         </div>
+
+                        {!!day.maintenanceChecks && (
+                          <div className="flex items-center gap-2 mb-2 text-blue-300">
+                            <span className="text-base">🔧</span>
+                            <span className="font-semibold">
+                              Scheduled maintenance
+                              {' '}{maintenance.hours > 0 && `${maintenance.hours} hr${maintenance.hours !== 1 ? 's' : ''} `}
+                              {maintenance.mins} min{maintenance.mins !== 1 ? 's' : ''}
+                            </span>
+                          </div>
+                        )}
+                        
+                        {!!day.degradedChecks && (
+                          <div className="flex items-center gap-2 mb-2 text-amber-300">
+                            <span className="text-base">🐢</span>
+                            <span className="font-semibold">
+                              Degraded performance
+                              {' '}{degraded.hours > 0 && `${degraded.hours} hr${degraded.hours !== 1 ? 's' : ''} `}
+                              {degraded.mins} min{degraded.mins !== 1 ? 's' : ''}
+                            </span>
+                          </div>
+                        )}
                         
-                        {day.uptimePercent === 100 ? (
+                        {day.totalChecks === 0 ? null : day.uptimePercent === 100 ? (
                           // Perfect uptime - no issues
                           <div className="text-green-300">
                             <div className="flex items-center gap-2 mb-1">
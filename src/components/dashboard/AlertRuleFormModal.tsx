@@ -0,0 +1,456 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import InputField from './InputField';
+import TextAreaField from './TextAreaField';
+import { typeOptions } from './EndpointFormModal';
+import { NotificationChannel } from '@/services/notificationChannelService';
+import { AlertRule, AlertSeverity, CreateAlertRuleDTO } from '@/services/alertRuleService';
+
+interface AlertRuleFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: CreateAlertRuleDTO) => Promise<void>;
+  rule?: AlertRule | null;
+  channels: NotificationChannel[];
+  nextPosition: number;
+  mode: 'create' | 'edit';
+}
+
+interface RuleFormState {
+  name: string;
+  position: number;
+  enabled: boolean;
+  endpointTypes: string[];
+  tags: string; // Comma separated
+  severities: AlertSeverity[];
+  days: number[];
+  startTime: string; // Empty for all day
+  endTime: string;
+  timezone: string;
+  channelIds: string[];
+  throttleMinutes: number; // 0 sends every alert
+  messageTemplate: string;
+}
+
+type RuleFormErrors = Partial<Record<keyof RuleFormState, string>>;
+
+export const severityOptions: { value: AlertSeverity; label: string; hint: string }[] = [
+  { value: 'CRITICAL', label: 'Critical', hint: 'down' },
+  { value: 'WARNING', label: 'Warning', hint: 'degraded, certificate, flapping' },
+  { value: 'INFO', label: 'Info', hint: 'recovery' },
+];
+
+export const dayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function getInitialFormState(nextPosition: number): RuleFormState {
+  return {
+    name: '',
+    position: nextPosition,
+    enabled: true,
+    endpointTypes: [],
+    tags: '',
+    severities: [],
+    days: [],
+    startTime: '',
+    endTime: '',
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'Asia/Kolkata',
+    channelIds: [],
+    throttleMinutes: 0,
+    messageTemplate: '',
+  };
+}
+
+/**
+ * Add a value to a list, or remove it when it is already there
+ */
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+}
+
+export default function AlertRuleFormModal({
+  isOpen,
+  onClose,
+  onSubmit,
+  rule,
+  channels,
+  nextPosition,
+  mode,
+}: AlertRuleFormModalProps) {
+  const [formData, setFormData] = useState<RuleFormState>(() => getInitialFormState(nextPosition));
+  const [submitting, setSubmitting] = useState(false);
+  const [errors, setErrors] = useState<RuleFormErrors>({});
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(
+        mode === 'edit' && rule
+          ? {
+              name: rule.name,
+              position: rule.position,
+              enabled: rule.enabled,
+              endpointTypes: rule.endpointTypes,
+              tags: rule.tags.join(', '),
+              severities: rule.severities,
+              days: rule.days,
+              startTime: rule.startTime || '',
+              endTime: rule.endTime || '',
+              timezone: rule.timezone,
+              channelIds: rule.channelIds,
+              throttleMinutes: rule.throttleMinutes ?? 0,
+              messageTemplate: rule.messageTemplate || '',
+            }
+          : getInitialFormState(nextPosition)
+      );
+      setErrors({});
+    }
+  }, [isOpen, mode, rule, nextPosition]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: type === 'number' ? parseInt(value) || 0 : value,
+    }));
+    if (errors[name as keyof RuleFormState]) {
+      setErrors((prev) => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const updateList = <K extends 'endpointTypes' | 'severities' | 'days' | 'channelIds'>(
+    field: K,
+    value: RuleFormState[K][number]
+  ) => {
+    setFormData((prev) => ({ ...prev, [field]: toggle(prev[field] as RuleFormState[K][number][], value) }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: RuleFormErrors = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+    if (formData.position < 0) {
+      newErrors.position = 'Position cannot be negative';
+    }
+    if (Boolean(formData.startTime) !== Boolean(formData.endTime)) {
+      newErrors.startTime = 'Set both times, or leave both empty for all day';
+    } else if (formData.startTime && formData.startTime === formData.endTime) {
+      newErrors.endTime = 'End time must differ from the start time';
+    }
+    if (!formData.timezone.trim()) {
+      newErrors.timezone = 'Timezone is required';
+    }
+    if (formData.throttleMinutes < 0) {
+      newErrors.throttleMinutes = 'Throttle cannot be negative';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit({
+        name: formData.name.trim(),
+        position: formData.position,
+        enabled: formData.enabled,
+        endpointTypes: formData.endpointTypes,
+        tags: formData.tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+        severities: formData.severities,
+        days: formData.days,
+        startTime: formData.startTime || null,
+        endTime: formData.endTime || null,
+        timezone: formData.timezone.trim(),
+        channelIds: formData.channelIds,
+        throttleMinutes: formData.throttleMinutes || null,
+        messageTemplate: formData.messageTemplate.trim() || null,
+      });
+      onClose();
+    } catch (error: any) {
+      const errorMessage = error.message || '';
+
+      if (errorMessage.startsWith('Position')) {
+        setErrors((prev) => ({ ...prev, position: errorMessage }));
+      } else if (errorMessage.startsWith('Tags')) {
+        setErrors((prev) => ({ ...prev, tags: errorMessage }));
+      } else if (errorMessage.startsWith('Start time') || errorMessage.startsWith('End time')) {
+        setErrors((prev) => ({ ...prev, startTime: errorMessage }));
+      } else if (errorMessage.startsWith('Timezone')) {
+        setErrors((prev) => ({ ...prev, timezone: errorMessage }));
+      } else if (errorMessage.startsWith('Notification channel')) {
+        setErrors((prev) => ({ ...prev, channelIds: errorMessage }));
+      } else if (errorMessage.startsWith('Throttle')) {
+        setErrors((prev) => ({ ...prev, throttleMinutes: errorMessage }));
+      } else if (errorMessage.startsWith('Message template')) {
+        setErrors((prev) => ({ ...prev, messageTemplate: errorMessage }));
+      } else {
+        setErrors((prev) => ({ ...prev, name: errorMessage }));
+      }
+      // Error is handled by showing it under the field, no need to show toast
+      console.error('Form submission error:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const checkboxClassName = 'rounded border-gray-300 text-[#FF5A5F] focus:ring-[#FF5A5F]';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center z-50 p-4"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto animate-fadeIn">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {mode === 'create' ? 'Add Alert Rule' : 'Edit Alert Rule'}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors p-1 hover:bg-gray-100 rounded"
+            disabled={submitting}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <InputField
+            label="Rule Name"
+            name="name"
+            type="text"
+            value={formData.name}
+            onChange={handleChange}
+            required
+            placeholder="Databases page at night"
+            error={errors.name}
+          />
+
+          <div className="grid grid-cols-2 gap-4 items-end">
+            <InputField
+              label="Position"
+              name="position"
+              type="number"
+              value={formData.position}
+              onChange={handleChange}
+              min={0}
+              error={errors.position}
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={formData.enabled}
+                onChange={(e) => setFormData((prev) => ({ ...prev, enabled: e.target.checked }))}
+                className={checkboxClassName}
+              />
+              Enabled
+            </label>
+          </div>
+          <p className="text-xs text-gray-500 -mt-2">Rules are tried from the lowest position; the first match wins.</p>
+
+          {/* Conditions */}
+          <div className="pt-2 border-t border-gray-200 space-y-3">
+            <h4 className="text-sm font-semibold text-gray-900 pt-2">Matches</h4>
+
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-1">Endpoint Types</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {typeOptions.map((option) => (
+                  <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.endpointTypes.includes(option.value)}
+                      onChange={() => updateList('endpointTypes', option.value)}
+                      className={checkboxClassName}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <InputField
+              label="Tags"
+              name="tags"
+              type="text"
+              value={formData.tags}
+              onChange={handleChange}
+              placeholder="production, payments"
+              error={errors.tags}
+            />
+
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-1">Severities</p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {severityOptions.map((option) => (
+                  <label key={option.value} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.severities.includes(option.value)}
+                      onChange={() => updateList('severities', option.value)}
+                      className={checkboxClassName}
+                    />
+                    {option.label}
+                    <span className="text-xs text-gray-400">{option.hint}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-1">Days</p>
+              <div className="flex flex-wrap gap-1">
+                {dayLabels.map((label, day) => (
+                  <button
+                    key={label}
+                    type="button"
+                    onClick={() => updateList('days', day)}
+                    className={`hover:cursor-pointer px-2 py-1 text-xs rounded border transition-colors ${
+                      formData.days.includes(day)
+                        ? 'bg-[#FF5A5F] border-[#FF5A5F] text-white'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <InputField
+                label="From"
+                name="startTime"
+                type="time"
+                value={formData.startTime}
+                onChange={handleChange}
+                error={errors.startTime}
+              />
+              <InputField
+                label="Until"
+                name="endTime"
+                type="time"
+                value={formData.endTime}
+                onChange={handleChange}
+                error={errors.endTime}
+              />
+              <InputField
+                label="Timezone"
+                name="timezone"
+                type="text"
+                value={formData.timezone}
+                onChange={handleChange}
+                required
+                placeholder="Asia/Kolkata"
+                error={errors.timezone}
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              Leave a condition empty to match everything. A time window ending before it starts runs past midnight.
+            </p>
+          </div>
+
+          {/* Routing */}
+          <div className="pt-2 border-t border-gray-200 space-y-3">
+            <h4 className="text-sm font-semibold text-gray-900 pt-2">Sends To</h4>
+
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              {channels.map((channel) => (
+                <label key={channel.id} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.channelIds.includes(channel.id)}
+                    onChange={() => updateList('channelIds', channel.id)}
+                    className={checkboxClassName}
+                  />
+                  <span>{channel.name}</span>
+                  <span className="text-xs text-gray-400">{channel.type}</span>
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">Leave all unchecked to drop matching alerts.</p>
+            {errors.channelIds && <p className="text-sm text-red-600">{errors.channelIds}</p>}
+
+            <div>
+              <InputField
+                label="Throttle (minutes)"
+                name="throttleMinutes"
+                type="number"
+                value={formData.throttleMinutes}
+                onChange={handleChange}
+                min={0}
+                error={errors.throttleMinutes}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                At most one alert per endpoint and event in this time. Use 0 to send every alert.
+              </p>
+            </div>
+
+            <div>
+              <TextAreaField
+                label="Message Template"
+                name="messageTemplate"
+                value={formData.messageTemplate}
+                onChange={handleChange}
+                rows={3}
+                placeholder="{{message}}"
+                error={errors.messageTemplate}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Empty keeps the default message. Placeholders: {'{{endpoint.name}}'}, {'{{endpoint.url}}'},
+                {' '}{'{{event}}'}, {'{{severity}}'}, {'{{title}}'}, {'{{message}}'}, {'{{details.error}}'}.
+              </p>
+            </div>
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={submitting}
+              className="hover:cursor-pointer flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="hover:cursor-pointer flex-1 px-4 py-2 bg-[#FF5A5F] text-white rounded-lg hover:bg-[#FC4C4C] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {submitting ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  {mode === 'create' ? 'Creating...' : 'Saving...'}
+                </>
+              ) : (
+                <>{mode === 'create' ? 'Add Rule' : 'Save Changes'}</>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
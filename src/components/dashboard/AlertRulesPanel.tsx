@@ -0,0 +1,171 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useAlertRules } from '@/contexts/AlertRuleContext';
+import { useNotificationChannels } from '@/contexts/NotificationChannelContext';
+import { AlertRule } from '@/services/alertRuleService';
+import AlertRuleFormModal, { dayLabels, severityOptions } from './AlertRuleFormModal';
+
+/**
+ * One-line summary of what a rule matches, e.g. "Database · Critical · Mon–Fri · 22:00–06:00"
+ */
+function describeConditions(rule: AlertRule): string {
+  const conditions = [
+    rule.endpointTypes.join(', '),
+    rule.tags.map((tag) => `#${tag}`).join(' '),
+    rule.severities
+      .map((severity) => severityOptions.find((option) => option.value === severity)?.label ?? severity)
+      .join(', '),
+    rule.days.map((day) => dayLabels[day]).join(', '),
+    rule.startTime && rule.endTime ? `${rule.startTime}–${rule.endTime} ${rule.timezone}` : '',
+  ].filter(Boolean);
+
+  return conditions.length > 0 ? conditions.join(' · ') : 'All alerts';
+}
+
+export default function AlertRulesPanel() {
+  const { rules, loading, createRule, updateRule, deleteRule } = useAlertRules();
+  const { channels } = useNotificationChannels();
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [formMode, setFormMode] = useState<'create' | 'edit'>('create');
+  const [selectedRule, setSelectedRule] = useState<AlertRule | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const channelNames = new Map(channels.map((channel) => [channel.id, channel.name]));
+  const nextPosition = rules.length > 0 ? Math.max(...rules.map((rule) => rule.position)) + 1 : 0;
+
+  const handleOpenCreateModal = () => {
+    setFormMode('create');
+    setSelectedRule(null);
+    setShowFormModal(true);
+  };
+
+  const handleOpenEditModal = (rule: AlertRule) => {
+    setFormMode('edit');
+    setSelectedRule(rule);
+    setShowFormModal(true);
+  };
+
+  const handleToggleEnabled = async (rule: AlertRule) => {
+    setBusyId(rule.id);
+    try {
+      await updateRule(rule.id, { enabled: !rule.enabled });
+    } catch {
+      // Toast already shown by the context
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!window.confirm(`Delete the "${rule.name}" rule?`)) return;
+
+    setBusyId(rule.id);
+    try {
+      await deleteRule(rule.id);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mt-6 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Alert Rules</h2>
+          <p className="text-sm text-gray-500 mt-1">Route alerts by endpoint type, tags, severity and time of day</p>
+        </div>
+        <button
+          onClick={handleOpenCreateModal}
+          className="hover:cursor-pointer px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Add Rule
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="p-6 text-center text-sm text-gray-500">Loading alert rules...</div>
+      ) : rules.length === 0 ? (
+        <div className="p-6 text-center text-sm text-gray-500">
+          No rules yet. Alerts go to each endpoint&apos;s own channels.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {rules.map((rule) => {
+            const destination = rule.channelIds.length > 0
+              ? rule.channelIds.map((id) => channelNames.get(id) || 'deleted channel').join(', ')
+              : 'Dropped';
+
+            return (
+              <li
+                key={rule.id}
+                className={`px-6 py-3 flex items-center justify-between gap-4 hover:bg-gray-50 transition-colors ${
+                  rule.enabled ? '' : 'opacity-60'
+                }`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-gray-400 tabular-nums">#{rule.position}</span>
+                    <span className="text-sm font-medium text-gray-900">{rule.name}</span>
+                    {rule.throttleMinutes && (
+                      <span className="px-2 py-0.5 text-xs font-medium text-gray-600 bg-gray-100 rounded">
+                        1 per {rule.throttleMinutes}m
+                      </span>
+                    )}
+                    {rule.messageTemplate && (
+                      <span className="px-2 py-0.5 text-xs font-medium text-gray-600 bg-gray-100 rounded">Template</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-0.5 truncate">
+                    {describeConditions(rule)} → {destination}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 text-sm flex-shrink-0">
+                  <button
+                    onClick={() => handleToggleEnabled(rule)}
+                    disabled={busyId === rule.id}
+                    className="hover:cursor-pointer px-2 py-1 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    {rule.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  <button
+                    onClick={() => handleOpenEditModal(rule)}
+                    className="hover:cursor-pointer px-2 py-1 text-blue-600 hover:text-blue-900 hover:bg-blue-50 rounded transition-colors"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rule)}
+                    disabled={busyId === rule.id}
+                    className="hover:cursor-pointer px-2 py-1 text-red-600 hover:text-red-900 hover:bg-red-50 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <AlertRuleFormModal
+        isOpen={showFormModal}
+        onClose={() => {
+          setShowFormModal(false);
+          setSelectedRule(null);
+        }}
+        onSubmit={async (data) => {
+          if (formMode === 'create') {
+            await createRule(data);
+          } else if (selectedRule) {
+            await updateRule(selectedRule.id, data);
+          }
+        }}
+        mode={formMode}
+        rule={selectedRule}
+        channels={channels}
+        nextPosition={nextPosition}
+      />
+    </div>
+  );
+}
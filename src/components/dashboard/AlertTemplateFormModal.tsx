@@ -0,0 +1,358 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import InputField from './InputField';
+import SelectField from './SelectField';
+import TextAreaField from './TextAreaField';
+import { Endpoint } from '@/services/endpointService';
+import { NotificationChannel } from '@/services/notificationChannelService';
+import {
+  AlertTemplate,
+  AlertTemplateEvent,
+  AlertTemplatePreview,
+  CreateAlertTemplateDTO,
+  PreviewAlertTemplateDTO,
+} from '@/services/alertTemplateService';
+
+interface AlertTemplateFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: CreateAlertTemplateDTO) => Promise<void>;
+  onPreview: (data: PreviewAlertTemplateDTO) => Promise<AlertTemplatePreview>;
+  template?: AlertTemplate | null;
+  channels: NotificationChannel[];
+  endpoints: Endpoint[];
+  mode: 'create' | 'edit';
+}
+
+interface TemplateFormState {
+  channelId: string; // Empty for all channels
+  event: AlertTemplateEvent;
+  title: string;
+  body: string;
+  timezone: string;
+}
+
+type TemplateFormErrors = Partial<Record<keyof TemplateFormState, string>>;
+
+export const templateEventOptions: { value: AlertTemplateEvent; label: string }[] = [
+  { value: 'DOWN', label: 'Down' },
+  { value: 'RECOVERY', label: 'Recovered' },
+  { value: 'DEGRADED', label: 'Degraded' },
+  { value: 'CERTIFICATE', label: 'Certificate expiring' },
+  { value: 'FLAPPING', label: 'Flapping' },
+];
+
+const placeholders = [
+  'endpoint.name',
+  'endpoint.url',
+  'check.status',
+  'check.responseTime',
+  'check.httpCode',
+  'check.error',
+  'check.checkedAt',
+  'incident.startedAt',
+  'incident.durationMinutes',
+  'incident.acknowledgedBy',
+  'onCall.name',
+  'severity',
+  'now',
+  'title',
+  'message',
+];
+
+function getInitialFormState(): TemplateFormState {
+  return {
+    channelId: '',
+    event: 'DOWN',
+    title: '',
+    body: '',
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'Asia/Kolkata',
+  };
+}
+
+export default function AlertTemplateFormModal({
+  isOpen,
+  onClose,
+  onSubmit,
+  onPreview,
+  template,
+  channels,
+  endpoints,
+  mode,
+}: AlertTemplateFormModalProps) {
+  const [formData, setFormData] = useState<TemplateFormState>(getInitialFormState);
+  const [submitting, setSubmitting] = useState(false);
+  const [errors, setErrors] = useState<TemplateFormErrors>({});
+  const [previewEndpointId, setPreviewEndpointId] = useState('');
+  const [previewing, setPreviewing] = useState(false);
+  const [preview, setPreview] = useState<AlertTemplatePreview | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(
+        mode === 'edit' && template
+          ? {
+              channelId: template.channelId || '',
+              event: template.event,
+              title: template.title || '',
+              body: template.body,
+              timezone: template.timezone,
+            }
+          : getInitialFormState()
+      );
+      setErrors({});
+      setPreview(null);
+    }
+  }, [isOpen, mode, template]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    if (errors[name as keyof TemplateFormState]) {
+      setErrors((prev) => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  /**
+   * Show an error from the API under the field it is about
+   */
+  const showFieldError = (errorMessage: string) => {
+    if (errorMessage.startsWith('Title')) {
+      setErrors((prev) => ({ ...prev, title: errorMessage }));
+    } else if (errorMessage.startsWith('Timezone')) {
+      setErrors((prev) => ({ ...prev, timezone: errorMessage }));
+    } else if (errorMessage.startsWith('Notification channel') || errorMessage.startsWith('A ')) {
+      setErrors((prev) => ({ ...prev, channelId: errorMessage }));
+    } else if (errorMessage.startsWith('Event')) {
+      setErrors((prev) => ({ ...prev, event: errorMessage }));
+    } else {
+      setErrors((prev) => ({ ...prev, body: errorMessage }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: TemplateFormErrors = {};
+
+    if (!formData.body.trim()) {
+      newErrors.body = 'Message is required';
+    }
+    if (!formData.timezone.trim()) {
+      newErrors.timezone = 'Timezone is required';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handlePreview = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    setPreviewing(true);
+    try {
+      setPreview(
+        await onPreview({
+          event: formData.event,
+          title: formData.title.trim() || null,
+          body: formData.body,
+          timezone: formData.timezone.trim(),
+          endpointId: previewEndpointId || null,
+        })
+      );
+    } catch (error: any) {
+      setPreview(null);
+      showFieldError(error.message || '');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit({
+        channelId: formData.channelId || null,
+        event: formData.event,
+        title: formData.title.trim() || null,
+        body: formData.body,
+        timezone: formData.timezone.trim(),
+      });
+      onClose();
+    } catch (error: any) {
+      showFieldError(error.message || '');
+      // Error is handled by showing it under the field, no need to show toast
+      console.error('Form submission error:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center z-50 p-4"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto animate-fadeIn">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {mode === 'create' ? 'Add Alert Template' : 'Edit Alert Template'}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors p-1 hover:bg-gray-100 rounded"
+            disabled={submitting}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <SelectField
+                label="Event"
+                name="event"
+                value={formData.event}
+                onChange={handleChange}
+                options={templateEventOptions}
+                required
+              />
+              {errors.event && <p className="mt-1 text-sm text-red-600">{errors.event}</p>}
+            </div>
+            <div>
+              <SelectField
+                label="Channel"
+                name="channelId"
+                value={formData.channelId}
+                onChange={handleChange}
+                options={[
+                  { value: '', label: 'All channels' },
+                  ...channels.map((channel) => ({ value: channel.id, label: channel.name })),
+                ]}
+              />
+              {errors.channelId && <p className="mt-1 text-sm text-red-600">{errors.channelId}</p>}
+            </div>
+          </div>
+
+          <InputField
+            label="Title"
+            name="title"
+            type="text"
+            value={formData.title}
+            onChange={handleChange}
+            placeholder="{{endpoint.name}} is down"
+            error={errors.title}
+          />
+
+          <TextAreaField
+            label="Message"
+            name="body"
+            value={formData.body}
+            onChange={handleChange}
+            rows={5}
+            required
+            placeholder={'*{{endpoint.name}}* is down since {{incident.startedAt}}\nError: {{check.error}}'}
+            error={errors.body}
+          />
+
+          <InputField
+            label="Timezone"
+            name="timezone"
+            type="text"
+            value={formData.timezone}
+            onChange={handleChange}
+            required
+            placeholder="Asia/Kolkata"
+            error={errors.timezone}
+          />
+
+          <p className="text-xs text-gray-500">
+            Empty title keeps the built-in one. Times are shown in the timezone above. Placeholders:{' '}
+            {placeholders.map((placeholder) => `{{${placeholder}}}`).join(', ')}.
+          </p>
+
+          {/* Preview */}
+          <div className="pt-2 border-t border-gray-200 space-y-3">
+            <h4 className="text-sm font-semibold text-gray-900 pt-2">Preview</h4>
+
+            <div className="flex gap-2 items-end">
+              <div className="flex-1">
+                <SelectField
+                  label="Render with"
+                  name="previewEndpointId"
+                  value={previewEndpointId}
+                  onChange={(e) => setPreviewEndpointId(e.target.value)}
+                  options={[
+                    { value: '', label: 'Sample data' },
+                    ...endpoints.map((endpoint) => ({ value: endpoint.id, label: `${endpoint.name} (latest check)` })),
+                  ]}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={handlePreview}
+                disabled={previewing || submitting}
+                className="hover:cursor-pointer px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {previewing ? 'Rendering...' : 'Preview'}
+              </button>
+            </div>
+
+            {preview && (
+              <div className="rounded-lg border border-gray-200 bg-gray-50 p-3">
+                <p className="text-sm font-semibold text-gray-900">{preview.title}</p>
+                <pre className="mt-1 text-sm text-gray-700 whitespace-pre-wrap font-sans">{preview.message}</pre>
+              </div>
+            )}
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={submitting}
+              className="hover:cursor-pointer flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="hover:cursor-pointer flex-1 px-4 py-2 bg-[#FF5A5F] text-white rounded-lg hover:bg-[#FC4C4C] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {submitting ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  {mode === 'create' ? 'Creating...' : 'Saving...'}
+                </>
+              ) : (
+                <>{mode === 'create' ? 'Add Template' : 'Save Changes'}</>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
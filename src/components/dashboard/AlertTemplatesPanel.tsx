@@ -0,0 +1,124 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useAlertTemplates } from '@/contexts/AlertTemplateContext';
+import { useNotificationChannels } from '@/contexts/NotificationChannelContext';
+import { useEndpoints } from '@/contexts/EndpointContext';
+import { AlertTemplate } from '@/services/alertTemplateService';
+import AlertTemplateFormModal, { templateEventOptions } from './AlertTemplateFormModal';
+
+export default function AlertTemplatesPanel() {
+  const { templates, loading, createTemplate, updateTemplate, deleteTemplate, previewTemplate } = useAlertTemplates();
+  const { channels } = useNotificationChannels();
+  const { endpoints } = useEndpoints();
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [formMode, setFormMode] = useState<'create' | 'edit'>('create');
+  const [selectedTemplate, setSelectedTemplate] = useState<AlertTemplate | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const handleOpenCreateModal = () => {
+    setFormMode('create');
+    setSelectedTemplate(null);
+    setShowFormModal(true);
+  };
+
+  const handleOpenEditModal = (template: AlertTemplate) => {
+    setFormMode('edit');
+    setSelectedTemplate(template);
+    setShowFormModal(true);
+  };
+
+  const handleDelete = async (template: AlertTemplate) => {
+    if (!window.confirm('Delete this template? Its alerts go back to the default wording.')) return;
+
+    setDeletingId(template.id);
+    try {
+      await deleteTemplate(template.id);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mt-6 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Alert Templates</h2>
+          <p className="text-sm text-gray-500 mt-1">Customize alert messages per event and channel</p>
+        </div>
+        <button
+          onClick={handleOpenCreateModal}
+          className="hover:cursor-pointer px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Add Template
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="p-6 text-center text-sm text-gray-500">Loading alert templates...</div>
+      ) : templates.length === 0 ? (
+        <div className="p-6 text-center text-sm text-gray-500">
+          No templates yet. Alerts use the built-in messages.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {templates.map((template) => (
+            <li
+              key={template.id}
+              className="px-6 py-3 flex items-center justify-between gap-4 hover:bg-gray-50 transition-colors"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-900">
+                    {templateEventOptions.find((option) => option.value === template.event)?.label ?? template.event}
+                  </span>
+                  <span className="px-2 py-0.5 text-xs font-medium text-gray-600 bg-gray-100 rounded">
+                    {template.channelName ?? 'All channels'}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500 mt-0.5 truncate">
+                  {template.title ? `${template.title} · ` : ''}{template.body}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 text-sm flex-shrink-0">
+                <button
+                  onClick={() => handleOpenEditModal(template)}
+                  className="hover:cursor-pointer px-2 py-1 text-blue-600 hover:text-blue-900 hover:bg-blue-50 rounded transition-colors"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(template)}
+                  disabled={deletingId === template.id}
+                  className="hover:cursor-pointer px-2 py-1 text-red-600 hover:text-red-900 hover:bg-red-50 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AlertTemplateFormModal
+        isOpen={showFormModal}
+        onClose={() => {
+          setShowFormModal(false);
+          setSelectedTemplate(null);
+        }}
+        onSubmit={async (data) => {
+          if (formMode === 'create') {
+            await createTemplate(data);
+          } else if (selectedTemplate) {
+            await updateTemplate(selectedTemplate.id, data);
+          }
+        }}
+        onPreview={previewTemplate}
+        mode={formMode}
+        template={selectedTemplate}
+        channels={channels}
+        endpoints={endpoints}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import React from 'react';
+import { Assertion, AssertionOperator, AssertionType } from '@/services/endpointService';
+
+interface AssertionsFieldProps {
+  assertions: Assertion[];
+  onChange: (assertions: Assertion[]) => void;
+  error?: string;
+}
+
+const assertionTypeOptions: { value: AssertionType; label: string }[] = [
+  { value: 'status_code', label: 'Status code' },
+  { value: 'body_contains', label: 'Body contains' },
+  { value: 'body_not_contains', label: 'Body does not contain' },
+  { value: 'json_path', label: 'JSON path' },
+  { value: 'header', label: 'Header' },
+  { value: 'response_time', label: 'Max response time' },
+];
+
+const operatorOptions: Record<'json_path' | 'header', AssertionOperator[]> = {
+  json_path: ['equals', 'contains', 'matches', 'exists'],
+  header: ['equals', 'contains', 'matches', 'exists'],
+};
+
+const valuePlaceholders: Record<AssertionType, string> = {
+  status_code: '200,201,300-399',
+  body_contains: '"status":"ok"',
+  body_not_contains: 'error',
+  json_path: 'expected value',
+  header: 'expected value',
+  response_time: '2000',
+};
+
+const inputClassName =
+  'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#FF5A5F] focus:border-transparent transition-colors';
+
+/**
+ * Build a fresh assertion with sensible defaults for its type
+ */
+function createAssertion(type: AssertionType): Assertion {
+  if (type === 'json_path') return { type, target: '$.status', operator: 'equals', value: '' };
+  if (type === 'header') return { type, target: 'Content-Type', operator: 'contains', value: '' };
+  if (type === 'status_code') return { type, value: '200-299' };
+  return { type, value: '' };
+}
+
+export default function AssertionsField({ assertions, onChange, error }: AssertionsFieldProps) {
+  const updateAssertion = (index: number, changes: Partial<Assertion>) => {
+    onChange(assertions.map((a, i) => (i === index ? { ...a, ...changes } : a)));
+  };
+
+  const removeAssertion = (index: number) => {
+    onChange(assertions.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="w-full">
+      <label className="block text-sm font-medium text-gray-700 mb-1">Assertions</label>
+      <p className="text-xs text-gray-500 mb-2">
+        All assertions must pass for a check to be UP. Without a status code assertion, 2xx and 3xx responses pass.
+      </p>
+      <div className="space-y-2">
+        {assertions.map((assertion, index) => (
+          <div key={index} className="flex flex-wrap gap-2 items-center p-2 bg-gray-50 rounded-lg">
+            <select
+              value={assertion.type}
+              onChange={(e) => onChange(assertions.map((a, i) => (i === index ? createAssertion(e.target.value as AssertionType) : a)))}
+              className={`${inputClassName} bg-white`}
+            >
+              {assertionTypeOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+
+            {(assertion.type === 'json_path' || assertion.type === 'header') && (
+              <>
+                <input
+                  type="text"
+                  value={assertion.target || ''}
+                  onChange={(e) => updateAssertion(index, { target: e.target.value })}
+                  placeholder={assertion.type === 'json_path' ? '$.data.status' : 'Header name'}
+                  className={`${inputClassName} w-36 bg-white`}
+                />
+                <select
+                  value={assertion.operator || 'equals'}
+                  onChange={(e) => updateAssertion(index, { operator: e.target.value as AssertionOperator })}
+                  className={`${inputClassName} bg-white`}
+                >
+                  {operatorOptions[assertion.type].map((operator) => (
+                    <option key={operator} value={operator}>
+                      {operator}
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+
+            {assertion.operator !== 'exists' && (
+              <input
+                type="text"
+                value={assertion.value || ''}
+                onChange={(e) => updateAssertion(index, { value: e.target.value })}
+                placeholder={valuePlaceholders[assertion.type]}
+                className={`${inputClassName} flex-1 min-w-[120px] bg-white`}
+              />
+            )}
+
+            {(assertion.type === 'body_contains' || assertion.type === 'body_not_contains') && (
+              <label className="flex items-center gap-1 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={assertion.regex || false}
+                  onChange={(e) => updateAssertion(index, { regex: e.target.checked })}
+                />
+                Regex
+              </label>
+            )}
+
+            <button
+              type="button"
+              onClick={() => removeAssertion(index)}
+              className="hover:cursor-pointer text-gray-400 hover:text-red-600 p-2 hover:bg-red-50 rounded transition-colors"
+              title="Remove assertion"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange([...assertions, createAssertion('status_code')])}
+          className="hover:cursor-pointer text-sm text-[#FF5A5F] hover:text-[#FC4C4C] font-medium"
+        >
+          + Add assertion
+        </button>
+      </div>
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import React from 'react';
+import { EndpointCertificate } from '@/services/endpointService';
+
+interface CertificateBadgeProps {
+  certificate: EndpointCertificate | null;
+}
+
+export default function CertificateBadge({ certificate }: CertificateBadgeProps) {
+  if (!certificate) {
+    return <span className="text-xs text-gray-400">-</span>;
+  }
+
+  const daysLeft = Math.floor((new Date(certificate.validTo).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+
+  const getBadgeColor = () => {
+    if (daysLeft < 0 || !certificate.chainValid) return 'text-red-700 bg-red-100';
+    if (daysLeft <= 14) return 'text-orange-700 bg-orange-100';
+    if (daysLeft <= 30) return 'text-yellow-700 bg-yellow-100';
+    return 'text-green-700 bg-green-100';
+  };
+
+  const getLabel = () => {
+    if (daysLeft < 0) return 'Expired';
+    if (!certificate.chainValid) return 'Invalid chain';
+    return `${daysLeft} day${daysLeft !== 1 ? 's' : ''} left`;
+  };
+
+  const tooltip = [
+    `Subject: ${certificate.subject}`,
+    `Issuer: ${certificate.issuer}`,
+    `SANs: ${certificate.sans.join(', ') || '-'}`,
+    `Expires: ${new Date(certificate.validTo).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`,
+    certificate.chainError ? `Chain: ${certificate.chainError}` : 'Chain: valid',
+  ].join('\n');
+
+  return (
+    <span className={`px-2 py-1 text-xs font-medium rounded cursor-help ${getBadgeColor()}`} title={tooltip}>
+      {getLabel()}
+    </span>
+  );
+}
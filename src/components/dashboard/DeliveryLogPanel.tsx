@@ -0,0 +1,188 @@
+"use client";
+
+import React, { Fragment, useState } from 'react';
+import { useNotificationDeliveries } from '@/contexts/NotificationDeliveryContext';
+import { useNotificationChannels } from '@/contexts/NotificationChannelContext';
+import { DeliveryStatus, NotificationDelivery } from '@/services/notificationDeliveryService';
+
+const filterOptions: { value: DeliveryStatus | null; label: string }[] = [
+  { value: null, label: 'All' },
+  { value: 'SENT', label: 'Sent' },
+  { value: 'RETRYING', label: 'Retrying' },
+  { value: 'FAILED', label: 'Failed' },
+];
+
+const statusStyles: Record<DeliveryStatus, { label: string; className: string }> = {
+  SENT: { label: 'Sent', className: 'text-green-700 bg-green-100' },
+  RETRYING: { label: 'Retrying', className: 'text-yellow-800 bg-yellow-100' },
+  FAILED: { label: 'Failed', className: 'text-red-700 bg-red-100' },
+};
+
+/**
+ * Short date and time, e.g. "Oct 20, 09:41:07 AM"
+ */
+function formatTime(value: string): string {
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+/**
+ * Attempts of one delivery, with the payload that was sent
+ */
+function AttemptLog({ delivery }: { delivery: NotificationDelivery }) {
+  return (
+    <div className="space-y-3">
+      {(delivery.attemptLog || []).map((attempt) => (
+        <div key={attempt.id} className="rounded-lg border border-gray-200 bg-white p-3">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-600">
+            <span className="font-medium text-gray-900">Attempt {attempt.attempt}</span>
+            <span>{formatTime(attempt.createdAt)}</span>
+            <span>Response: {attempt.responseCode ?? 'none'}</span>
+            <span>{attempt.latencyMs}ms</span>
+            <span className={attempt.error ? 'text-red-600' : 'text-green-700'}>
+              {attempt.error || 'Delivered'}
+            </span>
+          </div>
+          {attempt.payload !== null && (
+            <pre className="mt-2 max-h-48 overflow-auto rounded bg-gray-50 p-2 text-xs text-gray-700">
+              {JSON.stringify(attempt.payload, null, 2)}
+            </pre>
+          )}
+        </div>
+      ))}
+      {delivery.status === 'RETRYING' && delivery.nextRetryAt && (
+        <p className="text-xs text-gray-500">Next attempt after {formatTime(delivery.nextRetryAt)}</p>
+      )}
+    </div>
+  );
+}
+
+export default function DeliveryLogPanel() {
+  const { deliveries, loading, statusFilter, setStatusFilter, channelFilter, setChannelFilter, fetchDeliveries } =
+    useNotificationDeliveries();
+  const { channels } = useNotificationChannels();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Delivery Log</h2>
+          <p className="text-sm text-gray-500 mt-1">Every alert sent to a channel, with each attempt and its response</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={channelFilter ?? ''}
+            onChange={(e) => setChannelFilter(e.target.value || null)}
+            className="px-3 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF5A5F] focus:border-transparent"
+          >
+            <option value="">All channels</option>
+            {channels.map((channel) => (
+              <option key={channel.id} value={channel.id}>
+                {channel.name}
+              </option>
+            ))}
+          </select>
+          {filterOptions.map((option) => (
+            <button
+              key={option.label}
+              onClick={() => setStatusFilter(option.value)}
+              className={`hover:cursor-pointer px-3 py-1 text-sm rounded-lg transition-colors ${
+                statusFilter === option.value
+                  ? 'bg-gray-900 text-white'
+                  : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          <button
+            onClick={fetchDeliveries}
+            className="hover:cursor-pointer p-1.5 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded transition-colors"
+            title="Refresh"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+              />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-6 text-center text-sm text-gray-500">Loading delivery log...</div>
+      ) : deliveries.length === 0 ? (
+        <div className="p-6 text-center text-sm text-gray-500">No deliveries</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sent</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Alert</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Channel</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Response</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {deliveries.map((delivery) => {
+                const lastAttempt = delivery.attemptLog?.[delivery.attemptLog.length - 1];
+                const style = statusStyles[delivery.status];
+
+                return (
+                  <Fragment key={delivery.id}>
+                    <tr
+                      onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                      className="hover:bg-gray-50 hover:cursor-pointer transition-colors"
+                    >
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">{formatTime(delivery.createdAt)}</td>
+                      <td className="px-6 py-3 text-sm max-w-xs">
+                        <div className="font-medium text-gray-900 truncate" title={delivery.title}>{delivery.title}</div>
+                        <div className="text-xs text-gray-500">
+                          {delivery.event}
+                          {delivery.endpointName && ` · ${delivery.endpointName}`}
+                        </div>
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-700">
+                        {delivery.channelName}
+                        <span className="ml-2 text-xs text-gray-400">{delivery.channelType}</span>
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap">
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded ${style.className}`}>{style.label}</span>
+                        <span className="ml-2 text-xs text-gray-500">
+                          {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-3 text-sm text-gray-500 max-w-xs truncate" title={lastAttempt?.error || ''}>
+                        {lastAttempt
+                          ? `${lastAttempt.responseCode ?? '-'} · ${lastAttempt.latencyMs}ms${lastAttempt.error ? ` · ${lastAttempt.error}` : ''}`
+                          : '-'}
+                      </td>
+                    </tr>
+                    {expandedId === delivery.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={5} className="px-6 py-4">
+                          <AttemptLog delivery={delivery} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,13 @@
 import React, { useState, useEffect } from 'react';
 import InputField from './InputField';
 import SelectField from './SelectField';
-import { Endpoint } from '@/services/endpointService';
+import TextAreaField from './TextAreaField';
+import KeyValueField, { KeyValuePair, pairsToRecord, recordToPairs } from './KeyValueField';
+import AssertionsField from './AssertionsField';
+import { Assertion, DnsRecordType, Endpoint, HttpMethod, MonitorType, RequestBodyType } from '@/services/endpointService';
+import { NotificationChannel } from '@/services/notificationChannelService';
+import { EscalationPolicy } from '@/services/escalationPolicyService';
+import { OnCallSchedule } from '@/services/oncallScheduleService';
 
 interface EndpointFormModalProps {
   isOpen: boolean;
@@ -11,21 +17,82 @@ interface EndpointFormModalProps {
   onSubmit: (data: EndpointFormData) => Promise<void>;
   endpoint?: Endpoint | null;
   mode: 'create' | 'edit';
+  channels: NotificationChannel[];
+  policies: EscalationPolicy[];
+  schedules: OnCallSchedule[];
+  endpoints: Endpoint[];
 }
 
 export interface EndpointFormData {
   name: string;
   url: string;
   type: string;
+  tags: string[];
+  monitorType: MonitorType;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  queryParams: Record<string, string>;
+  body: string;
+  bodyType: RequestBodyType;
+  assertions: Assertion[];
+  dnsRecordType: DnsRecordType;
+  dnsResolver: string;
+  dnsExpected: string[];
+  heartbeatPeriod: number;
+  heartbeatGrace: number;
+  intervalSeconds: number;
+  timeoutSeconds: number;
+  retries: number;
+  retryDelaySeconds: number;
+  alertThreshold: number;
+  degradedThresholdMs: number | null; // Null to never mark checks DEGRADED
+  notificationChannelIds: string[];
+  escalationPolicyId: string; // Empty for the endpoint's own channels
+  oncallScheduleId: string; // Empty to mention nobody in alerts
+  dependsOnIds: string[];
 }
 
-const initialFormState: EndpointFormData = {
+// Tags are edited as comma separated text, headers and query params as rows, expected DNS records
+// as lines of text, heartbeat period and grace time in minutes, and 0 turns the degraded threshold off
+interface EndpointFormState
+  extends Omit<EndpointFormData, 'tags' | 'headers' | 'queryParams' | 'dnsExpected' | 'degradedThresholdMs'> {
+  tags: string;
+  headers: KeyValuePair[];
+  queryParams: KeyValuePair[];
+  dnsExpected: string;
+  degradedThresholdMs: number;
+}
+
+const initialFormState: EndpointFormState = {
   name: '',
   url: '',
   type: 'Website',
+  tags: '',
+  monitorType: 'HTTP',
+  method: 'GET',
+  headers: [],
+  queryParams: [],
+  body: '',
+  bodyType: 'NONE',
+  assertions: [],
+  dnsRecordType: 'A',
+  dnsResolver: '',
+  dnsExpected: '',
+  heartbeatPeriod: 1440,
+  heartbeatGrace: 60,
+  intervalSeconds: 30,
+  timeoutSeconds: 30,
+  retries: 0,
+  retryDelaySeconds: 0,
+  alertThreshold: 2,
+  degradedThresholdMs: 0,
+  notificationChannelIds: [],
+  escalationPolicyId: '',
+  oncallScheduleId: '',
+  dependsOnIds: [],
 };
 
-const typeOptions = [
+export const typeOptions = [
   { value: 'Website', label: 'Website' },
   { value: 'API', label: 'API' },
   { value: 'Service', label: 'Service' },
@@ -33,16 +100,54 @@ const typeOptions = [
   { value: 'Other', label: 'Other' },
 ];
 
+const monitorTypeOptions = [
+  { value: 'HTTP', label: 'HTTP(S) request' },
+  { value: 'TCP', label: 'TCP port' },
+  { value: 'DNS', label: 'DNS records' },
+  { value: 'HEARTBEAT', label: 'Heartbeat (push)' },
+];
+
+const dnsRecordTypeOptions = [
+  { value: 'A', label: 'A' },
+  { value: 'AAAA', label: 'AAAA' },
+  { value: 'CNAME', label: 'CNAME' },
+  { value: 'MX', label: 'MX' },
+  { value: 'TXT', label: 'TXT' },
+];
+
+const methodOptions = [
+  { value: 'GET', label: 'GET' },
+  { value: 'POST', label: 'POST' },
+  { value: 'PUT', label: 'PUT' },
+  { value: 'PATCH', label: 'PATCH' },
+  { value: 'DELETE', label: 'DELETE' },
+  { value: 'HEAD', label: 'HEAD' },
+  { value: 'OPTIONS', label: 'OPTIONS' },
+];
+
+const bodyTypeOptions = [
+  { value: 'NONE', label: 'No body' },
+  { value: 'JSON', label: 'JSON' },
+  { value: 'RAW', label: 'Raw text' },
+];
+
 export default function EndpointFormModal({
   isOpen,
   onClose,
   onSubmit,
   endpoint,
   mode,
+  channels,
+  policies,
+  schedules,
+  endpoints,
 }: EndpointFormModalProps) {
-  const [formData, setFormData] = useState<EndpointFormData>(initialFormState);
+  const [formData, setFormData] = useState<EndpointFormState>(initialFormState);
   const [submitting, setSubmitting] = useState(false);
   const [errors, setErrors] = useState<Partial<Record<keyof EndpointFormData, string>>>({});
+  const isTcp = formData.monitorType === 'TCP';
+  const isDns = formData.monitorType === 'DNS';
+  const isHeartbeat = formData.monitorType === 'HEARTBEAT';
 
   useEffect(() => {
     if (isOpen) {
@@ -51,6 +156,29 @@ export default function EndpointFormModal({
           name: endpoint.name || '',
           url: endpoint.url || '',
           type: endpoint.type || 'Website',
+          tags: (endpoint.tags || []).join(', '),
+          monitorType: endpoint.monitorType || 'HTTP',
+          method: endpoint.method || 'GET',
+          headers: recordToPairs(endpoint.headers),
+          queryParams: recordToPairs(endpoint.queryParams),
+          body: endpoint.body || '',
+          bodyType: endpoint.bodyType || 'NONE',
+          assertions: endpoint.assertions || [],
+          dnsRecordType: endpoint.dnsRecordType || 'A',
+          dnsResolver: endpoint.dnsResolver || '',
+          dnsExpected: (endpoint.dnsExpected || []).join('\n'),
+          heartbeatPeriod: Math.round((endpoint.heartbeatPeriod || 86400) / 60),
+          heartbeatGrace: Math.round((endpoint.heartbeatGrace ?? 3600) / 60),
+          intervalSeconds: endpoint.intervalSeconds || 30,
+          timeoutSeconds: endpoint.timeoutSeconds || 30,
+          retries: endpoint.retries ?? 0,
+          retryDelaySeconds: endpoint.retryDelaySeconds ?? 0,
+          alertThreshold: endpoint.alertThreshold || 2,
+          degradedThresholdMs: endpoint.degradedThresholdMs ?? 0,
+          notificationChannelIds: endpoint.notificationChannelIds || [],
+          escalationPolicyId: endpoint.escalationPolicyId || '',
+          oncallScheduleId: endpoint.oncallScheduleId || '',
+          dependsOnIds: endpoint.dependsOnIds || [],
         });
       } else {
         setFormData(initialFormState);
@@ -59,7 +187,7 @@ export default function EndpointFormModal({
     }
   }, [isOpen, mode, endpoint]);
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value, type } = e.target;
     setFormData((prev) => ({
       ...prev,
@@ -71,6 +199,26 @@ export default function EndpointFormModal({
     }
   };
 
+  const handleChannelToggle = (channelId: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      notificationChannelIds: prev.notificationChannelIds.includes(channelId)
+        ? prev.notificationChannelIds.filter((id) => id !== channelId)
+        : [...prev.notificationChannelIds, channelId],
+    }));
+    setErrors((prev) => ({ ...prev, notificationChannelIds: undefined }));
+  };
+
+  const handleDependencyToggle = (endpointId: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      dependsOnIds: prev.dependsOnIds.includes(endpointId)
+        ? prev.dependsOnIds.filter((id) => id !== endpointId)
+        : [...prev.dependsOnIds, endpointId],
+    }));
+    setErrors((prev) => ({ ...prev, dependsOnIds: undefined }));
+  };
+
   const validateForm = (): boolean => {
     const newErrors: Partial<Record<keyof EndpointFormData, string>> = {};
 
@@ -78,8 +226,24 @@ export default function EndpointFormModal({
       newErrors.name = 'Name is required';
     }
 
-    if (!formData.url.trim()) {
-      newErrors.url = 'URL is required';
+    if (isHeartbeat) {
+      // The ping URL is generated by the server
+      if (formData.heartbeatPeriod < 1) {
+        newErrors.heartbeatPeriod = 'Period must be at least 1 minute';
+      }
+      if (formData.heartbeatGrace < 0) {
+        newErrors.heartbeatGrace = 'Grace time cannot be negative';
+      }
+    } else if (!formData.url.trim()) {
+      newErrors.url = isTcp ? 'Host and port are required' : isDns ? 'Hostname is required' : 'URL is required';
+    } else if (isDns) {
+      if (!/^[a-z0-9_.-]+$/i.test(formData.url.trim())) {
+        newErrors.url = 'Please enter a valid hostname';
+      }
+    } else if (isTcp) {
+      if (!/^(\[[^\]]+\]|[^:\s/]+):\d{1,5}$/.test(formData.url.trim())) {
+        newErrors.url = 'Please enter a valid host:port';
+      }
     } else {
       try {
         new URL(formData.url);
@@ -88,6 +252,41 @@ export default function EndpointFormModal({
       }
     }
 
+    if (formData.intervalSeconds < 15) {
+      newErrors.intervalSeconds = 'Interval must be at least 15 seconds';
+    }
+    if (formData.timeoutSeconds < 1 || formData.timeoutSeconds > 50) {
+      newErrors.timeoutSeconds = 'Timeout must be between 1 and 50 seconds';
+    }
+    if (formData.retries < 0 || formData.retries > 5) {
+      newErrors.retries = 'Retries must be between 0 and 5';
+    }
+    if (formData.retryDelaySeconds < 0 || formData.retryDelaySeconds > 30) {
+      newErrors.retryDelaySeconds = 'Retry delay must be between 0 and 30 seconds';
+    }
+    // Every attempt timing out, plus the waits between retries, must fit the interval and the 50s limit per check
+    const worstCaseSeconds =
+      (formData.retries + 1) * formData.timeoutSeconds + formData.retries * formData.retryDelaySeconds;
+    if (!isHeartbeat && !newErrors.retries && !newErrors.timeoutSeconds &&
+      worstCaseSeconds > Math.min(formData.intervalSeconds, 50)) {
+      const field = formData.retries > 0 ? 'retries' : 'timeoutSeconds';
+      newErrors[field] = `A check with its retries can take ${worstCaseSeconds}s, more than the interval or the 50s limit`;
+    }
+    if (formData.alertThreshold < 1) {
+      newErrors.alertThreshold = 'Alert threshold must be at least 1';
+    }
+    if (formData.degradedThresholdMs < 0 || formData.degradedThresholdMs > 60000) {
+      newErrors.degradedThresholdMs = 'Degraded threshold must be between 0 and 60000 ms';
+    }
+
+    if (formData.bodyType === 'JSON' && formData.body.trim()) {
+      try {
+        JSON.parse(formData.body);
+      } catch {
+        newErrors.body = 'Body is not valid JSON';
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -101,7 +300,17 @@ export default function EndpointFormModal({
 
     setSubmitting(true);
     try {
-      await onSubmit(formData);
+      await onSubmit({
+        ...formData,
+        tags: formData.tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+        headers: pairsToRecord(formData.headers),
+        queryParams: pairsToRecord(formData.queryParams),
+        body: formData.bodyType === 'NONE' ? '' : formData.body,
+        dnsExpected: formData.dnsExpected.split('\n').map((line) => line.trim()).filter(Boolean),
+        heartbeatPeriod: formData.heartbeatPeriod * 60,
+        heartbeatGrace: formData.heartbeatGrace * 60,
+        degradedThresholdMs: formData.degradedThresholdMs || null,
+      });
       onClose();
     } catch (error: any) {
       // Handle specific validation errors
@@ -113,6 +322,32 @@ export default function EndpointFormModal({
         setErrors((prev) => ({ ...prev, url: 'This URL is already being monitored' }));
       } else if (errorMessage.includes('URL') || errorMessage.includes('url')) {
         setErrors((prev) => ({ ...prev, url: errorMessage }));
+      } else if (errorMessage.startsWith('Check interval')) {
+        setErrors((prev) => ({ ...prev, intervalSeconds: errorMessage }));
+      } else if (errorMessage.startsWith('Timeout')) {
+        setErrors((prev) => ({ ...prev, timeoutSeconds: errorMessage }));
+      } else if (errorMessage.startsWith('Retries')) {
+        setErrors((prev) => ({ ...prev, retries: errorMessage }));
+      } else if (errorMessage.startsWith('Retry delay')) {
+        setErrors((prev) => ({ ...prev, retryDelaySeconds: errorMessage }));
+      } else if (errorMessage.startsWith('Alert threshold')) {
+        setErrors((prev) => ({ ...prev, alertThreshold: errorMessage }));
+      } else if (errorMessage.startsWith('Degraded threshold')) {
+        setErrors((prev) => ({ ...prev, degradedThresholdMs: errorMessage }));
+      } else if (errorMessage.startsWith('Heartbeat period')) {
+        setErrors((prev) => ({ ...prev, heartbeatPeriod: errorMessage }));
+      } else if (errorMessage.startsWith('Heartbeat grace')) {
+        setErrors((prev) => ({ ...prev, heartbeatGrace: errorMessage }));
+      } else if (errorMessage.startsWith('Notification channel') ||
+        errorMessage.startsWith('Escalation policy') ||
+        errorMessage.startsWith('On-call schedule')) {
+        setErrors((prev) => ({ ...prev, notificationChannelIds: errorMessage }));
+      } else if (errorMessage.startsWith('Dependenc')) {
+        setErrors((prev) => ({ ...prev, dependsOnIds: errorMessage }));
+      } else if (errorMessage.startsWith('Tags')) {
+        setErrors((prev) => ({ ...prev, tags: errorMessage }));
+      } else if (errorMessage.startsWith('Assertion')) {
+        setErrors((prev) => ({ ...prev, assertions: errorMessage }));
       } else if (errorMessage.includes('name')) {
         setErrors((prev) => ({ ...prev, name: errorMessage }));
       }
@@ -131,12 +366,14 @@ export default function EndpointFormModal({
 
   if (!isOpen) return null;
 
+  const otherEndpoints = endpoints.filter((other) => other.id !== endpoint?.id);
+
   return (
     <div
       className="fixed inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center z-50 p-4"
       onClick={handleBackdropClick}
     >
-      <div className="bg-white rounded-lg shadow-xl max-w-md w-full animate-fadeIn">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto animate-fadeIn">
         {/* Header */}
         <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
           <h3 className="text-lg font-semibold text-gray-900">
@@ -166,17 +403,28 @@ export default function EndpointFormModal({
             error={errors.name}
           />
 
-          <InputField
-            label="URL"
-            name="url"
-            type="url"
-            value={formData.url}
+          <SelectField
+            label="Monitor Type"
+            name="monitorType"
+            value={formData.monitorType}
             onChange={handleChange}
+            options={monitorTypeOptions}
             required
-            placeholder="https://example.com/api"
-            error={errors.url}
           />
 
+          {!isHeartbeat && (
+            <InputField
+              label={isTcp ? 'Host:Port' : isDns ? 'Hostname' : 'URL'}
+              name="url"
+              type={isTcp || isDns ? 'text' : 'url'}
+              value={formData.url}
+              onChange={handleChange}
+              required
+              placeholder={isTcp ? 'db.example.com:5432' : isDns ? 'example.com' : 'https://example.com/api'}
+              error={errors.url}
+            />
+          )}
+
           <SelectField
             label="Type"
             name="type"
@@ -186,6 +434,336 @@ export default function EndpointFormModal({
             required
           />
 
+          <div>
+            <InputField
+              label="Tags"
+              name="tags"
+              type="text"
+              value={formData.tags}
+              onChange={handleChange}
+              placeholder="production, payments"
+              error={errors.tags}
+            />
+            <p className="text-xs text-gray-500 mt-1">Comma separated. Alert rules can route alerts by tag.</p>
+          </div>
+
+          {/* Check Settings */}
+          <div className="pt-2 border-t border-gray-200 space-y-4">
+            <h4 className="text-sm font-semibold text-gray-900 pt-2">Checks</h4>
+
+            <div className="grid grid-cols-2 gap-4">
+              <InputField
+                label="Interval (seconds)"
+                name="intervalSeconds"
+                type="number"
+                value={formData.intervalSeconds}
+                onChange={handleChange}
+                required
+                min={15}
+                error={errors.intervalSeconds}
+              />
+
+              <InputField
+                label="Alert After (failed checks)"
+                name="alertThreshold"
+                type="number"
+                value={formData.alertThreshold}
+                onChange={handleChange}
+                required
+                min={1}
+                error={errors.alertThreshold}
+              />
+
+              {!isHeartbeat && (
+                <>
+                  <InputField
+                    label="Timeout (seconds)"
+                    name="timeoutSeconds"
+                    type="number"
+                    value={formData.timeoutSeconds}
+                    onChange={handleChange}
+                    required
+                    min={1}
+                    error={errors.timeoutSeconds}
+                  />
+
+                  <InputField
+                    label="Retries Before DOWN"
+                    name="retries"
+                    type="number"
+                    value={formData.retries}
+                    onChange={handleChange}
+                    required
+                    min={0}
+                    error={errors.retries}
+                  />
+
+                  <div>
+                    <InputField
+                      label="Retry Delay (seconds)"
+                      name="retryDelaySeconds"
+                      type="number"
+                      value={formData.retryDelaySeconds}
+                      onChange={handleChange}
+                      min={0}
+                      error={errors.retryDelaySeconds}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Wait between retries. Only a failure confirmed by every retry is recorded as DOWN.</p>
+                  </div>
+
+                  <div>
+                    <InputField
+                      label="Degraded Above (ms)"
+                      name="degradedThresholdMs"
+                      type="number"
+                      value={formData.degradedThresholdMs}
+                      onChange={handleChange}
+                      min={0}
+                      error={errors.degradedThresholdMs}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Slower successful checks show as DEGRADED. 0 turns it off.</p>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* DNS Settings */}
+          {isDns && (
+            <div className="pt-2 border-t border-gray-200 space-y-4">
+              <h4 className="text-sm font-semibold text-gray-900 pt-2">DNS</h4>
+
+              <SelectField
+                label="Record Type"
+                name="dnsRecordType"
+                value={formData.dnsRecordType}
+                onChange={handleChange}
+                options={dnsRecordTypeOptions}
+                required
+              />
+
+              <InputField
+                label="Resolver"
+                name="dnsResolver"
+                type="text"
+                value={formData.dnsResolver}
+                onChange={handleChange}
+                placeholder="1.1.1.1 (system resolver when empty)"
+              />
+
+              <TextAreaField
+                label="Expected Records"
+                name="dnsExpected"
+                value={formData.dnsExpected}
+                onChange={handleChange}
+                placeholder={'One value per line, e.g.\n93.184.216.34'}
+                rows={3}
+              />
+              <p className="text-xs text-gray-500 -mt-2">
+                The check goes DOWN when the resolved records differ from this list. Leave empty to only require an answer.
+              </p>
+            </div>
+          )}
+
+          {/* Heartbeat Settings */}
+          {isHeartbeat && (
+            <div className="pt-2 border-t border-gray-200 space-y-4">
+              <h4 className="text-sm font-semibold text-gray-900 pt-2">Heartbeat</h4>
+
+              <div className="grid grid-cols-2 gap-4">
+                <InputField
+                  label="Period (minutes)"
+                  name="heartbeatPeriod"
+                  type="number"
+                  value={formData.heartbeatPeriod}
+                  onChange={handleChange}
+                  required
+                  min={1}
+                  error={errors.heartbeatPeriod}
+                />
+
+                <InputField
+                  label="Grace Time (minutes)"
+                  name="heartbeatGrace"
+                  type="number"
+                  value={formData.heartbeatGrace}
+                  onChange={handleChange}
+                  required
+                  min={0}
+                  error={errors.heartbeatGrace}
+                />
+              </div>
+              <p className="text-xs text-gray-500 -mt-2">
+                {mode === 'create'
+                  ? 'A ping URL is generated when the endpoint is saved.'
+                  : 'Your job should call the ping URL shown in the endpoints table.'}{' '}
+                The monitor goes DOWN when no ping arrives within the period plus grace time.
+              </p>
+            </div>
+          )}
+
+          {/* HTTP request and assertions (HTTP monitors only) */}
+          {!isTcp && !isDns && !isHeartbeat && (
+            <>
+              {/* Request Settings */}
+              <div className="pt-2 border-t border-gray-200 space-y-4">
+                <h4 className="text-sm font-semibold text-gray-900 pt-2">Request</h4>
+
+                <SelectField
+                  label="Method"
+                  name="method"
+                  value={formData.method}
+                  onChange={handleChange}
+                  options={methodOptions}
+                  required
+                />
+
+                <KeyValueField
+                  label="Headers"
+                  pairs={formData.headers}
+                  onChange={(headers) => setFormData((prev) => ({ ...prev, headers }))}
+                  keyPlaceholder="Authorization"
+                  valuePlaceholder="Bearer token"
+                  addLabel="Add header"
+                />
+
+                <KeyValueField
+                  label="Query Params"
+                  pairs={formData.queryParams}
+                  onChange={(queryParams) => setFormData((prev) => ({ ...prev, queryParams }))}
+                  keyPlaceholder="param"
+                  valuePlaceholder="value"
+                  addLabel="Add query param"
+                />
+
+                <SelectField
+                  label="Body"
+                  name="bodyType"
+                  value={formData.bodyType}
+                  onChange={handleChange}
+                  options={bodyTypeOptions}
+                />
+
+                {formData.bodyType !== 'NONE' && (
+                  <TextAreaField
+                    label={formData.bodyType === 'JSON' ? 'JSON Body' : 'Raw Body'}
+                    name="body"
+                    value={formData.body}
+                    onChange={handleChange}
+                    placeholder={formData.bodyType === 'JSON' ? '{ "query": "{ health }" }' : ''}
+                    error={errors.body}
+                  />
+                )}
+              </div>
+
+              {/* Response Assertions */}
+              <div className="pt-2 border-t border-gray-200">
+                <AssertionsField
+                  assertions={formData.assertions}
+                  onChange={(assertions) => {
+                    setFormData((prev) => ({ ...prev, assertions }));
+                    setErrors((prev) => ({ ...prev, assertions: undefined }));
+                  }}
+                  error={errors.assertions}
+                />
+              </div>
+            </>
+          )}
+
+          {/* Dependencies */}
+          {otherEndpoints.length > 0 && (
+            <div className="pt-2 border-t border-gray-200 space-y-3">
+              <h4 className="text-sm font-semibold text-gray-900 pt-2">Depends On</h4>
+              <div className="space-y-2 max-h-40 overflow-y-auto">
+                {otherEndpoints.map((other) => (
+                  <label key={other.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={formData.dependsOnIds.includes(other.id)}
+                      onChange={() => handleDependencyToggle(other.id)}
+                      className="rounded border-gray-300 text-[#FF5A5F] focus:ring-[#FF5A5F]"
+                    />
+                    <span>{other.name}</span>
+                    <span className="text-xs text-gray-400">{other.type}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">
+                While one of these is down, failures of this endpoint are attributed to it and no separate alert is sent.
+              </p>
+              {errors.dependsOnIds && <p className="text-sm text-red-600">{errors.dependsOnIds}</p>}
+            </div>
+          )}
+
+          {/* Notification Channels */}
+          <div className="pt-2 border-t border-gray-200 space-y-3">
+            <h4 className="text-sm font-semibold text-gray-900 pt-2">Notifications</h4>
+
+            {channels.length === 0 ? (
+              <p className="text-xs text-gray-500">
+                No notification channels yet. Alerts go to the Slack webhook configured on the server.
+              </p>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  {channels.map((channel) => (
+                    <label key={channel.id} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.notificationChannelIds.includes(channel.id)}
+                        onChange={() => handleChannelToggle(channel.id)}
+                        className="rounded border-gray-300 text-[#FF5A5F] focus:ring-[#FF5A5F]"
+                      />
+                      <span>{channel.name}</span>
+                      <span className="text-xs text-gray-400">{channel.type}</span>
+                      {!channel.enabled && <span className="text-xs text-gray-400">(disabled)</span>}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">
+                  Leave all unchecked to send alerts to the default channels.
+                </p>
+              </>
+            )}
+            {errors.notificationChannelIds && (
+              <p className="text-sm text-red-600">{errors.notificationChannelIds}</p>
+            )}
+
+            {policies.length > 0 && (
+              <div>
+                <SelectField
+                  label="Escalation Policy"
+                  name="escalationPolicyId"
+                  value={formData.escalationPolicyId}
+                  onChange={handleChange}
+                  options={[
+                    { value: '', label: 'None (alert the channels above once)' },
+                    ...policies.map((policy) => ({ value: policy.id, label: policy.name })),
+                  ]}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Outages page the policy&apos;s steps instead of the channels above until someone acknowledges.
+                </p>
+              </div>
+            )}
+
+            {schedules.length > 0 && (
+              <div>
+                <SelectField
+                  label="On-Call Schedule"
+                  name="oncallScheduleId"
+                  value={formData.oncallScheduleId}
+                  onChange={handleChange}
+                  options={[
+                    { value: '', label: 'None' },
+                    ...schedules.map((schedule) => ({ value: schedule.id, label: schedule.name })),
+                  ]}
+                />
+                <p className="text-xs text-gray-500 mt-1">Alerts mention whoever is on call in this schedule.</p>
+              </div>
+            )}
+          </div>
+
           {/* Actions */}
           <div className="flex gap-3 pt-4">
             <button
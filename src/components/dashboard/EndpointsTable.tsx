@@ -1,15 +1,29 @@
 "use client";
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Endpoint } from '@/services/endpointService';
+import CertificateBadge from './CertificateBadge';
 
 interface EndpointsTableProps {
   endpoints: Endpoint[];
   onEdit: (endpoint: Endpoint) => void;
   onDelete: (endpoint: Endpoint) => void;
+  onRunCheck: (endpoint: Endpoint) => Promise<void>;
+  onTogglePause: (endpoint: Endpoint) => Promise<void>;
 }
 
-export default function EndpointsTable({ endpoints, onEdit, onDelete }: EndpointsTableProps) {
+export default function EndpointsTable({ endpoints, onEdit, onDelete, onRunCheck, onTogglePause }: EndpointsTableProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleAction = async (endpoint: Endpoint, action: (endpoint: Endpoint) => Promise<void>) => {
+    setBusyId(endpoint.id);
+    try {
+      await action(endpoint);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
   return (
     <div className="overflow-x-auto">
       <table className="w-full">
@@ -24,6 +38,9 @@ export default function EndpointsTable({ endpoints, onEdit, onDelete }: Endpoint
             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
               Type
             </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Certificate
+            </th>
             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
               Created
             </th>
@@ -43,17 +60,59 @@ export default function EndpointsTable({ endpoints, onEdit, onDelete }: Endpoint
                     </span>
                   </div> */}
                   <div className="text-sm font-medium text-gray-900">{endpoint.name}</div>
+                  {endpoint.paused && (
+                    <span className="ml-2 px-2 py-0.5 text-xs font-medium text-gray-600 bg-gray-200 rounded">
+                      Paused
+                    </span>
+                  )}
+                  {endpoint.alertsMutedUntil && new Date(endpoint.alertsMutedUntil) > new Date() && (
+                    <span
+                      className="ml-2 px-2 py-0.5 text-xs font-medium text-yellow-700 bg-yellow-100 rounded"
+                      title={`Alerts muted from Slack until ${new Date(endpoint.alertsMutedUntil).toLocaleString('en-US')}`}
+                    >
+                      Muted
+                    </span>
+                  )}
+                  {endpoint.flappingSince && (
+                    <span
+                      className="ml-2 px-2 py-0.5 text-xs font-medium text-orange-700 bg-orange-100 rounded"
+                      title={`Flapping between up and down since ${new Date(endpoint.flappingSince).toLocaleString('en-US')}`}
+                    >
+                      Flapping
+                    </span>
+                  )}
                 </div>
               </td>
               <td className="px-6 py-4">
-                <div className="text-sm text-gray-900 max-w-md truncate" title={endpoint.url}>
-                  {endpoint.url}
+                {endpoint.monitorType === 'HEARTBEAT' ? (
+                  <div className="max-w-md">
+                    <div className="text-sm text-gray-900 font-mono truncate" title={`${window.location.origin}${endpoint.url}`}>
+                      {`${window.location.origin}${endpoint.url}`}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Append /start or /fail to report job start or failure
+                      {endpoint.heartbeatLastPingAt &&
+                        ` · Last ping ${new Date(endpoint.heartbeatLastPingAt).toLocaleString('en-US')}`}
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-sm text-gray-900 max-w-md truncate" title={endpoint.url}>
+                    {endpoint.url}
+                  </div>
+                )}
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap">
+                <div className="flex items-center gap-1">
+                  <span className="px-2 py-1 text-xs font-medium text-purple-700 bg-purple-100 rounded">
+                    {endpoint.type}
+                  </span>
+                  <span className="px-2 py-1 text-xs font-medium text-gray-600 bg-gray-100 rounded">
+                    {endpoint.monitorType === 'HTTP' ? endpoint.method : endpoint.monitorType}
+                  </span>
                 </div>
               </td>
               <td className="px-6 py-4 whitespace-nowrap">
-                <span className="px-2 py-1 text-xs font-medium text-purple-700 bg-purple-100 rounded">
-                  {endpoint.type}
-                </span>
+                <CertificateBadge certificate={endpoint.certificate} />
               </td>
               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                 {new Date(endpoint.createdAt).toLocaleDateString('en-US', {
@@ -64,6 +123,38 @@ export default function EndpointsTable({ endpoints, onEdit, onDelete }: Endpoint
               </td>
               <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                 <div className="flex items-center justify-end gap-2">
+                  <button
+                    onClick={() => handleAction(endpoint, onRunCheck)}
+                    disabled={busyId === endpoint.id || endpoint.paused}
+                    className="hover:cursor-pointer text-green-600 hover:text-green-900 p-2 hover:bg-green-50 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Check now"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+                      />
+                    </svg>
+                  </button>
+                  <button
+                    onClick={() => handleAction(endpoint, onTogglePause)}
+                    disabled={busyId === endpoint.id}
+                    className="hover:cursor-pointer text-gray-600 hover:text-gray-900 p-2 hover:bg-gray-100 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    title={endpoint.paused ? 'Resume monitoring' : 'Pause monitoring'}
+                  >
+                    {endpoint.paused ? (
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    ) : (
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m7-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                    )}
+                  </button>
                   <button
                     onClick={() => onEdit(endpoint)}
                     className="hover:cursor-pointer text-blue-600 hover:text-blue-900 p-2 hover:bg-blue-50 rounded transition-colors"
@@ -0,0 +1,131 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useEscalationPolicies } from '@/contexts/EscalationPolicyContext';
+import { useNotificationChannels } from '@/contexts/NotificationChannelContext';
+import { EscalationPolicy } from '@/services/escalationPolicyService';
+import EscalationPolicyFormModal from './EscalationPolicyFormModal';
+
+export default function EscalationPoliciesPanel() {
+  const { policies, loading, createPolicy, updatePolicy, deletePolicy } = useEscalationPolicies();
+  const { channels } = useNotificationChannels();
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [formMode, setFormMode] = useState<'create' | 'edit'>('create');
+  const [selectedPolicy, setSelectedPolicy] = useState<EscalationPolicy | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const channelNames = new Map(channels.map((channel) => [channel.id, channel.name]));
+
+  const describeSteps = (policy: EscalationPolicy) =>
+    policy.steps
+      .map((step) => {
+        const names = step.channelIds.map((id) => channelNames.get(id) || 'deleted channel').join(', ');
+        return step.afterMinutes === 0 ? names : `${names} after ${step.afterMinutes}m`;
+      })
+      .join(' → ');
+
+  const handleOpenCreateModal = () => {
+    setFormMode('create');
+    setSelectedPolicy(null);
+    setShowFormModal(true);
+  };
+
+  const handleOpenEditModal = (policy: EscalationPolicy) => {
+    setFormMode('edit');
+    setSelectedPolicy(policy);
+    setShowFormModal(true);
+  };
+
+  const handleDelete = async (policy: EscalationPolicy) => {
+    const used = policy.endpointCount > 0
+      ? ` ${policy.endpointCount} endpoint(s) will go back to their own channels.`
+      : '';
+    if (!window.confirm(`Delete the "${policy.name}" policy?${used}`)) return;
+
+    setBusyId(policy.id);
+    try {
+      await deletePolicy(policy.id);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mt-6 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Escalation Policies</h2>
+          <p className="text-sm text-gray-500 mt-1">Who gets paged, and when, until an incident is acknowledged</p>
+        </div>
+        <button
+          onClick={handleOpenCreateModal}
+          className="hover:cursor-pointer px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Add Policy
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="p-6 text-center text-sm text-gray-500">Loading policies...</div>
+      ) : policies.length === 0 ? (
+        <div className="p-6 text-center text-sm text-gray-500">
+          No policies yet. Endpoints alert their own channels once per outage.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {policies.map((policy) => (
+            <li key={policy.id} className="px-6 py-3 flex items-center justify-between gap-4 hover:bg-gray-50 transition-colors">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-900">{policy.name}</span>
+                  {policy.repeatIntervalMinutes && (
+                    <span className="px-2 py-0.5 text-xs font-medium text-gray-600 bg-gray-100 rounded">
+                      Every {policy.repeatIntervalMinutes}m
+                    </span>
+                  )}
+                  <span className="text-xs text-gray-500">
+                    {policy.endpointCount} endpoint{policy.endpointCount === 1 ? '' : 's'}
+                  </span>
+                </div>
+                <div className="text-xs text-gray-500 mt-0.5 truncate">{describeSteps(policy)}</div>
+              </div>
+              <div className="flex items-center gap-2 text-sm flex-shrink-0">
+                <button
+                  onClick={() => handleOpenEditModal(policy)}
+                  className="hover:cursor-pointer px-2 py-1 text-blue-600 hover:text-blue-900 hover:bg-blue-50 rounded transition-colors"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(policy)}
+                  disabled={busyId === policy.id}
+                  className="hover:cursor-pointer px-2 py-1 text-red-600 hover:text-red-900 hover:bg-red-50 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <EscalationPolicyFormModal
+        isOpen={showFormModal}
+        onClose={() => {
+          setShowFormModal(false);
+          setSelectedPolicy(null);
+        }}
+        onSubmit={async (data) => {
+          if (formMode === 'create') {
+            await createPolicy(data);
+          } else if (selectedPolicy) {
+            await updatePolicy(selectedPolicy.id, data);
+          }
+        }}
+        mode={formMode}
+        policy={selectedPolicy}
+        channels={channels}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import InputField from './InputField';
+import { NotificationChannel } from '@/services/notificationChannelService';
+import {
+  CreateEscalationPolicyDTO,
+  EscalationPolicy,
+  EscalationStep,
+} from '@/services/escalationPolicyService';
+
+interface EscalationPolicyFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: CreateEscalationPolicyDTO) => Promise<void>;
+  policy?: EscalationPolicy | null;
+  channels: NotificationChannel[];
+  mode: 'create' | 'edit';
+}
+
+interface PolicyFormState {
+  name: string;
+  repeatIntervalMinutes: number; // 0 notifies once
+  steps: EscalationStep[];
+}
+
+interface PolicyFormErrors {
+  name?: string;
+  repeatIntervalMinutes?: string;
+  steps?: string;
+}
+
+const initialFormState: PolicyFormState = {
+  name: '',
+  repeatIntervalMinutes: 0,
+  steps: [{ afterMinutes: 0, channelIds: [] }],
+};
+
+export default function EscalationPolicyFormModal({
+  isOpen,
+  onClose,
+  onSubmit,
+  policy,
+  channels,
+  mode,
+}: EscalationPolicyFormModalProps) {
+  const [formData, setFormData] = useState<PolicyFormState>(initialFormState);
+  const [submitting, setSubmitting] = useState(false);
+  const [errors, setErrors] = useState<PolicyFormErrors>({});
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(
+        mode === 'edit' && policy
+          ? {
+              name: policy.name,
+              repeatIntervalMinutes: policy.repeatIntervalMinutes ?? 0,
+              steps: policy.steps.map((step) => ({ ...step, channelIds: [...step.channelIds] })),
+            }
+          : initialFormState
+      );
+      setErrors({});
+    }
+  }, [isOpen, mode, policy]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value, type } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: type === 'number' ? parseInt(value) || 0 : value,
+    }));
+    if (errors[name as keyof PolicyFormErrors]) {
+      setErrors((prev) => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const updateStep = (index: number, step: Partial<EscalationStep>) => {
+    setFormData((prev) => ({
+      ...prev,
+      steps: prev.steps.map((current, i) => (i === index ? { ...current, ...step } : current)),
+    }));
+    setErrors((prev) => ({ ...prev, steps: undefined }));
+  };
+
+  const handleStepChannelToggle = (index: number, channelId: string) => {
+    const { channelIds } = formData.steps[index];
+    updateStep(index, {
+      channelIds: channelIds.includes(channelId)
+        ? channelIds.filter((id) => id !== channelId)
+        : [...channelIds, channelId],
+    });
+  };
+
+  const handleAddStep = () => {
+    setFormData((prev) => ({
+      ...prev,
+      steps: [...prev.steps, { afterMinutes: (prev.steps[prev.steps.length - 1]?.afterMinutes ?? 0) + 15, channelIds: [] }],
+    }));
+  };
+
+  const handleRemoveStep = (index: number) => {
+    setFormData((prev) => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }));
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: PolicyFormErrors = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+    if (formData.repeatIntervalMinutes < 0) {
+      newErrors.repeatIntervalMinutes = 'Repeat interval cannot be negative';
+    }
+
+    const stepError = formData.steps.findIndex((step, index) =>
+      step.channelIds.length === 0 || (index > 0 && step.afterMinutes < formData.steps[index - 1].afterMinutes)
+    );
+    if (stepError !== -1) {
+      newErrors.steps = formData.steps[stepError].channelIds.length === 0
+        ? `Step ${stepError + 1}: pick at least one notification channel`
+        : `Step ${stepError + 1}: steps must be in order of minutes`;
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit({
+        name: formData.name.trim(),
+        repeatIntervalMinutes: formData.repeatIntervalMinutes || null,
+        steps: formData.steps,
+      });
+      onClose();
+    } catch (error: any) {
+      const errorMessage = error.message || '';
+
+      if (errorMessage.includes('name')) {
+        setErrors((prev) => ({ ...prev, name: errorMessage }));
+      } else if (errorMessage.startsWith('Repeat interval')) {
+        setErrors((prev) => ({ ...prev, repeatIntervalMinutes: errorMessage }));
+      } else {
+        setErrors((prev) => ({ ...prev, steps: errorMessage }));
+      }
+      // Error is handled by showing it under the field, no need to show toast
+      console.error('Form submission error:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center z-50 p-4"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto animate-fadeIn">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {mode === 'create' ? 'Add Escalation Policy' : 'Edit Escalation Policy'}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors p-1 hover:bg-gray-100 rounded"
+            disabled={submitting}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <InputField
+            label="Policy Name"
+            name="name"
+            type="text"
+            value={formData.name}
+            onChange={handleChange}
+            required
+            placeholder="Production on-call"
+            error={errors.name}
+          />
+
+          <div>
+            <InputField
+              label="Re-notify every (minutes)"
+              name="repeatIntervalMinutes"
+              type="number"
+              value={formData.repeatIntervalMinutes}
+              onChange={handleChange}
+              min={0}
+              error={errors.repeatIntervalMinutes}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Paged channels are reminded until someone acknowledges. Use 0 to notify once.
+            </p>
+          </div>
+
+          {/* Steps */}
+          <div className="pt-2 border-t border-gray-200 space-y-3">
+            <h4 className="text-sm font-semibold text-gray-900 pt-2">Steps</h4>
+
+            {channels.length === 0 && (
+              <p className="text-xs text-gray-500">Add a notification channel first to page it from a policy.</p>
+            )}
+
+            {formData.steps.map((step, index) => (
+              <div key={index} className="p-3 border border-gray-200 rounded-lg space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-2 text-sm text-gray-700">
+                    <span className="font-medium">Step {index + 1}</span>
+                    {index === 0 ? (
+                      <span className="text-gray-500">notifies right away</span>
+                    ) : (
+                      <>
+                        <span className="text-gray-500">after</span>
+                        <input
+                          type="number"
+                          min={0}
+                          value={step.afterMinutes}
+                          onChange={(e) => updateStep(index, { afterMinutes: parseInt(e.target.value) || 0 })}
+                          className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF5A5F] focus:border-transparent"
+                        />
+                        <span className="text-gray-500">min without acknowledgement</span>
+                      </>
+                    )}
+                  </div>
+                  {index > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveStep(index)}
+                      className="hover:cursor-pointer text-xs text-red-600 hover:text-red-900"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {channels.map((channel) => (
+                    <label key={channel.id} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={step.channelIds.includes(channel.id)}
+                        onChange={() => handleStepChannelToggle(index, channel.id)}
+                        className="rounded border-gray-300 text-[#FF5A5F] focus:ring-[#FF5A5F]"
+                      />
+                      <span>{channel.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            {formData.steps.length < 10 && (
+              <button
+                type="button"
+                onClick={handleAddStep}
+                className="hover:cursor-pointer text-sm text-blue-600 hover:text-blue-900"
+              >
+                + Add step
+              </button>
+            )}
+            {errors.steps && <p className="text-sm text-red-600">{errors.steps}</p>}
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={submitting}
+              className="hover:cursor-pointer flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="hover:cursor-pointer flex-1 px-4 py-2 bg-[#FF5A5F] text-white rounded-lg hover:bg-[#FC4C4C] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {submitting ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  {mode === 'create' ? 'Creating...' : 'Saving...'}
+                </>
+              ) : (
+                <>{mode === 'create' ? 'Add Policy' : 'Save Changes'}</>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import TextAreaField from './TextAreaField';
+import { useIncidents } from '@/contexts/IncidentContext';
+import { Incident, IncidentEventType } from '@/services/incidentService';
+import IncidentStatusBadge from './IncidentStatusBadge';
+
+interface IncidentDetailModalProps {
+  incidentId: string | null;
+  onClose: () => void;
+}
+
+const eventColors: Record<IncidentEventType, string> = {
+  OPENED: 'bg-red-500',
+  NOTIFIED: 'bg-blue-400',
+  DEPENDENT: 'bg-purple-400',
+  ACKNOWLEDGED: 'bg-yellow-400',
+  NOTE: 'bg-gray-400',
+  RESOLVED: 'bg-green-500',
+};
+
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+export default function IncidentDetailModal({ incidentId, onClose }: IncidentDetailModalProps) {
+  const { getIncident, updateIncident } = useIncidents();
+  const [incident, setIncident] = useState<Incident | null>(null);
+  const [resolutionNotes, setResolutionNotes] = useState('');
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!incidentId) {
+      setIncident(null);
+      return;
+    }
+    getIncident(incidentId).then((data) => {
+      setIncident(data);
+      setResolutionNotes(data?.resolutionNotes || '');
+      setNote('');
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [incidentId]);
+
+  const runUpdate = async (data: Parameters<typeof updateIncident>[1]) => {
+    if (!incident) return;
+    setBusy(true);
+    try {
+      const updated = await updateIncident(incident.id, data);
+      if (updated) {
+        setIncident(updated);
+        setResolutionNotes(updated.resolutionNotes || '');
+        setNote('');
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget && !busy) {
+      onClose();
+    }
+  };
+
+  if (!incidentId) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center z-50 p-4"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto animate-fadeIn">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {incident ? `Incident: ${incident.endpointName}` : 'Incident'}
+            </h3>
+            {incident && <IncidentStatusBadge status={incident.status} />}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors p-1 hover:bg-gray-100 rounded"
+            disabled={busy}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {!incident ? (
+          <div className="p-12 text-center">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-[#FF5A5F]"></div>
+          </div>
+        ) : (
+          <div className="p-6 space-y-6">
+            {/* Summary */}
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <div className="text-gray-500">Started</div>
+                <div className="text-gray-900">{formatDateTime(incident.startedAt)}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Ended</div>
+                <div className="text-gray-900">{incident.endedAt ? formatDateTime(incident.endedAt) : 'Ongoing'}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Duration</div>
+                <div className="text-gray-900">{incident.duration}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Acknowledged by</div>
+                <div className="text-gray-900">{incident.acknowledgedBy || '-'}</div>
+              </div>
+              <div className="col-span-2">
+                <div className="text-gray-500">First error</div>
+                <div className="text-gray-900 font-mono text-xs break-all">
+                  {incident.httpCode ? `HTTP ${incident.httpCode}: ` : ''}
+                  {incident.firstError || 'Service unavailable'}
+                </div>
+              </div>
+            </div>
+
+            {/* Actions */}
+            {incident.status !== 'RESOLVED' && (
+              <div className="flex gap-3">
+                {incident.status === 'OPEN' && (
+                  <button
+                    onClick={() => runUpdate({ status: 'ACKNOWLEDGED' })}
+                    disabled={busy}
+                    className="hover:cursor-pointer px-3 py-1.5 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg hover:bg-yellow-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Acknowledge
+                  </button>
+                )}
+                <button
+                  onClick={() => runUpdate({ status: 'RESOLVED' })}
+                  disabled={busy}
+                  className="hover:cursor-pointer px-3 py-1.5 text-sm text-green-800 bg-green-50 border border-green-200 rounded-lg hover:bg-green-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Resolve
+                </button>
+              </div>
+            )}
+
+            {/* Resolution Notes */}
+            <div className="space-y-2">
+              <TextAreaField
+                label="Resolution Notes"
+                name="resolutionNotes"
+                value={resolutionNotes}
+                onChange={(e) => setResolutionNotes(e.target.value)}
+                placeholder="Root cause and fix"
+                rows={3}
+              />
+              <button
+                onClick={() => runUpdate({ resolutionNotes })}
+                disabled={busy || resolutionNotes === (incident.resolutionNotes || '')}
+                className="hover:cursor-pointer px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save notes
+              </button>
+            </div>
+
+            {/* Timeline */}
+            <div className="pt-2 border-t border-gray-200">
+              <h4 className="text-sm font-semibold text-gray-900 pt-2 mb-3">Timeline</h4>
+              <ol className="space-y-3">
+                {(incident.events || []).map((event) => (
+                  <li key={event.id} className="flex gap-3">
+                    <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${eventColors[event.type]}`}></span>
+                    <div className="text-sm">
+                      <div className="text-gray-900">{event.message}</div>
+                      <div className="text-xs text-gray-500">
+                        {formatDateTime(event.createdAt)}
+                        {event.author && ` · ${event.author}`}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+
+              <div className="flex gap-2 mt-4">
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Add a note to the timeline"
+                  className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF5A5F] focus:border-transparent"
+                />
+                <button
+                  onClick={() => runUpdate({ note })}
+                  disabled={busy || !note.trim()}
+                  className="hover:cursor-pointer px-3 py-2 text-sm bg-[#FF5A5F] text-white rounded-lg hover:bg-[#FC4C4C] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Add note
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
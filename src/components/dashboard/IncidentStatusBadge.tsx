@@ -0,0 +1,22 @@
+import React from 'react';
+import { IncidentStatus } from '@/services/incidentService';
+
+const statusStyles: Record<IncidentStatus, { label: string; className: string }> = {
+  OPEN: { label: 'Open', className: 'text-red-700 bg-red-100' },
+  ACKNOWLEDGED: { label: 'Acknowledged', className: 'text-yellow-800 bg-yellow-100' },
+  RESOLVED: { label: 'Resolved', className: 'text-green-700 bg-green-100' },
+};
+
+interface IncidentStatusBadgeProps {
+  status: IncidentStatus;
+}
+
+export default function IncidentStatusBadge({ status }: IncidentStatusBadgeProps) {
+  const style = statusStyles[status];
+
+  return (
+    <span className={`px-2 py-0.5 text-xs font-medium rounded ${style.className}`}>
+      {style.label}
+    </span>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useIncidents } from '@/contexts/IncidentContext';
+import { IncidentStatus } from '@/services/incidentService';
+import IncidentStatusBadge from './IncidentStatusBadge';
+import IncidentDetailModal from './IncidentDetailModal';
+
+const filterOptions: { value: IncidentStatus | null; label: string }[] = [
+  { value: null, label: 'All' },
+  { value: 'OPEN', label: 'Open' },
+  { value: 'ACKNOWLEDGED', label: 'Acknowledged' },
+  { value: 'RESOLVED', label: 'Resolved' },
+];
+
+export default function IncidentsPanel() {
+  const { incidents, loading, statusFilter, setStatusFilter, fetchIncidents } = useIncidents();
+  const [selectedIncidentId, setSelectedIncidentId] = useState<string | null>(null);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mt-6 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Incidents</h2>
+          <p className="text-sm text-gray-500 mt-1">Outages opened when an endpoint crosses its alert threshold</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {filterOptions.map((option) => (
+            <button
+              key={option.label}
+              onClick={() => setStatusFilter(option.value)}
+              className={`hover:cursor-pointer px-3 py-1 text-sm rounded-lg transition-colors ${
+                statusFilter === option.value
+                  ? 'bg-gray-900 text-white'
+                  : 'text-gray-700 bg-white border border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          <button
+            onClick={fetchIncidents}
+            className="hover:cursor-pointer p-1.5 text-gray-500 hover:text-gray-900 hover:bg-gray-100 rounded transition-colors"
+            title="Refresh"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+              />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-6 text-center text-sm text-gray-500">Loading incidents...</div>
+      ) : incidents.length === 0 ? (
+        <div className="p-6 text-center text-sm text-gray-500">No incidents</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Endpoint</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Started</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Duration</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">First Error</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {incidents.map((incident) => (
+                <tr
+                  key={incident.id}
+                  onClick={() => setSelectedIncidentId(incident.id)}
+                  className="hover:bg-gray-50 hover:cursor-pointer transition-colors"
+                >
+                  <td className="px-6 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{incident.endpointName}</td>
+                  <td className="px-6 py-3 whitespace-nowrap">
+                    <IncidentStatusBadge status={incident.status} />
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                    {new Date(incident.startedAt).toLocaleString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                  </td>
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                    {incident.duration}
+                    {!incident.endedAt && ' (ongoing)'}
+                  </td>
+                  <td className="px-6 py-3 text-sm text-gray-500 max-w-xs truncate" title={incident.firstError || ''}>
+                    {incident.httpCode ? `HTTP ${incident.httpCode}: ` : ''}
+                    {incident.firstError || '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <IncidentDetailModal incidentId={selectedIncidentId} onClose={() => setSelectedIncidentId(null)} />
+    </div>
+  );
+}
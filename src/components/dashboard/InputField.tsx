@@ -3,7 +3,7 @@ import React from 'react';
 interface InputFieldProps {
   label: string;
   name: string;
-  type?: 'text' | 'url' | 'number';
+  type?: 'text' | 'url' | 'number' | 'password' | 'email' | 'date' | 'time' | 'datetime-local';
   value: string | number;
   onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   required?: boolean;
@@ -0,0 +1,93 @@
+import React from 'react';
+
+export interface KeyValuePair {
+  key: string;
+  value: string;
+}
+
+interface KeyValueFieldProps {
+  label: string;
+  pairs: KeyValuePair[];
+  onChange: (pairs: KeyValuePair[]) => void;
+  keyPlaceholder?: string;
+  valuePlaceholder?: string;
+  addLabel?: string;
+}
+
+/**
+ * Convert a record (headers, query params) to editable rows
+ */
+export function recordToPairs(record?: Record<string, string> | null): KeyValuePair[] {
+  return Object.entries(record || {}).map(([key, value]) => ({ key, value }));
+}
+
+/**
+ * Convert editable rows back to a record, skipping rows without a key
+ */
+export function pairsToRecord(pairs: KeyValuePair[]): Record<string, string> {
+  return pairs.reduce<Record<string, string>>((acc, pair) => {
+    const key = pair.key.trim();
+    if (key) acc[key] = pair.value;
+    return acc;
+  }, {});
+}
+
+export default function KeyValueField({
+  label,
+  pairs,
+  onChange,
+  keyPlaceholder = 'Key',
+  valuePlaceholder = 'Value',
+  addLabel = 'Add row',
+}: KeyValueFieldProps) {
+  const updatePair = (index: number, field: keyof KeyValuePair, value: string) => {
+    onChange(pairs.map((pair, i) => (i === index ? { ...pair, [field]: value } : pair)));
+  };
+
+  const removePair = (index: number) => {
+    onChange(pairs.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="w-full">
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <div className="space-y-2">
+        {pairs.map((pair, index) => (
+          <div key={index} className="flex gap-2">
+            <input
+              type="text"
+              value={pair.key}
+              onChange={(e) => updatePair(index, 'key', e.target.value)}
+              placeholder={keyPlaceholder}
+              className="w-2/5 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#FF5A5F] focus:border-transparent transition-colors"
+            />
+            <input
+              type="text"
+              value={pair.value}
+              onChange={(e) => updatePair(index, 'value', e.target.value)}
+              placeholder={valuePlaceholder}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-[#FF5A5F] focus:border-transparent transition-colors"
+            />
+            <button
+              type="button"
+              onClick={() => removePair(index)}
+              className="hover:cursor-pointer text-gray-400 hover:text-red-600 p-2 hover:bg-red-50 rounded transition-colors"
+              title="Remove"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange([...pairs, { key: '', value: '' }])}
+          className="hover:cursor-pointer text-sm text-[#FF5A5F] hover:text-[#FC4C4C] font-medium"
+        >
+          + {addLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import InputField from './InputField';
+import SelectField from './SelectField';
+import { Endpoint } from '@/services/endpointService';
+import {
+  CreateMaintenanceWindowDTO,
+  MaintenanceRecurrence,
+  MaintenanceWindow,
+} from '@/services/maintenanceWindowService';
+
+interface MaintenanceWindowFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: CreateMaintenanceWindowDTO) => Promise<void>;
+  window?: MaintenanceWindow | null;
+  mode: 'create' | 'edit';
+  endpoints: Endpoint[];
+}
+
+interface WindowFormState {
+  name: string;
+  description: string;
+  endpointId: string; // '' for all endpoints
+  startsAt: string; // datetime-local values in the browser's timezone
+  endsAt: string;
+  recurrence: MaintenanceRecurrence;
+  repeatUntil: string;
+}
+
+type WindowFormErrors = Partial<Record<keyof WindowFormState, string>>;
+
+const recurrenceOptions = [
+  { value: 'NONE', label: 'Does not repeat' },
+  { value: 'DAILY', label: 'Every day' },
+  { value: 'WEEKLY', label: 'Every week' },
+];
+
+/**
+ * Format a date as a datetime-local input value in the browser's timezone
+ */
+function toLocalInput(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function getInitialFormState(): WindowFormState {
+  const start = new Date();
+  start.setMinutes(0, 0, 0);
+  start.setHours(start.getHours() + 1);
+
+  return {
+    name: '',
+    description: '',
+    endpointId: '',
+    startsAt: toLocalInput(start),
+    endsAt: toLocalInput(new Date(start.getTime() + 60 * 60 * 1000)),
+    recurrence: 'NONE',
+    repeatUntil: '',
+  };
+}
+
+export default function MaintenanceWindowFormModal({
+  isOpen,
+  onClose,
+  onSubmit,
+  window: maintenanceWindow,
+  mode,
+  endpoints,
+}: MaintenanceWindowFormModalProps) {
+  const [formData, setFormData] = useState<WindowFormState>(getInitialFormState);
+  const [submitting, setSubmitting] = useState(false);
+  const [errors, setErrors] = useState<WindowFormErrors>({});
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(
+        mode === 'edit' && maintenanceWindow
+          ? {
+              name: maintenanceWindow.name,
+              description: maintenanceWindow.description || '',
+              endpointId: maintenanceWindow.endpointId || '',
+              startsAt: toLocalInput(new Date(maintenanceWindow.startsAt)),
+              endsAt: toLocalInput(new Date(maintenanceWindow.endsAt)),
+              recurrence: maintenanceWindow.recurrence,
+              repeatUntil: maintenanceWindow.repeatUntil ? toLocalInput(new Date(maintenanceWindow.repeatUntil)) : '',
+            }
+          : getInitialFormState()
+      );
+      setErrors({});
+    }
+  }, [isOpen, mode, maintenanceWindow]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    if (errors[name as keyof WindowFormState]) {
+      setErrors((prev) => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: WindowFormErrors = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+    if (!formData.startsAt) {
+      newErrors.startsAt = 'Start time is required';
+    }
+    if (!formData.endsAt) {
+      newErrors.endsAt = 'End time is required';
+    } else if (formData.startsAt && new Date(formData.endsAt) <= new Date(formData.startsAt)) {
+      newErrors.endsAt = 'End time must be after the start time';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const recurring = formData.recurrence !== 'NONE';
+      await onSubmit({
+        name: formData.name.trim(),
+        description: formData.description.trim() || null,
+        endpointId: formData.endpointId || null,
+        startsAt: new Date(formData.startsAt).toISOString(),
+        endsAt: new Date(formData.endsAt).toISOString(),
+        recurrence: formData.recurrence,
+        // Repeats keep the local start time of the browser's timezone across DST changes
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'Asia/Kolkata',
+        repeatUntil: recurring && formData.repeatUntil ? new Date(formData.repeatUntil).toISOString() : null,
+      });
+      onClose();
+    } catch (error: any) {
+      const errorMessage = error.message || '';
+
+      if (errorMessage.startsWith('Start time')) {
+        setErrors((prev) => ({ ...prev, startsAt: errorMessage }));
+      } else if (errorMessage.startsWith('End time')) {
+        setErrors((prev) => ({ ...prev, endsAt: errorMessage }));
+      } else if (errorMessage.startsWith('Repeat until')) {
+        setErrors((prev) => ({ ...prev, repeatUntil: errorMessage }));
+      } else if (errorMessage.startsWith('Endpoint')) {
+        setErrors((prev) => ({ ...prev, endpointId: errorMessage }));
+      } else {
+        setErrors((prev) => ({ ...prev, name: errorMessage }));
+      }
+      // Error is handled by showing it under the field, no need to show toast
+      console.error('Form submission error:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const endpointOptions = [
+    { value: '', label: 'All endpoints' },
+    ...endpoints.map((endpoint) => ({ value: endpoint.id, label: endpoint.name })),
+  ];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center z-50 p-4"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto animate-fadeIn">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {mode === 'create' ? 'Schedule Maintenance' : 'Edit Maintenance Window'}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors p-1 hover:bg-gray-100 rounded"
+            disabled={submitting}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <InputField
+            label="Name"
+            name="name"
+            type="text"
+            value={formData.name}
+            onChange={handleChange}
+            required
+            placeholder="Database upgrade"
+            error={errors.name}
+          />
+
+          <InputField
+            label="Description"
+            name="description"
+            type="text"
+            value={formData.description}
+            onChange={handleChange}
+            placeholder="Shown on the status page"
+          />
+
+          <div>
+            <SelectField
+              label="Endpoint"
+              name="endpointId"
+              value={formData.endpointId}
+              onChange={handleChange}
+              options={endpointOptions}
+            />
+            {errors.endpointId && <p className="mt-1 text-sm text-red-600">{errors.endpointId}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <InputField
+              label="From"
+              name="startsAt"
+              type="datetime-local"
+              value={formData.startsAt}
+              onChange={handleChange}
+              required
+              error={errors.startsAt}
+            />
+            <InputField
+              label="Until"
+              name="endsAt"
+              type="datetime-local"
+              value={formData.endsAt}
+              onChange={handleChange}
+              required
+              error={errors.endsAt}
+            />
+            <SelectField
+              label="Repeat"
+              name="recurrence"
+              value={formData.recurrence}
+              onChange={handleChange}
+              options={recurrenceOptions}
+            />
+            {formData.recurrence !== 'NONE' && (
+              <InputField
+                label="Repeat Until"
+                name="repeatUntil"
+                type="datetime-local"
+                value={formData.repeatUntil}
+                onChange={handleChange}
+                error={errors.repeatUntil}
+              />
+            )}
+          </div>
+          <p className="text-xs text-gray-500 -mt-2">
+            Alerts are suppressed and checks are left out of uptime while the window is active.
+          </p>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={submitting}
+              className="hover:cursor-pointer flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="hover:cursor-pointer flex-1 px-4 py-2 bg-[#FF5A5F] text-white rounded-lg hover:bg-[#FC4C4C] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {submitting ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  {mode === 'create' ? 'Scheduling...' : 'Saving...'}
+                </>
+              ) : (
+                <>{mode === 'create' ? 'Schedule' : 'Save Changes'}</>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
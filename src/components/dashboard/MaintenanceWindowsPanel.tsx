@@ -0,0 +1,139 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useMaintenanceWindows } from '@/contexts/MaintenanceWindowContext';
+import { useEndpoints } from '@/contexts/EndpointContext';
+import { MaintenanceWindow } from '@/services/maintenanceWindowService';
+import MaintenanceWindowFormModal from './MaintenanceWindowFormModal';
+
+const recurrenceLabels: Record<MaintenanceWindow['recurrence'], string | null> = {
+  NONE: null,
+  DAILY: 'Daily',
+  WEEKLY: 'Weekly',
+};
+
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export default function MaintenanceWindowsPanel() {
+  const { windows, loading, createWindow, updateWindow, deleteWindow } = useMaintenanceWindows();
+  const { endpoints } = useEndpoints();
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [formMode, setFormMode] = useState<'create' | 'edit'>('create');
+  const [selectedWindow, setSelectedWindow] = useState<MaintenanceWindow | null>(null);
+
+  const handleOpenCreateModal = () => {
+    setFormMode('create');
+    setSelectedWindow(null);
+    setShowFormModal(true);
+  };
+
+  const handleOpenEditModal = (maintenanceWindow: MaintenanceWindow) => {
+    setFormMode('edit');
+    setSelectedWindow(maintenanceWindow);
+    setShowFormModal(true);
+  };
+
+  const handleDelete = (maintenanceWindow: MaintenanceWindow) => {
+    if (window.confirm(`Delete the "${maintenanceWindow.name}" maintenance window?`)) {
+      deleteWindow(maintenanceWindow.id);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mt-6 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Maintenance Windows</h2>
+          <p className="text-sm text-gray-500 mt-1">Planned downtime without alerts, left out of uptime</p>
+        </div>
+        <button
+          onClick={handleOpenCreateModal}
+          className="hover:cursor-pointer px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Schedule Maintenance
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="p-6 text-center text-sm text-gray-500">Loading maintenance windows...</div>
+      ) : windows.length === 0 ? (
+        <div className="p-6 text-center text-sm text-gray-500">
+          No maintenance scheduled.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {windows.map((maintenanceWindow) => {
+            const recurrence = recurrenceLabels[maintenanceWindow.recurrence];
+
+            return (
+              <li
+                key={maintenanceWindow.id}
+                className={`px-6 py-3 flex items-center justify-between gap-4 hover:bg-gray-50 transition-colors ${
+                  maintenanceWindow.nextStartsAt ? '' : 'opacity-60'
+                }`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900">{maintenanceWindow.name}</span>
+                    {maintenanceWindow.active && (
+                      <span className="px-2 py-0.5 text-xs font-medium text-blue-700 bg-blue-100 rounded">Active</span>
+                    )}
+                    {recurrence && (
+                      <span className="px-2 py-0.5 text-xs font-medium text-gray-600 bg-gray-100 rounded">{recurrence}</span>
+                    )}
+                    <span className="text-xs text-gray-500">{maintenanceWindow.endpointName ?? 'All endpoints'}</span>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-0.5">
+                    {maintenanceWindow.nextStartsAt && maintenanceWindow.nextEndsAt
+                      ? `${maintenanceWindow.active ? 'Now' : 'Next'}: ${formatDateTime(maintenanceWindow.nextStartsAt)} → ${formatDateTime(maintenanceWindow.nextEndsAt)}`
+                      : `Ended ${formatDateTime(maintenanceWindow.endsAt)}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 text-sm flex-shrink-0">
+                  <button
+                    onClick={() => handleOpenEditModal(maintenanceWindow)}
+                    className="hover:cursor-pointer px-2 py-1 text-blue-600 hover:text-blue-900 hover:bg-blue-50 rounded transition-colors"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(maintenanceWindow)}
+                    className="hover:cursor-pointer px-2 py-1 text-red-600 hover:text-red-900 hover:bg-red-50 rounded transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <MaintenanceWindowFormModal
+        isOpen={showFormModal}
+        onClose={() => {
+          setShowFormModal(false);
+          setSelectedWindow(null);
+        }}
+        onSubmit={async (data) => {
+          if (formMode === 'create') {
+            await createWindow(data);
+          } else if (selectedWindow) {
+            await updateWindow(selectedWindow.id, data);
+          }
+        }}
+        mode={formMode}
+        window={selectedWindow}
+        endpoints={endpoints}
+      />
+    </div>
+  );
+}
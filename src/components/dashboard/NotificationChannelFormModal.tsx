@@ -0,0 +1,564 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import InputField from './InputField';
+import SelectField from './SelectField';
+import KeyValueField, { KeyValuePair, pairsToRecord, recordToPairs } from './KeyValueField';
+import {
+  CreateNotificationChannelDTO,
+  EmailChannelConfig,
+  NotificationChannel,
+  NotificationChannelConfig,
+  NotificationChannelType,
+  PagerDutyChannelConfig,
+  SlackChannelConfig,
+  WebhookChannelConfig,
+  WebhookUrlChannelConfig,
+} from '@/services/notificationChannelService';
+
+interface NotificationChannelFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: CreateNotificationChannelDTO) => Promise<void>;
+  channel?: NotificationChannel | null;
+  mode: 'create' | 'edit';
+}
+
+// Settings of every channel type are edited as flat fields and assembled on submit
+interface ChannelFormState {
+  name: string;
+  type: NotificationChannelType;
+  enabled: boolean;
+  isDefault: boolean;
+  slackMode: 'webhook' | 'bot';
+  webhookUrl: string;
+  botToken: string;
+  channel: string;
+  url: string;
+  headers: KeyValuePair[];
+  host: string;
+  port: number;
+  secure: boolean;
+  username: string;
+  password: string;
+  from: string;
+  to: string;
+  routingKey: string;
+}
+
+type ChannelFormErrors = Partial<Record<keyof ChannelFormState, string>>;
+
+const initialFormState: ChannelFormState = {
+  name: '',
+  type: 'SLACK',
+  enabled: true,
+  isDefault: false,
+  slackMode: 'webhook',
+  webhookUrl: '',
+  botToken: '',
+  channel: '',
+  url: '',
+  headers: [],
+  host: '',
+  port: 587,
+  secure: false,
+  username: '',
+  password: '',
+  from: '',
+  to: '',
+  routingKey: '',
+};
+
+const channelTypeOptions = [
+  { value: 'SLACK', label: 'Slack' },
+  { value: 'TEAMS', label: 'Microsoft Teams' },
+  { value: 'DISCORD', label: 'Discord' },
+  { value: 'EMAIL', label: 'Email (SMTP)' },
+  { value: 'PAGERDUTY', label: 'PagerDuty' },
+  { value: 'WEBHOOK', label: 'Generic webhook' },
+];
+
+const slackModeOptions = [
+  { value: 'webhook', label: 'Incoming webhook' },
+  { value: 'bot', label: 'Bot token (threads recovery alerts)' },
+];
+
+const webhookPlaceholders: Partial<Record<NotificationChannelType, string>> = {
+  SLACK: 'https://hooks.slack.com/services/...',
+  TEAMS: 'https://example.webhook.office.com/...',
+  DISCORD: 'https://discord.com/api/webhooks/...',
+};
+
+/**
+ * Fill the form from an existing channel's settings
+ */
+function channelToFormState(channel: NotificationChannel): ChannelFormState {
+  const state: ChannelFormState = {
+    ...initialFormState,
+    name: channel.name,
+    type: channel.type,
+    enabled: channel.enabled,
+    isDefault: channel.isDefault,
+  };
+
+  switch (channel.type) {
+    case 'SLACK': {
+      const config = channel.config as SlackChannelConfig;
+      state.slackMode = config.botToken ? 'bot' : 'webhook';
+      state.webhookUrl = config.webhookUrl || '';
+      state.botToken = config.botToken || '';
+      state.channel = config.channel || '';
+      break;
+    }
+    case 'TEAMS':
+    case 'DISCORD':
+      state.webhookUrl = (channel.config as WebhookUrlChannelConfig).webhookUrl || '';
+      break;
+    case 'WEBHOOK': {
+      const config = channel.config as WebhookChannelConfig;
+      state.url = config.url || '';
+      state.headers = recordToPairs(config.headers);
+      break;
+    }
+    case 'EMAIL': {
+      const config = channel.config as EmailChannelConfig;
+      state.host = config.host || '';
+      state.port = config.port || 587;
+      state.secure = config.secure ?? false;
+      state.username = config.username || '';
+      state.password = config.password || '';
+      state.from = config.from || '';
+      state.to = (config.to || []).join(', ');
+      break;
+    }
+    case 'PAGERDUTY':
+      state.routingKey = (channel.config as PagerDutyChannelConfig).routingKey || '';
+      break;
+  }
+
+  return state;
+}
+
+/**
+ * Build the settings object for the selected channel type
+ */
+function formStateToConfig(state: ChannelFormState): NotificationChannelConfig {
+  switch (state.type) {
+    case 'SLACK':
+      return state.slackMode === 'bot'
+        ? { botToken: state.botToken.trim(), channel: state.channel.trim() }
+        : { webhookUrl: state.webhookUrl.trim() };
+    case 'WEBHOOK':
+      return { url: state.url.trim(), headers: pairsToRecord(state.headers) };
+    case 'EMAIL':
+      return {
+        host: state.host.trim(),
+        port: state.port,
+        secure: state.secure,
+        username: state.username.trim() || undefined,
+        password: state.password || undefined,
+        from: state.from.trim(),
+        to: state.to.split(',').map((address) => address.trim()).filter(Boolean),
+      };
+    case 'PAGERDUTY':
+      return { routingKey: state.routingKey.trim() };
+    default:
+      return { webhookUrl: state.webhookUrl.trim() };
+  }
+}
+
+export default function NotificationChannelFormModal({
+  isOpen,
+  onClose,
+  onSubmit,
+  channel,
+  mode,
+}: NotificationChannelFormModalProps) {
+  const [formData, setFormData] = useState<ChannelFormState>(initialFormState);
+  const [submitting, setSubmitting] = useState(false);
+  const [errors, setErrors] = useState<ChannelFormErrors>({});
+  const usesSlackBot = formData.type === 'SLACK' && formData.slackMode === 'bot';
+  const usesWebhookUrl =
+    (formData.type === 'SLACK' && !usesSlackBot) || formData.type === 'TEAMS' || formData.type === 'DISCORD';
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(mode === 'edit' && channel ? channelToFormState(channel) : initialFormState);
+      setErrors({});
+    }
+  }, [isOpen, mode, channel]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]:
+        type === 'checkbox'
+          ? (e.target as HTMLInputElement).checked
+          : type === 'number'
+            ? parseInt(value) || 0
+            : value,
+    }));
+    // Clear error for this field
+    if (errors[name as keyof ChannelFormState]) {
+      setErrors((prev) => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: ChannelFormErrors = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+
+    if (usesWebhookUrl && !formData.webhookUrl.trim()) {
+      newErrors.webhookUrl = 'Webhook URL is required';
+    }
+    if (usesSlackBot) {
+      if (!formData.botToken.trim()) newErrors.botToken = 'Bot token is required';
+      if (!formData.channel.trim()) newErrors.channel = 'Channel is required';
+    }
+    if (formData.type === 'WEBHOOK' && !formData.url.trim()) {
+      newErrors.url = 'URL is required';
+    }
+    if (formData.type === 'EMAIL') {
+      if (!formData.host.trim()) newErrors.host = 'SMTP host is required';
+      if (!formData.from.trim()) newErrors.from = 'From address is required';
+      if (!formData.to.trim()) newErrors.to = 'At least one recipient is required';
+    }
+    if (formData.type === 'PAGERDUTY' && !formData.routingKey.trim()) {
+      newErrors.routingKey = 'Routing key is required';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit({
+        name: formData.name.trim(),
+        type: formData.type,
+        config: formStateToConfig(formData),
+        enabled: formData.enabled,
+        isDefault: formData.isDefault,
+      });
+      onClose();
+    } catch (error: any) {
+      const errorMessage = error.message || '';
+
+      if (errorMessage.includes('name')) {
+        setErrors((prev) => ({ ...prev, name: errorMessage }));
+      } else if (errorMessage.startsWith('Webhook headers')) {
+        setErrors((prev) => ({ ...prev, headers: errorMessage }));
+      } else if (errorMessage.startsWith('Webhook URL')) {
+        setErrors((prev) => ({ ...prev, [usesWebhookUrl ? 'webhookUrl' : 'url']: errorMessage }));
+      } else if (errorMessage.startsWith('Slack bot token')) {
+        setErrors((prev) => ({ ...prev, botToken: errorMessage }));
+      } else if (errorMessage.startsWith('Slack channel')) {
+        setErrors((prev) => ({ ...prev, channel: errorMessage }));
+      } else if (errorMessage.startsWith('SMTP host')) {
+        setErrors((prev) => ({ ...prev, host: errorMessage }));
+      } else if (errorMessage.startsWith('SMTP port')) {
+        setErrors((prev) => ({ ...prev, port: errorMessage }));
+      } else if (errorMessage.startsWith('From address')) {
+        setErrors((prev) => ({ ...prev, from: errorMessage }));
+      } else if (errorMessage.startsWith('Recipients')) {
+        setErrors((prev) => ({ ...prev, to: errorMessage }));
+      } else if (errorMessage.startsWith('PagerDuty')) {
+        setErrors((prev) => ({ ...prev, routingKey: errorMessage }));
+      }
+      // Error is handled by showing it under the field, no need to show toast
+      console.error('Form submission error:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center z-50 p-4"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto animate-fadeIn">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {mode === 'create' ? 'Add Notification Channel' : 'Edit Notification Channel'}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors p-1 hover:bg-gray-100 rounded"
+            disabled={submitting}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <InputField
+            label="Channel Name"
+            name="name"
+            type="text"
+            value={formData.name}
+            onChange={handleChange}
+            required
+            placeholder="#ops-alerts"
+            error={errors.name}
+          />
+
+          <SelectField
+            label="Channel Type"
+            name="type"
+            value={formData.type}
+            onChange={handleChange}
+            options={channelTypeOptions}
+            required
+          />
+
+          {formData.type === 'SLACK' && (
+            <SelectField
+              label="Connection"
+              name="slackMode"
+              value={formData.slackMode}
+              onChange={handleChange}
+              options={slackModeOptions}
+            />
+          )}
+
+          {usesSlackBot && (
+            <>
+              <InputField
+                label="Bot Token"
+                name="botToken"
+                type="password"
+                value={formData.botToken}
+                onChange={handleChange}
+                required
+                placeholder="xoxb-..."
+                error={errors.botToken}
+              />
+              <InputField
+                label="Channel"
+                name="channel"
+                type="text"
+                value={formData.channel}
+                onChange={handleChange}
+                required
+                placeholder="#ops-alerts or C0123456789"
+                error={errors.channel}
+              />
+            </>
+          )}
+
+          {formData.type === 'SLACK' && (
+            <p className="text-xs text-gray-500">
+              Enable interactivity in your Slack app with the request URL <code>/api/slack/interactions</code> and
+              set SLACK_SIGNING_SECRET so the Acknowledge and Mute buttons work.
+            </p>
+          )}
+
+          {usesWebhookUrl && (
+            <InputField
+              label="Webhook URL"
+              name="webhookUrl"
+              type="url"
+              value={formData.webhookUrl}
+              onChange={handleChange}
+              required
+              placeholder={webhookPlaceholders[formData.type]}
+              error={errors.webhookUrl}
+            />
+          )}
+
+          {formData.type === 'WEBHOOK' && (
+            <>
+              <InputField
+                label="URL"
+                name="url"
+                type="url"
+                value={formData.url}
+                onChange={handleChange}
+                required
+                placeholder="https://example.com/hooks/uptime"
+                error={errors.url}
+              />
+              <KeyValueField
+                label="Headers"
+                pairs={formData.headers}
+                onChange={(headers) => setFormData((prev) => ({ ...prev, headers }))}
+                keyPlaceholder="Authorization"
+                valuePlaceholder="Bearer token"
+                addLabel="Add header"
+              />
+              {errors.headers && <p className="text-xs text-red-600 -mt-2">{errors.headers}</p>}
+              <p className="text-xs text-gray-500">
+                Alerts are sent as a JSON POST with event, title, message, endpoint and details fields.
+              </p>
+            </>
+          )}
+
+          {formData.type === 'EMAIL' && (
+            <>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <InputField
+                    label="SMTP Host"
+                    name="host"
+                    type="text"
+                    value={formData.host}
+                    onChange={handleChange}
+                    required
+                    placeholder="smtp.example.com"
+                    error={errors.host}
+                  />
+                </div>
+                <InputField
+                  label="Port"
+                  name="port"
+                  type="number"
+                  value={formData.port}
+                  onChange={handleChange}
+                  required
+                  min={1}
+                  error={errors.port}
+                />
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  name="secure"
+                  checked={formData.secure}
+                  onChange={handleChange}
+                  className="rounded border-gray-300 text-[#FF5A5F] focus:ring-[#FF5A5F]"
+                />
+                Use TLS from the start (usually port 465)
+              </label>
+
+              <div className="grid grid-cols-2 gap-4">
+                <InputField
+                  label="Username"
+                  name="username"
+                  type="text"
+                  value={formData.username}
+                  onChange={handleChange}
+                />
+                <InputField
+                  label="Password"
+                  name="password"
+                  type="password"
+                  value={formData.password}
+                  onChange={handleChange}
+                />
+              </div>
+
+              <InputField
+                label="From"
+                name="from"
+                type="email"
+                value={formData.from}
+                onChange={handleChange}
+                required
+                placeholder="uptime@example.com"
+                error={errors.from}
+              />
+
+              <InputField
+                label="Recipients"
+                name="to"
+                type="text"
+                value={formData.to}
+                onChange={handleChange}
+                required
+                placeholder="oncall@example.com, ops@example.com"
+                error={errors.to}
+              />
+            </>
+          )}
+
+          {formData.type === 'PAGERDUTY' && (
+            <InputField
+              label="Integration Key"
+              name="routingKey"
+              type="text"
+              value={formData.routingKey}
+              onChange={handleChange}
+              required
+              placeholder="Events API v2 routing key"
+              error={errors.routingKey}
+            />
+          )}
+
+          <div className="pt-2 border-t border-gray-200 space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700 pt-2">
+              <input
+                type="checkbox"
+                name="enabled"
+                checked={formData.enabled}
+                onChange={handleChange}
+                className="rounded border-gray-300 text-[#FF5A5F] focus:ring-[#FF5A5F]"
+              />
+              Enabled
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                name="isDefault"
+                checked={formData.isDefault}
+                onChange={handleChange}
+                className="rounded border-gray-300 text-[#FF5A5F] focus:ring-[#FF5A5F]"
+              />
+              Default channel (used by endpoints without their own channels)
+            </label>
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={submitting}
+              className="hover:cursor-pointer flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="hover:cursor-pointer flex-1 px-4 py-2 bg-[#FF5A5F] text-white rounded-lg hover:bg-[#FC4C4C] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {submitting ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  {mode === 'create' ? 'Creating...' : 'Saving...'}
+                </>
+              ) : (
+                <>{mode === 'create' ? 'Add Channel' : 'Save Changes'}</>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
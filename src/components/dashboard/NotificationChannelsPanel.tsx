@@ -0,0 +1,137 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useNotificationChannels } from '@/contexts/NotificationChannelContext';
+import { NotificationChannel, NotificationChannelType } from '@/services/notificationChannelService';
+import NotificationChannelFormModal from './NotificationChannelFormModal';
+
+const channelTypeLabels: Record<NotificationChannelType, string> = {
+  SLACK: 'Slack',
+  TEAMS: 'Teams',
+  DISCORD: 'Discord',
+  EMAIL: 'Email',
+  PAGERDUTY: 'PagerDuty',
+  WEBHOOK: 'Webhook',
+};
+
+export default function NotificationChannelsPanel() {
+  const { channels, loading, createChannel, updateChannel, deleteChannel, testChannel } = useNotificationChannels();
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [formMode, setFormMode] = useState<'create' | 'edit'>('create');
+  const [selectedChannel, setSelectedChannel] = useState<NotificationChannel | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleOpenCreateModal = () => {
+    setFormMode('create');
+    setSelectedChannel(null);
+    setShowFormModal(true);
+  };
+
+  const handleOpenEditModal = (channel: NotificationChannel) => {
+    setFormMode('edit');
+    setSelectedChannel(channel);
+    setShowFormModal(true);
+  };
+
+  const handleAction = async (channel: NotificationChannel, action: (id: string) => Promise<void>) => {
+    setBusyId(channel.id);
+    try {
+      await action(channel.id);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = (channel: NotificationChannel) => {
+    const routed = channel.endpointCount > 0
+      ? ` ${channel.endpointCount} endpoint(s) route alerts to it.`
+      : '';
+    if (window.confirm(`Delete the "${channel.name}" channel?${routed}`)) {
+      handleAction(channel, deleteChannel);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mt-6 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Notification Channels</h2>
+          <p className="text-sm text-gray-500 mt-1">Where down, recovery and certificate alerts are delivered</p>
+        </div>
+        <button
+          onClick={handleOpenCreateModal}
+          className="hover:cursor-pointer px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Add Channel
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="p-6 text-center text-sm text-gray-500">Loading channels...</div>
+      ) : channels.length === 0 ? (
+        <div className="p-6 text-center text-sm text-gray-500">
+          No channels yet. Alerts are sent to the Slack webhook configured on the server.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {channels.map((channel) => (
+            <li key={channel.id} className="px-6 py-3 flex items-center justify-between hover:bg-gray-50 transition-colors">
+              <div className="flex items-center gap-2">
+                <span className={`w-2 h-2 rounded-full ${channel.enabled ? 'bg-green-500' : 'bg-gray-300'}`}></span>
+                <span className="text-sm font-medium text-gray-900">{channel.name}</span>
+                <span className="px-2 py-0.5 text-xs font-medium text-gray-600 bg-gray-100 rounded">
+                  {channelTypeLabels[channel.type]}
+                </span>
+                {channel.isDefault && (
+                  <span className="px-2 py-0.5 text-xs font-medium text-blue-700 bg-blue-100 rounded">Default</span>
+                )}
+                <span className="text-xs text-gray-500">
+                  {channel.endpointCount} endpoint{channel.endpointCount === 1 ? '' : 's'}
+                </span>
+              </div>
+              <div className="flex items-center gap-2 text-sm">
+                <button
+                  onClick={() => handleAction(channel, testChannel)}
+                  disabled={busyId === channel.id}
+                  className="hover:cursor-pointer px-2 py-1 text-green-600 hover:text-green-900 hover:bg-green-50 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Send test
+                </button>
+                <button
+                  onClick={() => handleOpenEditModal(channel)}
+                  className="hover:cursor-pointer px-2 py-1 text-blue-600 hover:text-blue-900 hover:bg-blue-50 rounded transition-colors"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(channel)}
+                  disabled={busyId === channel.id}
+                  className="hover:cursor-pointer px-2 py-1 text-red-600 hover:text-red-900 hover:bg-red-50 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <NotificationChannelFormModal
+        isOpen={showFormModal}
+        onClose={() => {
+          setShowFormModal(false);
+          setSelectedChannel(null);
+        }}
+        onSubmit={async (data) => {
+          if (formMode === 'create') {
+            await createChannel(data);
+          } else if (selectedChannel) {
+            await updateChannel(selectedChannel.id, data);
+          }
+        }}
+        mode={formMode}
+        channel={selectedChannel}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import InputField from './InputField';
+import { CreateOnCallOverrideDTO, OnCallSchedule } from '@/services/oncallScheduleService';
+
+interface OnCallOverrideFormModalProps {
+  schedule: OnCallSchedule | null;
+  onClose: () => void;
+  onSubmit: (data: CreateOnCallOverrideDTO) => Promise<void>;
+}
+
+interface OverrideFormState {
+  name: string;
+  slackUserId: string;
+  email: string;
+  startsAt: string; // datetime-local value in the browser's timezone
+  endsAt: string;
+}
+
+type OverrideFormErrors = Partial<Record<keyof OverrideFormState, string>>;
+
+/**
+ * Format a date as a datetime-local input value in the browser's timezone
+ */
+function toLocalInput(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+export default function OnCallOverrideFormModal({ schedule, onClose, onSubmit }: OnCallOverrideFormModalProps) {
+  const [formData, setFormData] = useState<OverrideFormState>({
+    name: '',
+    slackUserId: '',
+    email: '',
+    startsAt: '',
+    endsAt: '',
+  });
+  const [submitting, setSubmitting] = useState(false);
+  const [errors, setErrors] = useState<OverrideFormErrors>({});
+
+  useEffect(() => {
+    if (schedule) {
+      const now = new Date();
+      setFormData({
+        name: '',
+        slackUserId: '',
+        email: '',
+        startsAt: toLocalInput(now),
+        endsAt: toLocalInput(new Date(now.getTime() + 24 * 60 * 60 * 1000)),
+      });
+      setErrors({});
+    }
+  }, [schedule]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    if (errors[name as keyof OverrideFormState]) {
+      setErrors((prev) => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  // Fill the contact details when picking one of the schedule's members
+  const handleMemberPick = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const member = schedule?.members[Number(e.target.value)];
+    if (member) {
+      setFormData((prev) => ({
+        ...prev,
+        name: member.name,
+        slackUserId: member.slackUserId || '',
+        email: member.email || '',
+      }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: OverrideFormErrors = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+    if (!formData.startsAt) {
+      newErrors.startsAt = 'Start time is required';
+    }
+    if (!formData.endsAt) {
+      newErrors.endsAt = 'End time is required';
+    } else if (formData.startsAt && new Date(formData.endsAt) <= new Date(formData.startsAt)) {
+      newErrors.endsAt = 'End time must be after the start time';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit({
+        name: formData.name.trim(),
+        slackUserId: formData.slackUserId.trim() || null,
+        email: formData.email.trim() || null,
+        startsAt: new Date(formData.startsAt).toISOString(),
+        endsAt: new Date(formData.endsAt).toISOString(),
+      });
+      onClose();
+    } catch (error: any) {
+      const errorMessage = error.message || '';
+
+      if (errorMessage.includes('Slack user ID')) {
+        setErrors((prev) => ({ ...prev, slackUserId: errorMessage }));
+      } else if (errorMessage.includes('email')) {
+        setErrors((prev) => ({ ...prev, email: errorMessage }));
+      } else if (errorMessage.startsWith('Start time')) {
+        setErrors((prev) => ({ ...prev, startsAt: errorMessage }));
+      } else if (errorMessage.startsWith('End time')) {
+        setErrors((prev) => ({ ...prev, endsAt: errorMessage }));
+      } else {
+        setErrors((prev) => ({ ...prev, name: errorMessage }));
+      }
+      // Error is handled by showing it under the field, no need to show toast
+      console.error('Form submission error:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  if (!schedule) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center z-50 p-4"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto animate-fadeIn">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Add Override: {schedule.name}</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors p-1 hover:bg-gray-100 rounded"
+            disabled={submitting}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {schedule.members.length > 0 && (
+            <div className="w-full">
+              <label htmlFor="member" className="block text-sm font-medium text-gray-700 mb-1">
+                Member
+              </label>
+              <select
+                id="member"
+                defaultValue=""
+                onChange={handleMemberPick}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF5A5F] focus:border-transparent"
+              >
+                <option value="">Someone else</option>
+                {schedule.members.map((member, index) => (
+                  <option key={index} value={index}>{member.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <InputField
+            label="Name"
+            name="name"
+            type="text"
+            value={formData.name}
+            onChange={handleChange}
+            required
+            error={errors.name}
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <InputField
+              label="Slack User ID"
+              name="slackUserId"
+              type="text"
+              value={formData.slackUserId}
+              onChange={handleChange}
+              placeholder="U0123ABCD"
+              error={errors.slackUserId}
+            />
+            <InputField
+              label="Email"
+              name="email"
+              type="email"
+              value={formData.email}
+              onChange={handleChange}
+              error={errors.email}
+            />
+            <InputField
+              label="From"
+              name="startsAt"
+              type="datetime-local"
+              value={formData.startsAt}
+              onChange={handleChange}
+              required
+              error={errors.startsAt}
+            />
+            <InputField
+              label="Until"
+              name="endsAt"
+              type="datetime-local"
+              value={formData.endsAt}
+              onChange={handleChange}
+              required
+              error={errors.endsAt}
+            />
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={submitting}
+              className="hover:cursor-pointer flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="hover:cursor-pointer flex-1 px-4 py-2 bg-[#FF5A5F] text-white rounded-lg hover:bg-[#FC4C4C] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {submitting ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  Adding...
+                </>
+              ) : (
+                'Add Override'
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import InputField from './InputField';
+import SelectField from './SelectField';
+import {
+  CreateOnCallScheduleDTO,
+  OnCallMember,
+  OnCallSchedule,
+  RotationType,
+} from '@/services/oncallScheduleService';
+
+interface OnCallScheduleFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (data: CreateOnCallScheduleDTO) => Promise<void>;
+  schedule?: OnCallSchedule | null;
+  mode: 'create' | 'edit';
+}
+
+// Members are edited as rows of text fields, in rotation order
+interface MemberRow {
+  name: string;
+  slackUserId: string;
+  email: string;
+}
+
+interface ScheduleFormState {
+  name: string;
+  timezone: string;
+  rotationType: RotationType;
+  handoffTime: string;
+  startsOn: string;
+  members: MemberRow[];
+}
+
+type ScheduleFormErrors = Partial<Record<keyof ScheduleFormState, string>>;
+
+const rotationOptions = [
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'DAILY', label: 'Daily' },
+];
+
+const emptyMember: MemberRow = { name: '', slackUserId: '', email: '' };
+
+function getInitialFormState(): ScheduleFormState {
+  return {
+    name: '',
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'Asia/Kolkata',
+    rotationType: 'WEEKLY',
+    handoffTime: '09:00',
+    startsOn: new Date().toLocaleDateString('en-CA'),
+    members: [{ ...emptyMember }],
+  };
+}
+
+function toMemberRow(member: OnCallMember): MemberRow {
+  return { name: member.name, slackUserId: member.slackUserId || '', email: member.email || '' };
+}
+
+export default function OnCallScheduleFormModal({
+  isOpen,
+  onClose,
+  onSubmit,
+  schedule,
+  mode,
+}: OnCallScheduleFormModalProps) {
+  const [formData, setFormData] = useState<ScheduleFormState>(getInitialFormState);
+  const [submitting, setSubmitting] = useState(false);
+  const [errors, setErrors] = useState<ScheduleFormErrors>({});
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(
+        mode === 'edit' && schedule
+          ? {
+              name: schedule.name,
+              timezone: schedule.timezone,
+              rotationType: schedule.rotationType,
+              handoffTime: schedule.handoffTime,
+              startsOn: schedule.startsOn,
+              members: schedule.members.map(toMemberRow),
+            }
+          : getInitialFormState()
+      );
+      setErrors({});
+    }
+  }, [isOpen, mode, schedule]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+    if (errors[name as keyof ScheduleFormState]) {
+      setErrors((prev) => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const updateMember = (index: number, member: Partial<MemberRow>) => {
+    setFormData((prev) => ({
+      ...prev,
+      members: prev.members.map((current, i) => (i === index ? { ...current, ...member } : current)),
+    }));
+    setErrors((prev) => ({ ...prev, members: undefined }));
+  };
+
+  const moveMember = (index: number, offset: number) => {
+    setFormData((prev) => {
+      const members = [...prev.members];
+      [members[index], members[index + offset]] = [members[index + offset], members[index]];
+      return { ...prev, members };
+    });
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: ScheduleFormErrors = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+    if (!formData.timezone.trim()) {
+      newErrors.timezone = 'Timezone is required';
+    }
+    if (!formData.startsOn) {
+      newErrors.startsOn = 'Start date is required';
+    }
+    if (!formData.handoffTime) {
+      newErrors.handoffTime = 'Handoff time is required';
+    }
+    const missingName = formData.members.findIndex((member) => !member.name.trim());
+    if (formData.members.length === 0) {
+      newErrors.members = 'Add at least one member';
+    } else if (missingName !== -1) {
+      newErrors.members = `Member ${missingName + 1}: name is required`;
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit({
+        name: formData.name.trim(),
+        timezone: formData.timezone.trim(),
+        rotationType: formData.rotationType,
+        handoffTime: formData.handoffTime,
+        startsOn: formData.startsOn,
+        members: formData.members.map((member) => ({
+          name: member.name.trim(),
+          slackUserId: member.slackUserId.trim() || null,
+          email: member.email.trim() || null,
+        })),
+      });
+      onClose();
+    } catch (error: any) {
+      const errorMessage = error.message || '';
+
+      if (errorMessage.includes('name already exists') || errorMessage.startsWith('Schedule name')) {
+        setErrors((prev) => ({ ...prev, name: errorMessage }));
+      } else if (errorMessage.startsWith('Timezone')) {
+        setErrors((prev) => ({ ...prev, timezone: errorMessage }));
+      } else if (errorMessage.startsWith('Handoff')) {
+        setErrors((prev) => ({ ...prev, handoffTime: errorMessage }));
+      } else if (errorMessage.startsWith('Start date')) {
+        setErrors((prev) => ({ ...prev, startsOn: errorMessage }));
+      } else if (errorMessage.startsWith('Member')) {
+        setErrors((prev) => ({ ...prev, members: errorMessage }));
+      }
+      // Error is handled by showing it under the field, no need to show toast
+      console.error('Form submission error:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/20 backdrop-blur-[2px] flex items-center justify-center z-50 p-4"
+      onClick={handleBackdropClick}
+    >
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto animate-fadeIn">
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {mode === 'create' ? 'Add On-Call Schedule' : 'Edit On-Call Schedule'}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors p-1 hover:bg-gray-100 rounded"
+            disabled={submitting}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <InputField
+            label="Schedule Name"
+            name="name"
+            type="text"
+            value={formData.name}
+            onChange={handleChange}
+            required
+            placeholder="Platform primary"
+            error={errors.name}
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <SelectField
+              label="Rotation"
+              name="rotationType"
+              value={formData.rotationType}
+              onChange={handleChange}
+              options={rotationOptions}
+              required
+            />
+            <InputField
+              label="Timezone"
+              name="timezone"
+              type="text"
+              value={formData.timezone}
+              onChange={handleChange}
+              required
+              placeholder="Asia/Kolkata"
+              error={errors.timezone}
+            />
+            <InputField
+              label="First Shift Starts On"
+              name="startsOn"
+              type="date"
+              value={formData.startsOn}
+              onChange={handleChange}
+              required
+              error={errors.startsOn}
+            />
+            <InputField
+              label="Handoff Time"
+              name="handoffTime"
+              type="time"
+              value={formData.handoffTime}
+              onChange={handleChange}
+              required
+              error={errors.handoffTime}
+            />
+          </div>
+          <p className="text-xs text-gray-500 -mt-2">
+            {formData.rotationType === 'WEEKLY'
+              ? 'Members hand off every week on the weekday of the start date, at the handoff time.'
+              : 'Members hand off every day at the handoff time.'}
+          </p>
+
+          {/* Members */}
+          <div className="pt-2 border-t border-gray-200 space-y-3">
+            <h4 className="text-sm font-semibold text-gray-900 pt-2">Members (in rotation order)</h4>
+
+            {formData.members.map((member, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="w-5 text-xs text-gray-400">{index + 1}.</span>
+                <input
+                  type="text"
+                  value={member.name}
+                  onChange={(e) => updateMember(index, { name: e.target.value })}
+                  placeholder="Name"
+                  className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF5A5F] focus:border-transparent"
+                />
+                <input
+                  type="text"
+                  value={member.slackUserId}
+                  onChange={(e) => updateMember(index, { slackUserId: e.target.value })}
+                  placeholder="Slack user ID"
+                  className="w-32 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF5A5F] focus:border-transparent"
+                />
+                <input
+                  type="email"
+                  value={member.email}
+                  onChange={(e) => updateMember(index, { email: e.target.value })}
+                  placeholder="Email"
+                  className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF5A5F] focus:border-transparent"
+                />
+                <button
+                  type="button"
+                  onClick={() => moveMember(index, -1)}
+                  disabled={index === 0}
+                  className="hover:cursor-pointer px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30 disabled:cursor-not-allowed"
+                  title="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setFormData((prev) => ({ ...prev, members: prev.members.filter((_, i) => i !== index) }))}
+                  disabled={formData.members.length === 1}
+                  className="hover:cursor-pointer px-1 text-red-600 hover:text-red-900 disabled:opacity-30 disabled:cursor-not-allowed"
+                  title="Remove"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+
+            <button
+              type="button"
+              onClick={() => setFormData((prev) => ({ ...prev, members: [...prev.members, { ...emptyMember }] }))}
+              className="hover:cursor-pointer text-sm text-blue-600 hover:text-blue-900"
+            >
+              + Add member
+            </button>
+            {errors.members && <p className="text-sm text-red-600">{errors.members}</p>}
+            <p className="text-xs text-gray-500">
+              Slack alerts mention the on-call member by Slack user ID; other channels show their name and email.
+            </p>
+          </div>
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={submitting}
+              className="hover:cursor-pointer flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="hover:cursor-pointer flex-1 px-4 py-2 bg-[#FF5A5F] text-white rounded-lg hover:bg-[#FC4C4C] transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {submitting ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                  {mode === 'create' ? 'Creating...' : 'Saving...'}
+                </>
+              ) : (
+                <>{mode === 'create' ? 'Add Schedule' : 'Save Changes'}</>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import React, { useState } from 'react';
+import { useOnCallSchedules } from '@/contexts/OnCallScheduleContext';
+import { OnCallSchedule, OnCallShift } from '@/services/oncallScheduleService';
+import OnCallScheduleFormModal from './OnCallScheduleFormModal';
+import OnCallOverrideFormModal from './OnCallOverrideFormModal';
+
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function ShiftSummary({ label, shift, boundary }: { label: string; shift: OnCallShift | null; boundary: 'from' | 'until' }) {
+  return (
+    <div className="text-sm">
+      <span className="text-gray-500">{label}: </span>
+      {shift ? (
+        <>
+          <span className="font-medium text-gray-900">{shift.name}</span>
+          {shift.override && (
+            <span className="ml-1 px-1.5 py-0.5 text-xs font-medium text-purple-700 bg-purple-100 rounded">Override</span>
+          )}
+          <span className="text-xs text-gray-500">
+            {' '}({boundary === 'until' ? 'until' : 'from'} {formatDateTime(shift[boundary])})
+          </span>
+        </>
+      ) : (
+        <span className="text-gray-400">Nobody</span>
+      )}
+    </div>
+  );
+}
+
+export default function OnCallSchedulesPanel() {
+  const { schedules, loading, createSchedule, updateSchedule, deleteSchedule, createOverride, deleteOverride } =
+    useOnCallSchedules();
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [formMode, setFormMode] = useState<'create' | 'edit'>('create');
+  const [selectedSchedule, setSelectedSchedule] = useState<OnCallSchedule | null>(null);
+  const [overrideSchedule, setOverrideSchedule] = useState<OnCallSchedule | null>(null);
+
+  const handleOpenCreateModal = () => {
+    setFormMode('create');
+    setSelectedSchedule(null);
+    setShowFormModal(true);
+  };
+
+  const handleOpenEditModal = (schedule: OnCallSchedule) => {
+    setFormMode('edit');
+    setSelectedSchedule(schedule);
+    setShowFormModal(true);
+  };
+
+  const handleDelete = (schedule: OnCallSchedule) => {
+    const used = schedule.endpointCount > 0
+      ? ` Alerts of ${schedule.endpointCount} endpoint(s) will stop mentioning anyone.`
+      : '';
+    if (window.confirm(`Delete the "${schedule.name}" schedule?${used}`)) {
+      deleteSchedule(schedule.id);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mt-6 overflow-hidden">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">On-Call Schedules</h2>
+          <p className="text-sm text-gray-500 mt-1">Who is mentioned in alerts right now, and who is up next</p>
+        </div>
+        <button
+          onClick={handleOpenCreateModal}
+          className="hover:cursor-pointer px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Add Schedule
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="p-6 text-center text-sm text-gray-500">Loading schedules...</div>
+      ) : schedules.length === 0 ? (
+        <div className="p-6 text-center text-sm text-gray-500">
+          No schedules yet. Alerts do not mention anyone.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {schedules.map((schedule) => (
+            <li key={schedule.id} className="px-6 py-4 space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-900">{schedule.name}</span>
+                  <span className="px-2 py-0.5 text-xs font-medium text-gray-600 bg-gray-100 rounded">
+                    {schedule.rotationType === 'WEEKLY' ? 'Weekly' : 'Daily'} at {schedule.handoffTime} {schedule.timezone}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {schedule.endpointCount} endpoint{schedule.endpointCount === 1 ? '' : 's'}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                  <button
+                    onClick={() => setOverrideSchedule(schedule)}
+                    className="hover:cursor-pointer px-2 py-1 text-purple-600 hover:text-purple-900 hover:bg-purple-50 rounded transition-colors"
+                  >
+                    Override
+                  </button>
+                  <button
+                    onClick={() => handleOpenEditModal(schedule)}
+                    className="hover:cursor-pointer px-2 py-1 text-blue-600 hover:text-blue-900 hover:bg-blue-50 rounded transition-colors"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(schedule)}
+                    className="hover:cursor-pointer px-2 py-1 text-red-600 hover:text-red-900 hover:bg-red-50 rounded transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-x-6 gap-y-1">
+                <ShiftSummary label="On call now" shift={schedule.current} boundary="until" />
+                <ShiftSummary label="Next" shift={schedule.next} boundary="from" />
+              </div>
+
+              {schedule.overrides.length > 0 && (
+                <ul className="space-y-1">
+                  {schedule.overrides.map((override) => (
+                    <li key={override.id} className="flex items-center gap-2 text-xs text-gray-600">
+                      <span className="w-1.5 h-1.5 rounded-full bg-purple-400"></span>
+                      <span className="font-medium">{override.name}</span>
+                      <span>
+                        {formatDateTime(override.startsAt)} → {formatDateTime(override.endsAt)}
+                      </span>
+                      <button
+                        onClick={() => deleteOverride(schedule.id, override.id)}
+                        className="hover:cursor-pointer text-red-600 hover:text-red-900"
+                      >
+                        Remove
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <OnCallScheduleFormModal
+        isOpen={showFormModal}
+        onClose={() => {
+          setShowFormModal(false);
+          setSelectedSchedule(null);
+        }}
+        onSubmit={async (data) => {
+          if (formMode === 'create') {
+            await createSchedule(data);
+          } else if (selectedSchedule) {
+            await updateSchedule(selectedSchedule.id, data);
+          }
+        }}
+        mode={formMode}
+        schedule={selectedSchedule}
+      />
+
+      <OnCallOverrideFormModal
+        schedule={overrideSchedule}
+        onClose={() => setOverrideSchedule(null)}
+        onSubmit={async (data) => {
+          if (overrideSchedule) {
+            await createOverride(overrideSchedule.id, data);
+          }
+        }}
+      />
+    </div>
+  );
+}
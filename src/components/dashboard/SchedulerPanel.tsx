@@ -0,0 +1,123 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { schedulerService, SchedulerState } from '@/services/schedulerService';
+import { useToast } from '@/contexts/ToastContext';
+
+interface SchedulerPanelProps {
+  onChecksRun: () => Promise<void>;
+}
+
+const REFRESH_INTERVAL_MS = 15000;
+
+/**
+ * Format a timestamp relative to now, e.g. "12s ago" or "in 8s"
+ */
+function formatRelative(dateString: string | null): string {
+  if (!dateString) return '-';
+  const diffSeconds = Math.round((new Date(dateString).getTime() - Date.now()) / 1000);
+  const abs = Math.abs(diffSeconds);
+  const value = abs < 60 ? `${abs}s` : abs < 3600 ? `${Math.round(abs / 60)}m` : `${Math.round(abs / 3600)}h`;
+  return diffSeconds >= 0 ? `in ${value}` : `${value} ago`;
+}
+
+export default function SchedulerPanel({ onChecksRun }: SchedulerPanelProps) {
+  const [scheduler, setScheduler] = useState<SchedulerState | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { showToast } = useToast();
+
+  const fetchState = async () => {
+    try {
+      setScheduler(await schedulerService.getState());
+    } catch {
+      // Keep showing the last known state; the next refresh may succeed
+    }
+  };
+
+  useEffect(() => {
+    fetchState();
+    const interval = setInterval(fetchState, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const runAction = async (action: () => Promise<SchedulerState>, successMessage: string) => {
+    setBusy(true);
+    try {
+      setScheduler(await action());
+      showToast('success', successMessage);
+    } catch (err: any) {
+      showToast('error', err.response?.data?.error || 'Something went wrong while updating the scheduler');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleToggle = () => {
+    if (scheduler?.running) {
+      runAction(() => schedulerService.stop(), 'Scheduler stopped');
+    } else {
+      runAction(() => schedulerService.start(), 'Scheduler started');
+    }
+  };
+
+  const handleRunAll = async () => {
+    await runAction(() => schedulerService.runNow(), 'All endpoints checked');
+    await onChecksRun();
+  };
+
+  const lastCycle = scheduler?.lastCycle;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 mb-6">
+      <div className="px-6 py-4 flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <span
+            className={`w-3 h-3 rounded-full ${
+              scheduler?.running ? (scheduler.isLeader ? 'bg-green-500' : 'bg-yellow-400') : 'bg-gray-300'
+            }`}
+          ></span>
+          <div>
+            <h2 className="text-sm font-semibold text-gray-900">
+              Scheduler {scheduler ? (scheduler.running ? 'running' : 'stopped') : ''}
+              {scheduler?.running && !scheduler.isLeader && ' (standby)'}
+            </h2>
+            <p className="text-xs text-gray-500">
+              {scheduler?.leader ? `Leader: ${scheduler.leader.holder}` : 'No active leader'}
+              {' · '}Next run {formatRelative(scheduler?.nextRunAt ?? null)}
+              {' · '}Last check {formatRelative(scheduler?.lastCheckAt ?? null)}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-6 text-xs text-gray-500">
+          {lastCycle && (
+            <div title={`Triggered by ${lastCycle.trigger}`}>
+              Last cycle {formatRelative(lastCycle.finishedAt)} · {lastCycle.duration}ms ·{' '}
+              {lastCycle.checked}/{lastCycle.total} checked ({lastCycle.up} UP, {lastCycle.down} DOWN{lastCycle.degraded > 0 && `, ${lastCycle.degraded} DEGRADED`})
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleRunAll}
+              disabled={busy}
+              className="hover:cursor-pointer px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Check all now
+            </button>
+            <button
+              onClick={handleToggle}
+              disabled={busy || !scheduler}
+              className={`hover:cursor-pointer px-3 py-1.5 text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                scheduler?.running
+                  ? 'text-red-700 bg-red-50 border border-red-200 hover:bg-red-100'
+                  : 'text-white bg-[#FF5A5F] hover:bg-[#FC4C4C]'
+              }`}
+            >
+              {scheduler?.running ? 'Stop scheduler' : 'Start scheduler'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
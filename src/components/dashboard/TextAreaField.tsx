@@ -0,0 +1,47 @@
+import React from 'react';
+
+interface TextAreaFieldProps {
+  label: string;
+  name: string;
+  value: string;
+  onChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
+  required?: boolean;
+  placeholder?: string;
+  rows?: number;
+  error?: string;
+}
+
+export default function TextAreaField({
+  label,
+  name,
+  value,
+  onChange,
+  required = false,
+  placeholder,
+  rows = 4,
+  error,
+}: TextAreaFieldProps) {
+  // Ensure value is never undefined to prevent controlled/uncontrolled input warning
+  const safeValue = value ?? '';
+
+  return (
+    <div className="w-full">
+      <label htmlFor={name} className="block text-sm font-medium text-gray-700 mb-1">
+        {label} {required && <span className="text-red-500">*</span>}
+      </label>
+      <textarea
+        id={name}
+        name={name}
+        value={safeValue}
+        onChange={onChange}
+        required={required}
+        placeholder={placeholder}
+        rows={rows}
+        className={`w-full px-3 py-2 border rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-[#FF5A5F] focus:border-transparent transition-colors ${
+          error ? 'border-red-300 bg-red-50' : 'border-gray-300'
+        }`}
+      />
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import {
+  alertRuleService,
+  AlertRule,
+  CreateAlertRuleDTO,
+  UpdateAlertRuleDTO,
+} from '@/services/alertRuleService';
+import { useToast } from './ToastContext';
+
+interface AlertRuleContextType {
+  rules: AlertRule[];
+  loading: boolean;
+  fetchRules: () => Promise<void>;
+  createRule: (data: CreateAlertRuleDTO) => Promise<void>;
+  updateRule: (id: string, data: UpdateAlertRuleDTO) => Promise<void>;
+  deleteRule: (id: string) => Promise<void>;
+}
+
+const AlertRuleContext = createContext<AlertRuleContextType | undefined>(undefined);
+
+export function AlertRuleProvider({ children }: { children: ReactNode }) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { showToast } = useToast();
+
+  const fetchRules = async () => {
+    try {
+      setLoading(true);
+      const data = await alertRuleService.getAllRules();
+      setRules(data);
+    } catch (err: any) {
+      showToast('error', 'Something went wrong while loading alert rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createRule = async (data: CreateAlertRuleDTO) => {
+    try {
+      await alertRuleService.createRule(data);
+      showToast('success', 'Alert rule created successfully!');
+      await fetchRules();
+    } catch (err: any) {
+      if (err.response?.status === 400 || err.response?.status === 409) {
+        throw new Error(err.response?.data?.error || 'Validation error');
+      }
+      showToast('error', 'Something went wrong while creating alert rule');
+      throw new Error('Failed to create alert rule');
+    }
+  };
+
+  const updateRule = async (id: string, data: UpdateAlertRuleDTO) => {
+    try {
+      await alertRuleService.updateRule(id, data);
+      showToast('success', 'Alert rule updated successfully!');
+      await fetchRules();
+    } catch (err: any) {
+      if (err.response?.status === 400 || err.response?.status === 409) {
+        throw new Error(err.response?.data?.error || 'Validation error');
+      }
+      showToast('error', 'Something went wrong while updating alert rule');
+      throw new Error('Failed to update alert rule');
+    }
+  };
+
+  const deleteRule = async (id: string) => {
+    try {
+      await alertRuleService.deleteRule(id);
+      showToast('success', 'Alert rule deleted successfully!');
+      await fetchRules();
+    } catch (err: any) {
+      showToast('error', 'Something went wrong while deleting alert rule');
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  return (
+    <AlertRuleContext.Provider
+      value={{
+        rules,
+        loading,
+        fetchRules,
+        createRule,
+        updateRule,
+        deleteRule,
+      }}
+    >
+      {children}
+    </AlertRuleContext.Provider>
+  );
+}
+
+export function useAlertRules() {
+  const context = useContext(AlertRuleContext);
+  if (context === undefined) {
+    throw new Error('useAlertRules must be used within an AlertRuleProvider');
+  }
+  return context;
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import {
+  alertTemplateService,
+  AlertTemplate,
+  AlertTemplatePreview,
+  CreateAlertTemplateDTO,
+  PreviewAlertTemplateDTO,
+  UpdateAlertTemplateDTO,
+} from '@/services/alertTemplateService';
+import { useToast } from './ToastContext';
+
+interface AlertTemplateContextType {
+  templates: AlertTemplate[];
+  loading: boolean;
+  fetchTemplates: () => Promise<void>;
+  createTemplate: (data: CreateAlertTemplateDTO) => Promise<void>;
+  updateTemplate: (id: string, data: UpdateAlertTemplateDTO) => Promise<void>;
+  deleteTemplate: (id: string) => Promise<void>;
+  previewTemplate: (data: PreviewAlertTemplateDTO) => Promise<AlertTemplatePreview>;
+}
+
+const AlertTemplateContext = createContext<AlertTemplateContextType | undefined>(undefined);
+
+export function AlertTemplateProvider({ children }: { children: ReactNode }) {
+  const [templates, setTemplates] = useState<AlertTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { showToast } = useToast();
+
+  const fetchTemplates = async () => {
+    try {
+      setLoading(true);
+      const data = await alertTemplateService.getAllTemplates();
+      setTemplates(data);
+    } catch (err: any) {
+      showToast('error', 'Something went wrong while loading alert templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createTemplate = async (data: CreateAlertTemplateDTO) => {
+    try {
+      await alertTemplateService.createTemplate(data);
+      showToast('success', 'Alert template created successfully!');
+      await fetchTemplates();
+    } catch (err: any) {
+      if (err.response?.status === 400 || err.response?.status === 409) {
+        throw new Error(err.response?.data?.error || 'Validation error');
+      }
+      showToast('error', 'Something went wrong while creating alert template');
+      throw new Error('Failed to create alert template');
+    }
+  };
+
+  const updateTemplate = async (id: string, data: UpdateAlertTemplateDTO) => {
+    try {
+      await alertTemplateService.updateTemplate(id, data);
+      showToast('success', 'Alert template updated successfully!');
+      await fetchTemplates();
+    } catch (err: any) {
+      if (err.response?.status === 400 || err.response?.status === 409) {
+        throw new Error(err.response?.data?.error || 'Validation error');
+      }
+      showToast('error', 'Something went wrong while updating alert template');
+      throw new Error('Failed to update alert template');
+    }
+  };
+
+  const deleteTemplate = async (id: string) => {
+    try {
+      await alertTemplateService.deleteTemplate(id);
+      showToast('success', 'Alert template deleted successfully!');
+      await fetchTemplates();
+    } catch (err: any) {
+      showToast('error', 'Something went wrong while deleting alert template');
+    }
+  };
+
+  const previewTemplate = async (data: PreviewAlertTemplateDTO) => {
+    try {
+      return await alertTemplateService.previewTemplate(data);
+    } catch (err: any) {
+      if (err.response?.status === 400 || err.response?.status === 404) {
+        throw new Error(err.response?.data?.error || 'Validation error');
+      }
+      showToast('error', 'Something went wrong while previewing alert template');
+      throw new Error('Failed to preview alert template');
+    }
+  };
+
+  useEffect(() => {
+    fetchTemplates();
+  }, []);
+
+  return (
+    <AlertTemplateContext.Provider
+      value={{
+        templates,
+        loading,
+        fetchTemplates,
+        createTemplate,
+        updateTemplate,
+        deleteTemplate,
+        previewTemplate,
+      }}
+    >
+      {children}
+    </AlertTemplateContext.Provider>
+  );
+}
+
+export function useAlertTemplates() {
+  const context = useContext(AlertTemplateContext);
+  if (context === undefined) {
+    throw new Error('useAlertTemplates must be used within an AlertTemplateProvider');
+  }
+  return context;
+}
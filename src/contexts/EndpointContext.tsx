@@ -2,6 +2,7 @@
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { endpointService, Endpoint, CreateEndpointDTO, UpdateEndpointDTO } from '@/services/endpointService';
+import { schedulerService } from '@/services/schedulerService';
 import { useToast } from './ToastContext';
 
 interface EndpointContextType {
@@ -11,6 +12,8 @@ interface EndpointContextType {
   createEndpoint: (data: CreateEndpointDTO) => Promise<void>;
   updateEndpoint: (id: string, data: UpdateEndpointDTO) => Promise<void>;
   deleteEndpoint: (id: string) => Promise<void>;
+  runEndpointCheck: (id: string) => Promise<void>;
+  setEndpointPaused: (id: string, paused: boolean) => Promise<void>;
 }
 
 const EndpointContext = createContext<EndpointContextType | undefined>(undefined);
@@ -38,8 +41,8 @@ export function EndpointProvider({ children }: { children: ReactNode }) {
       showToast('success', 'Endpoint created successfully!');
       await fetchEndpoints();
     } catch (err: any) {
-      // Check if it's a validation error (409 Conflict)
-      if (err.response?.status === 409) {
+      // Check if it's a validation error (400 Bad Request or 409 Conflict)
+      if (err.response?.status === 400 || err.response?.status === 409) {
         // Throw the specific error message for form to handle
         throw new Error(err.response?.data?.error || 'Validation error');
       }
@@ -55,8 +58,8 @@ export function EndpointProvider({ children }: { children: ReactNode }) {
       showToast('success', 'Endpoint updated successfully!');
       await fetchEndpoints();
     } catch (err: any) {
-      // Check if it's a validation error (409 Conflict)
-      if (err.response?.status === 409) {
+      // Check if it's a validation error (400 Bad Request or 409 Conflict)
+      if (err.response?.status === 400 || err.response?.status === 409) {
         // Throw the specific error message for form to handle
         throw new Error(err.response?.data?.error || 'Validation error');
       }
@@ -77,6 +80,26 @@ export function EndpointProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const runEndpointCheck = async (id: string) => {
+    try {
+      await schedulerService.runNow(id);
+      showToast('success', 'Check completed');
+      await fetchEndpoints();
+    } catch (err: any) {
+      showToast('error', err.response?.data?.error || 'Something went wrong while running the check');
+    }
+  };
+
+  const setEndpointPaused = async (id: string, paused: boolean) => {
+    try {
+      await schedulerService.setPaused(id, paused);
+      showToast('success', paused ? 'Monitoring paused' : 'Monitoring resumed');
+      await fetchEndpoints();
+    } catch (err: any) {
+      showToast('error', `Something went wrong while ${paused ? 'pausing' : 'resuming'} the endpoint`);
+    }
+  };
+
   useEffect(() => {
     fetchEndpoints();
   }, []);
@@ -90,6 +113,8 @@ export function EndpointProvider({ children }: { children: ReactNode }) {
         createEndpoint,
         updateEndpoint,
         deleteEndpoint,
+        runEndpointCheck,
+        setEndpointPaused,
       }}
     >
       {children}
@@ -0,0 +1,104 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import {
+  escalationPolicyService,
+  EscalationPolicy,
+  CreateEscalationPolicyDTO,
+  UpdateEscalationPolicyDTO,
+} from '@/services/escalationPolicyService';
+import { useToast } from './ToastContext';
+
+interface EscalationPolicyContextType {
+  policies: EscalationPolicy[];
+  loading: boolean;
+  fetchPolicies: () => Promise<void>;
+  createPolicy: (data: CreateEscalationPolicyDTO) => Promise<void>;
+  updatePolicy: (id: string, data: UpdateEscalationPolicyDTO) => Promise<void>;
+  deletePolicy: (id: string) => Promise<void>;
+}
+
+const EscalationPolicyContext = createContext<EscalationPolicyContextType | undefined>(undefined);
+
+export function EscalationPolicyProvider({ children }: { children: ReactNode }) {
+  const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { showToast } = useToast();
+
+  const fetchPolicies = async () => {
+    try {
+      setLoading(true);
+      const data = await escalationPolicyService.getAllPolicies();
+      setPolicies(data);
+    } catch (err: any) {
+      showToast('error', 'Something went wrong while loading escalation policies');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createPolicy = async (data: CreateEscalationPolicyDTO) => {
+    try {
+      await escalationPolicyService.createPolicy(data);
+      showToast('success', 'Escalation policy created successfully!');
+      await fetchPolicies();
+    } catch (err: any) {
+      if (err.response?.status === 400 || err.response?.status === 409) {
+        throw new Error(err.response?.data?.error || 'Validation error');
+      }
+      showToast('error', 'Something went wrong while creating escalation policy');
+      throw new Error('Failed to create escalation policy');
+    }
+  };
+
+  const updatePolicy = async (id: string, data: UpdateEscalationPolicyDTO) => {
+    try {
+      await escalationPolicyService.updatePolicy(id, data);
+      showToast('success', 'Escalation policy updated successfully!');
+      await fetchPolicies();
+    } catch (err: any) {
+      if (err.response?.status === 400 || err.response?.status === 409) {
+        throw new Error(err.response?.data?.error || 'Validation error');
+      }
+      showToast('error', 'Something went wrong while updating escalation policy');
+      throw new Error('Failed to update escalation policy');
+    }
+  };
+
+  const deletePolicy = async (id: string) => {
+    try {
+      await escalationPolicyService.deletePolicy(id);
+      showToast('success', 'Escalation policy deleted successfully!');
+      await fetchPolicies();
+    } catch (err: any) {
+      showToast('error', 'Something went wrong while deleting escalation policy');
+    }
+  };
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  return (
+    <EscalationPolicyContext.Provider
+      value={{
+        policies,
+        loading,
+        fetchPolicies,
+        createPolicy,
+        updatePolicy,
+        deletePolicy,
+      }}
+    >
+      {children}
+    </EscalationPolicyContext.Provider>
+  );
+}
+
+export function useEscalationPolicies() {
+  const context = useContext(EscalationPolicyContext);
+  if (context === undefined) {
+    throw new Error('useEscalationPolicies must be used within an EscalationPolicyProvider');
+  }
+  return context;
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { incidentService, Incident, IncidentStatus, UpdateIncidentDTO } from '@/services/incidentService';
+import { useToast } from './ToastContext';
+
+interface IncidentContextType {
+  incidents: Incident[];
+  loading: boolean;
+  statusFilter: IncidentStatus | null;
+  setStatusFilter: (status: IncidentStatus | null) => void;
+  fetchIncidents: () => Promise<void>;
+  getIncident: (id: string) => Promise<Incident | null>;
+  updateIncident: (id: string, data: UpdateIncidentDTO) => Promise<Incident | null>;
+  deleteIncident: (id: string) => Promise<void>;
+}
+
+const IncidentContext = createContext<IncidentContextType | undefined>(undefined);
+
+export function IncidentProvider({ children }: { children: ReactNode }) {
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<IncidentStatus | null>(null);
+  const { showToast } = useToast();
+
+  const fetchIncidents = async () => {
+    try {
+      setLoading(true);
+      const data = await incidentService.getIncidents(statusFilter ? { status: statusFilter } : {});
+      setIncidents(data);
+    } catch (err: any) {
+      showToast('error', 'Something went wrong while loading incidents');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getIncident = async (id: string) => {
+    try {
+      return await incidentService.getIncidentById(id);
+    } catch (err: any) {
+      showToast('error', 'Something went wrong while loading the incident');
+      return null;
+    }
+  };
+
+  const updateIncident = async (id: string, data: UpdateIncidentDTO) => {
+    try {
+      const incident = await incidentService.updateIncident(id, data);
+      showToast('success', 'Incident updated successfully!');
+      await fetchIncidents();
+      return incident;
+    } catch (err: any) {
+      showToast('error', err.response?.data?.error || 'Something went wrong while updating the incident');
+      return null;
+    }
+  };
+
+  const deleteIncident = async (id: string) => {
+    try {
+      await incidentService.deleteIncident(id);
+      showToast('success', 'Incident deleted successfully!');
+      await fetchIncidents();
+    } catch (err: any) {
+      showToast('error', 'Something went wrong while deleting the incident');
+    }
+  };
+
+  useEffect(() => {
+    fetchIncidents();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter]);
+
+  return (
+    <IncidentContext.Provider
+      value={{
+        incidents,
+        loading,
+        statusFilter,
+        setStatusFilter,
+        fetchIncidents,
+        getIncident,
+        updateIncident,
+        deleteIncident,
+      }}
+    >
+      {children}
+    </IncidentContext.Provider>
+  );
+}
+
+export function useIncidents() {
+  const context = useContext(IncidentContext);
+  if (context === undefined) {
+    throw new Error('useIncidents must be used within an IncidentProvider');
+  }
+  return context;
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import {
+  maintenanceWindowService,
+  MaintenanceWindow,
+  CreateMaintenanceWindowDTO,
+  UpdateMaintenanceWindowDTO,
+} from '@/services/maintenanceWindowService';
+import { useToast } from './ToastContext';
+
+interface MaintenanceWindowContextType {
+  windows: MaintenanceWindow[];
+  loading: boolean;
+  fetchWindows: () => Promise<void>;
+  createWindow: (data: CreateMaintenanceWindowDTO) => Promise<void>;
+  updateWindow: (id: string, data: UpdateMaintenanceWindowDTO) => Promise<void>;
+  deleteWindow: (id: string) => Promise<void>;
+}
+
+const MaintenanceWindowContext = createContext<MaintenanceWindowContextType | undefined>(undefined);
+
+export function MaintenanceWindowProvider({ children }: { children: ReactNode }) {
+  const [windows, setWindows] = useState<MaintenanceWindow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { showToast } = useToast();
+
+  const fetchWindows = async () => {
+    try {
+      setLoading(true);
+      const data = await maintenanceWindowService.getAllWindows();
+      setWindows(data);
+    } catch (err: any) {
+      showToast('error', 'Something went wrong while loading maintenance windows');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createWindow = async (data: CreateMaintenanceWindowDTO) => {
+    try {
+      await maintenanceWindowService.createWindow(data);
+      showToast('success', 'Maintenance window scheduled successfully!');
+      await fetchWindows();
+    } catch (err: any) {
+      if (err.response?.status === 400) {
+        throw new Error(err.response?.data?.error || 'Validation error');
+      }
+      showToast('error', 'Something went wrong while scheduling maintenance window');
+      throw new Error('Failed to schedule maintenance window');
+    }
+  };
+
+  const updateWindow = async (id: string, data: UpdateMaintenanceWindowDTO) => {
+    try {
+      await maintenanceWindowService.updateWindow(id, data);
+      showToast('success', 'Maintenance window updated successfully!');
+      await fetchWindows();
+    } catch (err: any) {
+      if (err.response?.status === 400) {
+        throw new Error(err.response?.data?.error || 'Validation error');
+      }
+      showToast('error', 'Something went wrong while updating maintenance window');
+      throw new Error('Failed to update maintenance window');
+    }
+  };
+
+  const deleteWindow = async (id: string) => {
+    try {
+      await maintenanceWindowService.deleteWindow(id);
+      showToast('success', 'Maintenance window deleted successfully!');
+      await fetchWindows();
+    } catch (err: any) {
+      showToast('error', 'Something went wrong while deleting maintenance window');
+    }
+  };
+
+  useEffect(() => {
+    fetchWindows();
+  }, []);
+
+  return (
+    <MaintenanceWindowContext.Provider
+      value={{
+        windows,
+        loading,
+        fetchWindows,
+        createWindow,
+        updateWindow,
+        deleteWindow,
+      }}
+    >
+      {children}
+    </MaintenanceWindowContext.Provider>
+  );
+}
+
+export function useMaintenanceWindows() {
+  const context = useContext(MaintenanceWindowContext);
+  if (context === undefined) {
+    throw new Error('useMaintenanceWindows must be used within a MaintenanceWindowProvider');
+  }
+  return context;
+}
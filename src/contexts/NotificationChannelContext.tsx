@@ -0,0 +1,115 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import {
+  notificationChannelService,
+  NotificationChannel,
+  CreateNotificationChannelDTO,
+  UpdateNotificationChannelDTO,
+} from '@/services/notificationChannelService';
+import { useToast } from './ToastContext';
+
+interface NotificationChannelContextType {
+  channels: NotificationChannel[];
+  loading: boolean;
+  fetchChannels: () => Promise<void>;
+  createChannel: (data: CreateNotificationChannelDTO) => Promise<void>;
+  updateChannel: (id: string, data: UpdateNotificationChannelDTO) => Promise<void>;
+  deleteChannel: (id: string) => Promise<void>;
+  testChannel: (id: string) => Promise<void>;
+}
+
+const NotificationChannelContext = createContext<NotificationChannelContextType | undefined>(undefined);
+
+export function NotificationChannelProvider({ children }: { children: ReactNode }) {
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { showToast } = useToast();
+
+  const fetchChannels = async () => {
+    try {
+      setLoading(true);
+      const data = await notificationChannelService.getAllChannels();
+      setChannels(data);
+    } catch (err: any) {
+      showToast('error', 'Something went wrong while loading notification channels');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createChannel = async (data: CreateNotificationChannelDTO) => {
+    try {
+      await notificationChannelService.createChannel(data);
+      showToast('success', 'Notification channel created successfully!');
+      await fetchChannels();
+    } catch (err: any) {
+      if (err.response?.status === 400 || err.response?.status === 409) {
+        throw new Error(err.response?.data?.error || 'Validation error');
+      }
+      showToast('error', 'Something went wrong while creating notification channel');
+      throw new Error('Failed to create notification channel');
+    }
+  };
+
+  const updateChannel = async (id: string, data: UpdateNotificationChannelDTO) => {
+    try {
+      await notificationChannelService.updateChannel(id, data);
+      showToast('success', 'Notification channel updated successfully!');
+      await fetchChannels();
+    } catch (err: any) {
+      if (err.response?.status === 400 || err.response?.status === 409) {
+        throw new Error(err.response?.data?.error || 'Validation error');
+      }
+      showToast('error', 'Something went wrong while updating notification channel');
+      throw new Error('Failed to update notification channel');
+    }
+  };
+
+  const deleteChannel = async (id: string) => {
+    try {
+      await notificationChannelService.deleteChannel(id);
+      showToast('success', 'Notification channel deleted successfully!');
+      await fetchChannels();
+    } catch (err: any) {
+      showToast('error', 'Something went wrong while deleting notification channel');
+    }
+  };
+
+  const testChannel = async (id: string) => {
+    try {
+      await notificationChannelService.testChannel(id);
+      showToast('success', 'Test notification sent');
+    } catch (err: any) {
+      showToast('error', err.response?.data?.error || 'Something went wrong while sending the test notification');
+    }
+  };
+
+  useEffect(() => {
+    fetchChannels();
+  }, []);
+
+  return (
+    <NotificationChannelContext.Provider
+      value={{
+        channels,
+        loading,
+        fetchChannels,
+        createChannel,
+        updateChannel,
+        deleteChannel,
+        testChannel,
+      }}
+    >
+      {children}
+    </NotificationChannelContext.Provider>
+  );
+}
+
+export function useNotificationChannels() {
+  const context = useContext(NotificationChannelContext);
+  if (context === undefined) {
+    throw new Error('useNotificationChannels must be used within a NotificationChannelProvider');
+  }
+  return context;
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import {
+  notificationDeliveryService,
+  DeliveryStatus,
+  NotificationDelivery,
+} from '@/services/notificationDeliveryService';
+import { useToast } from './ToastContext';
+
+interface NotificationDeliveryContextType {
+  deliveries: NotificationDelivery[];
+  loading: boolean;
+  statusFilter: DeliveryStatus | null;
+  setStatusFilter: (status: DeliveryStatus | null) => void;
+  channelFilter: string | null;
+  setChannelFilter: (channelId: string | null) => void;
+  fetchDeliveries: () => Promise<void>;
+}
+
+const NotificationDeliveryContext = createContext<NotificationDeliveryContextType | undefined>(undefined);
+
+export function NotificationDeliveryProvider({ children }: { children: ReactNode }) {
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<DeliveryStatus | null>(null);
+  const [channelFilter, setChannelFilter] = useState<string | null>(null);
+  const { showToast } = useToast();
+
+  const fetchDeliveries = async () => {
+    try {
+      setLoading(true);
+      const data = await notificationDeliveryService.getDeliveries({
+        ...(statusFilter && { status: statusFilter }),
+        ...(channelFilter && { channelId: channelFilter }),
+        limit: 200,
+      });
+      setDeliveries(data);
+    } catch (err: any) {
+      showToast('error', 'Something went wrong while loading the delivery log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDeliveries();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter, channelFilter]);
+
+  return (
+    <NotificationDeliveryContext.Provider
+      value={{
+        deliveries,
+        loading,
+        statusFilter,
+        setStatusFilter,
+        channelFilter,
+        setChannelFilter,
+        fetchDeliveries,
+      }}
+    >
+      {children}
+    </NotificationDeliveryContext.Provider>
+  );
+}
+
+export function useNotificationDeliveries() {
+  const context = useContext(NotificationDeliveryContext);
+  if (context === undefined) {
+    throw new Error('useNotificationDeliveries must be used within a NotificationDeliveryProvider');
+  }
+  return context;
+}
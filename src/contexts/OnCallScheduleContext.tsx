@@ -0,0 +1,133 @@
+"use client";
+
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import {
+  oncallScheduleService,
+  OnCallSchedule,
+  CreateOnCallScheduleDTO,
+  UpdateOnCallScheduleDTO,
+  CreateOnCallOverrideDTO,
+} from '@/services/oncallScheduleService';
+import { useToast } from './ToastContext';
+
+interface OnCallScheduleContextType {
+  schedules: OnCallSchedule[];
+  loading: boolean;
+  fetchSchedules: () => Promise<void>;
+  createSchedule: (data: CreateOnCallScheduleDTO) => Promise<void>;
+  updateSchedule: (id: string, data: UpdateOnCallScheduleDTO) => Promise<void>;
+  deleteSchedule: (id: string) => Promise<void>;
+  createOverride: (scheduleId: string, data: CreateOnCallOverrideDTO) => Promise<void>;
+  deleteOverride: (scheduleId: string, overrideId: string) => Promise<void>;
+}
+
+const OnCallScheduleContext = createContext<OnCallScheduleContextType | undefined>(undefined);
+
+export function OnCallScheduleProvider({ children }: { children: ReactNode }) {
+  const [schedules, setSchedules] = useState<OnCallSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { showToast } = useToast();
+
+  const fetchSchedules = async () => {
+    try {
+      setLoading(true);
+      const data = await oncallScheduleService.getAllSchedules();
+      setSchedules(data);
+    } catch (err: any) {
+      showToast('error', 'Something went wrong while loading on-call schedules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createSchedule = async (data: CreateOnCallScheduleDTO) => {
+    try {
+      await oncallScheduleService.createSchedule(data);
+      showToast('success', 'On-call schedule created successfully!');
+      await fetchSchedules();
+    } catch (err: any) {
+      if (err.response?.status === 400 || err.response?.status === 409) {
+        throw new Error(err.response?.data?.error || 'Validation error');
+      }
+      showToast('error', 'Something went wrong while creating on-call schedule');
+      throw new Error('Failed to create on-call schedule');
+    }
+  };
+
+  const updateSchedule = async (id: string, data: UpdateOnCallScheduleDTO) => {
+    try {
+      await oncallScheduleService.updateSchedule(id, data);
+      showToast('success', 'On-call schedule updated successfully!');
+      await fetchSchedules();
+    } catch (err: any) {
+      if (err.response?.status === 400 || err.response?.status === 409) {
+        throw new Error(err.response?.data?.error || 'Validation error');
+      }
+      showToast('error', 'Something went wrong while updating on-call schedule');
+      throw new Error('Failed to update on-call schedule');
+    }
+  };
+
+  const deleteSchedule = async (id: string) => {
+    try {
+      await oncallScheduleService.deleteSchedule(id);
+      showToast('success', 'On-call schedule deleted successfully!');
+      await fetchSchedules();
+    } catch (err: any) {
+      showToast('error', 'Something went wrong while deleting on-call schedule');
+    }
+  };
+
+  const createOverride = async (scheduleId: string, data: CreateOnCallOverrideDTO) => {
+    try {
+      await oncallScheduleService.createOverride(scheduleId, data);
+      showToast('success', 'Override added successfully!');
+      await fetchSchedules();
+    } catch (err: any) {
+      if (err.response?.status === 400) {
+        throw new Error(err.response?.data?.error || 'Validation error');
+      }
+      showToast('error', 'Something went wrong while adding override');
+      throw new Error('Failed to add override');
+    }
+  };
+
+  const deleteOverride = async (scheduleId: string, overrideId: string) => {
+    try {
+      await oncallScheduleService.deleteOverride(scheduleId, overrideId);
+      showToast('success', 'Override removed successfully!');
+      await fetchSchedules();
+    } catch (err: any) {
+      showToast('error', 'Something went wrong while removing override');
+    }
+  };
+
+  useEffect(() => {
+    fetchSchedules();
+  }, []);
+
+  return (
+    <OnCallScheduleContext.Provider
+      value={{
+        schedules,
+        loading,
+        fetchSchedules,
+        createSchedule,
+        updateSchedule,
+        deleteSchedule,
+        createOverride,
+        deleteOverride,
+      }}
+    >
+      {children}
+    </OnCallScheduleContext.Provider>
+  );
+}
+
+export function useOnCallSchedules() {
+  const context = useContext(OnCallScheduleContext);
+  if (context === undefined) {
+    throw new Error('useOnCallSchedules must be used within an OnCallScheduleProvider');
+  }
+  return context;
+}
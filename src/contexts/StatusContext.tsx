@@ -1,6 +1,6 @@
 "use client";
 
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
 import { statusService, StatusData, Service } from '@/services/statusService';
 
 interface StatusContextType {
@@ -129,6 +129,21 @@ export function StatusProvider({ children }: StatusProviderProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Open the day detail linked from an alert (/?endpoint=<id>&date=YYYY-MM-DD) once the status has loaded
+  const deepLinkHandled = useRef(false);
+  useEffect(() => {
+    if (!statusData || deepLinkHandled.current) return;
+    deepLinkHandled.current = true;
+
+    const params = new URLSearchParams(window.location.search);
+    const endpointId = params.get('endpoint');
+    const date = params.get('date');
+    const service = statusData.services.find((s) => s.id === endpointId);
+    if (service && date && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      setSelectedDay({ endpointId: service.id, endpointName: service.name, date });
+    }
+  }, [statusData]);
+
 
   return (
     <StatusContext.Provider
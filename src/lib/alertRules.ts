@@ -0,0 +1,357 @@
+/**
+ * Alert routing rules
+ * Rules match alerts on the endpoint's type and tags, the alert's severity and the local time of day.
+ * The first enabled matching rule, in order of position, picks the channels, the throttling and the
+ * message template; a rule without channels drops the alert. Alerts no rule matches go to the
+ * endpoint's own channels as before. Recoveries of an incident are not routed again but go to the channels
+ * the outage was alerted on, and are skipped when its alerts were dropped or throttled (see escalation.ts).
+ */
+
+import { prisma } from "./prisma";
+import { isValidTimezone, toWallClock } from "./oncall";
+import { parseTags } from "./endpointConfig";
+import type { Notification, NotificationEvent } from "./notifications";
+import { AlertSeverity, Prisma, alert_rules, endpoints } from "../generated/prisma";
+
+export const ALERT_SEVERITIES = Object.values(AlertSeverity) as string[];
+
+export const ALERT_RULE_LIMITS = {
+  throttleMinutes: { min: 1, max: 7 * 24 * 60 },
+  messageTemplate: 4000,
+};
+
+const SEVERITY_BY_EVENT: Record<NotificationEvent, AlertSeverity> = {
+  down: AlertSeverity.CRITICAL,
+  certificate: AlertSeverity.WARNING,
+  flapping: AlertSeverity.WARNING,
+  recovery: AlertSeverity.INFO,
+  degraded: AlertSeverity.WARNING,
+  test: AlertSeverity.INFO,
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface AlertRuleInput {
+  name?: unknown;
+  position?: unknown;
+  enabled?: unknown;
+  endpointTypes?: unknown;
+  tags?: unknown;
+  severities?: unknown;
+  days?: unknown;
+  startTime?: unknown;
+  endTime?: unknown;
+  timezone?: unknown;
+  channelIds?: unknown;
+  throttleMinutes?: unknown;
+  messageTemplate?: unknown;
+}
+
+export interface AlertRuleData {
+  name?: string;
+  position?: number;
+  enabled?: boolean;
+  endpoint_types?: string[];
+  tags?: string[];
+  severities?: AlertSeverity[];
+  days?: number[];
+  start_time?: string | null;
+  end_time?: string | null;
+  timezone?: string;
+  channel_ids?: Prisma.InputJsonValue;
+  throttle_minutes?: number | null;
+  message_template?: string | null;
+}
+
+export interface AlertRoute {
+  rule: alert_rules;
+  channelIds: string[]; // Empty when the rule drops the alert
+  throttled: boolean; // Whether the rule already sent this alert for the endpoint within its throttle time
+}
+
+type RuleSchedule = Pick<alert_rules, "days" | "start_time" | "end_time" | "timezone">;
+
+/**
+ * Severity of an alert, matched by rules and sent to PagerDuty
+ */
+export function getNotificationSeverity(event: NotificationEvent): AlertSeverity {
+  return SEVERITY_BY_EVENT[event];
+}
+
+/**
+ * Minutes since midnight of an HH:mm time
+ */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether a rule's days and time of day include an instant
+ * A window that ends before it starts runs past midnight and belongs to the day it started on
+ */
+export function isRuleScheduled(rule: RuleSchedule, at: Date): boolean {
+  const local = new Date(toWallClock(at, rule.timezone));
+  const minute = local.getUTCHours() * 60 + local.getUTCMinutes();
+  let day = local.getUTCDay();
+
+  if (rule.start_time && rule.end_time) {
+    const start = toMinutes(rule.start_time);
+    const end = toMinutes(rule.end_time);
+    if (start < end) {
+      if (minute < start || minute >= end) return false;
+    } else if (minute < end) {
+      day = (day + 6) % 7;
+    } else if (minute < start) {
+      return false;
+    }
+  }
+
+  return rule.days.length === 0 || rule.days.includes(day);
+}
+
+/**
+ * Whether a rule matches an endpoint's alert
+ */
+function matchesRule(
+  rule: alert_rules,
+  endpoint: Pick<endpoints, "type" | "tags">,
+  severity: AlertSeverity,
+  at: Date
+): boolean {
+  if (rule.endpoint_types.length > 0 && !rule.endpoint_types.includes(endpoint.type)) return false;
+  if (rule.tags.length > 0 && !rule.tags.some((tag) => endpoint.tags.includes(tag))) return false;
+  if (rule.severities.length > 0 && !rule.severities.includes(severity)) return false;
+  return isRuleScheduled(rule, at);
+}
+
+/**
+ * Channels of a rule as stored in its JSON column
+ */
+export function getRuleChannelIds(rule: Pick<alert_rules, "channel_ids">): string[] {
+  return (rule.channel_ids as unknown as string[] | null) ?? [];
+}
+
+/**
+ * Record that a throttled rule is sending an alert
+ * The row is claimed with a conditional update so concurrent cycles send only once
+ * @returns False when the rule already sent this alert for the endpoint within its throttle time
+ */
+async function claimThrottle(
+  rule: alert_rules,
+  endpointId: string,
+  event: NotificationEvent,
+  now: Date
+): Promise<boolean> {
+  const cutoff = new Date(now.getTime() - rule.throttle_minutes! * 60000);
+  const { count } = await prisma.alert_rule_throttles.updateMany({
+    where: { rule_id: rule.id, endpoint_id: endpointId, event, last_sent_at: { lte: cutoff } },
+    data: { last_sent_at: now },
+  });
+  if (count > 0) return true;
+
+  try {
+    await prisma.alert_rule_throttles.create({
+      data: { rule_id: rule.id, endpoint_id: endpointId, event, last_sent_at: now },
+    });
+    return true;
+  } catch (error: any) {
+    if (error.code === "P2002") return false;
+    throw error;
+  }
+}
+
+/**
+ * Find the rule that routes an endpoint's alert
+ * Recovery alerts are never throttled; only those closing a flapping alert are routed, the others go
+ * to the channels their outage was alerted on or nowhere at all
+ * @returns The first matching rule with its channels, or null when no rule matches
+ */
+export async function routeNotification(
+  endpoint: Pick<endpoints, "id" | "type" | "tags">,
+  notification: Notification,
+  now: Date = new Date()
+): Promise<AlertRoute | null> {
+  const rules = await prisma.alert_rules.findMany({
+    where: { enabled: true },
+    orderBy: [{ position: "asc" }, { created_at: "asc" }],
+  });
+
+  const severity = getNotificationSeverity(notification.event);
+  const rule = rules.find((candidate) => matchesRule(candidate, endpoint, severity, now));
+  if (!rule) {
+    return null;
+  }
+
+  const channelIds = getRuleChannelIds(rule);
+  const throttled =
+    channelIds.length > 0 &&
+    rule.throttle_minutes !== null &&
+    notification.event !== "recovery" &&
+    !(await claimThrottle(rule, endpoint.id, notification.event, now));
+
+  return { rule, channelIds, throttled };
+}
+
+/**
+ * Validate a list of strings from the request body
+ */
+function parseStringList(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) {
+    return null;
+  }
+  return [...new Set((value as string[]).map((item) => item.trim()).filter(Boolean))];
+}
+
+/**
+ * Validate an alert rule sent by the dashboard
+ * Only fields present in the input are returned, so it works for both create and update;
+ * the time window is checked with the current values filled in for missing fields
+ * @param input - Request body from POST/PATCH /api/alert-rules
+ * @param current - Rule being updated, if any
+ * @returns Prisma data for the provided fields, or a validation error
+ */
+export async function parseAlertRuleInput(
+  input: AlertRuleInput,
+  current?: alert_rules
+): Promise<{ data: AlertRuleData; error?: undefined } | { data?: undefined; error: string }> {
+  const data: AlertRuleData = {};
+
+  if (input.name !== undefined) {
+    if (typeof input.name !== "string" || !input.name.trim()) {
+      return { error: "Rule name is required" };
+    }
+    data.name = input.name.trim();
+  }
+
+  if (input.position !== undefined) {
+    if (!Number.isInteger(input.position) || (input.position as number) < 0) {
+      return { error: "Position must be a whole number, 0 or more" };
+    }
+    data.position = input.position as number;
+  }
+
+  if (input.enabled !== undefined) {
+    if (typeof input.enabled !== "boolean") {
+      return { error: "Enabled must be true or false" };
+    }
+    data.enabled = input.enabled;
+  }
+
+  if (input.endpointTypes !== undefined) {
+    const endpointTypes = parseStringList(input.endpointTypes);
+    if (!endpointTypes) return { error: "Endpoint types must be a list of types" };
+    data.endpoint_types = endpointTypes;
+  }
+
+  if (input.tags !== undefined) {
+    const tags = parseTags(input.tags);
+    if (!tags) return { error: "Tags must be a list of labels of up to 50 characters" };
+    data.tags = tags;
+  }
+
+  if (input.severities !== undefined) {
+    const severities = parseStringList(input.severities);
+    if (!severities || !severities.every((severity) => ALERT_SEVERITIES.includes(severity))) {
+      return { error: `Severities must be a list of: ${ALERT_SEVERITIES.join(", ")}` };
+    }
+    data.severities = severities as AlertSeverity[];
+  }
+
+  if (input.days !== undefined) {
+    if (
+      !Array.isArray(input.days) ||
+      !input.days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+    ) {
+      return { error: "Days must be a list of weekdays from 0 (Sunday) to 6 (Saturday)" };
+    }
+    data.days = [...new Set(input.days as number[])].sort((a, b) => a - b);
+  }
+
+  for (const [field, column, label] of [
+    ["startTime", "start_time", "Start time"],
+    ["endTime", "end_time", "End time"],
+  ] as const) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (value !== null && value !== "" && (typeof value !== "string" || !TIME_PATTERN.test(value))) {
+      return { error: `${label} must be HH:mm, or empty for all day` };
+    }
+    data[column] = (value as string | null) || null;
+  }
+
+  if (input.timezone !== undefined) {
+    if (typeof input.timezone !== "string" || !isValidTimezone(input.timezone)) {
+      return { error: "Timezone must be an IANA timezone such as Asia/Kolkata" };
+    }
+    data.timezone = input.timezone;
+  }
+
+  if (input.channelIds !== undefined) {
+    const channelIds = parseStringList(input.channelIds);
+    if (!channelIds) {
+      return { error: "Notification channels must be a list of channel ids" };
+    }
+    const found = await prisma.notification_channels.count({
+      where: { id: { in: channelIds } },
+    });
+    if (found !== channelIds.length) {
+      return { error: "Notification channel not found" };
+    }
+    data.channel_ids = channelIds;
+  }
+
+  if (input.throttleMinutes !== undefined) {
+    const { min, max } = ALERT_RULE_LIMITS.throttleMinutes;
+    const value = input.throttleMinutes;
+    if (value !== null && (!Number.isInteger(value) || (value as number) < min || (value as number) > max)) {
+      return { error: `Throttle must be between ${min} and ${max} minutes, or empty to send every alert` };
+    }
+    data.throttle_minutes = value as number | null;
+  }
+
+  if (input.messageTemplate !== undefined) {
+    if (input.messageTemplate !== null && typeof input.messageTemplate !== "string") {
+      return { error: "Message template must be text" };
+    }
+    if (input.messageTemplate && input.messageTemplate.length > ALERT_RULE_LIMITS.messageTemplate) {
+      return { error: `Message template must be at most ${ALERT_RULE_LIMITS.messageTemplate} characters` };
+    }
+    data.message_template = input.messageTemplate?.trim() || null;
+  }
+
+  const startTime = data.start_time !== undefined ? data.start_time : current?.start_time ?? null;
+  const endTime = data.end_time !== undefined ? data.end_time : current?.end_time ?? null;
+  if ((startTime === null) !== (endTime === null)) {
+    return { error: "Start time and end time must both be set, or both empty for all day" };
+  }
+  if (startTime !== null && startTime === endTime) {
+    return { error: "End time must differ from the start time" };
+  }
+
+  return { data };
+}
+
+/**
+ * Map a rule row to the camelCase shape used by the dashboard
+ */
+export function serializeAlertRule(rule: alert_rules) {
+  return {
+    id: rule.id,
+    name: rule.name,
+    position: rule.position,
+    enabled: rule.enabled,
+    endpointTypes: rule.endpoint_types,
+    tags: rule.tags,
+    severities: rule.severities,
+    days: rule.days,
+    startTime: rule.start_time,
+    endTime: rule.end_time,
+    timezone: rule.timezone,
+    channelIds: getRuleChannelIds(rule),
+    throttleMinutes: rule.throttle_minutes,
+    messageTemplate: rule.message_template,
+    createdAt: rule.created_at.toISOString(),
+    updatedAt: rule.updated_at.toISOString(),
+  };
+}
@@ -0,0 +1,378 @@
+/**
+ * Response assertions
+ * Evaluates the per-endpoint rules that decide whether an HTTP response counts as UP
+ */
+
+export type AssertionType =
+  | "status_code"
+  | "body_contains"
+  | "body_not_contains"
+  | "json_path"
+  | "header"
+  | "response_time";
+
+export type AssertionOperator = "equals" | "exists" | "contains" | "matches";
+
+export interface Assertion {
+  type: AssertionType;
+  target?: string; // JSON path for json_path, header name for header
+  operator?: AssertionOperator;
+  value?: string; // Status codes ("200,300-399"), keyword/regex, expected value or max ms
+  regex?: boolean; // Treat value as a regular expression for body assertions
+}
+
+export interface AssertionResult {
+  assertion: Assertion;
+  passed: boolean;
+  actual: string | null;
+  message: string;
+}
+
+export interface AssertionResponse {
+  status: number;
+  headers: Record<string, unknown>;
+  body: string;
+  responseTime: number;
+}
+
+const ASSERTION_TYPES: AssertionType[] = [
+  "status_code",
+  "body_contains",
+  "body_not_contains",
+  "json_path",
+  "header",
+  "response_time",
+];
+
+const OPERATORS: AssertionOperator[] = ["equals", "exists", "contains", "matches"];
+
+// Used when an endpoint has no status_code assertion of its own
+export const DEFAULT_STATUS_ASSERTION: Assertion = { type: "status_code", value: "200-399" };
+
+// Regexes run on the shared event loop, so both the pattern and the text it is run against are capped
+export const REGEX_LIMITS = {
+  pattern: 200, // Characters in a pattern
+  input: 100_000, // Characters of the body or value a pattern is tested against
+};
+
+/**
+ * Check whether a status code matches a list like "200,201,300-399"
+ */
+function matchesStatusList(status: number, list: string): boolean {
+  return list.split(",").some((part) => {
+    const [min, max] = part.trim().split("-").map((n) => parseInt(n, 10));
+    if (Number.isNaN(min)) return false;
+    return max === undefined || Number.isNaN(max) ? status === min : status >= min && status <= max;
+  });
+}
+
+/**
+ * Resolve a simple JSONPath expression ($.data.items[0].status, $['key'])
+ * @returns found: false when any segment of the path is missing
+ */
+export function resolveJsonPath(document: unknown, path: string): { found: boolean; value: unknown } {
+  const expression = path.trim().replace(/^\$\.?/, "");
+  const segments: string[] = [];
+  const pattern = /([^.[\]]+)|\[(\d+)\]|\[['"]([^'"]+)['"]\]/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(expression)) !== null) {
+    segments.push(match[1] ?? match[2] ?? match[3]);
+  }
+
+  let current: unknown = document;
+  for (const segment of segments) {
+    if (current === null || typeof current !== "object" || !(segment in current)) {
+      return { found: false, value: undefined };
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return { found: true, value: current };
+}
+
+/**
+ * Format any value for display in assertion messages
+ */
+function formatActual(value: unknown): string {
+  if (value === undefined) return "undefined";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * Truncate long values so error messages stay readable
+ */
+function truncate(value: string, length = 100): string {
+  return value.length > length ? `${value.slice(0, length)}…` : value;
+}
+
+/**
+ * Whether a pattern is free of the constructs that make backtracking blow up
+ * Rejects backreferences and groups repeated with *, + or {n,} that hold a repetition or an
+ * alternation themselves, like (a+)+ or (a|aa)*
+ */
+export function isSafeRegex(pattern: string): boolean {
+  const groups: boolean[] = []; // Per open group, whether it holds a repetition or alternation
+  let closedRiskyGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const afterRiskyGroup = closedRiskyGroup;
+    closedRiskyGroup = false;
+
+    if (char === "\\") {
+      if (/[1-9k]/.test(pattern[i + 1] ?? "")) return false;
+      i++;
+    } else if (char === "[") {
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+    } else if (char === "(") {
+      groups.push(false);
+    } else if (char === ")") {
+      closedRiskyGroup = groups.pop() ?? false;
+      if (closedRiskyGroup && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (char === "|") {
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    } else if (char === "*" || char === "+" || (char === "{" && /^\{\d+,\d*\}/.test(pattern.slice(i)))) {
+      if (afterRiskyGroup) return false;
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Test a user-supplied pattern against at most REGEX_LIMITS.input characters
+ * Patterns saved before they were validated are refused here too
+ */
+function testRegex(pattern: string, input: string): boolean {
+  if (pattern.length > REGEX_LIMITS.pattern || !isSafeRegex(pattern)) {
+    throw new Error(`regular expression /${truncate(pattern)}/ could take too long to run`);
+  }
+  return new RegExp(pattern).test(input.slice(0, REGEX_LIMITS.input));
+}
+
+/**
+ * Compare a string against the expected value using the assertion operator
+ */
+function compare(actual: string, operator: AssertionOperator, expected: string): boolean {
+  if (operator === "contains") return actual.includes(expected);
+  if (operator === "matches") return testRegex(expected, actual);
+  return actual === expected;
+}
+
+/**
+ * Evaluate a single assertion against a response
+ */
+function evaluateAssertion(assertion: Assertion, response: AssertionResponse): AssertionResult {
+  const expected = assertion.value ?? "";
+
+  switch (assertion.type) {
+    case "status_code": {
+      const passed = matchesStatusList(response.status, expected);
+      return {
+        assertion,
+        passed,
+        actual: String(response.status),
+        message: passed
+          ? `Status ${response.status} is in ${expected}`
+          : `Expected status ${expected}, got ${response.status}`,
+      };
+    }
+
+    case "body_contains":
+    case "body_not_contains": {
+      const found = assertion.regex
+        ? testRegex(expected, response.body)
+        : response.body.includes(expected);
+      const passed = assertion.type === "body_contains" ? found : !found;
+      const what = assertion.regex ? `pattern /${expected}/` : `"${expected}"`;
+      return {
+        assertion,
+        passed,
+        actual: null,
+        message: assertion.type === "body_contains"
+          ? passed ? `Body contains ${what}` : `Body does not contain ${what}`
+          : passed ? `Body does not contain ${what}` : `Body unexpectedly contains ${what}`,
+      };
+    }
+
+    case "json_path": {
+      const path = assertion.target || "$";
+      let document: unknown;
+      try {
+        document = JSON.parse(response.body);
+      } catch {
+        return { assertion, passed: false, actual: null, message: `Body is not valid JSON for ${path}` };
+      }
+
+      const { found, value } = resolveJsonPath(document, path);
+      if (assertion.operator === "exists") {
+        return {
+          assertion,
+          passed: found,
+          actual: found ? truncate(formatActual(value)) : null,
+          message: found ? `${path} exists` : `${path} does not exist`,
+        };
+      }
+
+      const actual = formatActual(value);
+      const passed = found && compare(actual, assertion.operator || "equals", expected);
+      return {
+        assertion,
+        passed,
+        actual: found ? truncate(actual) : null,
+        message: passed
+          ? `${path} ${assertion.operator || "equals"} "${expected}"`
+          : found
+            ? `Expected ${path} ${assertion.operator || "equals"} "${expected}", got "${truncate(actual)}"`
+            : `${path} does not exist`,
+      };
+    }
+
+    case "header": {
+      const name = (assertion.target || "").toLowerCase();
+      const header = Object.entries(response.headers).find(([key]) => key.toLowerCase() === name);
+      const actual = header ? formatActual(header[1]) : null;
+
+      if (assertion.operator === "exists") {
+        return {
+          assertion,
+          passed: actual !== null,
+          actual,
+          message: actual !== null ? `Header ${assertion.target} present` : `Header ${assertion.target} missing`,
+        };
+      }
+
+      const operator = assertion.operator || "equals";
+      const passed = actual !== null && compare(actual, operator, expected);
+      return {
+        assertion,
+        passed,
+        actual,
+        message: passed
+          ? `Header ${assertion.target} ${operator} "${expected}"`
+          : actual === null
+            ? `Header ${assertion.target} missing`
+            : `Expected header ${assertion.target} ${operator} "${expected}", got "${truncate(actual)}"`,
+      };
+    }
+
+    case "response_time": {
+      const max = parseInt(expected, 10);
+      const passed = response.responseTime <= max;
+      return {
+        assertion,
+        passed,
+        actual: String(response.responseTime),
+        message: passed
+          ? `Response time ${response.responseTime}ms within ${max}ms`
+          : `Response time ${response.responseTime}ms exceeded ${max}ms`,
+      };
+    }
+  }
+}
+
+/**
+ * Evaluate all assertions for an endpoint
+ * Falls back to the default 2xx/3xx status check if no status_code assertion is configured
+ * @param assertions - Assertions stored on the endpoint
+ * @param response - Response captured by the check
+ * @returns One result per evaluated assertion
+ */
+export function evaluateAssertions(
+  assertions: Assertion[],
+  response: AssertionResponse
+): AssertionResult[] {
+  const hasStatusAssertion = assertions.some((a) => a.type === "status_code");
+  const toEvaluate = hasStatusAssertion ? assertions : [DEFAULT_STATUS_ASSERTION, ...assertions];
+
+  return toEvaluate.map((assertion) => {
+    try {
+      return evaluateAssertion(assertion, response);
+    } catch (error: any) {
+      // Invalid regex or similar - count as failed rather than crashing the check
+      return {
+        assertion,
+        passed: false,
+        actual: null,
+        message: `Assertion error: ${error.message}`,
+      };
+    }
+  });
+}
+
+/**
+ * Build the check error message from failed assertions
+ */
+export function formatAssertionFailures(results: AssertionResult[]): string | null {
+  const failed = results.filter((r) => !r.passed);
+  if (failed.length === 0) return null;
+  return `Assertion failed: ${failed.map((r) => r.message).join("; ")}`;
+}
+
+/**
+ * Validate assertions sent by the dashboard
+ * @returns Normalized assertions, or a validation error
+ */
+export function parseAssertions(
+  input: unknown
+): { assertions: Assertion[]; error?: undefined } | { assertions?: undefined; error: string } {
+  if (input === null) return { assertions: [] };
+  if (!Array.isArray(input)) return { error: "Assertions must be an array" };
+
+  const assertions: Assertion[] = [];
+  for (const [index, raw] of input.entries()) {
+    const label = `Assertion ${index + 1}`;
+    if (typeof raw !== "object" || raw === null || !ASSERTION_TYPES.includes(raw.type)) {
+      return { error: `${label}: type must be one of ${ASSERTION_TYPES.join(", ")}` };
+    }
+    if (raw.operator !== undefined && !OPERATORS.includes(raw.operator)) {
+      return { error: `${label}: operator must be one of ${OPERATORS.join(", ")}` };
+    }
+
+    const assertion: Assertion = {
+      type: raw.type,
+      ...(typeof raw.target === "string" && raw.target && { target: raw.target }),
+      ...(raw.operator && { operator: raw.operator }),
+      ...(typeof raw.value === "string" && { value: raw.value }),
+      ...(raw.regex === true && { regex: true }),
+    };
+    const needsValue = assertion.operator !== "exists";
+
+    if (assertion.type === "status_code" && !/^\s*\d{3}(\s*-\s*\d{3})?(\s*,\s*\d{3}(\s*-\s*\d{3})?)*\s*$/.test(assertion.value || "")) {
+      return { error: `${label}: status codes must look like "200,201,300-399"` };
+    }
+    if (assertion.type === "response_time" && !/^\d+$/.test(assertion.value || "")) {
+      return { error: `${label}: max response time must be a number of milliseconds` };
+    }
+    if ((assertion.type === "json_path" || assertion.type === "header") && !assertion.target) {
+      return { error: `${label}: ${assertion.type === "header" ? "header name" : "JSON path"} is required` };
+    }
+    if (assertion.type !== "status_code" && assertion.type !== "response_time" && needsValue && !assertion.value) {
+      return { error: `${label}: value is required` };
+    }
+    if ((assertion.regex || assertion.operator === "matches") && assertion.value) {
+      if (assertion.value.length > REGEX_LIMITS.pattern) {
+        return { error: `${label}: regular expression must be at most ${REGEX_LIMITS.pattern} characters` };
+      }
+      try {
+        new RegExp(assertion.value);
+      } catch {
+        return { error: `${label}: invalid regular expression` };
+      }
+      if (!isSafeRegex(assertion.value)) {
+        return {
+          error: `${label}: regular expression could take too long to run - avoid repeating a group that repeats or has alternatives, like (a+)+ or (a|b)*, and backreferences`,
+        };
+      }
+    }
+
+    assertions.push(assertion);
+  }
+
+  return { assertions };
+}
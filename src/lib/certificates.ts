@@ -0,0 +1,161 @@
+/**
+ * TLS certificate monitoring
+ * Captures the certificate served by HTTPS endpoints and decides when to warn before it expires
+ */
+
+import tls, { DetailedPeerCertificate } from "tls";
+import { prisma } from "./prisma";
+
+export interface CertificateInfo {
+  subject: string;
+  issuer: string;
+  sans: string[];
+  validFrom: Date;
+  validTo: Date;
+  fingerprint: string;
+  chainValid: boolean;
+  chainError: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days before expiry at which a warning alert is sent, largest first (e.g. "30,14,7")
+export const CERT_WARNING_DAYS = (process.env.CERT_EXPIRY_WARNING_DAYS || "30,14,7")
+  .split(",")
+  .map((days) => parseInt(days.trim(), 10))
+  .filter((days) => Number.isFinite(days) && days > 0)
+  .sort((a, b) => b - a);
+
+/**
+ * Format a certificate subject/issuer as a readable name
+ */
+function formatName(name: Record<string, string | string[]> | undefined): string {
+  if (!name) return "Unknown";
+  const value = name.CN || name.O || Object.values(name)[0];
+  return Array.isArray(value) ? value.join(", ") : value || "Unknown";
+}
+
+/**
+ * Number of whole days until a certificate expires (negative once expired)
+ */
+export function getDaysUntilExpiry(validTo: Date, now: Date = new Date()): number {
+  return Math.floor((validTo.getTime() - now.getTime()) / DAY_MS);
+}
+
+/**
+ * Find the smallest warning threshold the certificate has crossed
+ * @returns Threshold in days, or null if expiry is further away than every threshold
+ */
+function getWarningThreshold(daysLeft: number): number | null {
+  const crossed = CERT_WARNING_DAYS.filter((days) => daysLeft <= days);
+  return crossed.length > 0 ? crossed[crossed.length - 1] : null;
+}
+
+/**
+ * Open a TLS connection to an HTTPS URL and read the peer certificate
+ * Verification is disabled so expired or untrusted certificates can still be inspected
+ * @param url - HTTPS URL of the endpoint
+ * @param timeout - Connect timeout in milliseconds
+ * @returns Certificate details, or null for non-HTTPS URLs and failed connections
+ */
+export async function fetchCertificate(url: string, timeout: number = 30000): Promise<CertificateInfo | null> {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return null;
+  }
+  if (target.protocol !== "https:") return null;
+
+  return new Promise((resolve) => {
+    const socket = tls.connect({
+      host: target.hostname,
+      port: target.port ? parseInt(target.port, 10) : 443,
+      servername: target.hostname,
+      rejectUnauthorized: false,
+    });
+
+    const finish = (info: CertificateInfo | null) => {
+      socket.destroy();
+      resolve(info);
+    };
+
+    socket.setTimeout(timeout); // Same timeout as the HTTP check
+    socket.once("timeout", () => finish(null));
+    socket.once("error", () => finish(null));
+    socket.once("secureConnect", () => {
+      const cert = socket.getPeerCertificate(true) as DetailedPeerCertificate;
+      if (!cert || !cert.valid_to) {
+        finish(null);
+        return;
+      }
+
+      finish({
+        subject: formatName(cert.subject as unknown as Record<string, string>),
+        issuer: formatName(cert.issuer as unknown as Record<string, string>),
+        sans: (cert.subjectaltname || "")
+          .split(",")
+          .map((name) => name.trim().replace(/^(DNS|IP Address):/, ""))
+          .filter(Boolean),
+        validFrom: new Date(cert.valid_from),
+        validTo: new Date(cert.valid_to),
+        fingerprint: cert.fingerprint256,
+        chainValid: socket.authorized,
+        chainError: socket.authorized ? null : String(socket.authorizationError || "Unknown chain error"),
+      });
+    });
+  });
+}
+
+/**
+ * Store the latest certificate for an endpoint and decide whether to warn about expiry
+ * Each threshold alerts once per certificate; a renewed certificate starts over. The threshold only
+ * counts as warned once markCertificateWarned records it, after the alert went out
+ * @param endpointId - Endpoint the certificate belongs to
+ * @param info - Certificate captured by the check
+ * @returns Days left if a warning alert should be sent, otherwise null
+ */
+export async function recordCertificate(endpointId: string, info: CertificateInfo): Promise<number | null> {
+  const existing = await prisma.certificates.findUnique({
+    where: { endpoint_id: endpointId },
+    select: { fingerprint: true, last_warning_days: true },
+  });
+
+  const renewed = !existing || existing.fingerprint !== info.fingerprint;
+  const lastWarningDays = renewed ? null : existing.last_warning_days;
+  const daysLeft = getDaysUntilExpiry(info.validTo);
+  const threshold = getWarningThreshold(daysLeft);
+  const shouldWarn = threshold !== null && (lastWarningDays === null || threshold < lastWarningDays);
+
+  const data = {
+    subject: info.subject,
+    issuer: info.issuer,
+    sans: info.sans,
+    valid_from: info.validFrom,
+    valid_to: info.validTo,
+    fingerprint: info.fingerprint,
+    chain_valid: info.chainValid,
+    chain_error: info.chainError,
+    last_warning_days: lastWarningDays,
+    checked_at: new Date(),
+  };
+
+  await prisma.certificates.upsert({
+    where: { endpoint_id: endpointId },
+    create: { endpoint_id: endpointId, ...data },
+    update: data,
+  });
+
+  return shouldWarn ? daysLeft : null;
+}
+
+/**
+ * Record that the expiry warning for a certificate was sent or queued, so its threshold does not alert again
+ * @param daysLeft - Days left reported by recordCertificate
+ */
+export async function markCertificateWarned(endpointId: string, daysLeft: number): Promise<void> {
+  await prisma.certificates.update({
+    where: { endpoint_id: endpointId },
+    data: { last_warning_days: getWarningThreshold(daysLeft) },
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * Bounded worker pool for running endpoint checks concurrently
+ * Limits total and per-host concurrency, and never runs two checks of the same endpoint at once.
+ * Dependents wait for their parents' checks, so a child's root cause is looked up from fresh results.
+ */
+
+import { MonitorType, endpoints } from "../generated/prisma";
+import { parseHostPort } from "./monitoring";
+
+// Maximum number of checks running at the same time
+const MAX_CONCURRENCY = Math.max(1, parseInt(process.env.MONITOR_CONCURRENCY || "10", 10) || 10);
+// Maximum number of checks against the same host at the same time
+const MAX_PER_HOST = Math.max(1, parseInt(process.env.MONITOR_PER_HOST_CONCURRENCY || "2", 10) || 2);
+// Minimum time between two checks starting against the same host
+const HOST_MIN_GAP_MS = Math.max(0, parseInt(process.env.MONITOR_PER_HOST_MIN_GAP_MS || "250", 10) || 0);
+// How long a worker waits before looking for a free host or a finished parent again
+const HOST_WAIT_MS = 50;
+
+export interface CheckPoolResult<T> {
+  results: T[];
+  skipped: endpoints[]; // Still in flight from a previous tick
+}
+
+interface HostState {
+  active: number;
+  lastStartedAt: number;
+}
+
+// Shared by the scheduler and the cron route so overlapping ticks in one process see each other
+const POOL_KEY = Symbol.for("app.monitoring.checkPool");
+const globalForPool = global as typeof global & {
+  [POOL_KEY]: { inFlight: Set<string> };
+};
+
+if (!globalForPool[POOL_KEY]) {
+  globalForPool[POOL_KEY] = { inFlight: new Set() };
+}
+
+const poolState = globalForPool[POOL_KEY];
+
+/**
+ * Host an endpoint's check connects to, used for per-host limits
+ * @returns Lowercase host name, or null for heartbeat endpoints which make no request
+ */
+export function getHostKey(endpoint: Pick<endpoints, "monitor_type" | "url">): string | null {
+  switch (endpoint.monitor_type) {
+    case MonitorType.HEARTBEAT:
+      return null;
+    case MonitorType.TCP:
+      return parseHostPort(endpoint.url)?.host.toLowerCase() ?? endpoint.url;
+    case MonitorType.DNS:
+      return endpoint.url.toLowerCase();
+    default:
+      try {
+        return new URL(endpoint.url).hostname.toLowerCase();
+      } catch {
+        return endpoint.url;
+      }
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a worker for each endpoint with bounded concurrency
+ * Endpoints whose previous check is still running are skipped instead of queued
+ * @param endpoints - Endpoints due for a check
+ * @param worker - Checks one endpoint; errors are logged and do not stop the pool
+ * @param parentsOf - Endpoints each endpoint depends on; it is not started before the checks of its
+ * parents (and theirs) in this run are done
+ * @returns Worker results (in completion order) and the skipped endpoints
+ */
+export async function runCheckPool<T>(
+  endpoints: endpoints[],
+  worker: (endpoint: endpoints) => Promise<T>,
+  parentsOf: Map<string, string[]> = new Map()
+): Promise<CheckPoolResult<T>> {
+  const skipped = endpoints.filter((endpoint) => poolState.inFlight.has(endpoint.id));
+  const queue = endpoints.filter((endpoint) => !poolState.inFlight.has(endpoint.id));
+  queue.forEach((endpoint) => poolState.inFlight.add(endpoint.id));
+  // Checks of this run that have not finished yet
+  const pending = new Set(queue.map((endpoint) => endpoint.id));
+
+  for (const endpoint of skipped) {
+    console.warn(`⏭️ Skipping ${endpoint.name}: previous check still in flight`);
+  }
+
+  const hosts = new Map<string, HostState>();
+  const results: T[] = [];
+
+  const isHostAvailable = (host: string | null, now: number) => {
+    if (!host) return true;
+    const state = hosts.get(host);
+    return !state || (state.active < MAX_PER_HOST && now - state.lastStartedAt >= HOST_MIN_GAP_MS);
+  };
+
+  const hasPendingParent = (endpointId: string, visited: Set<string> = new Set()): boolean =>
+    (parentsOf.get(endpointId) ?? []).some((parentId) => {
+      if (visited.has(parentId)) return false;
+      visited.add(parentId);
+      return pending.has(parentId) || hasPendingParent(parentId, visited);
+    });
+
+  const runWorker = async () => {
+    while (queue.length > 0) {
+      const now = Date.now();
+      const index = queue.findIndex(
+        (endpoint) => !hasPendingParent(endpoint.id) && isHostAvailable(getHostKey(endpoint), now)
+      );
+      if (index === -1) {
+        await delay(HOST_WAIT_MS);
+        continue;
+      }
+
+      const [endpoint] = queue.splice(index, 1);
+      const host = getHostKey(endpoint);
+      const state = host ? hosts.get(host) || { active: 0, lastStartedAt: 0 } : null;
+      if (host && state) {
+        state.active++;
+        state.lastStartedAt = now;
+        hosts.set(host, state);
+      }
+
+      try {
+        results.push(await worker(endpoint));
+      } catch (error) {
+        console.error(`❌ Error checking ${endpoint.name}:`, error);
+      } finally {
+        if (state) state.active--;
+        poolState.inFlight.delete(endpoint.id);
+        pending.delete(endpoint.id);
+      }
+    }
+  };
+
+  const workerCount = Math.min(MAX_CONCURRENCY, queue.length);
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+
+  return { results, skipped };
+}
@@ -0,0 +1,64 @@
+/**
+ * Per-endpoint check schedule
+ * Both execution paths tick on a fixed cadence and only check the endpoints whose interval has elapsed
+ */
+
+import { prisma } from "./prisma";
+import { getHeartbeatDeadline } from "./heartbeat";
+import { MonitorType, endpoints } from "../generated/prisma";
+
+// How often the in-process scheduler wakes up; also the shortest supported interval
+export const CHECK_TICK_SECONDS = 15;
+
+// Longest one check may take with all its retries, so a cycle stays within the cron route's 60s maxDuration
+export const CHECK_BUDGET_SECONDS = 50;
+
+/**
+ * Whether an endpoint is due for its next check
+ * Half a tick of slack keeps checks that finished slightly late from skipping a whole tick.
+ * Heartbeat endpoints are also due as soon as their next ping is late, whatever their interval.
+ * @param endpoint - Endpoint with its check interval and heartbeat schedule
+ * @param lastCheckedAt - Time of the endpoint's latest check, null if never checked
+ * @param now - Time of the tick
+ */
+export function isCheckDue(
+  endpoint: Pick<
+    endpoints,
+    "interval_seconds" | "monitor_type" | "heartbeat_last_ping_at" | "created_at" | "heartbeat_period" | "heartbeat_grace"
+  >,
+  lastCheckedAt: Date | null,
+  now: Date = new Date()
+): boolean {
+  if (!lastCheckedAt) return true;
+
+  if (endpoint.monitor_type === MonitorType.HEARTBEAT) {
+    const deadline = getHeartbeatDeadline(endpoint);
+    if (deadline > lastCheckedAt && deadline <= now) return true;
+  }
+
+  const elapsedMs = now.getTime() - lastCheckedAt.getTime();
+  return elapsedMs >= (endpoint.interval_seconds - CHECK_TICK_SECONDS / 2) * 1000;
+}
+
+/**
+ * Time of the scheduler's next tick (ticks fall on multiples of CHECK_TICK_SECONDS)
+ */
+export function getNextTickTime(now: Date = new Date()): Date {
+  const tickMs = CHECK_TICK_SECONDS * 1000;
+  return new Date((Math.floor(now.getTime() / tickMs) + 1) * tickMs);
+}
+
+/**
+ * Load the endpoints whose check interval has elapsed
+ * Paused endpoints are never due
+ * @param now - Time of the tick
+ * @returns Due endpoints plus the total number of endpoints
+ */
+export async function getDueEndpoints(now: Date = new Date()): Promise<{ due: endpoints[]; total: number }> {
+  const allEndpoints = await prisma.endpoints.findMany({ orderBy: { name: "asc" } });
+
+  return {
+    due: allEndpoints.filter((endpoint) => !endpoint.paused && isCheckDue(endpoint, endpoint.last_checked_at, now)),
+    total: allEndpoints.length,
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * Notification delivery log
+ * Every alert sent to a channel is stored with each attempt: the payload, the response code, the
+ * latency and the error. Failed deliveries are retried by the monitoring cycle with exponential
+ * backoff until they go through or run out of attempts.
+ */
+
+import { prisma } from "./prisma";
+import type { DeliveryTrace, Notification } from "./notifications";
+import {
+  DeliveryStatus,
+  Prisma,
+  notification_attempts,
+  notification_channels,
+  notification_deliveries,
+} from "../generated/prisma";
+
+export const DELIVERY_RETRY = {
+  maxAttempts: 5,
+  baseDelayMinutes: 1, // Doubled after every failed attempt: 1, 2, 4 and 8 minutes
+  batchSize: 50, // Deliveries retried per monitoring cycle
+};
+
+export const DELIVERY_STATUSES = Object.values(DeliveryStatus) as string[];
+
+// Channel name and type of alerts sent to SLACK_WEBHOOK_URL when no channel is configured
+export const FALLBACK_CHANNEL = "SLACK_WEBHOOK_URL";
+
+export interface AttemptResult {
+  trace: DeliveryTrace;
+  latencyMs: number;
+  error: string | null;
+}
+
+/**
+ * Minutes to wait before an attempt
+ * @param attempt - Attempt about to be scheduled, 2 for the first retry
+ */
+export function getRetryDelayMinutes(attempt: number): number {
+  return DELIVERY_RETRY.baseDelayMinutes * 2 ** (attempt - 2);
+}
+
+/**
+ * Store an alert about to be sent to a channel
+ * The first retry is scheduled right away, so a delivery interrupted before its attempt is recorded
+ * is still retried
+ * @param channel - Channel the alert goes to, null for the SLACK_WEBHOOK_URL fallback
+ */
+export async function createDelivery(
+  channel: notification_channels | null,
+  endpointId: string | null,
+  notification: Notification,
+  now: Date = new Date()
+): Promise<notification_deliveries> {
+  // Template fields are already rendered into the message, and their dates would not survive JSON
+  const sent = { ...notification, check: undefined, incident: undefined };
+
+  return prisma.notification_deliveries.create({
+    data: {
+      channel_id: channel?.id ?? null,
+      channel_name: channel?.name ?? FALLBACK_CHANNEL,
+      channel_type: channel?.type ?? FALLBACK_CHANNEL,
+      endpoint_id: endpointId,
+      event: notification.event,
+      notification: sent as unknown as Prisma.InputJsonValue,
+      status: DeliveryStatus.RETRYING,
+      next_retry_at: new Date(now.getTime() + getRetryDelayMinutes(2) * 60000),
+    },
+  });
+}
+
+/**
+ * Store an attempt and move the delivery on: sent, scheduled for a retry or failed
+ * Test notifications are never retried, their result is shown to the user right away
+ */
+export async function recordAttempt(
+  delivery: notification_deliveries,
+  result: AttemptResult,
+  now: Date = new Date()
+): Promise<notification_deliveries> {
+  const attempt = delivery.attempts + 1;
+  const canRetry = delivery.event !== "test" && attempt < DELIVERY_RETRY.maxAttempts;
+  const status = !result.error ? DeliveryStatus.SENT : canRetry ? DeliveryStatus.RETRYING : DeliveryStatus.FAILED;
+
+  const [, updated] = await prisma.$transaction([
+    prisma.notification_attempts.create({
+      data: {
+        delivery_id: delivery.id,
+        attempt,
+        payload: (result.trace.payload ?? Prisma.DbNull) as Prisma.InputJsonValue,
+        response_code: result.trace.responseCode,
+        latency_ms: result.latencyMs,
+        error: result.error?.slice(0, 2000) ?? null,
+      },
+    }),
+    prisma.notification_deliveries.update({
+      where: { id: delivery.id },
+      data: {
+        attempts: attempt,
+        status,
+        next_retry_at:
+          status === DeliveryStatus.RETRYING
+            ? new Date(now.getTime() + getRetryDelayMinutes(attempt + 1) * 60000)
+            : null,
+      },
+    }),
+  ]);
+
+  return updated;
+}
+
+/**
+ * Give up on a delivery that cannot be retried any more, e.g. because its channel was deleted
+ */
+export async function abandonDelivery(delivery: notification_deliveries, error: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.notification_attempts.create({
+      data: { delivery_id: delivery.id, attempt: delivery.attempts + 1, latency_ms: 0, error },
+    }),
+    prisma.notification_deliveries.update({
+      where: { id: delivery.id },
+      data: { attempts: delivery.attempts + 1, status: DeliveryStatus.FAILED, next_retry_at: null },
+    }),
+  ]);
+}
+
+/**
+ * Claim the failed deliveries whose retry is due
+ * Each one is claimed by pushing its retry time back, so concurrent cycles retry it only once
+ */
+export async function claimDueRetries(
+  now: Date = new Date()
+): Promise<(notification_deliveries & { channel: notification_channels | null })[]> {
+  const due = await prisma.notification_deliveries.findMany({
+    where: { status: DeliveryStatus.RETRYING, next_retry_at: { lte: now } },
+    include: { channel: true },
+    orderBy: { next_retry_at: "asc" },
+    take: DELIVERY_RETRY.batchSize,
+  });
+
+  const claimed = [];
+  for (const delivery of due) {
+    const { count } = await prisma.notification_deliveries.updateMany({
+      where: { id: delivery.id, attempts: delivery.attempts, next_retry_at: delivery.next_retry_at },
+      data: { next_retry_at: new Date(now.getTime() + getRetryDelayMinutes(delivery.attempts + 2) * 60000) },
+    });
+    if (count > 0) claimed.push(delivery);
+  }
+
+  return claimed;
+}
+
+/**
+ * The alert stored with a delivery
+ */
+export function getDeliveryNotification(delivery: Pick<notification_deliveries, "notification">): Notification {
+  return delivery.notification as unknown as Notification;
+}
+
+/**
+ * Map a delivery row and its attempts to the camelCase shape used by the dashboard
+ */
+export function serializeDelivery(
+  delivery: notification_deliveries & {
+    endpoint?: { name: string } | null;
+    attempt_logs?: notification_attempts[];
+  }
+) {
+  const notification = getDeliveryNotification(delivery);
+
+  return {
+    id: delivery.id,
+    channelId: delivery.channel_id,
+    channelName: delivery.channel_name,
+    channelType: delivery.channel_type,
+    endpointId: delivery.endpoint_id,
+    endpointName: delivery.endpoint?.name ?? notification.endpoint?.name ?? null,
+    event: delivery.event,
+    title: notification.title,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    nextRetryAt: delivery.next_retry_at?.toISOString() ?? null,
+    createdAt: delivery.created_at.toISOString(),
+    updatedAt: delivery.updated_at.toISOString(),
+    attemptLog: delivery.attempt_logs?.map((attempt) => ({
+      id: attempt.id,
+      attempt: attempt.attempt,
+      payload: attempt.payload,
+      responseCode: attempt.response_code,
+      latencyMs: attempt.latency_ms,
+      error: attempt.error,
+      createdAt: attempt.created_at.toISOString(),
+    })),
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Endpoint dependencies
+ * A child endpoint depends on parents such as the gateway in front of it. While a parent is DOWN,
+ * failures of the child are attributed to the furthest DOWN parent up the chain (the root cause):
+ * the child's down alert is suppressed and noted on the root cause's incident instead.
+ */
+
+import { prisma } from "./prisma";
+import { getOngoingIncident } from "./incidents";
+import { CheckStatus, IncidentEventType, endpoints } from "../generated/prisma";
+
+export interface RootCause {
+  id: string;
+  name: string;
+}
+
+/**
+ * Validate the endpoints an endpoint depends on
+ * @param value - dependsOnIds from the request body
+ * @param endpointId - Endpoint being updated, to reject self-dependencies and cycles
+ * @returns Unique existing endpoint ids, or a validation error
+ */
+export async function parseDependencyIds(
+  value: unknown,
+  endpointId?: string
+): Promise<{ dependencyIds: string[]; error?: undefined } | { dependencyIds?: undefined; error: string }> {
+  if (!Array.isArray(value) || !value.every((id) => typeof id === "string")) {
+    return { error: "Dependencies must be a list of endpoint ids" };
+  }
+
+  const dependencyIds = [...new Set(value as string[])];
+  if (dependencyIds.length === 0) {
+    return { dependencyIds };
+  }
+  if (endpointId && dependencyIds.includes(endpointId)) {
+    return { error: "Dependencies cannot include the endpoint itself" };
+  }
+
+  const parents = await prisma.endpoints.findMany({
+    where: { id: { in: dependencyIds } },
+    select: { id: true, name: true },
+  });
+  if (parents.length !== dependencyIds.length) {
+    return { error: "Dependency endpoint not found" };
+  }
+
+  // A new endpoint has no dependents yet, so only updates can close a cycle
+  if (endpointId) {
+    const parentsOf = await getDependencyMap();
+    parentsOf.delete(endpointId);
+
+    for (const parent of parents) {
+      const visited = new Set<string>();
+      const stack = [parent.id];
+      while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (id === endpointId) {
+          return { error: `Dependencies cannot form a cycle: ${parent.name} already depends on this endpoint` };
+        }
+        if (visited.has(id)) continue;
+        visited.add(id);
+        stack.push(...(parentsOf.get(id) ?? []));
+      }
+    }
+  }
+
+  return { dependencyIds };
+}
+
+/**
+ * Parents of every endpoint that depends on another
+ * @returns Map of endpoint id to the ids of the endpoints it depends on
+ */
+export async function getDependencyMap(): Promise<Map<string, string[]>> {
+  const edges = await prisma.endpoint_dependencies.findMany({
+    select: { endpoint_id: true, depends_on_id: true },
+  });
+
+  const parentsOf = new Map<string, string[]>();
+  for (const edge of edges) {
+    parentsOf.set(edge.endpoint_id, [...(parentsOf.get(edge.endpoint_id) ?? []), edge.depends_on_id]);
+  }
+  return parentsOf;
+}
+
+/**
+ * The furthest DOWN dependency up an endpoint's chain of parents
+ * Parents count as DOWN from their last check, which the check pool finishes before checking their
+ * dependents in the same cycle; paused parents are not checked and never count
+ * @returns Null when none of the endpoint's dependencies is DOWN
+ */
+export async function getRootCause(endpointId: string): Promise<RootCause | null> {
+  const visited = new Set([endpointId]);
+  let rootCause: RootCause | null = null;
+  let frontier = [endpointId];
+
+  while (frontier.length > 0) {
+    const downParents = await prisma.endpoint_dependencies.findMany({
+      where: {
+        endpoint_id: { in: frontier },
+        depends_on: { paused: false, downtime_tracker: { is: { last_status: CheckStatus.DOWN } } },
+      },
+      select: { depends_on: { select: { id: true, name: true } } },
+    });
+
+    frontier = [];
+    for (const { depends_on: parent } of downParents) {
+      if (visited.has(parent.id)) continue;
+      visited.add(parent.id);
+      rootCause = parent;
+      frontier.push(parent.id);
+    }
+  }
+
+  return rootCause;
+}
+
+/**
+ * Note on the root cause's ongoing incident that a dependent endpoint is down too
+ * Its own down alert is suppressed; without an incident on the root cause there is nothing to note
+ */
+export async function recordDependentOutage(
+  rootCause: RootCause,
+  endpoint: Pick<endpoints, "name">
+): Promise<void> {
+  const incident = await getOngoingIncident(rootCause.id);
+  if (!incident) return;
+
+  await prisma.incident_events.create({
+    data: {
+      incident_id: incident.id,
+      type: IncidentEventType.DEPENDENT,
+      message: `${endpoint.name} is down too (alert suppressed)`,
+    },
+  });
+}
@@ -0,0 +1,153 @@
+import { Resolver } from "dns/promises";
+import { isIP } from "net";
+import { CheckStatus, DnsRecordType } from "../generated/prisma";
+import type { StatusCheckResult } from "./monitoring";
+
+export interface DnsCheckOptions {
+  recordType: DnsRecordType;
+  resolver?: string | null;
+  expected?: string[] | null;
+  timeout?: number; // milliseconds
+}
+
+export interface DnsCheckResult {
+  recordType: DnsRecordType;
+  resolver: string;
+  answers: string[];
+  expected: string[];
+  missing: string[];
+  unexpected: string[];
+}
+
+/**
+ * Parse a resolver given as IP or IP:port ([::1]:53 for IPv6)
+ * @returns Server string for Resolver.setServers, or null if invalid
+ */
+export function parseResolver(resolver: string): string | null {
+  const value = resolver.trim();
+  if (isIP(value)) return value;
+
+  const match = value.match(/^(?:\[([^\]]+)\]|([^:]+)):(\d{1,5})$/);
+  if (!match) return null;
+
+  const host = match[1] || match[2];
+  const port = parseInt(match[3], 10);
+  if (!isIP(host) || port < 1 || port > 65535) return null;
+
+  return value;
+}
+
+/**
+ * Normalize a DNS answer so expected values can be compared case-insensitively
+ */
+function normalizeAnswer(answer: string): string {
+  return answer.trim().toLowerCase().replace(/\.$/, "");
+}
+
+/**
+ * Describe a DNS resolver error code
+ */
+function describeDnsError(code?: string): string {
+  switch (code) {
+    case "ENOTFOUND":
+      return "DNS lookup failed - Domain not found";
+    case "ENODATA":
+      return "DNS lookup returned no records of this type";
+    case "ESERVFAIL":
+      return "DNS server failure - Resolver returned SERVFAIL";
+    case "EREFUSED":
+    case "ECONNREFUSED":
+      return "DNS query refused by resolver";
+    case "ETIMEOUT":
+      return "DNS query timeout - Resolver took too long to respond";
+    default:
+      return `DNS lookup failed${code ? ` (${code})` : ""}`;
+  }
+}
+
+/**
+ * Resolve the records of one type and flatten them to strings
+ */
+async function resolveRecords(resolver: Resolver, hostname: string, recordType: DnsRecordType): Promise<string[]> {
+  switch (recordType) {
+    case DnsRecordType.A:
+      return resolver.resolve4(hostname);
+    case DnsRecordType.AAAA:
+      return resolver.resolve6(hostname);
+    case DnsRecordType.CNAME:
+      return resolver.resolveCname(hostname);
+    case DnsRecordType.MX:
+      return (await resolver.resolveMx(hostname)).map((record) => record.exchange);
+    case DnsRecordType.TXT:
+      return (await resolver.resolveTxt(hostname)).map((chunks) => chunks.join(""));
+  }
+}
+
+/**
+ * Resolve a hostname and compare the answers with the expected records
+ * @param hostname - Domain to resolve
+ * @param options - Record type, resolver, expected answers and timeout
+ * @returns Status check result with resolution time; DOWN when records drift from the expected set
+ */
+export async function checkDnsRecords(hostname: string, options: DnsCheckOptions): Promise<StatusCheckResult> {
+  const resolver = new Resolver({ timeout: options.timeout || 30000, tries: 1 });
+  const server = options.resolver ? parseResolver(options.resolver) : null;
+  if (server) {
+    resolver.setServers([server]);
+  }
+
+  const expected = (options.expected || []).map(normalizeAnswer).filter(Boolean);
+  const startTime = Date.now();
+
+  try {
+    const answers = (await resolveRecords(resolver, hostname, options.recordType)).map(normalizeAnswer);
+    const responseTime = Date.now() - startTime;
+
+    // Without expected values, any answer counts as UP
+    const missing = expected.filter((value) => !answers.includes(value));
+    const unexpected = expected.length > 0 ? answers.filter((value) => !expected.includes(value)) : [];
+    const drifted = missing.length > 0 || unexpected.length > 0;
+
+    let errorMessage: string | null = null;
+    if (answers.length === 0) {
+      errorMessage = describeDnsError("ENODATA");
+    } else if (drifted) {
+      const parts = [];
+      if (missing.length > 0) parts.push(`missing ${missing.join(", ")}`);
+      if (unexpected.length > 0) parts.push(`unexpected ${unexpected.join(", ")}`);
+      errorMessage = `DNS ${options.recordType} records changed: ${parts.join("; ")}`;
+    }
+
+    return {
+      status: errorMessage ? CheckStatus.DOWN : CheckStatus.UP,
+      httpCode: null,
+      responseTime,
+      errorMessage,
+      assertionResults: null,
+      dnsResult: {
+        recordType: options.recordType,
+        resolver: server || "system",
+        answers,
+        expected,
+        missing,
+        unexpected,
+      },
+    };
+  } catch (error: any) {
+    return {
+      status: CheckStatus.DOWN,
+      httpCode: null,
+      responseTime: Date.now() - startTime,
+      errorMessage: describeDnsError(error.code),
+      assertionResults: null,
+      dnsResult: {
+        recordType: options.recordType,
+        resolver: server || "system",
+        answers: [],
+        expected,
+        missing: expected,
+        unexpected: [],
+      },
+    };
+  }
+}
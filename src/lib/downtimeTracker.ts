@@ -0,0 +1,183 @@
+/**
+ * Downtime alert state machine
+ * Tracks consecutive failures per endpoint in the database and decides when to send
+ * downtime and recovery alerts, so restarts and new serverless instances keep ongoing outages.
+ * Endpoints that keep switching between UP and DOWN are flagged as flapping from the rate of
+ * state changes over their last checks, and get a single flapping alert instead.
+ */
+
+import { prisma } from "./prisma";
+import { StatusCheckResult } from "./monitoring";
+import { CheckStatus, endpoints } from "../generated/prisma";
+
+// "dependent" replaces the down alert when one of the endpoint's dependencies is DOWN
+export type DowntimeAlert = "down" | "recovery" | "flapping" | "dependent";
+
+// Flapping starts above startRate and stops below stopRate, so an endpoint near one threshold does not toggle
+export const FLAP_DETECTION = {
+  window: 20, // Checks kept per endpoint
+  minChecks: 10, // Checks needed before flapping can be detected
+  startRate: 0.4, // Share of state changes between consecutive checks
+  stopRate: 0.15,
+};
+
+export interface DowntimeTransition {
+  previousStatus: CheckStatus | null; // Status of the check before this one
+  consecutiveFailures: number;
+  firstFailureTime: Date | null;
+  firstError: string | null; // Error and HTTP code of the first failed check of the outage
+  firstHttpCode: number | null;
+  downtimeMinutes: number;
+  stateChangeRate: number; // Share of state changes over the recent checks
+  flappingSince: Date | null; // Start of the current or, when it just stopped, the last flapping period
+  flapping: boolean;
+  alert: DowntimeAlert | null; // Alert to send for this check, if any
+}
+
+/**
+ * Share of consecutive checks with a different status
+ * @param history - Check results, oldest first ("U"/"D")
+ */
+export function getStateChangeRate(history: string): number {
+  if (history.length < 2) return 0;
+
+  let changes = 0;
+  for (let i = 1; i < history.length; i++) {
+    if (history[i] !== history[i - 1]) changes++;
+  }
+  return changes / (history.length - 1);
+}
+
+/**
+ * Apply a check result to an endpoint's downtime tracker
+ * DOWN increments the failure count and alerts once the endpoint's threshold is reached;
+ * UP or DEGRADED after an alerted outage asks for a recovery alert and resets the tracker.
+ * While flapping, down and recovery alerts are held back; when flapping stops on an UP check
+ * a recovery alert closes the flapping alert, on a DOWN check the usual down alert follows.
+ * While a dependency is DOWN the down alert is held back too, and follows if the endpoint is still
+ * down once the dependency has recovered. The same goes for a maintenance window, which also holds
+ * back flapping alerts; a recovery during the window is still reported so its incident is resolved.
+ * @param endpoint - Endpoint with its alert threshold
+ * @param result - Check that just ran
+ * @param now - Time of the check
+ * @param dependent - Whether the failure is attributed to a DOWN dependency
+ * @param inMaintenance - Whether the check ran during a maintenance window
+ * @returns Failure count, outage duration and the alert to send
+ */
+export async function updateDowntimeTracker(
+  endpoint: Pick<endpoints, "id" | "alert_threshold">,
+  result: Pick<StatusCheckResult, "status" | "errorMessage" | "httpCode">,
+  now: Date = new Date(),
+  dependent: boolean = false,
+  inMaintenance: boolean = false
+): Promise<DowntimeTransition> {
+  const status = result.status;
+  const tracker = await prisma.downtime_trackers.findUnique({
+    where: { endpoint_id: endpoint.id },
+  });
+
+  const consecutiveFailures = tracker?.consecutive_failures ?? 0;
+  const firstFailureTime = tracker?.first_failure_at ?? null;
+  const alertSent = tracker?.alert_sent ?? false;
+
+  const history = ((tracker?.recent_statuses ?? "") + (status === CheckStatus.DOWN ? "D" : "U")).slice(
+    -FLAP_DETECTION.window
+  );
+  const stateChangeRate = getStateChangeRate(history);
+  const wasFlapping = tracker?.flapping_since != null;
+  let flappingSince = tracker?.flapping_since ?? null;
+  if (!wasFlapping && history.length >= FLAP_DETECTION.minChecks && stateChangeRate >= FLAP_DETECTION.startRate) {
+    flappingSince = now;
+  } else if (wasFlapping && stateChangeRate <= FLAP_DETECTION.stopRate) {
+    flappingSince = null;
+  }
+  const flapping = flappingSince !== null;
+  const startedFlapping = flapping && !wasFlapping;
+  const stoppedFlapping = wasFlapping && !flapping;
+  const flap = {
+    stateChangeRate,
+    flappingSince: flappingSince ?? tracker?.flapping_since ?? null,
+    flapping,
+  };
+
+  let transition: DowntimeTransition;
+  let data: {
+    consecutive_failures: number;
+    first_failure_at: Date | null;
+    first_error: string | null;
+    first_http_code: number | null;
+    alert_sent: boolean;
+    recent_statuses: string;
+    flapping_since: Date | null;
+  };
+
+  if (status === CheckStatus.DOWN) {
+    const failures = consecutiveFailures + 1;
+    const firstFailure = firstFailureTime ?? now;
+    const firstError = firstFailureTime ? tracker?.first_error ?? null : result.errorMessage;
+    const firstHttpCode = firstFailureTime ? tracker?.first_http_code ?? null : result.httpCode;
+    const thresholdReached = !flapping && failures >= endpoint.alert_threshold && !alertSent;
+    const shouldAlert = thresholdReached && !dependent && !inMaintenance;
+
+    transition = {
+      previousStatus: tracker?.last_status ?? null,
+      consecutiveFailures: failures,
+      firstFailureTime: firstFailure,
+      firstError,
+      firstHttpCode,
+      downtimeMinutes: Math.round((now.getTime() - firstFailure.getTime()) / 60000),
+      ...flap,
+      alert: inMaintenance
+        ? null
+        : startedFlapping
+          ? "flapping"
+          : shouldAlert
+            ? "down"
+            : thresholdReached && failures === endpoint.alert_threshold ? "dependent" : null,
+    };
+    data = {
+      consecutive_failures: failures,
+      first_failure_at: firstFailure,
+      first_error: firstError,
+      first_http_code: firstHttpCode,
+      alert_sent: alertSent || shouldAlert,
+      recent_statuses: history,
+      flapping_since: flappingSince,
+    };
+  } else {
+    const recovered = !flapping && (stoppedFlapping || (tracker?.last_status === CheckStatus.DOWN && alertSent));
+    // A flapping period counts as downtime in the recovery alert that ends it
+    const downtimeStart = stoppedFlapping ? tracker!.flapping_since : firstFailureTime;
+
+    transition = {
+      previousStatus: tracker?.last_status ?? null,
+      consecutiveFailures,
+      firstFailureTime,
+      firstError: tracker?.first_error ?? null,
+      firstHttpCode: tracker?.first_http_code ?? null,
+      downtimeMinutes: downtimeStart
+        ? Math.round((now.getTime() - downtimeStart.getTime()) / 60000)
+        : 0,
+      ...flap,
+      alert: startedFlapping && !inMaintenance ? "flapping" : recovered ? "recovery" : null,
+    };
+    data = {
+      consecutive_failures: 0,
+      first_failure_at: null,
+      first_error: null,
+      first_http_code: null,
+      // Held back while flapping, so the recovery alert still follows an alerted outage
+      alert_sent: flapping && alertSent,
+      recent_statuses: history,
+      flapping_since: flappingSince,
+    };
+  }
+
+  await prisma.downtime_trackers.upsert({
+    where: { endpoint_id: endpoint.id },
+    create: { endpoint_id: endpoint.id, ...data, last_status: status },
+    update: { ...data, last_status: status },
+  });
+
+  return transition;
+}
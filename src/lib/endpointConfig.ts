@@ -0,0 +1,385 @@
+import { DnsRecordType, HttpMethod, MonitorType, Prisma, RequestBodyType, certificates, endpoints } from "../generated/prisma";
+import { Assertion, parseAssertions } from "./assertions";
+import { parseHostPort } from "./monitoring";
+import { parseResolver } from "./dnsCheck";
+import { CHECK_BUDGET_SECONDS, CHECK_TICK_SECONDS } from "./checkSchedule";
+
+const MONITOR_TYPES = Object.values(MonitorType) as string[];
+const HTTP_METHODS = Object.values(HttpMethod) as string[];
+const BODY_TYPES = Object.values(RequestBodyType) as string[];
+const DNS_RECORD_TYPES = Object.values(DnsRecordType) as string[];
+
+export interface EndpointConfigInput {
+  tags?: unknown;
+  monitorType?: unknown;
+  method?: unknown;
+  headers?: unknown;
+  queryParams?: unknown;
+  body?: unknown;
+  bodyType?: unknown;
+  assertions?: unknown;
+  dnsRecordType?: unknown;
+  dnsResolver?: unknown;
+  dnsExpected?: unknown;
+  heartbeatPeriod?: unknown;
+  heartbeatGrace?: unknown;
+  intervalSeconds?: unknown;
+  timeoutSeconds?: unknown;
+  retries?: unknown;
+  retryDelaySeconds?: unknown;
+  alertThreshold?: unknown;
+  degradedThresholdMs?: unknown;
+}
+
+export interface EndpointConfigData {
+  tags?: string[];
+  monitor_type?: MonitorType;
+  method?: HttpMethod;
+  headers?: Prisma.InputJsonValue | typeof Prisma.DbNull;
+  query_params?: Prisma.InputJsonValue | typeof Prisma.DbNull;
+  body?: string | null;
+  body_type?: RequestBodyType;
+  assertions?: Prisma.InputJsonValue;
+  dns_record_type?: DnsRecordType;
+  dns_resolver?: string | null;
+  dns_expected?: Prisma.InputJsonValue | typeof Prisma.DbNull;
+  heartbeat_period?: number;
+  heartbeat_grace?: number;
+  interval_seconds?: number;
+  timeout_seconds?: number;
+  retries?: number;
+  retry_delay_seconds?: number;
+  alert_threshold?: number;
+  degraded_threshold_ms?: number | null;
+}
+
+// Allowed ranges for the per-endpoint check settings
+const CHECK_SETTING_LIMITS = {
+  intervalSeconds: { column: "interval_seconds", label: "Check interval (seconds)", min: CHECK_TICK_SECONDS, max: 86400 },
+  timeoutSeconds: { column: "timeout_seconds", label: "Timeout (seconds)", min: 1, max: 50 },
+  retries: { column: "retries", label: "Retries", min: 0, max: 5 },
+  retryDelaySeconds: { column: "retry_delay_seconds", label: "Retry delay (seconds)", min: 0, max: 30 },
+  alertThreshold: { column: "alert_threshold", label: "Alert threshold", min: 1, max: 100 },
+} as const;
+
+// Allowed range for the response time above which a successful check is DEGRADED
+const DEGRADED_THRESHOLD_LIMITS = { min: 1, max: 60000 };
+
+// Column defaults of the check settings in schema.prisma, used for fields missing on create
+export const DEFAULT_CHECK_SETTINGS = {
+  interval_seconds: 30,
+  timeout_seconds: 30,
+  retries: 0,
+  retry_delay_seconds: 0,
+};
+
+export type CheckTimingSettings = Pick<
+  endpoints,
+  "monitor_type" | "interval_seconds" | "timeout_seconds" | "retries" | "retry_delay_seconds"
+>;
+
+export type EndpointConfigResult =
+  | { data: EndpointConfigData; error?: undefined }
+  | { data?: undefined; error: string };
+
+/**
+ * Check that a value is a flat object of string values (headers, query params)
+ */
+function isStringRecord(value: unknown): value is Record<string, string> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return false;
+  }
+  return Object.values(value).every((v) => typeof v === "string");
+}
+
+/**
+ * Normalize a list of tags: trimmed, lower case, without duplicates
+ * @returns Null when the value is not a list of short strings
+ */
+export function parseTags(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every((tag) => typeof tag === "string")) {
+    return null;
+  }
+  const tags = [...new Set((value as string[]).map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+  return tags.every((tag) => tag.length <= 50) ? tags : null;
+}
+
+/**
+ * Validate the tags, monitor type, check schedule, latency threshold, HTTP request, assertions, DNS and heartbeat settings sent by the dashboard
+ * Only fields present in the input are returned, so it works for both create and update
+ * @param input - Request body from POST/PATCH /api/endpoints
+ * @param current - Endpoint being updated, whose stored body and body type complete a partial update
+ * @returns Prisma data for the provided fields, or a validation error
+ */
+export function parseEndpointConfig(
+  input: EndpointConfigInput,
+  current?: Pick<endpoints, "body" | "body_type">
+): EndpointConfigResult {
+  const data: EndpointConfigData = {};
+
+  if (input.tags !== undefined) {
+    const tags = parseTags(input.tags);
+    if (!tags) {
+      return { error: "Tags must be a list of labels of up to 50 characters" };
+    }
+    data.tags = tags;
+  }
+
+  if (input.monitorType !== undefined) {
+    if (typeof input.monitorType !== "string" || !MONITOR_TYPES.includes(input.monitorType)) {
+      return { error: `Monitor type must be one of ${MONITOR_TYPES.join(", ")}` };
+    }
+    data.monitor_type = input.monitorType as MonitorType;
+  }
+
+  if (input.method !== undefined) {
+    if (typeof input.method !== "string" || !HTTP_METHODS.includes(input.method)) {
+      return { error: `Method must be one of ${HTTP_METHODS.join(", ")}` };
+    }
+    data.method = input.method as HttpMethod;
+  }
+
+  if (input.headers !== undefined) {
+    if (input.headers !== null && !isStringRecord(input.headers)) {
+      return { error: "Headers must be an object of string values" };
+    }
+    data.headers = input.headers ?? Prisma.DbNull;
+  }
+
+  if (input.queryParams !== undefined) {
+    if (input.queryParams !== null && !isStringRecord(input.queryParams)) {
+      return { error: "Query params must be an object of string values" };
+    }
+    data.query_params = input.queryParams ?? Prisma.DbNull;
+  }
+
+  if (input.bodyType !== undefined) {
+    if (typeof input.bodyType !== "string" || !BODY_TYPES.includes(input.bodyType)) {
+      return { error: `Body type must be one of ${BODY_TYPES.join(", ")}` };
+    }
+    data.body_type = input.bodyType as RequestBodyType;
+  }
+
+  if (input.body !== undefined) {
+    if (input.body !== null && typeof input.body !== "string") {
+      return { error: "Body must be a string" };
+    }
+    data.body = input.body || null;
+  }
+
+  if (input.assertions !== undefined) {
+    const parsed = parseAssertions(input.assertions);
+    if (!parsed.assertions) {
+      return { error: parsed.error };
+    }
+    data.assertions = parsed.assertions as unknown as Prisma.InputJsonValue;
+  }
+
+  if (input.dnsRecordType !== undefined) {
+    if (typeof input.dnsRecordType !== "string" || !DNS_RECORD_TYPES.includes(input.dnsRecordType)) {
+      return { error: `DNS record type must be one of ${DNS_RECORD_TYPES.join(", ")}` };
+    }
+    data.dns_record_type = input.dnsRecordType as DnsRecordType;
+  }
+
+  if (input.dnsResolver !== undefined) {
+    if (input.dnsResolver !== null && typeof input.dnsResolver !== "string") {
+      return { error: "DNS resolver must be a string" };
+    }
+    if (input.dnsResolver && !parseResolver(input.dnsResolver)) {
+      return { error: "DNS resolver must be an IP address, optionally with :port" };
+    }
+    data.dns_resolver = input.dnsResolver ? input.dnsResolver.trim() : null;
+  }
+
+  if (input.dnsExpected !== undefined) {
+    if (
+      input.dnsExpected !== null &&
+      (!Array.isArray(input.dnsExpected) || !input.dnsExpected.every((v) => typeof v === "string"))
+    ) {
+      return { error: "Expected DNS records must be an array of strings" };
+    }
+    const expected = (input.dnsExpected || []).map((v: string) => v.trim()).filter(Boolean);
+    data.dns_expected = expected.length > 0 ? expected : Prisma.DbNull;
+  }
+
+  if (input.heartbeatPeriod !== undefined) {
+    if (!Number.isInteger(input.heartbeatPeriod) || (input.heartbeatPeriod as number) < 60) {
+      return { error: "Heartbeat period must be a whole number of seconds, at least 60" };
+    }
+    data.heartbeat_period = input.heartbeatPeriod as number;
+  }
+
+  if (input.heartbeatGrace !== undefined) {
+    if (!Number.isInteger(input.heartbeatGrace) || (input.heartbeatGrace as number) < 0) {
+      return { error: "Heartbeat grace time must be a whole number of seconds" };
+    }
+    data.heartbeat_grace = input.heartbeatGrace as number;
+  }
+
+  for (const [field, limit] of Object.entries(CHECK_SETTING_LIMITS)) {
+    const value = input[field as keyof typeof CHECK_SETTING_LIMITS];
+    if (value === undefined) continue;
+
+    if (!Number.isInteger(value) || (value as number) < limit.min || (value as number) > limit.max) {
+      return { error: `${limit.label} must be a whole number between ${limit.min} and ${limit.max}` };
+    }
+    data[limit.column] = value as number;
+  }
+
+  if (input.degradedThresholdMs !== undefined) {
+    const value = input.degradedThresholdMs;
+    if (
+      value !== null &&
+      (!Number.isInteger(value) ||
+        (value as number) < DEGRADED_THRESHOLD_LIMITS.min ||
+        (value as number) > DEGRADED_THRESHOLD_LIMITS.max)
+    ) {
+      return {
+        error: `Degraded threshold (ms) must be a whole number between ${DEGRADED_THRESHOLD_LIMITS.min} and ${DEGRADED_THRESHOLD_LIMITS.max}`,
+      };
+    }
+    data.degraded_threshold_ms = value as number | null;
+  }
+
+  // A JSON body must parse, otherwise every check would fail before sending
+  const bodyType = data.body_type ?? current?.body_type;
+  const requestBody = data.body !== undefined ? data.body : current?.body ?? null;
+  if (
+    (data.body_type !== undefined || data.body !== undefined) &&
+    bodyType === RequestBodyType.JSON &&
+    typeof requestBody === "string"
+  ) {
+    try {
+      JSON.parse(requestBody);
+    } catch {
+      return { error: "Body is not valid JSON" };
+    }
+  }
+
+  return { data };
+}
+
+/**
+ * Longest a check can take: every attempt timing out, plus the waits between retries
+ */
+export function getWorstCaseCheckSeconds(settings: CheckTimingSettings): number {
+  return (settings.retries + 1) * settings.timeout_seconds + settings.retries * settings.retry_delay_seconds;
+}
+
+/**
+ * Validate that a check with all its retries finishes within the endpoint's interval and CHECK_BUDGET_SECONDS
+ * Heartbeat monitors are not probed, so any timing is accepted
+ * @param settings - Check settings after the update, i.e. the input merged over the stored endpoint
+ * @returns Validation error, or null if the timing fits
+ */
+export function validateCheckTiming(settings: CheckTimingSettings): string | null {
+  if (settings.monitor_type === MonitorType.HEARTBEAT) {
+    return null;
+  }
+
+  const limit = Math.min(settings.interval_seconds, CHECK_BUDGET_SECONDS);
+  const worstCase = getWorstCaseCheckSeconds(settings);
+  if (worstCase <= limit) {
+    return null;
+  }
+
+  return settings.retries === 0
+    ? `Timeout (seconds) must be at most ${limit}, the check interval and the ${CHECK_BUDGET_SECONDS}s limit per check`
+    : `Retries can take up to ${worstCase}s (${settings.retries + 1} attempts of ${settings.timeout_seconds}s ` +
+        `plus ${settings.retries} waits of ${settings.retry_delay_seconds}s), more than the ${limit}s allowed ` +
+        `by the check interval and the ${CHECK_BUDGET_SECONDS}s limit per check`;
+}
+
+/**
+ * Validate the target stored in `url` for a monitor type
+ * @param monitorType - How the endpoint is checked
+ * @param target - URL for HTTP monitors, host:port for TCP monitors, hostname for DNS monitors
+ * @returns Validation error, or null if the target is valid
+ */
+export function validateTarget(monitorType: MonitorType, target: string): string | null {
+  if (monitorType === MonitorType.TCP) {
+    return parseHostPort(target) ? null : "Invalid host:port format";
+  }
+
+  // Heartbeat URLs are generated by the server
+  if (monitorType === MonitorType.HEARTBEAT) {
+    return null;
+  }
+
+  if (monitorType === MonitorType.DNS) {
+    const hostname = /^(?=.{1,253}$)([a-z0-9_]([a-z0-9_-]{0,61}[a-z0-9])?\.)*[a-z0-9_]([a-z0-9_-]{0,61}[a-z0-9])?\.?$/i;
+    return hostname.test(target) ? null : "Invalid hostname format";
+  }
+
+  try {
+    new URL(target);
+    return null;
+  } catch {
+    return "Invalid URL format";
+  }
+}
+
+/**
+ * Transform an endpoint record from snake_case to camelCase for the frontend
+ * Includes the latest TLS certificate, the flapping state and dependencies when they were loaded with the endpoint
+ */
+export function serializeEndpoint(
+  endpoint: endpoints & {
+    certificate?: certificates | null;
+    notification_channels?: { channel_id: string }[];
+    downtime_tracker?: { flapping_since: Date | null } | null;
+    dependencies?: { depends_on_id: string }[];
+  }
+) {
+  const certificate = endpoint.certificate;
+
+  return {
+    id: endpoint.id,
+    name: endpoint.name,
+    url: endpoint.url,
+    type: endpoint.type,
+    tags: endpoint.tags,
+    monitorType: endpoint.monitor_type,
+    method: endpoint.method,
+    headers: (endpoint.headers as Record<string, string> | null) ?? {},
+    queryParams: (endpoint.query_params as Record<string, string> | null) ?? {},
+    body: endpoint.body,
+    bodyType: endpoint.body_type,
+    assertions: (endpoint.assertions as Assertion[] | null) ?? [],
+    dnsRecordType: endpoint.dns_record_type,
+    dnsResolver: endpoint.dns_resolver,
+    dnsExpected: (endpoint.dns_expected as string[] | null) ?? [],
+    heartbeatPeriod: endpoint.heartbeat_period,
+    heartbeatGrace: endpoint.heartbeat_grace,
+    heartbeatLastPingAt: endpoint.heartbeat_last_ping_at?.toISOString() ?? null,
+    heartbeatLastStatus: endpoint.heartbeat_last_status,
+    intervalSeconds: endpoint.interval_seconds,
+    timeoutSeconds: endpoint.timeout_seconds,
+    retries: endpoint.retries,
+    retryDelaySeconds: endpoint.retry_delay_seconds,
+    alertThreshold: endpoint.alert_threshold,
+    degradedThresholdMs: endpoint.degraded_threshold_ms,
+    paused: endpoint.paused,
+    alertsMutedUntil: endpoint.alerts_muted_until?.toISOString() ?? null,
+    flappingSince: endpoint.downtime_tracker?.flapping_since?.toISOString() ?? null,
+    notificationChannelIds: endpoint.notification_channels?.map((route) => route.channel_id) ?? [],
+    escalationPolicyId: endpoint.escalation_policy_id,
+    oncallScheduleId: endpoint.oncall_schedule_id,
+    dependsOnIds: endpoint.dependencies?.map((dependency) => dependency.depends_on_id) ?? [],
+    certificate: certificate
+      ? {
+          subject: certificate.subject,
+          issuer: certificate.issuer,
+          sans: certificate.sans,
+          validFrom: certificate.valid_from.toISOString(),
+          validTo: certificate.valid_to.toISOString(),
+          chainValid: certificate.chain_valid,
+          chainError: certificate.chain_error,
+          checkedAt: certificate.checked_at.toISOString(),
+        }
+      : null,
+    createdAt: endpoint.created_at.toISOString(),
+    updatedAt: endpoint.updated_at.toISOString(),
+  };
+}
@@ -0,0 +1,348 @@
+/**
+ * Escalation policies
+ * When an incident opens, the policy pages its first step's channels, re-notifies every repeat interval
+ * and escalates to later steps while nobody acknowledges. Every page is recorded on the incident timeline.
+ */
+
+import { prisma } from "./prisma";
+import { ChannelDelivery, Notification, sendNotification } from "./notifications";
+import { FALLBACK_CHANNEL } from "./deliveries";
+import { formatDowntimeAlert } from "./slack";
+import { getActiveMaintenance } from "./maintenance";
+import { toNotificationIncident } from "./incidents";
+import { escalation_policies, endpoints, incidents, IncidentEventType, IncidentStatus, Prisma } from "../generated/prisma";
+
+export interface EscalationStep {
+  afterMinutes: number; // Minutes after the incident opened
+  channelIds: string[];
+}
+
+export const ESCALATION_LIMITS = {
+  steps: 10,
+  afterMinutes: 7 * 24 * 60,
+  repeatIntervalMinutes: { min: 1, max: 24 * 60 },
+};
+
+export interface PolicyInput {
+  name?: unknown;
+  steps?: unknown;
+  repeatIntervalMinutes?: unknown;
+}
+
+export interface PolicyData {
+  name?: string;
+  steps?: Prisma.InputJsonValue;
+  repeat_interval_minutes?: number | null;
+}
+
+/**
+ * Validate an escalation policy sent by the dashboard
+ * Only fields present in the input are returned, so it works for both create and update
+ * @param input - Request body from POST/PATCH /api/escalation-policies
+ * @returns Prisma data for the provided fields, or a validation error
+ */
+export async function parsePolicyInput(
+  input: PolicyInput
+): Promise<{ data: PolicyData; error?: undefined } | { data?: undefined; error: string }> {
+  const data: PolicyData = {};
+
+  if (input.name !== undefined) {
+    if (typeof input.name !== "string" || !input.name.trim()) {
+      return { error: "Policy name is required" };
+    }
+    data.name = input.name.trim();
+  }
+
+  if (input.repeatIntervalMinutes !== undefined) {
+    const { min, max } = ESCALATION_LIMITS.repeatIntervalMinutes;
+    const value = input.repeatIntervalMinutes;
+    if (value !== null && (!Number.isInteger(value) || (value as number) < min || (value as number) > max)) {
+      return { error: `Repeat interval must be between ${min} and ${max} minutes, or empty to notify once` };
+    }
+    data.repeat_interval_minutes = value as number | null;
+  }
+
+  if (input.steps !== undefined) {
+    if (!Array.isArray(input.steps) || input.steps.length === 0 || input.steps.length > ESCALATION_LIMITS.steps) {
+      return { error: `Steps must be a list of 1 to ${ESCALATION_LIMITS.steps} escalation steps` };
+    }
+
+    const steps: EscalationStep[] = [];
+    for (const [index, step] of (input.steps as Record<string, unknown>[]).entries()) {
+      const afterMinutes = step?.afterMinutes;
+      const channelIds = step?.channelIds;
+
+      if (!Number.isInteger(afterMinutes) || (afterMinutes as number) < 0 || (afterMinutes as number) > ESCALATION_LIMITS.afterMinutes) {
+        return { error: `Step ${index + 1}: minutes must be between 0 and ${ESCALATION_LIMITS.afterMinutes}` };
+      }
+      if (index === 0 && afterMinutes !== 0) {
+        return { error: "Step 1 must notify right away (0 minutes)" };
+      }
+      if (index > 0 && (afterMinutes as number) < steps[index - 1].afterMinutes) {
+        return { error: `Step ${index + 1}: steps must be in order of minutes` };
+      }
+      if (!Array.isArray(channelIds) || channelIds.length === 0 || !channelIds.every((id) => typeof id === "string")) {
+        return { error: `Step ${index + 1}: pick at least one notification channel` };
+      }
+
+      steps.push({ afterMinutes: afterMinutes as number, channelIds: [...new Set(channelIds as string[])] });
+    }
+
+    const channelIds = [...new Set(steps.flatMap((step) => step.channelIds))];
+    const found = await prisma.notification_channels.count({
+      where: { id: { in: channelIds } },
+    });
+    if (found !== channelIds.length) {
+      return { error: "Notification channel not found" };
+    }
+
+    data.steps = steps as unknown as Prisma.InputJsonValue;
+  }
+
+  return { data };
+}
+
+/**
+ * Validate the escalation policy an endpoint uses
+ * @param value - escalationPolicyId from the request body, null to use the endpoint's own channels
+ */
+export async function parsePolicyId(
+  value: unknown
+): Promise<{ policyId: string | null; error?: undefined } | { policyId?: undefined; error: string }> {
+  if (value === null || value === "") {
+    return { policyId: null };
+  }
+  if (typeof value !== "string") {
+    return { error: "Escalation policy must be a policy id" };
+  }
+
+  const policy = await prisma.escalation_policies.findUnique({
+    where: { id: value },
+    select: { id: true },
+  });
+  if (!policy) {
+    return { error: "Escalation policy not found" };
+  }
+
+  return { policyId: policy.id };
+}
+
+/**
+ * Steps of a policy as stored in its JSON column
+ */
+export function getPolicySteps(policy: Pick<escalation_policies, "steps">): EscalationStep[] {
+  return (policy.steps as unknown as EscalationStep[] | null) ?? [];
+}
+
+/**
+ * Channels of a range of steps, without duplicates
+ */
+function getStepChannelIds(steps: EscalationStep[], from: number, to: number): string[] {
+  return [...new Set(steps.slice(from, to).flatMap((step) => step.channelIds))];
+}
+
+/**
+ * Map a policy row to the camelCase shape used by the dashboard
+ */
+export function serializePolicy(policy: escalation_policies & { _count?: { endpoints: number } }) {
+  return {
+    id: policy.id,
+    name: policy.name,
+    steps: getPolicySteps(policy),
+    repeatIntervalMinutes: policy.repeat_interval_minutes,
+    endpointCount: policy._count?.endpoints ?? 0,
+    createdAt: policy.created_at.toISOString(),
+    updatedAt: policy.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Send an outage alert and record who was paged on the incident and its timeline
+ * Channels are recorded whether or not the first attempt succeeded, since failed deliveries are retried
+ * @param channelIds - Channels to page, or undefined for the endpoint's own channels
+ * @param label - What triggered the page, e.g. "Escalated to step 2"
+ */
+async function pageChannels(
+  endpoint: Pick<endpoints, "id">,
+  incident: Pick<incidents, "id" | "alerted_channel_ids">,
+  notification: Notification,
+  channelIds: string[] | undefined,
+  label: string
+): Promise<ChannelDelivery[]> {
+  const deliveries = await sendNotification(endpoint.id, notification, channelIds);
+
+  const alertedChannelIds = deliveries.map((delivery) => delivery.channelId);
+  if (alertedChannelIds.some((channelId) => !incident.alerted_channel_ids.includes(channelId))) {
+    await prisma.incidents.update({
+      where: { id: incident.id },
+      data: { alerted_channel_ids: [...new Set([...incident.alerted_channel_ids, ...alertedChannelIds])] },
+    });
+  }
+
+  const paged = deliveries.map((delivery) =>
+    delivery.success ? delivery.channelName : `${delivery.channelName} (failed: ${delivery.error})`
+  );
+  await prisma.incident_events.create({
+    data: {
+      incident_id: incident.id,
+      type: IncidentEventType.NOTIFIED,
+      message: paged.length > 0 ? `${label}: ${paged.join(", ")}` : `${label}: no channel was notified`,
+    },
+  });
+
+  return deliveries;
+}
+
+/**
+ * Build the reminder sent for an outage that is still going on
+ */
+function buildReminder(endpoint: Pick<endpoints, "id" | "name" | "url">, incident: incidents, now: Date): Notification {
+  const downtimeMinutes = Math.round((now.getTime() - incident.started_at.getTime()) / 60000);
+
+  return {
+    event: "down",
+    title: `Still down: ${endpoint.name} (${downtimeMinutes} minutes, not acknowledged)`,
+    message: formatDowntimeAlert(
+      endpoint.name,
+      endpoint.url,
+      downtimeMinutes,
+      incident.started_at,
+      incident.http_code || undefined,
+      incident.first_error || "Service unreachable"
+    ),
+    endpoint: { id: endpoint.id, name: endpoint.name, url: endpoint.url },
+    incident: toNotificationIncident(incident),
+    details: {
+      downtimeMinutes,
+      startedAt: incident.started_at.toISOString(),
+      statusCode: incident.http_code,
+      error: incident.first_error,
+    },
+  };
+}
+
+/**
+ * Send the first alert of a new incident
+ * Endpoints with an escalation policy page the policy's immediate steps, others their own channels
+ */
+export async function notifyIncidentOpened(
+  endpoint: Pick<endpoints, "id" | "escalation_policy_id">,
+  incident: incidents,
+  notification: Notification
+): Promise<ChannelDelivery[]> {
+  const policy = endpoint.escalation_policy_id
+    ? await prisma.escalation_policies.findUnique({ where: { id: endpoint.escalation_policy_id } })
+    : null;
+  const now = new Date();
+
+  if (!policy) {
+    const deliveries = await pageChannels(endpoint, incident, notification, undefined, "Notified");
+    await prisma.incidents.update({
+      where: { id: incident.id },
+      data: { last_notified_at: now },
+    });
+    return deliveries;
+  }
+
+  const steps = getPolicySteps(policy);
+  let step = 0;
+  while (step < steps.length && steps[step].afterMinutes === 0) {
+    step++;
+  }
+
+  const deliveries = await pageChannels(
+    endpoint,
+    incident,
+    notification,
+    getStepChannelIds(steps, 0, step),
+    `Step ${step} of "${policy.name}"`
+  );
+  await prisma.incidents.update({
+    where: { id: incident.id },
+    data: { escalation_step: step, last_notified_at: now },
+  });
+  return deliveries;
+}
+
+/**
+ * Channels that were alerted about an incident and should hear about its recovery
+ * Recoveries go where the outage's alerts went rather than being routed again, so a rule that paged
+ * PagerDuty for the outage also resolves it there.
+ * @returns Channel ids, undefined when the outage went to the SLACK_WEBHOOK_URL fallback, or null when
+ * its alerts were muted, dropped or throttled and nobody should hear about the recovery either
+ */
+export function getPagedChannelIds(incident: Pick<incidents, "alerted_channel_ids">): string[] | undefined | null {
+  const channelIds = incident.alerted_channel_ids.filter((channelId) => channelId !== FALLBACK_CHANNEL);
+  if (channelIds.length > 0) {
+    return channelIds;
+  }
+  return incident.alerted_channel_ids.length > 0 ? undefined : null;
+}
+
+/**
+ * Re-notify and escalate unacknowledged incidents of endpoints with an escalation policy
+ * Runs on every monitoring cycle; each page is claimed first so concurrent cycles page only once
+ * @param now - Time of the cycle
+ * @returns Number of pages sent
+ */
+export async function processEscalations(now: Date = new Date()): Promise<number> {
+  const openIncidents = await prisma.incidents.findMany({
+    where: {
+      status: IncidentStatus.OPEN,
+      ended_at: null,
+      manual: false,
+      endpoint: { escalation_policy_id: { not: null }, paused: false },
+    },
+    include: { endpoint: { include: { escalation_policy: true } } },
+  });
+
+  let pages = 0;
+
+  for (const incident of openIncidents) {
+    const policy = incident.endpoint.escalation_policy;
+    if (!policy) continue;
+    // Nobody is paged about an outage that is being worked on in a maintenance window
+    if (await getActiveMaintenance(incident.endpoint_id, now)) continue;
+
+    const steps = getPolicySteps(policy);
+    const elapsedMinutes = (now.getTime() - incident.created_at.getTime()) / 60000;
+
+    let nextStep = incident.escalation_step;
+    while (nextStep < steps.length && steps[nextStep].afterMinutes <= elapsedMinutes) {
+      nextStep++;
+    }
+
+    let channelIds: string[];
+    let label: string;
+    if (nextStep > incident.escalation_step) {
+      channelIds = getStepChannelIds(steps, incident.escalation_step, nextStep);
+      label = `Escalated to step ${nextStep} of "${policy.name}"`;
+    } else if (
+      policy.repeat_interval_minutes &&
+      incident.last_notified_at &&
+      now.getTime() - incident.last_notified_at.getTime() >= policy.repeat_interval_minutes * 60000
+    ) {
+      channelIds = getStepChannelIds(steps, 0, incident.escalation_step);
+      label = "Re-notified (not acknowledged)";
+    } else {
+      continue;
+    }
+
+    const { count } = await prisma.incidents.updateMany({
+      where: {
+        id: incident.id,
+        status: IncidentStatus.OPEN,
+        escalation_step: incident.escalation_step,
+        last_notified_at: incident.last_notified_at,
+      },
+      data: { escalation_step: nextStep, last_notified_at: now },
+    });
+    if (count === 0) continue;
+
+    await pageChannels(incident.endpoint, incident, buildReminder(incident.endpoint, incident, now), channelIds, label);
+    console.warn(`📟 ${label}: ${incident.endpoint.name}`);
+    pages++;
+  }
+
+  return pages;
+}
@@ -0,0 +1,131 @@
+/**
+ * Heartbeat (push-based) monitors
+ * Jobs ping their URL instead of being polled; the scheduler marks them DOWN when a ping is late,
+ * and a failure reported by the job is evaluated right away
+ */
+
+import { randomBytes } from "crypto";
+import { prisma } from "./prisma";
+import { toCheckData, type StatusCheckResult } from "./monitoring";
+import { getActiveMaintenance } from "./maintenance";
+import { CheckStatus, MonitorType, endpoints } from "../generated/prisma";
+
+export type HeartbeatPing = "success" | "start" | "fail";
+
+/**
+ * Generate the secret token used in a heartbeat ping URL
+ */
+export function generateHeartbeatToken(): string {
+  return randomBytes(16).toString("hex");
+}
+
+/**
+ * Path a job calls to report a successful run
+ */
+export function getHeartbeatPath(token: string): string {
+  return `/api/heartbeat/${token}`;
+}
+
+/**
+ * Time after which a heartbeat endpoint is late: its period and grace time after the last ping,
+ * or after it was created when it was never pinged
+ */
+export function getHeartbeatDeadline(
+  endpoint: Pick<endpoints, "heartbeat_last_ping_at" | "created_at" | "heartbeat_period" | "heartbeat_grace">
+): Date {
+  const reference = endpoint.heartbeat_last_ping_at || endpoint.created_at;
+  return new Date(reference.getTime() + (endpoint.heartbeat_period + endpoint.heartbeat_grace) * 1000);
+}
+
+/**
+ * Evaluate a heartbeat endpoint without any network call
+ * @param endpoint - Heartbeat endpoint record
+ * @param now - Time of the evaluation
+ * @returns DOWN if the last ping reported a failure or the next ping is overdue
+ */
+export function checkHeartbeat(endpoint: endpoints, now: Date = new Date()): StatusCheckResult {
+  const lastPing = endpoint.heartbeat_last_ping_at;
+  const deadline = getHeartbeatDeadline(endpoint);
+
+  let errorMessage: string | null = null;
+  if (endpoint.heartbeat_last_status === CheckStatus.DOWN) {
+    errorMessage = "Job reported failure on its last run";
+  } else if (now > deadline) {
+    const lateMinutes = Math.round((now.getTime() - deadline.getTime()) / 60000);
+    errorMessage = lastPing
+      ? `Heartbeat late - no ping since ${lastPing.toISOString()} (${lateMinutes} min past grace period)`
+      : `Heartbeat missing - no ping received since the monitor was created`;
+  }
+
+  return {
+    status: errorMessage ? CheckStatus.DOWN : CheckStatus.UP,
+    httpCode: null,
+    responseTime: null,
+    errorMessage,
+    assertionResults: null,
+  };
+}
+
+/**
+ * Record a ping from a job
+ * Success and fail pings are stored as checks, with the job duration when /start was called first.
+ * A fail ping also makes the endpoint due, so the scheduler evaluates it on its next tick at the latest.
+ * @param token - Heartbeat token from the ping URL
+ * @param ping - Which ping was received
+ * @param message - Optional failure message sent by the job
+ * @returns The heartbeat endpoint, or null if no heartbeat endpoint uses this token
+ */
+export async function recordHeartbeatPing(
+  token: string,
+  ping: HeartbeatPing,
+  message?: string | null
+): Promise<endpoints | null> {
+  const endpoint = await prisma.endpoints.findUnique({
+    where: { heartbeat_token: token },
+  });
+
+  if (!endpoint || endpoint.monitor_type !== MonitorType.HEARTBEAT) {
+    return null;
+  }
+
+  const now = new Date();
+
+  if (ping === "start") {
+    await prisma.endpoints.update({
+      where: { id: endpoint.id },
+      data: { heartbeat_started_at: now },
+    });
+    return endpoint;
+  }
+
+  const status = ping === "success" ? CheckStatus.UP : CheckStatus.DOWN;
+  const maintenance = await getActiveMaintenance(endpoint.id, now);
+  const duration = endpoint.heartbeat_started_at
+    ? now.getTime() - endpoint.heartbeat_started_at.getTime()
+    : null;
+
+  await prisma.$transaction([
+    prisma.endpoints.update({
+      where: { id: endpoint.id },
+      data: {
+        heartbeat_last_ping_at: now,
+        heartbeat_last_status: status,
+        heartbeat_started_at: null,
+        ...(status === CheckStatus.DOWN && { last_checked_at: null }),
+      },
+    }),
+    prisma.checks.create({
+      data: toCheckData(endpoint.id, {
+        status,
+        httpCode: null,
+        responseTime: duration,
+        errorMessage: status === CheckStatus.DOWN
+          ? `Job reported failure${message ? `: ${message.slice(0, 500)}` : ""}`
+          : null,
+        assertionResults: null,
+      }, { inMaintenance: maintenance !== null }),
+    }),
+  ]);
+
+  return endpoint;
+}
@@ -0,0 +1,247 @@
+/**
+ * Incident lifecycle
+ * An incident opens when an endpoint crosses its alert threshold, can be acknowledged and annotated
+ * from the dashboard or Slack, and is resolved on recovery. Every step is recorded in its timeline.
+ */
+
+import { prisma } from "./prisma";
+import { DowntimeTransition } from "./downtimeTracker";
+import type { NotificationIncident } from "./notifications";
+import { IncidentEventType, IncidentStatus, Prisma, incident_events, incidents } from "../generated/prisma";
+
+export const INCIDENT_STATUSES = Object.values(IncidentStatus) as string[];
+
+export interface IncidentInput {
+  endpointId?: unknown;
+  status?: unknown;
+  startedAt?: unknown;
+  endedAt?: unknown;
+  firstError?: unknown;
+  httpCode?: unknown;
+  resolutionNotes?: unknown;
+  note?: unknown;
+}
+
+/**
+ * Format a duration as "2h 5m", "5m 30s" or "45s"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
+/**
+ * Length of an incident, up to now while it is ongoing
+ */
+export function getIncidentDuration(incident: Pick<incidents, "started_at" | "ended_at">, now: Date = new Date()): number {
+  return (incident.ended_at ?? now).getTime() - incident.started_at.getTime();
+}
+
+/**
+ * Open an incident for an endpoint that just crossed its alert threshold
+ * Returns the endpoint's ongoing incident instead when one is already open
+ */
+export async function openIncident(endpointId: string, transition: DowntimeTransition): Promise<incidents> {
+  const ongoing = await getOngoingIncident(endpointId);
+  if (ongoing) {
+    return ongoing;
+  }
+
+  return prisma.incidents.create({
+    data: {
+      endpoint_id: endpointId,
+      started_at: transition.firstFailureTime ?? new Date(),
+      first_error: transition.firstError,
+      http_code: transition.firstHttpCode,
+      events: {
+        create: {
+          type: IncidentEventType.OPENED,
+          message: `Down after ${transition.consecutiveFailures} failed checks: ${transition.firstError || "Service unreachable"}`,
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Resolve an endpoint's ongoing incidents when it recovers
+ * Manual incidents are resolved from the dashboard, not by the monitor
+ * @returns Number of incidents resolved
+ */
+export async function resolveIncidents(endpointId: string, endedAt: Date = new Date()): Promise<number> {
+  const ongoing = await prisma.incidents.findMany({
+    where: { endpoint_id: endpointId, ended_at: null, manual: false },
+    select: { id: true, started_at: true },
+  });
+
+  for (const incident of ongoing) {
+    await prisma.incidents.update({
+      where: { id: incident.id },
+      data: {
+        status: IncidentStatus.RESOLVED,
+        ended_at: endedAt,
+        events: {
+          create: {
+            type: IncidentEventType.RESOLVED,
+            message: `Recovered after ${formatDuration(endedAt.getTime() - incident.started_at.getTime())}`,
+          },
+        },
+      },
+    });
+  }
+
+  return ongoing.length;
+}
+
+/**
+ * Acknowledge an incident so others know someone is on it
+ * @returns The incident, or null when it is already acknowledged or resolved
+ */
+export async function acknowledgeIncident(incidentId: string, author: string | null): Promise<incidents | null> {
+  const { count } = await prisma.incidents.updateMany({
+    where: { id: incidentId, status: IncidentStatus.OPEN },
+    data: {
+      status: IncidentStatus.ACKNOWLEDGED,
+      acknowledged_at: new Date(),
+      acknowledged_by: author,
+    },
+  });
+  if (count === 0) {
+    return null;
+  }
+
+  await prisma.incident_events.create({
+    data: {
+      incident_id: incidentId,
+      type: IncidentEventType.ACKNOWLEDGED,
+      message: `Acknowledged${author ? ` by ${author}` : ""}`,
+      author,
+    },
+  });
+
+  return prisma.incidents.findUnique({ where: { id: incidentId } });
+}
+
+/**
+ * The ongoing incident the monitor opened for an endpoint, if any
+ * Manual incidents are never reused for, or resolved with, an outage the monitor detects
+ */
+export async function getOngoingIncident(endpointId: string): Promise<incidents | null> {
+  return prisma.incidents.findFirst({
+    where: { endpoint_id: endpointId, ended_at: null, manual: false },
+    orderBy: { started_at: "desc" },
+  });
+}
+
+/**
+ * Incident fields passed to alert message templates
+ */
+export function toNotificationIncident(incident: incidents): NotificationIncident {
+  return { id: incident.id, startedAt: incident.started_at, acknowledgedBy: incident.acknowledged_by };
+}
+
+/**
+ * Parse an optional date field from a request body
+ */
+function parseDate(value: unknown, label: string): { date?: Date | null; error?: string } {
+  if (value === undefined) return {};
+  if (value === null) return { date: null };
+  const date = new Date(value as string);
+  if (typeof value !== "string" || isNaN(date.getTime())) {
+    return { error: `${label} must be an ISO date` };
+  }
+  return { date };
+}
+
+/**
+ * Validate a manually created incident (POST /api/incidents)
+ * @returns Prisma data, or a validation error
+ */
+export function parseNewIncident(
+  input: IncidentInput
+): { data: Prisma.incidentsUncheckedCreateInput; error?: undefined } | { data?: undefined; error: string } {
+  if (typeof input.endpointId !== "string" || !input.endpointId) {
+    return { error: "endpointId is required" };
+  }
+
+  const startedAt = parseDate(input.startedAt, "Start time");
+  if (startedAt.error) return { error: startedAt.error };
+  const endedAt = parseDate(input.endedAt, "End time");
+  if (endedAt.error) return { error: endedAt.error };
+
+  const start = startedAt.date ?? new Date();
+  if (endedAt.date && endedAt.date < start) {
+    return { error: "End time must be after the start time" };
+  }
+
+  if (input.httpCode !== undefined && input.httpCode !== null && !Number.isInteger(input.httpCode)) {
+    return { error: "HTTP code must be a number" };
+  }
+
+  return {
+    data: {
+      endpoint_id: input.endpointId,
+      started_at: start,
+      ended_at: endedAt.date ?? null,
+      status: endedAt.date ? IncidentStatus.RESOLVED : IncidentStatus.OPEN,
+      manual: true,
+      first_error: typeof input.firstError === "string" && input.firstError.trim() ? input.firstError.trim() : null,
+      http_code: (input.httpCode as number | null | undefined) ?? null,
+      resolution_notes:
+        typeof input.resolutionNotes === "string" && input.resolutionNotes.trim() ? input.resolutionNotes.trim() : null,
+      events: {
+        create: {
+          type: IncidentEventType.OPENED,
+          message: "Reported manually",
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Map an incident row to the camelCase shape used by the dashboard
+ */
+export function serializeIncident(
+  incident: incidents & {
+    endpoint?: { name: string; url: string } | null;
+    events?: incident_events[];
+  }
+) {
+  const durationMs = getIncidentDuration(incident);
+
+  return {
+    id: incident.id,
+    endpointId: incident.endpoint_id,
+    endpointName: incident.endpoint?.name ?? null,
+    endpointUrl: incident.endpoint?.url ?? null,
+    status: incident.status,
+    startedAt: incident.started_at.toISOString(),
+    endedAt: incident.ended_at?.toISOString() ?? null,
+    durationMs,
+    duration: formatDuration(durationMs),
+    firstError: incident.first_error,
+    httpCode: incident.http_code,
+    acknowledgedAt: incident.acknowledged_at?.toISOString() ?? null,
+    acknowledgedBy: incident.acknowledged_by,
+    resolutionNotes: incident.resolution_notes,
+    escalationStep: incident.escalation_step,
+    manual: incident.manual,
+    lastNotifiedAt: incident.last_notified_at?.toISOString() ?? null,
+    events: incident.events?.map((event) => ({
+      id: event.id,
+      type: event.type,
+      message: event.message,
+      author: event.author,
+      createdAt: event.created_at.toISOString(),
+    })),
+    createdAt: incident.created_at.toISOString(),
+    updatedAt: incident.updated_at.toISOString(),
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Leader election backed by a Postgres lease table
+ * An instance may run monitoring cycles only while it holds the lease; a lease that
+ * is not renewed expires, so another instance takes over when the leader dies
+ */
+
+import os from "os";
+import { randomBytes } from "crypto";
+import { prisma } from "./prisma";
+import { scheduler_leases } from "../generated/prisma";
+
+// Lease guarding the monitoring cycle, shared by the scheduler and the cron route
+export const MONITORING_LEASE = "monitoring-cycle";
+
+// How long the scheduler's lease lasts without renewal, i.e. the worst-case handover time
+export const SCHEDULER_LEASE_SECONDS = Math.max(
+  15,
+  parseInt(process.env.SCHEDULER_LEASE_SECONDS || "45", 10) || 45
+);
+
+// Identifies this process as a lease holder
+export const INSTANCE_ID = `${os.hostname()}-${process.pid}-${randomBytes(4).toString("hex")}`;
+
+/**
+ * Acquire or renew a lease
+ * Renews it if this holder already owns it, takes it over if it expired, creates it if missing
+ * @param name - Lease name
+ * @param holder - Id of the instance asking for the lease
+ * @param ttlSeconds - How long the lease stays valid without renewal
+ * @returns true if the holder owns the lease afterwards
+ */
+export async function acquireLease(name: string, holder: string, ttlSeconds: number): Promise<boolean> {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ttlSeconds * 1000);
+
+  // Each step is a single conditional statement, so two instances can never both succeed
+  const renewed = await prisma.scheduler_leases.updateMany({
+    where: { name, holder },
+    data: { expires_at: expiresAt },
+  });
+  if (renewed.count > 0) return true;
+
+  const takenOver = await prisma.scheduler_leases.updateMany({
+    where: { name, expires_at: { lt: now } },
+    data: { holder, acquired_at: now, expires_at: expiresAt },
+  });
+  if (takenOver.count > 0) {
+    console.log(`👑 Took over expired lease "${name}" as ${holder}`);
+    return true;
+  }
+
+  try {
+    await prisma.scheduler_leases.create({
+      data: { name, holder, acquired_at: now, expires_at: expiresAt },
+    });
+    console.log(`👑 Acquired lease "${name}" as ${holder}`);
+    return true;
+  } catch (error: any) {
+    // Another instance holds a valid lease
+    if (error.code === "P2002") return false;
+    throw error;
+  }
+}
+
+/**
+ * Give up a lease so another instance can take it immediately
+ * Does nothing if the lease is held by someone else
+ */
+export async function releaseLease(name: string, holder: string): Promise<void> {
+  await prisma.scheduler_leases.deleteMany({
+    where: { name, holder },
+  });
+}
+
+/**
+ * Current state of a lease
+ * @returns Lease row (check expires_at, it may have lapsed), or null if it was never taken or was released
+ */
+export async function getLease(name: string): Promise<scheduler_leases | null> {
+  return prisma.scheduler_leases.findUnique({ where: { name } });
+}
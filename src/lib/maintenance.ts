@@ -0,0 +1,331 @@
+/**
+ * Maintenance windows
+ * Planned downtime, one-off or repeating daily/weekly, for one endpoint or all of them.
+ * While a window is active, checks are tagged as maintenance: they do not count towards uptime
+ * and no alerts are sent. The downtime tracker keeps running, so an outage that ends during the
+ * window is resolved, and one that is still going on when it ends is alerted then.
+ */
+
+import { prisma } from "./prisma";
+import { fromWallClock, isValidTimezone, toWallClock } from "./oncall";
+import { MaintenanceRecurrence, maintenance_windows } from "../generated/prisma";
+
+export interface MaintenancePeriod {
+  start: Date;
+  end: Date;
+}
+
+export const MAINTENANCE_RECURRENCES = Object.values(MaintenanceRecurrence) as string[];
+
+const RECURRENCE_DAYS: Record<MaintenanceRecurrence, number | null> = {
+  NONE: null,
+  DAILY: 1,
+  WEEKLY: 7,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MaintenanceWindowInput {
+  name?: unknown;
+  description?: unknown;
+  endpointId?: unknown;
+  startsAt?: unknown;
+  endsAt?: unknown;
+  recurrence?: unknown;
+  timezone?: unknown;
+  repeatUntil?: unknown;
+}
+
+export interface MaintenanceWindowData {
+  name?: string;
+  description?: string | null;
+  endpoint_id?: string | null;
+  starts_at?: Date;
+  ends_at?: Date;
+  recurrence?: MaintenanceRecurrence;
+  timezone?: string;
+  repeat_until?: Date | null;
+}
+
+type WindowSchedule = Pick<maintenance_windows, "starts_at" | "ends_at" | "recurrence" | "timezone" | "repeat_until">;
+
+/**
+ * Occurrence number `index` of a window, keeping the local start time of the first one across DST changes
+ */
+function getOccurrence(window: WindowSchedule, index: number): MaintenancePeriod {
+  const days = RECURRENCE_DAYS[window.recurrence];
+  if (!days || index === 0) {
+    return { start: window.starts_at, end: window.ends_at };
+  }
+
+  const duration = window.ends_at.getTime() - window.starts_at.getTime();
+  const start = fromWallClock(toWallClock(window.starts_at, window.timezone) + index * days * DAY_MS, window.timezone);
+  return { start, end: new Date(start.getTime() + duration) };
+}
+
+/**
+ * Occurrences of a window that overlap a time range
+ * @param from - Start of the range
+ * @param until - End of the range (exclusive)
+ */
+export function getMaintenanceOccurrences(window: WindowSchedule, from: Date, until: Date): MaintenancePeriod[] {
+  const days = RECURRENCE_DAYS[window.recurrence];
+  if (!days) {
+    return window.starts_at < until && window.ends_at > from ? [getOccurrence(window, 0)] : [];
+  }
+
+  // Start one occurrence early, the estimate can be off by the DST offset
+  const duration = window.ends_at.getTime() - window.starts_at.getTime();
+  const elapsed = toWallClock(from, window.timezone) - toWallClock(window.starts_at, window.timezone) - duration;
+  let index = Math.max(0, Math.floor(elapsed / (days * DAY_MS)) - 1);
+
+  const occurrences: MaintenancePeriod[] = [];
+  for (; ; index++) {
+    const occurrence = getOccurrence(window, index);
+    if (occurrence.start >= until || (window.repeat_until && occurrence.start > window.repeat_until)) break;
+    if (occurrence.end > from) occurrences.push(occurrence);
+  }
+  return occurrences;
+}
+
+/**
+ * The occurrence of a window that is active at a given time, if any
+ */
+export function getActiveOccurrence(window: WindowSchedule, at: Date): MaintenancePeriod | null {
+  return getMaintenanceOccurrences(window, at, new Date(at.getTime() + 1))[0] ?? null;
+}
+
+/**
+ * The active occurrence of a window, or the next one when none is active
+ * @returns Null when the window will not occur again
+ */
+export function getCurrentOrNextOccurrence(window: WindowSchedule, now: Date): MaintenancePeriod | null {
+  const days = RECURRENCE_DAYS[window.recurrence];
+  if (!days) {
+    return window.ends_at > now ? getOccurrence(window, 0) : null;
+  }
+
+  const until = new Date(Math.max(now.getTime(), window.starts_at.getTime()) + (days + 1) * DAY_MS);
+  return getMaintenanceOccurrences(window, now, until)[0] ?? null;
+}
+
+/**
+ * Windows that apply to an endpoint: its own and the global ones
+ */
+function endpointWindowsFilter(endpointId: string) {
+  return { OR: [{ endpoint_id: endpointId }, { endpoint_id: null }] };
+}
+
+/**
+ * The maintenance window an endpoint is in right now
+ * @returns Null when no window of the endpoint or global window is active
+ */
+export async function getActiveMaintenance(
+  endpointId: string,
+  now: Date = new Date()
+): Promise<maintenance_windows | null> {
+  const windows = await prisma.maintenance_windows.findMany({
+    where: {
+      starts_at: { lte: now },
+      AND: [
+        endpointWindowsFilter(endpointId),
+        { OR: [{ ends_at: { gt: now } }, { recurrence: { not: MaintenanceRecurrence.NONE } }] },
+      ],
+    },
+  });
+
+  return windows.find((window) => getActiveOccurrence(window, now)) ?? null;
+}
+
+/**
+ * Time an endpoint spends in maintenance over a range, with overlapping windows merged
+ * @returns Periods sorted by start, clipped to the range
+ */
+export async function getMaintenancePeriods(endpointId: string, from: Date, until: Date): Promise<MaintenancePeriod[]> {
+  const windows = await prisma.maintenance_windows.findMany({
+    where: { starts_at: { lt: until }, ...endpointWindowsFilter(endpointId) },
+  });
+
+  const periods = windows
+    .flatMap((window) => getMaintenanceOccurrences(window, from, until))
+    .map((period) => ({
+      start: new Date(Math.max(period.start.getTime(), from.getTime())),
+      end: new Date(Math.min(period.end.getTime(), until.getTime())),
+    }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: MaintenancePeriod[] = [];
+  for (const period of periods) {
+    const last = merged[merged.length - 1];
+    if (last && period.start <= last.end) {
+      if (period.end > last.end) last.end = period.end;
+    } else {
+      merged.push(period);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Active and upcoming maintenance, one entry per occurrence, for the status page
+ * @param until - How far ahead to look
+ */
+export async function getUpcomingMaintenance(now: Date, until: Date) {
+  const windows = await prisma.maintenance_windows.findMany({
+    where: { starts_at: { lt: until } },
+    include: { endpoint: { select: { name: true } } },
+  });
+
+  return windows
+    .flatMap((window) =>
+      getMaintenanceOccurrences(window, now, until).map((occurrence) => ({
+        id: window.id,
+        name: window.name,
+        description: window.description,
+        endpointId: window.endpoint_id,
+        endpointName: window.endpoint?.name ?? null,
+        startsAt: occurrence.start.toISOString(),
+        endsAt: occurrence.end.toISOString(),
+        active: occurrence.start <= now,
+      }))
+    )
+    .sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+}
+
+/**
+ * Parse an optional ISO date from the request body
+ */
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== "string") return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Validate a maintenance window sent by the dashboard
+ * Only fields present in the input are returned, so it works for both create and update;
+ * the times are checked against each other with the current values filled in for missing fields
+ * @param input - Request body from POST/PATCH /api/maintenance-windows
+ * @param current - Window being updated, if any
+ * @returns Prisma data for the provided fields, or a validation error
+ */
+export async function parseMaintenanceWindowInput(
+  input: MaintenanceWindowInput,
+  current?: maintenance_windows
+): Promise<{ data: MaintenanceWindowData; error?: undefined } | { data?: undefined; error: string }> {
+  const data: MaintenanceWindowData = {};
+
+  if (input.name !== undefined) {
+    if (typeof input.name !== "string" || !input.name.trim()) {
+      return { error: "Window name is required" };
+    }
+    data.name = input.name.trim();
+  }
+
+  if (input.description !== undefined) {
+    if (input.description !== null && typeof input.description !== "string") {
+      return { error: "Description must be text" };
+    }
+    data.description = input.description?.trim() || null;
+  }
+
+  if (input.endpointId !== undefined) {
+    if (input.endpointId === null || input.endpointId === "") {
+      data.endpoint_id = null;
+    } else {
+      const endpoint =
+        typeof input.endpointId === "string"
+          ? await prisma.endpoints.findUnique({ where: { id: input.endpointId }, select: { id: true } })
+          : null;
+      if (!endpoint) {
+        return { error: "Endpoint not found" };
+      }
+      data.endpoint_id = endpoint.id;
+    }
+  }
+
+  if (input.startsAt !== undefined) {
+    const startsAt = parseDate(input.startsAt);
+    if (!startsAt) return { error: "Start time must be an ISO date" };
+    data.starts_at = startsAt;
+  }
+
+  if (input.endsAt !== undefined) {
+    const endsAt = parseDate(input.endsAt);
+    if (!endsAt) return { error: "End time must be an ISO date" };
+    data.ends_at = endsAt;
+  }
+
+  if (input.recurrence !== undefined) {
+    if (typeof input.recurrence !== "string" || !MAINTENANCE_RECURRENCES.includes(input.recurrence)) {
+      return { error: `Repeat must be one of: ${MAINTENANCE_RECURRENCES.join(", ")}` };
+    }
+    data.recurrence = input.recurrence as MaintenanceRecurrence;
+  }
+
+  if (input.timezone !== undefined) {
+    if (typeof input.timezone !== "string" || !isValidTimezone(input.timezone)) {
+      return { error: "Timezone must be an IANA timezone such as Asia/Kolkata" };
+    }
+    data.timezone = input.timezone;
+  }
+
+  if (input.repeatUntil !== undefined) {
+    if (input.repeatUntil === null || input.repeatUntil === "") {
+      data.repeat_until = null;
+    } else {
+      const repeatUntil = parseDate(input.repeatUntil);
+      if (!repeatUntil) return { error: "Repeat until must be an ISO date" };
+      data.repeat_until = repeatUntil;
+    }
+  }
+
+  const startsAt = data.starts_at ?? current?.starts_at;
+  const endsAt = data.ends_at ?? current?.ends_at;
+  const recurrence = data.recurrence ?? current?.recurrence ?? MaintenanceRecurrence.NONE;
+  const repeatUntil = data.repeat_until !== undefined ? data.repeat_until : current?.repeat_until;
+
+  if (!startsAt) return { error: "Start time is required" };
+  if (!endsAt) return { error: "End time is required" };
+  if (endsAt <= startsAt) {
+    return { error: "End time must be after the start time" };
+  }
+
+  const days = RECURRENCE_DAYS[recurrence];
+  if (days && endsAt.getTime() - startsAt.getTime() >= days * DAY_MS) {
+    return { error: `End time must be less than ${days === 1 ? "a day" : "a week"} after the start time for a repeating window` };
+  }
+  if (repeatUntil && repeatUntil < startsAt) {
+    return { error: "Repeat until must be after the start time" };
+  }
+
+  return { data };
+}
+
+/**
+ * Map a window row to the camelCase shape used by the dashboard, with its current or next occurrence
+ */
+export function serializeMaintenanceWindow(
+  window: maintenance_windows & { endpoint?: { name: string } | null },
+  now: Date = new Date()
+) {
+  const occurrence = getCurrentOrNextOccurrence(window, now);
+
+  return {
+    id: window.id,
+    name: window.name,
+    description: window.description,
+    endpointId: window.endpoint_id,
+    endpointName: window.endpoint?.name ?? null,
+    startsAt: window.starts_at.toISOString(),
+    endsAt: window.ends_at.toISOString(),
+    recurrence: window.recurrence,
+    timezone: window.timezone,
+    repeatUntil: window.repeat_until?.toISOString() ?? null,
+    active: occurrence !== null && occurrence.start <= now,
+    nextStartsAt: occurrence?.start.toISOString() ?? null,
+    nextEndsAt: occurrence?.end.toISOString() ?? null,
+    createdAt: window.created_at.toISOString(),
+    updatedAt: window.updated_at.toISOString(),
+  };
+}
@@ -1,58 +1,176 @@
-import axios from "axios";
-import { CheckStatus } from "../generated/prisma";
+import axios, { AxiosRequestConfig } from "axios";
+import net from "net";
+import { CheckStatus, HttpMethod, MonitorType, Prisma, RequestBodyType, endpoints } from "../generated/prisma";
+import { Assertion, AssertionResult, evaluateAssertions, formatAssertionFailures } from "./assertions";
+import { DnsCheckResult, checkDnsRecords } from "./dnsCheck";
+import { CertificateInfo, fetchCertificate } from "./certificates";
+import { checkHeartbeat } from "./heartbeat";
+import { CHECK_BUDGET_SECONDS } from "./checkSchedule";
 
 export interface StatusCheckResult {
   status: CheckStatus;
   httpCode: number | null;
   responseTime: number | null;
   errorMessage: string | null;
+  assertionResults: AssertionResult[] | null;
+  dnsResult?: DnsCheckResult | null;
+  certificate?: CertificateInfo | null;
+  attempts?: CheckAttempt[] | null; // Every probe when a failure was re-checked, the last one is the result
+}
+
+export interface CheckAttempt {
+  attempt: number;
+  status: CheckStatus;
+  httpCode: number | null;
+  responseTime: number | null;
+  errorMessage: string | null;
+  checkedAt: string;
+}
+
+export interface HttpRequestOptions {
+  method?: HttpMethod;
+  headers?: Record<string, string> | null;
+  queryParams?: Record<string, string> | null;
+  body?: string | null;
+  bodyType?: RequestBodyType;
+  assertions?: Assertion[] | null;
+  timeout?: number; // milliseconds
+}
+
+// Used when an endpoint does not set its own timeout
+export const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Describe a network-level error code, shared by HTTP and TCP checks
+ * @param code - Node.js error code (ECONNREFUSED, ETIMEDOUT, ...)
+ * @returns Human readable message, or null for codes that are not network errors
+ */
+function describeNetworkError(code?: string): string | null {
+  switch (code) {
+    case "ECONNREFUSED":
+      return "Connection refused - Service is not responding";
+    case "ENOTFOUND":
+      return "DNS lookup failed - Host not found";
+    case "ETIMEDOUT":
+    case "ECONNABORTED":
+      return "Request timeout - Service took too long to respond";
+    case "ECONNRESET":
+      return "Connection reset - Service closed the connection";
+    case "EHOSTUNREACH":
+      return "Host unreachable - Network path not available";
+    case "ENETUNREACH":
+      return "Network unreachable - Cannot reach network";
+    case "CERT_HAS_EXPIRED":
+      return "SSL certificate has expired";
+    case "UNABLE_TO_VERIFY_LEAF_SIGNATURE":
+      return "SSL certificate verification failed";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a TCP target given as host:port ([::1]:5432 for IPv6)
+ * @returns Host and port, or null if the target is not a valid host:port
+ */
+export function parseHostPort(target: string): { host: string; port: number } | null {
+  const match = target.trim().match(/^(?:\[([^\]]+)\]|([^:\s\/]+)):(\d{1,5})$/);
+  if (!match) return null;
+
+  const port = parseInt(match[3], 10);
+  if (port < 1 || port > 65535) return null;
+
+  return { host: match[1] || match[2], port };
+}
+
+/**
+ * Build the HTTP request options stored on an endpoint
+ * @param endpoint - Endpoint record from the database
+ * @returns Request options to pass to checkServiceStatus
+ */
+export function getRequestOptions(
+  endpoint: Pick<endpoints, "method" | "headers" | "query_params" | "body" | "body_type" | "assertions" | "timeout_seconds">
+): HttpRequestOptions {
+  return {
+    method: endpoint.method,
+    headers: (endpoint.headers as Record<string, string> | null) ?? null,
+    queryParams: (endpoint.query_params as Record<string, string> | null) ?? null,
+    body: endpoint.body,
+    bodyType: endpoint.body_type,
+    assertions: (endpoint.assertions as Assertion[] | null) ?? null,
+    timeout: endpoint.timeout_seconds * 1000,
+  };
 }
 
 /**
  * Check the status of a service by making an HTTP request
  * @param url - The URL to check
+ * @param options - Method, headers, query params, body and timeout, plus assertions to evaluate
  * @returns Status check result with metrics
  */
-export async function checkServiceStatus(url: string): Promise<StatusCheckResult> {
+export async function checkServiceStatus(
+  url: string,
+  options: HttpRequestOptions = {}
+): Promise<StatusCheckResult> {
   const startTime = Date.now();
   
   try {
-    const response = await axios.get(url, {
-      timeout: 30000, // 30 seconds timeout
+    const headers: Record<string, string> = { ...(options.headers || {}) };
+    const hasContentType = Object.keys(headers).some(
+      (name) => name.toLowerCase() === "content-type"
+    );
+
+    let data: unknown = undefined;
+    if (options.body && options.bodyType === RequestBodyType.JSON) {
+      data = JSON.parse(options.body);
+      if (!hasContentType) {
+        headers["Content-Type"] = "application/json";
+      }
+    } else if (options.body && options.bodyType === RequestBodyType.RAW) {
+      data = options.body;
+      if (!hasContentType) {
+        headers["Content-Type"] = "text/plain";
+      }
+    }
+
+    const requestConfig: AxiosRequestConfig = {
+      url,
+      method: options.method || HttpMethod.GET,
+      headers,
+      params: options.queryParams || undefined,
+      data,
+      timeout: options.timeout || DEFAULT_TIMEOUT_MS,
       validateStatus: () => true, // Don't throw on any status code
-    });
+      responseType: "text", // Keep the raw body for keyword and JSON path assertions
+    };
+
+    const response = await axios.request(requestConfig);
     
     const responseTime = Date.now() - startTime;
-    const isUp = response.status >= 200 && response.status < 500;
+    const assertionResults = evaluateAssertions(options.assertions || [], {
+      status: response.status,
+      headers: response.headers,
+      body: typeof response.data === "string" ? response.data : JSON.stringify(response.data ?? ""),
+      responseTime,
+    });
+    const errorMessage = formatAssertionFailures(assertionResults);
     
     return {
-      status: isUp ? CheckStatus.UP : CheckStatus.DOWN,
+      status: errorMessage ? CheckStatus.DOWN : CheckStatus.UP,
       httpCode: response.status,
       responseTime,
-      errorMessage: isUp ? null : `HTTP ${response.status}: ${response.statusText}`,
+      errorMessage,
+      assertionResults,
     };
   } catch (error: any) {
     const responseTime = Date.now() - startTime;
     
     // Build a more detailed error message
+    const networkError = describeNetworkError(error.code);
     let errorMessage = "Unknown error occurred";
     
-    if (error.code === "ECONNREFUSED") {
-      errorMessage = "Connection refused - Service is not responding";
-    } else if (error.code === "ENOTFOUND") {
-      errorMessage = "DNS lookup failed - Host not found";
-    } else if (error.code === "ETIMEDOUT" || error.code === "ECONNABORTED") {
-      errorMessage = "Request timeout - Service took too long to respond";
-    } else if (error.code === "ECONNRESET") {
-      errorMessage = "Connection reset - Service closed the connection";
-    } else if (error.code === "EHOSTUNREACH") {
-      errorMessage = "Host unreachable - Network path not available";
-    } else if (error.code === "ENETUNREACH") {
-      errorMessage = "Network unreachable - Cannot reach network";
-    } else if (error.code === "CERT_HAS_EXPIRED") {
-      errorMessage = "SSL certificate has expired";
-    } else if (error.code === "UNABLE_TO_VERIFY_LEAF_SIGNATURE") {
-      errorMessage = "SSL certificate verification failed";
+    if (networkError) {
+      errorMessage = networkError;
     } else if (error.response) {
       // The request was made and the server responded with a status code
       errorMessage = `HTTP ${error.response.status}: ${error.response.statusText || "Server error"}`;
@@ -69,18 +187,201 @@ export async function checkServiceStatus(url: string): Promise<StatusCheckResult
       httpCode: error.response?.status || null,
       responseTime,
       errorMessage,
+      assertionResults: null,
+    };
+  }
+}
+
+/**
+ * Check a TCP port by opening a connection and closing it straight away
+ * @param target - host:port to connect to
+ * @param timeout - Connect timeout in milliseconds
+ * @returns Status check result with connect latency as response time
+ */
+export async function checkTcpPort(target: string, timeout: number = DEFAULT_TIMEOUT_MS): Promise<StatusCheckResult> {
+  const address = parseHostPort(target);
+  if (!address) {
+    return {
+      status: CheckStatus.DOWN,
+      httpCode: null,
+      responseTime: null,
+      errorMessage: `Invalid TCP target "${target}" - expected host:port`,
+      assertionResults: null,
+    };
+  }
+
+  const startTime = Date.now();
+
+  return new Promise((resolve) => {
+    const socket = net.connect({ host: address.host, port: address.port });
+
+    const finish = (errorMessage: string | null) => {
+      socket.destroy();
+      resolve({
+        status: errorMessage ? CheckStatus.DOWN : CheckStatus.UP,
+        httpCode: null,
+        responseTime: Date.now() - startTime,
+        errorMessage,
+        assertionResults: null,
+      });
     };
+
+    socket.setTimeout(timeout);
+    socket.once("connect", () => finish(null));
+    socket.once("timeout", () => finish(describeNetworkError("ETIMEDOUT")));
+    socket.once("error", (error: NodeJS.ErrnoException) => {
+      finish(describeNetworkError(error.code) || error.message || "Unknown error occurred");
+    });
+  });
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run the probe for an endpoint's monitor type once
+ */
+async function probeEndpoint(endpoint: endpoints): Promise<StatusCheckResult> {
+  const timeout = endpoint.timeout_seconds * 1000;
+
+  if (endpoint.monitor_type === MonitorType.TCP) {
+    return checkTcpPort(endpoint.url, timeout);
+  }
+  if (endpoint.monitor_type === MonitorType.HEARTBEAT) {
+    return checkHeartbeat(endpoint);
+  }
+  if (endpoint.monitor_type === MonitorType.DNS) {
+    return checkDnsRecords(endpoint.url, {
+      recordType: endpoint.dns_record_type,
+      resolver: endpoint.dns_resolver,
+      expected: (endpoint.dns_expected as string[] | null) ?? null,
+      timeout,
+    });
+  }
+
+  // HTTPS endpoints also capture the TLS certificate, in parallel with the request
+  const [result, certificate] = await Promise.all([
+    checkServiceStatus(endpoint.url, getRequestOptions(endpoint)),
+    fetchCertificate(endpoint.url, timeout),
+  ]);
+  return { ...result, certificate };
+}
+
+/**
+ * Mark a successful result DEGRADED when it responded slower than the latency threshold
+ * @param result - Result of a probe
+ * @param thresholdMs - Endpoint's degraded threshold, results are left as they are when empty
+ */
+export function applyLatencyThreshold(result: StatusCheckResult, thresholdMs: number | null): StatusCheckResult {
+  if (
+    thresholdMs === null ||
+    result.status !== CheckStatus.UP ||
+    result.responseTime === null ||
+    result.responseTime <= thresholdMs
+  ) {
+    return result;
   }
+
+  return {
+    ...result,
+    status: CheckStatus.DEGRADED,
+    errorMessage: `Slow response: ${result.responseTime}ms (threshold ${thresholdMs}ms)`,
+  };
+}
+
+/**
+ * Check an endpoint using the probe for its monitor type
+ * A DOWN result is re-checked up to `retries` times, `retry_delay_seconds` apart, so only a confirmed
+ * failure is returned as DOWN; every attempt is kept on the result. Retries that could not finish within
+ * CHECK_BUDGET_SECONDS are skipped, for endpoints saved before that limit was validated. A successful
+ * result slower than the endpoint's degraded threshold is returned as DEGRADED.
+ * @param endpoint - Endpoint record from the database
+ * @returns Status check result with metrics
+ */
+export async function checkEndpoint(endpoint: endpoints): Promise<StatusCheckResult> {
+  // Heartbeat results come from stored pings, so re-checking would not change them and they have no latency
+  if (endpoint.monitor_type === MonitorType.HEARTBEAT) {
+    return probeEndpoint(endpoint);
+  }
+
+  const startedAt = new Date();
+  let result = applyLatencyThreshold(await probeEndpoint(endpoint), endpoint.degraded_threshold_ms);
+
+  const attempts: CheckAttempt[] = [toCheckAttempt(1, result, startedAt)];
+  for (let retry = 1; retry <= endpoint.retries && result.status === CheckStatus.DOWN; retry++) {
+    const elapsedMs = Date.now() - startedAt.getTime();
+    if (elapsedMs + (endpoint.retry_delay_seconds + endpoint.timeout_seconds) * 1000 > CHECK_BUDGET_SECONDS * 1000) {
+      console.warn(`⏱️ ${endpoint.name}: skipping retries ${retry}-${endpoint.retries}, they would exceed ${CHECK_BUDGET_SECONDS}s`);
+      break;
+    }
+    console.log(`↻ Retrying ${endpoint.name} (${retry}/${endpoint.retries}) after: ${result.errorMessage}`);
+    if (endpoint.retry_delay_seconds > 0) {
+      await delay(endpoint.retry_delay_seconds * 1000);
+    }
+    const attemptedAt = new Date();
+    result = applyLatencyThreshold(await probeEndpoint(endpoint), endpoint.degraded_threshold_ms);
+    attempts.push(toCheckAttempt(retry + 1, result, attemptedAt));
+  }
+
+  return { ...result, attempts: attempts.length > 1 ? attempts : null };
+}
+
+/**
+ * Summarize one probe of a check for its attempt log
+ */
+function toCheckAttempt(attempt: number, result: StatusCheckResult, checkedAt: Date): CheckAttempt {
+  return {
+    attempt,
+    status: result.status,
+    httpCode: result.httpCode,
+    responseTime: result.responseTime,
+    errorMessage: result.errorMessage,
+    checkedAt: checkedAt.toISOString(),
+  };
+}
+
+/**
+ * Map a check result to the columns of the checks table
+ * @param endpointId - Endpoint the check belongs to
+ * @param result - Result returned by checkServiceStatus
+ * @param tags - Whether the check ran during a maintenance window, and the DOWN dependency its failure is attributed to
+ * @returns Data for prisma.checks.create
+ */
+export function toCheckData(
+  endpointId: string,
+  result: StatusCheckResult,
+  tags: { inMaintenance?: boolean; rootCauseEndpointId?: string | null } = {}
+): Prisma.checksUncheckedCreateInput {
+  return {
+    endpoint_id: endpointId,
+    status: result.status,
+    in_maintenance: tags.inMaintenance ?? false,
+    root_cause_endpoint_id: tags.rootCauseEndpointId ?? null,
+    http_code: result.httpCode,
+    response_time: result.responseTime,
+    error_message: result.errorMessage,
+    assertion_results: result.assertionResults
+      ? (result.assertionResults as unknown as Prisma.InputJsonValue)
+      : Prisma.DbNull,
+    dns_result: result.dnsResult
+      ? (result.dnsResult as unknown as Prisma.InputJsonValue)
+      : Prisma.DbNull,
+    attempts: result.attempts
+      ? (result.attempts as unknown as Prisma.InputJsonValue)
+      : Prisma.DbNull,
+  };
 }
 
 /**
  * Calculate uptime percentage for a service over a time window
+ * DEGRADED checks count as up: the service answered, only slowly
  * @param checks - Array of check results
  * @returns Uptime percentage (0-100)
  */
 export function calculateUptime(checks: { status: CheckStatus }[]): number {
   if (checks.length === 0) return 100;
   
-  const upChecks = checks.filter(check => check.status === CheckStatus.UP).length;
+  const upChecks = checks.filter(check => check.status !== CheckStatus.DOWN).length;
   return Math.round((upChecks / checks.length) * 100 * 100) / 100; // Round to 2 decimals
 }
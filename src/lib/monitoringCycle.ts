@@ -0,0 +1,422 @@
+/**
+ * Monitoring cycle shared by the node-cron scheduler and the cron/QStash HTTP trigger
+ * One pass: load due endpoints → check → persist → track downtime and flapping → open/resolve incidents → alert
+ * → escalate unacknowledged incidents, with hooks at each step. Checks during maintenance are only stored,
+ * failures while a dependency is DOWN are attributed to it instead of alerting.
+ */
+
+import { prisma } from "./prisma";
+import { StatusCheckResult, checkEndpoint, toCheckData } from "./monitoring";
+import { markCertificateWarned, recordCertificate } from "./certificates";
+import { getDueEndpoints } from "./checkSchedule";
+import { runCheckPool } from "./checkPool";
+import { DowntimeTransition, FLAP_DETECTION, updateDowntimeTracker } from "./downtimeTracker";
+import { formatDowntimeAlert, formatRecoveryAlert, formatCertificateExpiryAlert, formatFlappingAlert, formatDegradedAlert } from "./slack";
+import { retryFailedDeliveries, sendNotification } from "./notifications";
+import { getOngoingIncident, openIncident, resolveIncidents, toNotificationIncident } from "./incidents";
+import { getPagedChannelIds, notifyIncidentOpened, processEscalations } from "./escalation";
+import { getActiveMaintenance } from "./maintenance";
+import { RootCause, getDependencyMap, getRootCause, recordDependentOutage } from "./dependencies";
+import { CheckStatus, endpoints } from "../generated/prisma";
+
+export type MonitoringTrigger = "scheduler" | "cron" | "manual" | "heartbeat";
+
+export type MonitoringAlert =
+  | { type: "down"; downtimeMinutes: number; firstFailureTime: Date; result: StatusCheckResult }
+  | { type: "recovery"; downtimeMinutes: number }
+  | { type: "degraded"; responseTime: number; thresholdMs: number }
+  | { type: "flapping"; stateChangeRate: number; flappingSince: Date }
+  | { type: "certificate"; daysLeft: number; validTo: Date; issuer: string };
+
+export interface MonitoringHooks {
+  /** Called after each check is stored */
+  onCheck?: (endpoint: endpoints, result: StatusCheckResult) => void | Promise<void>;
+  /** Called when an endpoint's status differs from its previous check */
+  onStateChange?: (
+    endpoint: endpoints,
+    previousStatus: CheckStatus | null,
+    result: StatusCheckResult,
+    transition: DowntimeTransition
+  ) => void | Promise<void>;
+  /** Called after an alert has been sent */
+  onAlert?: (endpoint: endpoints, alert: MonitoringAlert) => void | Promise<void>;
+}
+
+export interface EndpointRunResult {
+  id: string;
+  name: string;
+  url: string;
+  status: CheckStatus;
+  responseTime: number | null;
+  httpCode: number | null;
+  errorMessage: string | null;
+  inMaintenance: boolean;
+  rootCause: RootCause | null; // DOWN dependency the failure is attributed to
+  alerts: MonitoringAlert["type"][];
+}
+
+export interface MonitoringRunReport {
+  trigger: MonitoringTrigger;
+  startedAt: Date;
+  finishedAt: Date;
+  duration: number;
+  total: number; // All configured endpoints
+  checked: number;
+  up: number;
+  down: number;
+  degraded: number; // Up, but slower than their degraded threshold
+  maintenance: number; // Checked during a maintenance window, included in up/down/degraded
+  skipped: { id: string; name: string }[]; // Previous check still in flight
+  escalations: number; // Re-notifications and escalations sent for unacknowledged incidents
+  retries: number; // Failed alert deliveries retried
+  results: EndpointRunResult[];
+}
+
+export interface MonitoringRunOptions {
+  /** Extra hooks for this run only, called after the registered hooks */
+  hooks?: MonitoringHooks;
+  /** Check these endpoints now instead of the ones that are due (paused endpoints are still skipped) */
+  endpointIds?: string[];
+}
+
+// Hooks registered by other modules, run on every cycle in addition to per-run hooks
+// Kept on the global object so the scheduler and route handler bundles share one list
+const HOOKS_KEY = Symbol.for("app.monitoring.hooks");
+const globalForHooks = global as typeof global & {
+  [HOOKS_KEY]: MonitoringHooks[];
+};
+
+if (!globalForHooks[HOOKS_KEY]) {
+  globalForHooks[HOOKS_KEY] = [];
+}
+
+const registeredHooks = globalForHooks[HOOKS_KEY];
+
+// Report of the latest cycle run by this process, for the scheduler API
+const LAST_RUN_KEY = Symbol.for("app.monitoring.lastRun");
+const globalForLastRun = global as typeof global & {
+  [LAST_RUN_KEY]: MonitoringRunReport | null;
+};
+
+if (globalForLastRun[LAST_RUN_KEY] === undefined) {
+  globalForLastRun[LAST_RUN_KEY] = null;
+}
+
+/**
+ * Report of the latest monitoring cycle run in this process, if any
+ */
+export function getLastRunReport(): MonitoringRunReport | null {
+  return globalForLastRun[LAST_RUN_KEY];
+}
+
+/**
+ * Register hooks that run on every monitoring cycle
+ * @returns Function that removes the hooks again
+ */
+export function registerMonitoringHooks(hooks: MonitoringHooks): () => void {
+  registeredHooks.push(hooks);
+  return () => {
+    const index = registeredHooks.indexOf(hooks);
+    if (index !== -1) registeredHooks.splice(index, 1);
+  };
+}
+
+/**
+ * Call one hook on every hook set, logging failures so a broken hook never stops the cycle
+ */
+async function emit<K extends keyof MonitoringHooks>(
+  hookSets: MonitoringHooks[],
+  name: K,
+  ...args: Parameters<NonNullable<MonitoringHooks[K]>>
+): Promise<void> {
+  for (const hooks of hookSets) {
+    const hook = hooks[name] as ((...hookArgs: typeof args) => void | Promise<void>) | undefined;
+    if (!hook) continue;
+    try {
+      await hook(...args);
+    } catch (error) {
+      console.error(`❌ Monitoring hook ${name} failed:`, error);
+    }
+  }
+}
+
+/**
+ * Check one endpoint and run everything that follows from the result
+ */
+async function processEndpoint(endpoint: endpoints, hookSets: MonitoringHooks[]): Promise<EndpointRunResult> {
+  const result = await checkEndpoint(endpoint);
+  const maintenance = await getActiveMaintenance(endpoint.id);
+  const rootCause = !maintenance && result.status === CheckStatus.DOWN ? await getRootCause(endpoint.id) : null;
+  const alerts: MonitoringAlert[] = [];
+  const alertEndpoint = { id: endpoint.id, name: endpoint.name, url: endpoint.url };
+  const alertCheck = {
+    status: result.status,
+    responseTime: result.responseTime,
+    httpCode: result.httpCode,
+    errorMessage: result.errorMessage,
+    checkedAt: new Date(),
+  };
+  const runResult = {
+    id: endpoint.id,
+    name: endpoint.name,
+    url: endpoint.url,
+    status: result.status,
+    responseTime: result.responseTime,
+    httpCode: result.httpCode,
+    errorMessage: result.errorMessage,
+    inMaintenance: maintenance !== null,
+    rootCause,
+  };
+
+  await prisma.$transaction([
+    prisma.checks.create({
+      data: toCheckData(endpoint.id, result, {
+        inMaintenance: maintenance !== null,
+        rootCauseEndpointId: rootCause?.id,
+      }),
+    }),
+    prisma.endpoints.update({
+      where: { id: endpoint.id },
+      data: { last_checked_at: alertCheck.checkedAt },
+    }),
+  ]);
+  await emit(hookSets, "onCheck", endpoint, result);
+
+  if (result.status === CheckStatus.UP) {
+    console.log(`✓ ${endpoint.name}: UP (${result.responseTime}ms)`);
+  } else if (result.status === CheckStatus.DEGRADED) {
+    console.warn(`🐢 ${endpoint.name}: DEGRADED - ${result.errorMessage}`);
+  } else {
+    console.warn(`⚠️ ${endpoint.name}: DOWN - ${result.errorMessage}`);
+  }
+
+  // Planned downtime: keep tracking the endpoint, so an outage that ends during the window is resolved,
+  // but send nothing until the window ends
+  if (maintenance) {
+    console.log(`🔧 ${endpoint.name}: in maintenance (${maintenance.name}), alerts suppressed`);
+  }
+
+  // Store the TLS certificate and warn before it expires; a warning held back by maintenance follows afterwards
+  if (result.certificate) {
+    const daysLeft = await recordCertificate(endpoint.id, result.certificate);
+    if (daysLeft !== null && !maintenance) {
+      const deliveries = await sendNotification(endpoint.id, {
+        event: "certificate",
+        title: `SSL certificate for ${endpoint.name} expires in ${daysLeft} days`,
+        message: formatCertificateExpiryAlert(
+          endpoint.name,
+          endpoint.url,
+          daysLeft,
+          result.certificate.validTo,
+          result.certificate.issuer
+        ),
+        endpoint: alertEndpoint,
+        check: alertCheck,
+        details: {
+          daysLeft,
+          validTo: result.certificate.validTo.toISOString(),
+          issuer: result.certificate.issuer,
+        },
+      });
+      // Muted or undeliverable warnings are tried again on the next check
+      if (deliveries.length > 0) {
+        await markCertificateWarned(endpoint.id, daysLeft);
+        console.warn(`🔒 CERTIFICATE ALERT SENT: ${endpoint.name} expires in ${daysLeft} days`);
+        alerts.push({
+          type: "certificate",
+          daysLeft,
+          validTo: result.certificate.validTo,
+          issuer: result.certificate.issuer,
+        });
+      }
+    }
+  }
+
+  // Update the persisted downtime tracker and alert on threshold/recovery
+  const transition = await updateDowntimeTracker(endpoint, result, new Date(), rootCause !== null, maintenance !== null);
+
+  if (transition.previousStatus !== result.status) {
+    await emit(hookSets, "onStateChange", endpoint, transition.previousStatus, result, transition);
+  }
+
+  if (result.status === CheckStatus.DOWN) {
+    console.warn(
+      `⚠️ ${endpoint.name}: failure ${transition.consecutiveFailures}/${endpoint.alert_threshold}` +
+        (rootCause ? ` (root cause: ${rootCause.name})` : "")
+    );
+  }
+
+  if (transition.alert === "down") {
+    const incident = await openIncident(endpoint.id, transition);
+    console.error(`📋 INCIDENT OPENED: ${endpoint.name} (${incident.id})`);
+    await notifyIncidentOpened(endpoint, incident, {
+      event: "down",
+      title: `Service down: ${endpoint.name}`,
+      message: formatDowntimeAlert(
+        endpoint.name,
+        endpoint.url,
+        transition.downtimeMinutes,
+        transition.firstFailureTime!,
+        result.httpCode || undefined,
+        result.errorMessage || "Service unreachable"
+      ),
+      endpoint: alertEndpoint,
+      check: alertCheck,
+      incident: toNotificationIncident(incident),
+      details: {
+        downtimeMinutes: transition.downtimeMinutes,
+        startedAt: transition.firstFailureTime!.toISOString(),
+        statusCode: result.httpCode,
+        responseTime: result.responseTime,
+        error: result.errorMessage,
+      },
+    });
+    console.error(`🚨 DOWNTIME ALERT SENT: ${endpoint.name} down for ${transition.downtimeMinutes} minutes`);
+    alerts.push({
+      type: "down",
+      downtimeMinutes: transition.downtimeMinutes,
+      firstFailureTime: transition.firstFailureTime!,
+      result,
+    });
+  } else if (transition.alert === "dependent") {
+    await recordDependentOutage(rootCause!, endpoint);
+    console.warn(`🔗 DOWNTIME ALERT SUPPRESSED: ${endpoint.name} depends on ${rootCause!.name}, which is down`);
+  } else if (transition.alert === "flapping") {
+    const changePercent = Math.round(transition.stateChangeRate * 100);
+    await sendNotification(endpoint.id, {
+      event: "flapping",
+      title: `Service flapping: ${endpoint.name}`,
+      message: formatFlappingAlert(endpoint.name, endpoint.url, changePercent, FLAP_DETECTION.window),
+      endpoint: alertEndpoint,
+      check: alertCheck,
+      details: {
+        stateChangePercent: changePercent,
+        window: FLAP_DETECTION.window,
+        flappingSince: transition.flappingSince!.toISOString(),
+        error: result.errorMessage,
+      },
+    });
+    console.warn(`🔀 FLAPPING ALERT SENT: ${endpoint.name} changed state on ${changePercent}% of recent checks`);
+    alerts.push({
+      type: "flapping",
+      stateChangeRate: transition.stateChangeRate,
+      flappingSince: transition.flappingSince!,
+    });
+  } else if (transition.alert === "recovery") {
+    const ongoing = await getOngoingIncident(endpoint.id);
+    // Without an incident the recovery closes a flapping alert, which was routed like any other
+    const pagedChannelIds = ongoing ? getPagedChannelIds(ongoing) : undefined;
+    await resolveIncidents(endpoint.id);
+    if (maintenance) {
+      console.log(`🔧 RECOVERY ALERT SUPPRESSED: ${endpoint.name} is back online during maintenance (${maintenance.name})`);
+    } else if (pagedChannelIds === null) {
+      console.log(`🔕 RECOVERY ALERT SKIPPED: ${endpoint.name} is back online, but nobody was alerted about the outage`);
+    } else {
+      await sendNotification(endpoint.id, {
+        event: "recovery",
+        title: transition.flappingSince
+          ? `Service stable again: ${endpoint.name}`
+          : `Service recovered: ${endpoint.name}`,
+        message: formatRecoveryAlert(
+          endpoint.name,
+          endpoint.url,
+          transition.downtimeMinutes
+        ),
+        endpoint: alertEndpoint,
+        check: alertCheck,
+        incident: ongoing ? toNotificationIncident(ongoing) : undefined,
+        details: { downtimeMinutes: transition.downtimeMinutes },
+      }, pagedChannelIds);
+      console.log(`✅ RECOVERY ALERT SENT: ${endpoint.name} back online after ${transition.downtimeMinutes} minutes`);
+      alerts.push({ type: "recovery", downtimeMinutes: transition.downtimeMinutes });
+    }
+  }
+
+  // Warn once when an endpoint turns slow; it is alerted again only after it has been UP or DOWN in between
+  if (
+    !maintenance &&
+    result.status === CheckStatus.DEGRADED &&
+    transition.previousStatus !== CheckStatus.DEGRADED &&
+    !transition.flapping &&
+    endpoint.degraded_threshold_ms !== null &&
+    result.responseTime !== null
+  ) {
+    const thresholdMs = endpoint.degraded_threshold_ms;
+    await sendNotification(endpoint.id, {
+      event: "degraded",
+      title: `Service degraded: ${endpoint.name}`,
+      message: formatDegradedAlert(endpoint.name, endpoint.url, result.responseTime, thresholdMs),
+      endpoint: alertEndpoint,
+      check: alertCheck,
+      details: { responseTime: result.responseTime, thresholdMs },
+    });
+    console.warn(`🐢 DEGRADED ALERT SENT: ${endpoint.name} responded in ${result.responseTime}ms`);
+    alerts.push({ type: "degraded", responseTime: result.responseTime, thresholdMs });
+  }
+
+  for (const alert of alerts) {
+    await emit(hookSets, "onAlert", endpoint, alert);
+  }
+
+  return {
+    ...runResult,
+    alerts: alerts.map((alert) => alert.type),
+  };
+}
+
+/**
+ * Load the endpoints requested for an immediate check, leaving out paused ones
+ */
+async function getRequestedEndpoints(endpointIds: string[]): Promise<{ due: endpoints[]; total: number }> {
+  const [due, total] = await Promise.all([
+    prisma.endpoints.findMany({
+      where: { id: { in: endpointIds }, paused: false },
+      orderBy: { name: "asc" },
+    }),
+    prisma.endpoints.count(),
+  ]);
+  return { due, total };
+}
+
+/**
+ * Run one monitoring cycle over every endpoint that is due for a check
+ * @param trigger - What started the cycle, recorded in the report
+ * @param options - Per-run hooks and an optional list of endpoints to check right away
+ * @returns Structured report of the cycle
+ */
+export async function runMonitoringCycle(
+  trigger: MonitoringTrigger,
+  options: MonitoringRunOptions = {}
+): Promise<MonitoringRunReport> {
+  const startedAt = new Date();
+  const hookSets = options.hooks ? [...registeredHooks, options.hooks] : [...registeredHooks];
+
+  const { due, total } = options.endpointIds
+    ? await getRequestedEndpoints(options.endpointIds)
+    : await getDueEndpoints(startedAt);
+  const parentsOf = await getDependencyMap();
+  const { results, skipped } = await runCheckPool(due, (endpoint) => processEndpoint(endpoint, hookSets), parentsOf);
+  const escalations = await processEscalations();
+  const retries = await retryFailedDeliveries();
+
+  const finishedAt = new Date();
+  const report: MonitoringRunReport = {
+    trigger,
+    startedAt,
+    finishedAt,
+    duration: finishedAt.getTime() - startedAt.getTime(),
+    total,
+    checked: results.length,
+    up: results.filter((result) => result.status === CheckStatus.UP).length,
+    down: results.filter((result) => result.status === CheckStatus.DOWN).length,
+    degraded: results.filter((result) => result.status === CheckStatus.DEGRADED).length,
+    maintenance: results.filter((result) => result.inMaintenance).length,
+    skipped: skipped.map((endpoint) => ({ id: endpoint.id, name: endpoint.name })),
+    escalations,
+    retries,
+    results,
+  };
+
+  globalForLastRun[LAST_RUN_KEY] = report;
+  return report;
+}
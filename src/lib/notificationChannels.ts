@@ -0,0 +1,354 @@
+import { NotificationChannelType, Prisma, notification_channels } from "../generated/prisma";
+import { prisma } from "./prisma";
+
+const CHANNEL_TYPES = Object.values(NotificationChannelType) as string[];
+
+// Sent to the dashboard instead of secret settings; sending it back keeps the stored value
+export const REDACTED_SECRET = "********";
+
+// Settings that hold credentials, on top of the values of webhook headers
+const SECRET_FIELDS = ["botToken", "password", "routingKey"];
+
+export interface WebhookUrlChannelConfig {
+  webhookUrl: string;
+}
+
+// Slack posts through an incoming webhook, or through chat.postMessage with a bot token,
+// which is needed to thread recovery alerts under the outage message
+export interface SlackChannelConfig {
+  webhookUrl?: string;
+  botToken?: string;
+  channel?: string; // Channel id or name the bot posts to
+}
+
+export interface WebhookChannelConfig {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface EmailChannelConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise STARTTLS is used when offered
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+}
+
+export interface PagerDutyChannelConfig {
+  routingKey: string; // Events API v2 integration key
+}
+
+export type ChannelConfig =
+  | WebhookUrlChannelConfig
+  | SlackChannelConfig
+  | WebhookChannelConfig
+  | EmailChannelConfig
+  | PagerDutyChannelConfig;
+
+export interface ChannelInput {
+  name?: unknown;
+  type?: unknown;
+  config?: unknown;
+  enabled?: unknown;
+  isDefault?: unknown;
+}
+
+export interface ChannelData {
+  name?: string;
+  type?: NotificationChannelType;
+  config?: Prisma.InputJsonValue;
+  enabled?: boolean;
+  is_default?: boolean;
+}
+
+export type ChannelInputResult =
+  | { data: ChannelData; error?: undefined }
+  | { data?: undefined; error: string };
+
+/**
+ * Check that a value is an http(s) URL
+ */
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== "string") return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check that a value looks like an email address
+ */
+function isEmail(value: unknown): value is string {
+  return typeof value === "string" && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim());
+}
+
+/**
+ * Validate the type specific settings of a channel
+ * @param type - Channel type
+ * @param config - Settings sent by the dashboard
+ * @returns Normalized settings, or a validation error
+ */
+export function validateChannelConfig(
+  type: NotificationChannelType,
+  config: unknown
+): { config: ChannelConfig; error?: undefined } | { config?: undefined; error: string } {
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    return { error: "Channel settings must be an object" };
+  }
+  const input = config as Record<string, unknown>;
+
+  switch (type) {
+    case NotificationChannelType.SLACK: {
+      const botToken = typeof input.botToken === "string" ? input.botToken.trim() : "";
+      const channel = typeof input.channel === "string" ? input.channel.trim() : "";
+      if (botToken || channel) {
+        if (!botToken.startsWith("xoxb-")) {
+          return { error: "Slack bot token must start with xoxb-" };
+        }
+        if (!channel) {
+          return { error: "Slack channel is required when using a bot token" };
+        }
+        return { config: { botToken, channel } };
+      }
+      if (!isHttpUrl(input.webhookUrl)) {
+        return { error: "Webhook URL must be a valid http(s) URL" };
+      }
+      return { config: { webhookUrl: input.webhookUrl } };
+    }
+
+    case NotificationChannelType.TEAMS:
+    case NotificationChannelType.DISCORD:
+      if (!isHttpUrl(input.webhookUrl)) {
+        return { error: "Webhook URL must be a valid http(s) URL" };
+      }
+      return { config: { webhookUrl: input.webhookUrl } };
+
+    case NotificationChannelType.WEBHOOK: {
+      if (!isHttpUrl(input.url)) {
+        return { error: "Webhook URL must be a valid http(s) URL" };
+      }
+      const headers = input.headers ?? {};
+      if (
+        typeof headers !== "object" ||
+        headers === null ||
+        Array.isArray(headers) ||
+        !Object.values(headers).every((value) => typeof value === "string")
+      ) {
+        return { error: "Webhook headers must map header names to string values" };
+      }
+      return { config: { url: input.url, headers: headers as Record<string, string> } };
+    }
+
+    case NotificationChannelType.EMAIL: {
+      const port = Number(input.port);
+      const to = Array.isArray(input.to) ? input.to : [];
+      if (typeof input.host !== "string" || !input.host.trim()) {
+        return { error: "SMTP host is required" };
+      }
+      if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        return { error: "SMTP port must be between 1 and 65535" };
+      }
+      if (!isEmail(input.from)) {
+        return { error: "From address must be a valid email address" };
+      }
+      if (to.length === 0 || !to.every(isEmail)) {
+        return { error: "Recipients must be a list of valid email addresses" };
+      }
+      return {
+        config: {
+          host: input.host.trim(),
+          port,
+          secure: input.secure === true,
+          username: typeof input.username === "string" && input.username ? input.username : undefined,
+          password: typeof input.password === "string" && input.password ? input.password : undefined,
+          from: input.from.trim(),
+          to: to.map((address) => (address as string).trim()),
+        },
+      };
+    }
+
+    case NotificationChannelType.PAGERDUTY:
+      if (typeof input.routingKey !== "string" || !/^[a-zA-Z0-9]{32}$/.test(input.routingKey.trim())) {
+        return { error: "PagerDuty routing key must be the 32 character Events API v2 integration key" };
+      }
+      return { config: { routingKey: input.routingKey.trim() } };
+  }
+}
+
+/**
+ * Whether a value is a plain JSON object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Replace the secrets in a channel's settings with REDACTED_SECRET before they leave the server
+ */
+export function redactChannelConfig(config: Prisma.JsonValue): Prisma.JsonValue {
+  if (!isObject(config)) {
+    return config;
+  }
+
+  const redacted: Prisma.JsonObject = { ...config };
+  for (const field of SECRET_FIELDS) {
+    if (typeof redacted[field] === "string" && redacted[field]) {
+      redacted[field] = REDACTED_SECRET;
+    }
+  }
+  if (isObject(redacted.headers)) {
+    redacted.headers = Object.fromEntries(Object.keys(redacted.headers).map((name) => [name, REDACTED_SECRET]));
+  }
+  return redacted;
+}
+
+/**
+ * Put the stored secrets back wherever the dashboard sent REDACTED_SECRET
+ * @param config - Settings sent by the dashboard
+ * @param stored - Settings of the channel being updated
+ */
+function restoreChannelSecrets(config: unknown, stored: Prisma.JsonValue): unknown {
+  if (!isObject(config) || !isObject(stored)) {
+    return config;
+  }
+
+  const restored = { ...config };
+  for (const field of SECRET_FIELDS) {
+    if (restored[field] === REDACTED_SECRET && typeof stored[field] === "string") {
+      restored[field] = stored[field];
+    }
+  }
+  if (isObject(restored.headers) && isObject(stored.headers)) {
+    const storedHeaders = stored.headers;
+    restored.headers = Object.fromEntries(
+      Object.entries(restored.headers).map(([name, value]) => [
+        name,
+        value === REDACTED_SECRET && typeof storedHeaders[name] === "string" ? storedHeaders[name] : value,
+      ])
+    );
+  }
+  return restored;
+}
+
+/**
+ * Whether settings still hold REDACTED_SECRET, i.e. a secret that is not stored for this channel
+ */
+function hasRedactedSecret(config: unknown): boolean {
+  if (!isObject(config)) {
+    return false;
+  }
+  return (
+    SECRET_FIELDS.some((field) => config[field] === REDACTED_SECRET) ||
+    (isObject(config.headers) && Object.values(config.headers).includes(REDACTED_SECRET))
+  );
+}
+
+/**
+ * Validate a channel sent by the dashboard
+ * Only fields present in the input are returned, so it works for both create and update
+ * @param input - Request body from POST/PATCH /api/notification-channels
+ * @param existing - Channel being updated: its type validates new settings, its settings fill in redacted secrets
+ * @returns Prisma data for the provided fields, or a validation error
+ */
+export function parseChannelInput(
+  input: ChannelInput,
+  existing?: Pick<notification_channels, "type" | "config">
+): ChannelInputResult {
+  const existingType = existing?.type;
+  const data: ChannelData = {};
+
+  if (input.name !== undefined) {
+    if (typeof input.name !== "string" || !input.name.trim()) {
+      return { error: "Channel name is required" };
+    }
+    data.name = input.name.trim();
+  }
+
+  if (input.type !== undefined) {
+    if (typeof input.type !== "string" || !CHANNEL_TYPES.includes(input.type)) {
+      return { error: `Channel type must be one of: ${CHANNEL_TYPES.join(", ")}` };
+    }
+    data.type = input.type as NotificationChannelType;
+  }
+
+  const type = data.type || existingType;
+  if (input.config !== undefined || (data.type && data.type !== existingType)) {
+    if (!type) {
+      return { error: "Channel type is required" };
+    }
+    const config = existing && type === existingType ? restoreChannelSecrets(input.config, existing.config) : input.config;
+    if (hasRedactedSecret(config)) {
+      return { error: "Secret settings are not stored for this channel, enter them again" };
+    }
+    const result = validateChannelConfig(type, config);
+    if (!result.config) {
+      return { error: result.error };
+    }
+    data.config = result.config as unknown as Prisma.InputJsonValue;
+  }
+
+  if (input.enabled !== undefined) {
+    if (typeof input.enabled !== "boolean") {
+      return { error: "Enabled must be true or false" };
+    }
+    data.enabled = input.enabled;
+  }
+
+  if (input.isDefault !== undefined) {
+    if (typeof input.isDefault !== "boolean") {
+      return { error: "Default must be true or false" };
+    }
+    data.is_default = input.isDefault;
+  }
+
+  return { data };
+}
+
+/**
+ * Validate the channel ids an endpoint routes its alerts to
+ * @param value - notificationChannelIds from the request body
+ * @returns Unique existing channel ids, or a validation error
+ */
+export async function parseChannelIds(
+  value: unknown
+): Promise<{ channelIds: string[]; error?: undefined } | { channelIds?: undefined; error: string }> {
+  if (!Array.isArray(value) || !value.every((id) => typeof id === "string")) {
+    return { error: "Notification channels must be a list of channel ids" };
+  }
+
+  const channelIds = [...new Set(value as string[])];
+  if (channelIds.length === 0) {
+    return { channelIds };
+  }
+
+  const found = await prisma.notification_channels.count({
+    where: { id: { in: channelIds } },
+  });
+  if (found !== channelIds.length) {
+    return { error: "Notification channel not found" };
+  }
+
+  return { channelIds };
+}
+
+/**
+ * Map a notification channel row to the camelCase shape used by the dashboard
+ */
+export function serializeChannel(channel: notification_channels & { _count?: { endpoints: number } }) {
+  return {
+    id: channel.id,
+    name: channel.name,
+    type: channel.type,
+    config: redactChannelConfig(channel.config),
+    enabled: channel.enabled,
+    isDefault: channel.is_default,
+    endpointCount: channel._count?.endpoints ?? 0,
+    createdAt: channel.created_at.toISOString(),
+    updatedAt: channel.updated_at.toISOString(),
+  };
+}
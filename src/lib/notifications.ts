@@ -0,0 +1,486 @@
+/**
+ * Alert delivery to notification channels
+ * Messages are written once in Slack markdown (see slack.ts) and adapted for each channel type
+ */
+
+import nodemailer from "nodemailer";
+import { prisma } from "./prisma";
+import { buildSlackAlertMessage, callSlackApi, formatOnCall, sendSlackAlert } from "./slack";
+import { OnCallUser, getEndpointOnCall } from "./oncall";
+import { getNotificationSeverity, routeNotification } from "./alertRules";
+import { MessageTemplate, applyTemplate, getEventTemplates, pickTemplate } from "./templates";
+import {
+  FALLBACK_CHANNEL,
+  abandonDelivery,
+  claimDueRetries,
+  createDelivery,
+  getDeliveryNotification,
+  recordAttempt,
+} from "./deliveries";
+import { NotificationChannelType, notification_channels, notification_deliveries } from "../generated/prisma";
+import {
+  EmailChannelConfig,
+  PagerDutyChannelConfig,
+  REDACTED_SECRET,
+  SlackChannelConfig,
+  WebhookChannelConfig,
+  WebhookUrlChannelConfig,
+} from "./notificationChannels";
+
+export type NotificationEvent = "down" | "recovery" | "degraded" | "certificate" | "flapping" | "test";
+
+// Check that triggered an alert, for message templates
+export interface NotificationCheck {
+  status: string;
+  responseTime: number | null;
+  httpCode: number | null;
+  errorMessage: string | null;
+  checkedAt: Date;
+}
+
+// Incident an alert is about, for message templates
+export interface NotificationIncident {
+  id: string;
+  startedAt: Date;
+  acknowledgedBy: string | null;
+}
+
+export interface Notification {
+  event: NotificationEvent;
+  title: string; // Short summary, used as email subject and PagerDuty summary
+  message: string; // Full message in Slack markdown
+  endpoint?: { id: string; name: string; url: string };
+  details?: Record<string, string | number | null>;
+  check?: NotificationCheck;
+  incident?: NotificationIncident;
+  onCall?: OnCallUser | null; // Looked up from the endpoint's on-call schedule when left out
+  templated?: boolean; // Whether title and message come from a template instead of the built-in wording
+}
+
+export interface ChannelDelivery {
+  channelId: string;
+  channelName: string;
+  success: boolean;
+  error: string | null;
+}
+
+// What an attempt sent and got back, filled in by the channel senders for the delivery log
+export interface DeliveryTrace {
+  payload: unknown;
+  responseCode: number | null; // HTTP status, or SMTP reply code for email
+}
+
+const PAGERDUTY_EVENTS_URL = "https://events.pagerduty.com/v2/enqueue";
+
+/**
+ * Convert Slack markdown (*bold*) to standard markdown (**bold**) for Teams and Discord
+ */
+function toStandardMarkdown(message: string): string {
+  return message.replace(/\*([^*\n]+)\*/g, "**$1**");
+}
+
+/**
+ * Strip Slack markdown for plain text email bodies
+ */
+function toPlainText(message: string): string {
+  return message
+    .replace(/\*([^*\n]+)\*/g, "$1")
+    .replace(/(^|\s)_([^_\n]+)_(?=\s|$)/gm, "$1$2");
+}
+
+/**
+ * Message with the on-call user appended, for channels that cannot mention Slack users
+ */
+function withOnCall(notification: Notification): string {
+  return notification.onCall
+    ? `${notification.message}\n*On call:* ${formatOnCall(notification.onCall, false)}`
+    : notification.message;
+}
+
+/**
+ * POST a JSON payload and fail on non-2xx responses
+ */
+async function postJson(
+  url: string,
+  payload: unknown,
+  trace: DeliveryTrace,
+  headers: Record<string, string> = {}
+): Promise<void> {
+  trace.payload = payload;
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(10000),
+  });
+  trace.responseCode = response.status;
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new Error(`HTTP ${response.status}${body ? `: ${body.slice(0, 200)}` : ""}`);
+  }
+}
+
+/**
+ * Send a notification through PagerDuty Events API v2
+ * Down alerts trigger an incident per endpoint and recovery alerts resolve it
+ */
+async function sendPagerDuty(
+  config: PagerDutyChannelConfig,
+  notification: Notification,
+  trace: DeliveryTrace
+): Promise<void> {
+  const endpointKey = notification.endpoint?.id || "test";
+  const dedupKey =
+    notification.event === "certificate" || notification.event === "degraded"
+      ? `${endpointKey}-${notification.event}`
+      : notification.event === "test"
+        ? `test-${Date.now()}`
+        : `${endpointKey}-down`;
+
+  const payload = {
+    routing_key: config.routingKey,
+    event_action: notification.event === "recovery" ? "resolve" : "trigger",
+    dedup_key: dedupKey,
+    payload: {
+      summary: notification.title,
+      source: notification.endpoint?.url || "loft-uptime-monitor",
+      severity: getNotificationSeverity(notification.event).toLowerCase(),
+      timestamp: new Date().toISOString(),
+      custom_details: {
+        message: toPlainText(notification.message),
+        ...notification.details,
+        ...(notification.onCall && { on_call: formatOnCall(notification.onCall, false) }),
+      },
+    },
+  };
+
+  try {
+    await postJson(PAGERDUTY_EVENTS_URL, payload, trace);
+  } finally {
+    // The delivery log is shown in the dashboard, which never sees the routing key
+    trace.payload = { ...payload, routing_key: REDACTED_SECRET };
+  }
+}
+
+/**
+ * Send a Block Kit alert to Slack
+ * With a bot token, outage messages are remembered so the recovery alert replies in their thread;
+ * incoming webhooks cannot thread, so recoveries are posted as new messages there
+ */
+async function sendSlack(channel: notification_channels, notification: Notification, trace: DeliveryTrace): Promise<void> {
+  const config = channel.config as unknown as SlackChannelConfig;
+  const message = buildSlackAlertMessage(notification);
+  const endpointId = notification.endpoint?.id;
+
+  if (!config.botToken) {
+    await postJson(config.webhookUrl!, message, trace);
+    return;
+  }
+
+  if (notification.event === "recovery" && endpointId) {
+    const outage = await prisma.slack_messages.findFirst({
+      where: { endpoint_id: endpointId, channel_id: channel.id, resolved_at: null },
+      orderBy: { created_at: "desc" },
+    });
+
+    if (outage) {
+      await callSlackApi("chat.postMessage", config.botToken, {
+        channel: outage.slack_channel,
+        thread_ts: outage.ts,
+        ...message,
+      }, trace);
+      await prisma.slack_messages.updateMany({
+        where: { endpoint_id: endpointId, channel_id: channel.id, resolved_at: null },
+        data: { resolved_at: new Date() },
+      });
+      return;
+    }
+  }
+
+  const posted = await callSlackApi("chat.postMessage", config.botToken, {
+    channel: config.channel,
+    ...message,
+  }, trace);
+
+  if (notification.event === "down" && endpointId) {
+    await prisma.slack_messages.create({
+      data: {
+        endpoint_id: endpointId,
+        channel_id: channel.id,
+        slack_channel: posted.channel,
+        ts: posted.ts,
+      },
+    });
+  }
+}
+
+/**
+ * Send an email through the channel's SMTP server
+ */
+async function sendEmail(config: EmailChannelConfig, notification: Notification, trace: DeliveryTrace): Promise<void> {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.username ? { user: config.username, pass: config.password } : undefined,
+    connectionTimeout: 10000,
+  });
+
+  const mail = {
+    from: config.from,
+    to: config.to.join(", "),
+    subject: notification.title,
+    text: toPlainText(withOnCall(notification)),
+  };
+  trace.payload = mail;
+
+  try {
+    const info = await transporter.sendMail(mail);
+    trace.responseCode = parseInt(info.response) || null;
+  } catch (error: any) {
+    trace.responseCode = error.responseCode ?? null;
+    throw error;
+  }
+}
+
+/**
+ * Deliver a notification to one channel
+ * @param trace - Filled in with the payload sent and the response code, for the delivery log
+ * @throws Error describing why delivery failed
+ */
+export async function sendToChannel(
+  channel: notification_channels,
+  notification: Notification,
+  trace: DeliveryTrace = { payload: null, responseCode: null }
+): Promise<void> {
+  switch (channel.type) {
+    case NotificationChannelType.SLACK:
+      await sendSlack(channel, notification, trace);
+      break;
+    case NotificationChannelType.DISCORD: {
+      const config = channel.config as unknown as WebhookUrlChannelConfig;
+      // Discord rejects messages over 2000 characters
+      await postJson(config.webhookUrl, { content: toStandardMarkdown(withOnCall(notification)).slice(0, 2000) }, trace);
+      break;
+    }
+    case NotificationChannelType.TEAMS: {
+      const config = channel.config as unknown as WebhookUrlChannelConfig;
+      await postJson(config.webhookUrl, {
+        "@type": "MessageCard",
+        "@context": "https://schema.org/extensions",
+        summary: notification.title,
+        themeColor: notification.event === "down" ? "EF4444" : notification.event === "recovery" ? "10B981" : "F59E0B",
+        title: notification.title,
+        text: toStandardMarkdown(withOnCall(notification)).replace(/\n/g, "\n\n"),
+      }, trace);
+      break;
+    }
+    case NotificationChannelType.WEBHOOK: {
+      const config = channel.config as unknown as WebhookChannelConfig;
+      await postJson(
+        config.url,
+        {
+          event: notification.event,
+          title: notification.title,
+          message: toPlainText(notification.message),
+          endpoint: notification.endpoint ?? null,
+          details: notification.details ?? {},
+          onCall: notification.onCall ?? null,
+          timestamp: new Date().toISOString(),
+        },
+        trace,
+        config.headers
+      );
+      break;
+    }
+    case NotificationChannelType.EMAIL:
+      await sendEmail(channel.config as unknown as EmailChannelConfig, notification, trace);
+      break;
+    case NotificationChannelType.PAGERDUTY:
+      await sendPagerDuty(channel.config as unknown as PagerDutyChannelConfig, notification, trace);
+      break;
+  }
+}
+
+/**
+ * Make one attempt at a delivery and record it in the delivery log
+ * @param channel - Channel to send to, null for the SLACK_WEBHOOK_URL fallback
+ * @returns Why the attempt failed, or null when it went through
+ */
+async function attemptDelivery(
+  delivery: notification_deliveries,
+  channel: notification_channels | null,
+  notification: Notification
+): Promise<string | null> {
+  const trace: DeliveryTrace = { payload: null, responseCode: null };
+  const startedAt = Date.now();
+  let error: string | null = null;
+
+  try {
+    if (channel) {
+      await sendToChannel(channel, notification, trace);
+    } else {
+      const message = buildSlackAlertMessage(notification);
+      await sendSlackAlert(message.text, message.attachments, trace);
+    }
+  } catch (sendError: any) {
+    error = sendError.message || "Unknown error";
+  }
+
+  await recordAttempt(delivery, { trace, latencyMs: Date.now() - startedAt, error });
+  return error;
+}
+
+/**
+ * Send an alert to one channel, logging the delivery so a failure is retried later
+ * @param channel - Channel to send to, null for the SLACK_WEBHOOK_URL fallback
+ * @param endpointId - Endpoint the alert is about, null for test notifications
+ */
+export async function deliverToChannel(
+  channel: notification_channels | null,
+  notification: Notification,
+  endpointId: string | null
+): Promise<ChannelDelivery> {
+  const channelName = channel ? `${channel.type} channel "${channel.name}"` : FALLBACK_CHANNEL;
+  const delivery = await createDelivery(channel, endpointId, notification);
+  const error = await attemptDelivery(delivery, channel, notification);
+
+  if (error) {
+    console.error(`❌ Failed to send ${notification.event} alert to ${channelName}: ${error}`);
+  } else {
+    console.log(`📣 ${notification.event} alert sent to ${channelName}`);
+  }
+  return {
+    channelId: channel?.id ?? FALLBACK_CHANNEL,
+    channelName: channel?.name ?? FALLBACK_CHANNEL,
+    success: error === null,
+    error,
+  };
+}
+
+/**
+ * Retry failed deliveries whose backoff has passed
+ * Runs on every monitoring cycle; deliveries to channels deleted or disabled since are given up
+ * @returns Number of deliveries retried
+ */
+export async function retryFailedDeliveries(now: Date = new Date()): Promise<number> {
+  const deliveries = await claimDueRetries(now);
+
+  for (const delivery of deliveries) {
+    if (delivery.channel_type !== FALLBACK_CHANNEL && !delivery.channel) {
+      await abandonDelivery(delivery, "Notification channel was deleted");
+      continue;
+    }
+    if (delivery.channel && !delivery.channel.enabled) {
+      await abandonDelivery(delivery, "Notification channel was disabled");
+      continue;
+    }
+
+    const error = await attemptDelivery(delivery, delivery.channel, getDeliveryNotification(delivery));
+    console.log(
+      `🔁 Retry ${delivery.attempts + 1} of ${delivery.event} alert to ${delivery.channel_name}: ${error ?? "sent"}`
+    );
+  }
+
+  return deliveries.length;
+}
+
+/**
+ * Channels that receive an endpoint's alerts
+ * Endpoints without their own channels use the default channels
+ */
+export async function getEndpointChannels(endpointId: string): Promise<notification_channels[]> {
+  const routes = await prisma.endpoint_notification_channels.findMany({
+    where: { endpoint_id: endpointId },
+    include: { channel: true },
+  });
+
+  if (routes.length > 0) {
+    return routes.map((route) => route.channel).filter((channel) => channel.enabled);
+  }
+
+  return prisma.notification_channels.findMany({
+    where: { is_default: true, enabled: true },
+  });
+}
+
+/**
+ * Send an endpoint's alert to all of its channels
+ * Failures are logged per channel and never thrown, so one broken channel does not block the others;
+ * every attempt is stored in the delivery log and failed ones are retried (see deliveries.ts).
+ * Without any channel configured, falls back to the SLACK_WEBHOOK_URL environment variable.
+ * Down, degraded, certificate and flapping alerts are skipped while the endpoint is muted from Slack.
+ * Alerts mention whoever is on call in the endpoint's on-call schedule.
+ * Unless the caller picks the channels, the first matching alert rule routes the alert (see alertRules.ts).
+ * The rule's message template, or else each channel's template for the event, rewrites the alert (see templates.ts).
+ * @param endpointId - Endpoint the alert is about
+ * @param notification - Alert to send
+ * @param channelIds - Send to these channels instead of the endpoint's (used by escalation policies)
+ * @returns Delivery result per channel, empty when the alert was muted, dropped or had nowhere to go
+ */
+export async function sendNotification(
+  endpointId: string,
+  notification: Notification,
+  channelIds?: string[]
+): Promise<ChannelDelivery[]> {
+  const endpoint = await prisma.endpoints.findUnique({
+    where: { id: endpointId },
+    select: { id: true, type: true, tags: true, alerts_muted_until: true },
+  });
+
+  if (
+    notification.event === "down" ||
+    notification.event === "degraded" ||
+    notification.event === "certificate" ||
+    notification.event === "flapping"
+  ) {
+    if (endpoint?.alerts_muted_until && endpoint.alerts_muted_until > new Date()) {
+      console.log(`🔕 ${notification.event} alert for endpoint ${endpointId} muted until ${endpoint.alerts_muted_until.toISOString()}`);
+      return [];
+    }
+  }
+
+  if (notification.onCall === undefined && notification.event !== "test") {
+    notification = { ...notification, onCall: await getEndpointOnCall(endpointId) };
+  }
+
+  let ruleTemplate: MessageTemplate | null = null;
+  if (!channelIds && endpoint && notification.event !== "test") {
+    const route = await routeNotification(endpoint, notification);
+    if (route?.channelIds.length === 0) {
+      console.log(`🔕 ${notification.event} alert for endpoint ${endpointId} dropped by rule "${route.rule.name}"`);
+      return [];
+    }
+    if (route?.throttled) {
+      console.log(`🔕 ${notification.event} alert for endpoint ${endpointId} throttled by rule "${route.rule.name}"`);
+      return [];
+    }
+    if (route) {
+      channelIds = route.channelIds;
+      if (route.rule.message_template) {
+        ruleTemplate = { title: null, body: route.rule.message_template, timezone: route.rule.timezone };
+      }
+    }
+  }
+
+  const severity = getNotificationSeverity(notification.event);
+  const templates = ruleTemplate ? [] : await getEventTemplates(notification.event);
+  const templateFor = (channelId: string | null) =>
+    applyTemplate(notification, ruleTemplate ?? pickTemplate(templates, channelId), severity);
+
+  const channels = channelIds
+    ? await prisma.notification_channels.findMany({ where: { id: { in: channelIds }, enabled: true } })
+    : await getEndpointChannels(endpointId);
+
+  if (channels.length === 0 && !channelIds) {
+    const channelCount = await prisma.notification_channels.count();
+    if (channelCount === 0 && process.env.SLACK_WEBHOOK_URL) {
+      return [await deliverToChannel(null, templateFor(null), endpointId)];
+    }
+    console.warn(`🔕 No notification channels for endpoint ${endpointId}, alert not sent`);
+    return [];
+  }
+
+  return Promise.all(channels.map((channel) => deliverToChannel(channel, templateFor(channel.id), endpointId)));
+}
@@ -0,0 +1,433 @@
+/**
+ * On-call schedules
+ * Members take turns per day or week, handing off at a local time in the schedule's timezone.
+ * Overrides replace the rotation for a time range; the latest override wins when they overlap.
+ */
+
+import { prisma } from "./prisma";
+import { Prisma, RotationType, oncall_overrides, oncall_schedules } from "../generated/prisma";
+
+export interface OnCallMember {
+  name: string;
+  slackUserId: string | null; // Mentioned in Slack alerts, e.g. U0123ABCD
+  email: string | null;
+}
+
+export interface OnCallUser extends OnCallMember {
+  scheduleName: string;
+}
+
+export interface OnCallShift {
+  member: OnCallMember;
+  from: Date;
+  until: Date;
+  override: boolean; // Whether an override replaces the rotation during this shift
+}
+
+export const ROTATION_TYPES = Object.values(RotationType) as string[];
+
+export const ONCALL_LIMITS = { members: 50 };
+
+const SHIFT_DAYS: Record<RotationType, number> = {
+  DAILY: 1,
+  WEEKLY: 7,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ScheduleInput {
+  name?: unknown;
+  timezone?: unknown;
+  rotationType?: unknown;
+  handoffTime?: unknown;
+  startsOn?: unknown;
+  members?: unknown;
+}
+
+export interface ScheduleData {
+  name?: string;
+  timezone?: string;
+  rotation_type?: RotationType;
+  handoff_time?: string;
+  starts_on?: string;
+  members?: Prisma.InputJsonValue;
+}
+
+export interface OverrideInput {
+  name?: unknown;
+  slackUserId?: unknown;
+  email?: unknown;
+  startsAt?: unknown;
+  endsAt?: unknown;
+}
+
+/**
+ * Whether a timezone is a valid IANA name known to the runtime
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall clock time of an instant in a timezone, as milliseconds of the same wall clock time in UTC
+ * Comparing wall clock times this way keeps handoffs at the same local time across DST changes
+ */
+export function toWallClock(date: Date, timezone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+
+  return Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour),
+    Number(parts.minute),
+    Number(parts.second)
+  );
+}
+
+/**
+ * Instant at which a timezone's wall clock shows the given time
+ */
+export function fromWallClock(wallClock: number, timezone: string): Date {
+  let instant = wallClock - (toWallClock(new Date(wallClock), timezone) - wallClock);
+  // A second pass corrects the offset when the guess landed on the other side of a DST change
+  instant = wallClock - (toWallClock(new Date(instant), timezone) - instant);
+  return new Date(instant);
+}
+
+/**
+ * Members of a schedule as stored in its JSON column
+ */
+export function getScheduleMembers(schedule: Pick<oncall_schedules, "members">): OnCallMember[] {
+  return (schedule.members as unknown as OnCallMember[] | null) ?? [];
+}
+
+/**
+ * Rotation shift covering an instant, ignoring overrides
+ * @returns The member and the shift's boundaries, or null before the rotation starts or without members
+ */
+export function getRotationShift(
+  schedule: Pick<oncall_schedules, "members" | "timezone" | "rotation_type" | "handoff_time" | "starts_on">,
+  at: Date
+): OnCallShift | null {
+  const members = getScheduleMembers(schedule);
+  if (members.length === 0) return null;
+
+  const [year, month, day] = schedule.starts_on.split("-").map(Number);
+  const [hour, minute] = schedule.handoff_time.split(":").map(Number);
+  const start = Date.UTC(year, month - 1, day, hour, minute);
+  const shiftMs = SHIFT_DAYS[schedule.rotation_type] * DAY_MS;
+
+  const elapsed = toWallClock(at, schedule.timezone) - start;
+  if (elapsed < 0) return null;
+
+  const index = Math.floor(elapsed / shiftMs);
+  return {
+    member: members[index % members.length],
+    from: fromWallClock(start + index * shiftMs, schedule.timezone),
+    until: fromWallClock(start + (index + 1) * shiftMs, schedule.timezone),
+    override: false,
+  };
+}
+
+/**
+ * Map an override row to the member it puts on call
+ */
+function overrideMember(override: oncall_overrides): OnCallMember {
+  return { name: override.name, slackUserId: override.slack_user_id, email: override.email };
+}
+
+/**
+ * Who is on call at an instant, overrides first
+ * @param overrides - The schedule's overrides; any order
+ */
+export function getOnCallShift(
+  schedule: oncall_schedules,
+  overrides: oncall_overrides[],
+  at: Date
+): OnCallShift | null {
+  const active = overrides
+    .filter((override) => override.starts_at <= at && override.ends_at > at)
+    .sort((a, b) => b.created_at.getTime() - a.created_at.getTime())[0];
+
+  const rotation = getRotationShift(schedule, at);
+  if (!active) {
+    // An upcoming override cuts the rotation shift short
+    const nextOverride = overrides
+      .filter((override) => override.starts_at > at && (!rotation || override.starts_at < rotation.until))
+      .sort((a, b) => a.starts_at.getTime() - b.starts_at.getTime())[0];
+    return rotation && nextOverride ? { ...rotation, until: nextOverride.starts_at } : rotation;
+  }
+
+  return { member: overrideMember(active), from: active.starts_at, until: active.ends_at, override: true };
+}
+
+/**
+ * Who is on call now and who takes over next
+ */
+export function getOnCallNowAndNext(
+  schedule: oncall_schedules,
+  overrides: oncall_overrides[],
+  now: Date = new Date()
+): { current: OnCallShift | null; next: OnCallShift | null } {
+  const current = getOnCallShift(schedule, overrides, now);
+
+  // Before the rotation starts, the next shift is the first one
+  let at = current?.until ?? null;
+  if (!current) {
+    const [year, month, day] = schedule.starts_on.split("-").map(Number);
+    const [hour, minute] = schedule.handoff_time.split(":").map(Number);
+    const firstHandoff = fromWallClock(Date.UTC(year, month - 1, day, hour, minute), schedule.timezone);
+    const firstOverride = overrides
+      .filter((override) => override.starts_at > now)
+      .sort((a, b) => a.starts_at.getTime() - b.starts_at.getTime())[0];
+    at = [firstHandoff > now ? firstHandoff : null, firstOverride?.starts_at ?? null]
+      .filter((date): date is Date => date !== null)
+      .sort((a, b) => a.getTime() - b.getTime())[0] ?? null;
+  }
+
+  return { current, next: at ? getOnCallShift(schedule, overrides, at) : null };
+}
+
+/**
+ * The on-call user mentioned in an endpoint's alerts
+ * @returns Null when the endpoint has no schedule or nobody is on call
+ */
+export async function getEndpointOnCall(endpointId: string, now: Date = new Date()): Promise<OnCallUser | null> {
+  const endpoint = await prisma.endpoints.findUnique({
+    where: { id: endpointId },
+    select: {
+      oncall_schedule: {
+        include: { overrides: { where: { starts_at: { lte: now }, ends_at: { gt: now } } } },
+      },
+    },
+  });
+  const schedule = endpoint?.oncall_schedule;
+  if (!schedule) return null;
+
+  const shift = getOnCallShift(schedule, schedule.overrides, now);
+  return shift ? { ...shift.member, scheduleName: schedule.name } : null;
+}
+
+/**
+ * Validate the optional Slack user id and email of an on-call person
+ */
+function parseContact(
+  slackUserId: unknown,
+  email: unknown,
+  label: string
+): { contact: Pick<OnCallMember, "slackUserId" | "email">; error?: undefined } | { contact?: undefined; error: string } {
+  const slack = typeof slackUserId === "string" ? slackUserId.trim() : "";
+  const address = typeof email === "string" ? email.trim() : "";
+
+  if (slack && !/^[UW][A-Z0-9]{2,}$/.test(slack)) {
+    return { error: `${label}: Slack user ID must look like U0123ABCD` };
+  }
+  if (address && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address)) {
+    return { error: `${label}: email address is invalid` };
+  }
+
+  return { contact: { slackUserId: slack || null, email: address || null } };
+}
+
+/**
+ * Validate an on-call schedule sent by the dashboard
+ * Only fields present in the input are returned, so it works for both create and update
+ * @param input - Request body from POST/PATCH /api/oncall-schedules
+ * @returns Prisma data for the provided fields, or a validation error
+ */
+export function parseScheduleInput(
+  input: ScheduleInput
+): { data: ScheduleData; error?: undefined } | { data?: undefined; error: string } {
+  const data: ScheduleData = {};
+
+  if (input.name !== undefined) {
+    if (typeof input.name !== "string" || !input.name.trim()) {
+      return { error: "Schedule name is required" };
+    }
+    data.name = input.name.trim();
+  }
+
+  if (input.timezone !== undefined) {
+    if (typeof input.timezone !== "string" || !isValidTimezone(input.timezone)) {
+      return { error: "Timezone must be an IANA timezone such as Asia/Kolkata" };
+    }
+    data.timezone = input.timezone;
+  }
+
+  if (input.rotationType !== undefined) {
+    if (typeof input.rotationType !== "string" || !ROTATION_TYPES.includes(input.rotationType)) {
+      return { error: `Rotation must be one of: ${ROTATION_TYPES.join(", ")}` };
+    }
+    data.rotation_type = input.rotationType as RotationType;
+  }
+
+  if (input.handoffTime !== undefined) {
+    if (typeof input.handoffTime !== "string" || !/^([01]\d|2[0-3]):[0-5]\d$/.test(input.handoffTime)) {
+      return { error: "Handoff time must be HH:mm" };
+    }
+    data.handoff_time = input.handoffTime;
+  }
+
+  if (input.startsOn !== undefined) {
+    if (
+      typeof input.startsOn !== "string" ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(input.startsOn) ||
+      isNaN(new Date(`${input.startsOn}T00:00:00Z`).getTime())
+    ) {
+      return { error: "Start date must be YYYY-MM-DD" };
+    }
+    data.starts_on = input.startsOn;
+  }
+
+  if (input.members !== undefined) {
+    if (!Array.isArray(input.members) || input.members.length === 0 || input.members.length > ONCALL_LIMITS.members) {
+      return { error: `Members must be a list of 1 to ${ONCALL_LIMITS.members} people` };
+    }
+
+    const members: OnCallMember[] = [];
+    for (const [index, member] of (input.members as Record<string, unknown>[]).entries()) {
+      if (typeof member?.name !== "string" || !member.name.trim()) {
+        return { error: `Member ${index + 1}: name is required` };
+      }
+      const contact = parseContact(member.slackUserId, member.email, `Member ${index + 1}`);
+      if (!contact.contact) return { error: contact.error };
+
+      members.push({ name: member.name.trim(), ...contact.contact });
+    }
+    data.members = members as unknown as Prisma.InputJsonValue;
+  }
+
+  return { data };
+}
+
+/**
+ * Validate an override (POST /api/oncall-schedules/[id]/overrides)
+ * @returns Prisma data without the schedule, or a validation error
+ */
+export function parseOverrideInput(input: OverrideInput):
+  | { data: Pick<oncall_overrides, "name" | "slack_user_id" | "email" | "starts_at" | "ends_at">; error?: undefined }
+  | { data?: undefined; error: string } {
+  if (typeof input.name !== "string" || !input.name.trim()) {
+    return { error: "Override name is required" };
+  }
+
+  const contact = parseContact(input.slackUserId, input.email, "Override");
+  if (!contact.contact) return { error: contact.error };
+
+  const startsAt = new Date(input.startsAt as string);
+  const endsAt = new Date(input.endsAt as string);
+  if (typeof input.startsAt !== "string" || isNaN(startsAt.getTime())) {
+    return { error: "Start time must be an ISO date" };
+  }
+  if (typeof input.endsAt !== "string" || isNaN(endsAt.getTime())) {
+    return { error: "End time must be an ISO date" };
+  }
+  if (endsAt <= startsAt) {
+    return { error: "End time must be after the start time" };
+  }
+
+  return {
+    data: {
+      name: input.name.trim(),
+      slack_user_id: contact.contact.slackUserId,
+      email: contact.contact.email,
+      starts_at: startsAt,
+      ends_at: endsAt,
+    },
+  };
+}
+
+/**
+ * Validate the on-call schedule an endpoint uses
+ * @param value - oncallScheduleId from the request body, null for no on-call mention
+ */
+export async function parseScheduleId(
+  value: unknown
+): Promise<{ scheduleId: string | null; error?: undefined } | { scheduleId?: undefined; error: string }> {
+  if (value === null || value === "") {
+    return { scheduleId: null };
+  }
+  if (typeof value !== "string") {
+    return { error: "On-call schedule must be a schedule id" };
+  }
+
+  const schedule = await prisma.oncall_schedules.findUnique({
+    where: { id: value },
+    select: { id: true },
+  });
+  if (!schedule) {
+    return { error: "On-call schedule not found" };
+  }
+
+  return { scheduleId: schedule.id };
+}
+
+/**
+ * Map a shift to the camelCase shape used by the dashboard
+ */
+function serializeShift(shift: OnCallShift | null) {
+  return shift
+    ? {
+        ...shift.member,
+        from: shift.from.toISOString(),
+        until: shift.until.toISOString(),
+        override: shift.override,
+      }
+    : null;
+}
+
+/**
+ * Map a schedule row to the camelCase shape used by the dashboard, with who is on call now and next
+ * @param schedule - Schedule with its overrides that have not ended yet
+ */
+export function serializeSchedule(
+  schedule: oncall_schedules & { overrides?: oncall_overrides[]; _count?: { endpoints: number } },
+  now: Date = new Date()
+) {
+  const overrides = schedule.overrides ?? [];
+  const { current, next } = getOnCallNowAndNext(schedule, overrides, now);
+
+  return {
+    id: schedule.id,
+    name: schedule.name,
+    timezone: schedule.timezone,
+    rotationType: schedule.rotation_type,
+    handoffTime: schedule.handoff_time,
+    startsOn: schedule.starts_on,
+    members: getScheduleMembers(schedule),
+    overrides: overrides
+      .sort((a, b) => a.starts_at.getTime() - b.starts_at.getTime())
+      .map((override) => ({
+        id: override.id,
+        name: override.name,
+        slackUserId: override.slack_user_id,
+        email: override.email,
+        startsAt: override.starts_at.toISOString(),
+        endsAt: override.ends_at.toISOString(),
+      })),
+    current: serializeShift(current),
+    next: serializeShift(next),
+    endpointCount: schedule._count?.endpoints ?? 0,
+    createdAt: schedule.created_at.toISOString(),
+    updatedAt: schedule.updated_at.toISOString(),
+  };
+}
@@ -1,45 +1,57 @@
+import { randomUUID } from "crypto";
 import cron, { ScheduledTask } from "node-cron";
-import { prisma } from "./prisma";
-import { checkServiceStatus } from "./monitoring";
-import { sendSlackAlert, formatDowntimeAlert, formatRecoveryAlert } from "./slack";
-import { CheckStatus } from "../generated/prisma";
-
-// Track downtime for each endpoint
-interface DowntimeTracker {
-  consecutiveFailures: number;
-  firstFailureTime: Date | null;
-  alertSent: boolean;
-  lastStatus: CheckStatus | null;
-}
-
-const downtimeTrackers = new Map<string, DowntimeTracker>();
+import { CHECK_TICK_SECONDS, getNextTickTime } from "./checkSchedule";
+import { MonitoringRunReport, MonitoringTrigger, runMonitoringCycle } from "./monitoringCycle";
+import { INSTANCE_ID, MONITORING_LEASE, SCHEDULER_LEASE_SECONDS, acquireLease, releaseLease } from "./leaderElection";
 
-// Constants
-const ALERT_THRESHOLD_CHECKS = 2; // 4 failures = 2 minutes (30 seconds * 4)
-const CHECK_INTERVAL_SECONDS = 30;
+// Held for one cycle run outside the schedule only, like the cron route's lease
+const IMMEDIATE_LEASE_SECONDS = 90;
 
-// Global singleton to ensure only ONE scheduler instance across all server instances
+// Global singleton to ensure only ONE scheduler per process; the lease in leaderElection.ts
+// makes sure only one process (the leader) actually runs cycles
 const SCHEDULER_KEY = Symbol.for("app.monitoring.scheduler");
 const globalForScheduler = global as typeof global & {
   [SCHEDULER_KEY]: {
     isRunning: boolean;
+    isLeader: boolean;
     task: ScheduledTask | null;
+    cycle: Promise<void> | null; // cycle started by this scheduler that has not finished yet
   };
 };
 
 if (!globalForScheduler[SCHEDULER_KEY]) {
   globalForScheduler[SCHEDULER_KEY] = {
     isRunning: false,
+    isLeader: false,
     task: null,
+    cycle: null,
   };
 }
 
 const schedulerState = globalForScheduler[SCHEDULER_KEY];
 
+/**
+ * Run one monitoring cycle for the scheduler and log its summary
+ */
+async function runScheduledCycle(): Promise<void> {
+  const report = await runMonitoringCycle("scheduler");
+
+  if (report.total === 0) {
+    console.log("No endpoints to monitor");
+    return;
+  }
+
+  console.log(
+    `✅ Health check complete: ${report.checked}/${report.total} endpoints checked ` +
+    `(${report.up} UP, ${report.down} DOWN, ${report.degraded} DEGRADED, ${report.skipped.length} still in flight) in ${report.duration}ms`
+  );
+}
+
 /**
  * Start the monitoring scheduler that checks all endpoints periodically
  * Runs automatically on server startup and continues 24/7
- * Uses global singleton to prevent multiple instances
+ * Uses global singleton to prevent multiple instances, and a database lease so that
+ * only the leader among several replicas checks endpoints
  */
 export function startMonitoringScheduler() {
   if (schedulerState.isRunning) {
@@ -49,97 +61,34 @@ export function startMonitoringScheduler() {
 
   console.log("🚀 Starting monitoring scheduler...");
 
-  // Run every 30 seconds
-  schedulerState.task = cron.schedule("*/30 * * * * *", async () => {
+  // Wake up every tick and check the endpoints whose own interval has elapsed
+  schedulerState.task = cron.schedule(`*/${CHECK_TICK_SECONDS} * * * * *`, async () => {
     const timestamp = new Date().toISOString();
     console.log(`[${timestamp}] Running scheduled health checks...`);
     
     try {
-      const endpoints = await prisma.endpoints.findMany();
-
-      if (endpoints.length === 0) {
-        console.log("No endpoints to monitor");
+      // Renew (or try to take) leadership on every tick, also while a long cycle keeps running;
+      // followers stay on standby
+      const isLeader = await acquireLease(MONITORING_LEASE, INSTANCE_ID, SCHEDULER_LEASE_SECONDS);
+      schedulerState.isLeader = isLeader;
+      if (!isLeader) {
+        console.log(
+          schedulerState.cycle
+            ? "⚠️ Lost the monitoring lease while a cycle is still running"
+            : "⏸️ Another instance holds the monitoring lease, standing by"
+        );
         return;
       }
-      
-      for (const endpoint of endpoints) {
-        const result = await checkServiceStatus(endpoint.url);
-        
-        await prisma.checks.create({
-          data: {
-            endpoint_id: endpoint.id,
-            status: result.status,
-            http_code: result.httpCode,
-            response_time: result.responseTime,
-            error_message: result.errorMessage,
-          },
-        });
-        
-        // Get or initialize downtime tracker for this endpoint
-        if (!downtimeTrackers.has(endpoint.id)) {
-          downtimeTrackers.set(endpoint.id, {
-            consecutiveFailures: 0,
-            firstFailureTime: null,
-            alertSent: false,
-            lastStatus: null,
-          });
-        }
-        
-        const tracker = downtimeTrackers.get(endpoint.id)!;
-        
-        if (result.status === CheckStatus.DOWN) {
-          tracker.consecutiveFailures++;
-          
-          // Record first failure time
-          if (tracker.consecutiveFailures === 1) {
-            tracker.firstFailureTime = new Date();
-          }
-          
-          console.warn(`⚠️ Service DOWN: ${endpoint.name} (${endpoint.url}) - Failure ${tracker.consecutiveFailures}/${ALERT_THRESHOLD_CHECKS}`);
-          
-          // Send Slack alert if threshold reached and not already sent
-          if (tracker.consecutiveFailures >= ALERT_THRESHOLD_CHECKS && !tracker.alertSent) {
-            const downtimeMinutes = Math.round((tracker.consecutiveFailures * CHECK_INTERVAL_SECONDS) / 60);
-            const alertMessage = formatDowntimeAlert(
-              endpoint.name,
-              endpoint.url,
-              downtimeMinutes,
-              tracker.firstFailureTime!,
-              result.httpCode || undefined,
-              result.errorMessage || undefined
-            );
-            
-            await sendSlackAlert(alertMessage);
-            tracker.alertSent = true;
-            console.error(`🚨 SLACK ALERT SENT: ${endpoint.name} down for ${downtimeMinutes} minutes`);
-          }
-        } else {
-          // Service is UP
-          console.log(`✓ ${endpoint.name}: ${result.status} (${result.responseTime}ms)`);
-          
-          // If service recovered after being down, send recovery alert
-          if (tracker.lastStatus === CheckStatus.DOWN && tracker.alertSent) {
-            const downtimeDuration = Math.round((tracker.consecutiveFailures * CHECK_INTERVAL_SECONDS) / 60);
-            const recoveryMessage = formatRecoveryAlert(
-              endpoint.name,
-              endpoint.url,
-              downtimeDuration
-            );
-            
-            await sendSlackAlert(recoveryMessage);
-            console.log(`✅ RECOVERY ALERT SENT: ${endpoint.name} back online after ${downtimeDuration} minutes`);
-          }
-          
-          // Reset tracker
-          tracker.consecutiveFailures = 0;
-          tracker.firstFailureTime = null;
-          tracker.alertSent = false;
-        }
-        
-        tracker.lastStatus = result.status;
+
+      if (schedulerState.cycle) {
+        console.log("⏳ Previous monitoring cycle is still running, skipping this tick");
+        return;
       }
-      
-      console.log(`✅ Health check complete: ${endpoints.length} endpoints checked`);
+
+      schedulerState.cycle = runScheduledCycle().finally(() => {
+        schedulerState.cycle = null;
+      });
+      await schedulerState.cycle;
     } catch (error) {
       console.error("❌ Error in scheduler:", error);
     }
@@ -147,18 +96,67 @@ export function startMonitoringScheduler() {
 
   schedulerState.isRunning = true;
   console.log("✅ Monitoring scheduler started successfully!");
-  console.log("📊 Checking all endpoints every 30 seconds...");
+  console.log(`📊 Checking due endpoints every ${CHECK_TICK_SECONDS} seconds...`);
   console.log("🔄 Scheduler will run continuously until server stops");
 }
 
 /**
  * Stop the monitoring scheduler (useful for graceful shutdown)
+ * A cycle that is already running finishes first and keeps the lease until then
  */
 export function stopMonitoringScheduler() {
   if (schedulerState.task) {
     schedulerState.task.stop();
     schedulerState.task = null;
     schedulerState.isRunning = false;
+    schedulerState.isLeader = false;
+
+    // Hand leadership over as soon as the cycle is done instead of waiting for the lease to expire,
+    // unless the scheduler was started again in the meantime
+    (schedulerState.cycle ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => (schedulerState.isRunning ? undefined : releaseLease(MONITORING_LEASE, INSTANCE_ID)))
+      .catch((error) => {
+        console.error("❌ Failed to release monitoring lease:", error);
+      });
     console.log("⏹️ Monitoring scheduler stopped");
   }
 }
+
+/**
+ * Whether the scheduler runs in this process, whether it currently leads, and when it next wakes up
+ */
+export function getSchedulerStatus(): { running: boolean; isLeader: boolean; tickSeconds: number; nextRunAt: Date | null } {
+  return {
+    running: schedulerState.isRunning,
+    isLeader: schedulerState.isLeader,
+    tickSeconds: CHECK_TICK_SECONDS,
+    nextRunAt: schedulerState.isRunning ? getNextTickTime() : null,
+  };
+}
+
+/**
+ * Check some endpoints right away, whether or not their interval has elapsed
+ * The scheduler leader runs them in its own process, where endpoints already being checked are skipped;
+ * any other instance needs the monitoring lease, so checks, escalations and retries never run twice
+ * @returns Report of the cycle, or null when another instance holds the monitoring lease
+ */
+export async function runImmediateCycle(
+  trigger: MonitoringTrigger,
+  endpointIds: string[]
+): Promise<MonitoringRunReport | null> {
+  if (schedulerState.isLeader) {
+    return runMonitoringCycle(trigger, { endpointIds });
+  }
+
+  const holder = `${INSTANCE_ID}:${trigger}:${randomUUID()}`;
+  if (!(await acquireLease(MONITORING_LEASE, holder, IMMEDIATE_LEASE_SECONDS))) {
+    return null;
+  }
+
+  try {
+    return await runMonitoringCycle(trigger, { endpointIds });
+  } finally {
+    await releaseLease(MONITORING_LEASE, holder);
+  }
+}
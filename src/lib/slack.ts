@@ -1,23 +1,39 @@
-export async function sendSlackAlert(message: string) {
+import { createHmac, timingSafeEqual } from "crypto";
+import type { DeliveryTrace, Notification, NotificationEvent } from "./notifications";
+import type { OnCallUser } from "./oncall";
+
+/**
+ * Post an alert to the SLACK_WEBHOOK_URL incoming webhook, used when no notification channel is set up
+ * @param trace - Filled in with the payload sent and the response code, for the delivery log
+ * @throws Error when the webhook is not configured, cannot be reached or rejects the message
+ */
+export async function sendSlackAlert(
+  message: string,
+  attachments?: SlackMessage["attachments"],
+  trace?: DeliveryTrace
+): Promise<void> {
   const webhookUrl = process.env.SLACK_WEBHOOK_URL;
-  
+
   if (!webhookUrl) {
-    console.error("No Slack webhook URL configured.");
-    return;
+    throw new Error("No Slack webhook URL configured");
   }
 
-  try {
-    await fetch(webhookUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        text: message,
-      }),
-    });
-    console.log("Slack alert sent successfully");
-  } catch (error) {
-    console.error("Failed to send Slack alert:", error);
+  const payload = { text: message, attachments };
+  if (trace) trace.payload = payload;
+
+  const response = await fetch(webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (trace) trace.responseCode = response.status;
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => "");
+    throw new Error(`Slack webhook failed: HTTP ${response.status}${body ? `: ${body.slice(0, 200)}` : ""}`);
   }
+  console.log("Slack alert sent successfully");
 }
 
 export function formatDowntimeAlert(
@@ -75,3 +91,338 @@ export function formatRecoveryAlert(
 
   return message;
 }
+
+export function formatFlappingAlert(
+  endpointName: string,
+  endpointUrl: string,
+  stateChangePercent: number,
+  checkWindow: number
+): string {
+  const emoji = "🔀";
+
+  let message = `${emoji} *WARNING: Service Flapping*\n\n`;
+  message += `*Service:* ${endpointName}\n`;
+  message += `*URL:* ${endpointUrl}\n`;
+  message += `*Status:* FLAPPING\n`;
+  message += `*State changes:* ${stateChangePercent}% of the last ${checkWindow} checks\n`;
+
+  message += `\n_Down and recovery alerts are paused until the service is stable again._`;
+
+  return message;
+}
+
+export function formatDegradedAlert(
+  endpointName: string,
+  endpointUrl: string,
+  responseTime: number,
+  thresholdMs: number
+): string {
+  const emoji = "🐢";
+
+  let message = `${emoji} *WARNING: Service Degraded*\n\n`;
+  message += `*Service:* ${endpointName}\n`;
+  message += `*URL:* ${endpointUrl}\n`;
+  message += `*Status:* DEGRADED\n`;
+  message += `*Response time:* ${responseTime}ms (threshold ${thresholdMs}ms)\n`;
+
+  message += `\n_The service is up but responding slower than expected._`;
+
+  return message;
+}
+
+export function formatCertificateExpiryAlert(
+  endpointName: string,
+  endpointUrl: string,
+  daysLeft: number,
+  validTo: Date,
+  issuer: string
+): string {
+  const emoji = "⚠️";
+  const expiresAt = validTo.toLocaleString("en-US", {
+    timeZone: "Asia/Kolkata",
+    dateStyle: "medium",
+    timeStyle: "long",
+  });
+
+  let message = `${emoji} *WARNING: SSL Certificate Expiring*\n\n`;
+  message += `*Service:* ${endpointName}\n`;
+  message += `*URL:* ${endpointUrl}\n`;
+  message += `*Expires:* ${expiresAt} (IST)\n`;
+  message += `*Issuer:* ${issuer}\n`;
+
+  message += daysLeft < 0
+    ? `\n_The certificate expired ${Math.abs(daysLeft)} days ago._`
+    : `\n_The certificate expires in ${daysLeft} days. Renew it before clients start failing._`;
+
+  return message;
+}
+
+// Action ids of the buttons on Slack alerts, handled by /api/slack/interactions
+export const SLACK_ACTIONS = {
+  acknowledge: "acknowledge_alert",
+  mute: "mute_alerts",
+} as const;
+
+export const SLACK_MUTE_DURATION_MS = 60 * 60 * 1000;
+
+const SLACK_API_URL = "https://slack.com/api";
+
+// Slack rejects requests signed more than 5 minutes ago
+const SIGNATURE_MAX_AGE_SECONDS = 300;
+
+const STATUS_COLORS: Record<NotificationEvent, string> = {
+  down: "#EF4444",
+  recovery: "#10B981",
+  degraded: "#F59E0B",
+  certificate: "#F59E0B",
+  flapping: "#F97316",
+  test: "#6B7280",
+};
+
+export interface SlackBlock {
+  type: string;
+  [key: string]: unknown;
+}
+
+export interface SlackMessage {
+  text: string; // One-line fallback for notifications and clients without Block Kit, the blocks carry the alert
+  attachments: { color: string; blocks: SlackBlock[] }[];
+}
+
+/**
+ * Format a date the way all alerts show it
+ */
+function formatIST(date: Date): string {
+  return date.toLocaleString("en-US", {
+    timeZone: "Asia/Kolkata",
+    dateStyle: "medium",
+    timeStyle: "long",
+  }) + " (IST)";
+}
+
+/**
+ * Link to the status page with the day detail panel of an endpoint open
+ * Needs APP_URL (e.g. https://status.example.com) since alerts are sent outside a request
+ */
+export function getDayDetailUrl(endpointId: string, date: Date): string | null {
+  const appUrl = process.env.APP_URL;
+  if (!appUrl) return null;
+
+  // The status page groups days by IST date (YYYY-MM-DD)
+  const day = date.toLocaleDateString("en-CA", { timeZone: "Asia/Kolkata" });
+  return `${appUrl.replace(/\/$/, "")}/?endpoint=${endpointId}&date=${day}`;
+}
+
+/**
+ * Name the on-call user of an alert
+ * @param mention - Mention them with their Slack user ID when they have one, so Slack notifies them
+ */
+export function formatOnCall(onCall: OnCallUser, mention: boolean): string {
+  if (mention && onCall.slackUserId) {
+    return `<@${onCall.slackUserId}>`;
+  }
+  return onCall.email ? `${onCall.name} (${onCall.email})` : onCall.name;
+}
+
+/**
+ * Fields of the built-in alert message, e.g. status, start time and status code
+ */
+function buildAlertFields(notification: Notification): string[] {
+  const { event, endpoint, details = {} } = notification;
+  const fields: string[] = [`*URL:*\n${endpoint?.url}`];
+
+  if (event === "down") {
+    fields.push(`*Status:*\nDOWN for ${details.downtimeMinutes ?? 0} minutes`);
+    if (details.startedAt) fields.push(`*Started:*\n${formatIST(new Date(details.startedAt))}`);
+    if (details.statusCode) fields.push(`*Status Code:*\n${details.statusCode}`);
+    if (details.responseTime !== undefined && details.responseTime !== null) {
+      fields.push(`*Response Time:*\n${details.responseTime}ms`);
+    }
+  } else if (event === "recovery") {
+    fields.push(`*Status:*\nBACK ONLINE`);
+    fields.push(`*Recovered at:*\n${formatIST(new Date())}`);
+    fields.push(`*Total downtime:*\n${details.downtimeMinutes ?? 0} minutes`);
+  } else if (event === "degraded") {
+    fields.push(`*Status:*\nDEGRADED`);
+    if (details.responseTime !== undefined && details.responseTime !== null) {
+      fields.push(`*Response Time:*\n${details.responseTime}ms (threshold ${details.thresholdMs}ms)`);
+    }
+  } else if (event === "flapping") {
+    fields.push(`*Status:*\nFLAPPING`);
+    fields.push(`*State changes:*\n${details.stateChangePercent}% of the last ${details.window} checks`);
+    if (details.flappingSince) fields.push(`*Since:*\n${formatIST(new Date(details.flappingSince))}`);
+  } else if (event === "certificate") {
+    if (details.validTo) fields.push(`*Expires:*\n${formatIST(new Date(details.validTo))}`);
+    if (details.issuer) fields.push(`*Issuer:*\n${details.issuer}`);
+  }
+  if (notification.onCall) {
+    fields.push(`*On call (${notification.onCall.scheduleName}):*\n${formatOnCall(notification.onCall, true)}`);
+  }
+
+  return fields;
+}
+
+/**
+ * Build a Block Kit alert with a status colored bar, the check details and action buttons
+ * @param notification - Alert to render; its header doubles as the fallback text, since Slack shows
+ * the text next to the attachment and the full message would repeat the fields
+ */
+export function buildSlackAlertMessage(notification: Notification): SlackMessage {
+  const { event, endpoint, details = {} } = notification;
+  const blocks: SlackBlock[] = [];
+
+  const headers: Record<NotificationEvent, string> = {
+    down: `🚨 Service Down: ${endpoint?.name}`,
+    recovery: `✅ Service Recovered: ${endpoint?.name}`,
+    degraded: `🐢 Service Degraded: ${endpoint?.name}`,
+    certificate: `⚠️ SSL Certificate Expiring: ${endpoint?.name}`,
+    flapping: `🔀 Service Flapping: ${endpoint?.name}`,
+    test: `🔔 ${notification.title}`,
+  };
+  const header = notification.templated ? notification.title : endpoint ? headers[event] : `🔔 ${notification.title}`;
+  blocks.push({
+    type: "header",
+    text: { type: "plain_text", text: header.slice(0, 150), emoji: true },
+  });
+
+  if (!endpoint) {
+    blocks.push({ type: "section", text: { type: "mrkdwn", text: notification.message } });
+    return { text: header, attachments: [{ color: STATUS_COLORS[event], blocks }] };
+  }
+
+  if (notification.templated) {
+    // A template writes the whole message, so the built-in fields are left out
+    blocks.push({ type: "section", text: { type: "mrkdwn", text: notification.message.slice(0, 3000) } });
+  } else {
+    blocks.push({
+      type: "section",
+      fields: buildAlertFields(notification).map((text) => ({ type: "mrkdwn", text })),
+    });
+
+    if (event === "down" && details.error) {
+      blocks.push({
+        type: "section",
+        text: { type: "mrkdwn", text: `*Last Error:*\n\`\`\`${String(details.error).slice(0, 2000)}\`\`\`` },
+      });
+    }
+  }
+
+  const dayDetailUrl = getDayDetailUrl(
+    endpoint.id,
+    event === "down" && details.startedAt ? new Date(details.startedAt) : new Date()
+  );
+  if (dayDetailUrl) {
+    blocks.push({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: `<${dayDetailUrl}|View day detail>` }],
+    });
+  }
+
+  if (event === "down" || event === "certificate" || event === "flapping") {
+    const buttons: SlackBlock[] = [];
+    if (event === "down") {
+      buttons.push({
+        type: "button",
+        action_id: SLACK_ACTIONS.acknowledge,
+        text: { type: "plain_text", text: "Acknowledge" },
+        style: "primary",
+        value: endpoint.id,
+      });
+    }
+    buttons.push({
+      type: "button",
+      action_id: SLACK_ACTIONS.mute,
+      text: { type: "plain_text", text: "Mute for 1h" },
+      value: endpoint.id,
+    });
+    blocks.push({ type: "actions", elements: buttons });
+  }
+
+  // Mentions only notify from the message text, not from attachments
+  const text =
+    notification.onCall?.slackUserId && (event === "down" || event === "certificate")
+      ? `${formatOnCall(notification.onCall, true)} ${header}`
+      : header;
+
+  return { text, attachments: [{ color: STATUS_COLORS[event], blocks }] };
+}
+
+/**
+ * Replace the clicked button of an alert with a note, e.g. who acknowledged it
+ * @param message - Original message from the interaction payload
+ * @param actionId - Action id of the clicked button
+ * @param note - mrkdwn note appended to the message
+ */
+export function markSlackMessageHandled(
+  message: { text?: string; attachments?: { color?: string; blocks?: SlackBlock[] }[] },
+  actionId: string,
+  note: string
+): SlackMessage {
+  const attachments = (message.attachments || []).map((attachment) => {
+    const blocks = (attachment.blocks || [])
+      .map((block) => {
+        if (block.type !== "actions") return block;
+        const elements = (block.elements as SlackBlock[]).filter((element) => element.action_id !== actionId);
+        return elements.length > 0 ? { ...block, elements } : null;
+      })
+      .filter((block): block is SlackBlock => block !== null);
+
+    blocks.push({ type: "context", elements: [{ type: "mrkdwn", text: note }] });
+    return { color: attachment.color || STATUS_COLORS.test, blocks };
+  });
+
+  return { text: message.text || "", attachments };
+}
+
+/**
+ * Call a Slack Web API method with a bot token
+ * @param trace - Filled in with the payload sent and the response code, for the delivery log
+ * @throws Error when Slack answers with ok: false
+ */
+export async function callSlackApi(method: string, token: string, payload: unknown, trace?: DeliveryTrace): Promise<any> {
+  if (trace) trace.payload = payload;
+  const response = await fetch(`${SLACK_API_URL}/${method}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (trace) trace.responseCode = response.status;
+
+  const data = await response.json();
+  if (!data.ok) {
+    throw new Error(`Slack ${method} failed: ${data.error || `HTTP ${response.status}`}`);
+  }
+  return data;
+}
+
+/**
+ * Verify that a request was sent by Slack, using the app's signing secret (SLACK_SIGNING_SECRET)
+ * @param rawBody - Request body exactly as received
+ * @param timestamp - X-Slack-Request-Timestamp header
+ * @param signature - X-Slack-Signature header
+ */
+export function verifySlackSignature(
+  rawBody: string,
+  timestamp: string | null,
+  signature: string | null,
+  now: number = Date.now()
+): boolean {
+  const secret = process.env.SLACK_SIGNING_SECRET;
+  if (!secret || !timestamp || !signature) {
+    return false;
+  }
+
+  if (Math.abs(now / 1000 - Number(timestamp)) > SIGNATURE_MAX_AGE_SECONDS) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    "v0=" + createHmac("sha256", secret).update(`v0:${timestamp}:${rawBody}`).digest("hex")
+  );
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
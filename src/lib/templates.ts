@@ -0,0 +1,439 @@
+/**
+ * Alert message templates
+ * Each event can have a default template and one per notification channel; channels without their own
+ * template use the default, and events without any template keep the built-in wording of slack.ts.
+ * Placeholders such as {{endpoint.name}} are looked up in a plain object of alert fields. There are no
+ * expressions, filters or function calls, so a template can print values but never run code.
+ */
+
+import { prisma } from "./prisma";
+import { isValidTimezone } from "./oncall";
+import {
+  formatCertificateExpiryAlert,
+  formatDegradedAlert,
+  formatDowntimeAlert,
+  formatFlappingAlert,
+  formatRecoveryAlert,
+} from "./slack";
+import type { Notification, NotificationCheck, NotificationEvent, NotificationIncident } from "./notifications";
+import { AlertSeverity, AlertTemplateEvent, CheckStatus, alert_templates } from "../generated/prisma";
+
+export type TemplateValue = string | number | boolean | null | undefined;
+
+export interface TemplateContext {
+  [key: string]: TemplateValue | TemplateContext;
+}
+
+// Template to apply to an alert, from the templates table or an alert rule
+export interface MessageTemplate {
+  title: string | null; // Keeps the built-in title when empty
+  body: string;
+  timezone: string;
+}
+
+export const TEMPLATE_EVENTS = Object.values(AlertTemplateEvent) as string[];
+
+export const TEMPLATE_LIMITS = { title: 200, body: 4000 };
+
+const EVENT_BY_TEMPLATE_EVENT: Record<AlertTemplateEvent, NotificationEvent> = {
+  DOWN: "down",
+  RECOVERY: "recovery",
+  DEGRADED: "degraded",
+  CERTIFICATE: "certificate",
+  FLAPPING: "flapping",
+};
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z0-9_]+(?:\.[a-zA-Z0-9_]+)*)\s*\}\}/g;
+
+export interface TemplateInput {
+  channelId?: unknown;
+  event?: unknown;
+  title?: unknown;
+  body?: unknown;
+  timezone?: unknown;
+}
+
+export interface TemplateData {
+  channel_id?: string | null;
+  event?: AlertTemplateEvent;
+  title?: string | null;
+  body?: string;
+  timezone?: string;
+}
+
+/**
+ * Fill in a template's placeholders
+ * Unknown fields and fields that hold objects render as empty text
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return template.replace(PLACEHOLDER, (_, path: string) => {
+    let value: TemplateValue | TemplateContext = context;
+    for (const key of path.split(".")) {
+      if (typeof value !== "object" || value === null || !Object.prototype.hasOwnProperty.call(value, key)) {
+        return "";
+      }
+      value = value[key];
+    }
+    return typeof value === "object" || value === undefined || value === null ? "" : String(value);
+  });
+}
+
+/**
+ * Format a time for a template, with the timezone abbreviation
+ */
+function formatTime(date: Date, timezone: string): string {
+  return date.toLocaleString("en-US", {
+    timeZone: timezone,
+    dateStyle: "medium",
+    timeStyle: "long",
+  });
+}
+
+/**
+ * Fields of an alert available to templates
+ * `message` is the built-in wording, so a template can add to it instead of replacing it.
+ * Times are formatted in the template's timezone.
+ */
+export function getNotificationContext(
+  notification: Notification,
+  severity: AlertSeverity,
+  timezone: string,
+  now: Date = new Date()
+): TemplateContext {
+  const { check, incident } = notification;
+
+  return {
+    event: notification.event,
+    severity: severity.toLowerCase(),
+    title: notification.title,
+    message: notification.message,
+    now: formatTime(now, timezone),
+    endpoint: {
+      id: notification.endpoint?.id,
+      name: notification.endpoint?.name,
+      url: notification.endpoint?.url,
+    },
+    check: check
+      ? {
+          status: check.status,
+          responseTime: check.responseTime,
+          httpCode: check.httpCode,
+          error: check.errorMessage,
+          checkedAt: formatTime(check.checkedAt, timezone),
+        }
+      : {},
+    incident: incident
+      ? {
+          id: incident.id,
+          startedAt: formatTime(incident.startedAt, timezone),
+          durationMinutes: Math.max(0, Math.round((now.getTime() - incident.startedAt.getTime()) / 60000)),
+          acknowledgedBy: incident.acknowledgedBy,
+        }
+      : {},
+    details: { ...notification.details },
+    onCall: notification.onCall ? { name: notification.onCall.name, email: notification.onCall.email } : {},
+  };
+}
+
+/**
+ * Render an alert's title and message with a template
+ * @returns The alert unchanged when there is no template
+ */
+export function applyTemplate(
+  notification: Notification,
+  template: MessageTemplate | null,
+  severity: AlertSeverity
+): Notification {
+  if (!template) {
+    return notification;
+  }
+
+  const context = getNotificationContext(notification, severity, template.timezone);
+  return {
+    ...notification,
+    title: template.title ? renderTemplate(template.title, context) : notification.title,
+    message: renderTemplate(template.body, context),
+    templated: true,
+  };
+}
+
+/**
+ * Templates of an event: the default one and those of single channels
+ */
+export async function getEventTemplates(event: NotificationEvent): Promise<alert_templates[]> {
+  const templateEvent = (Object.keys(EVENT_BY_TEMPLATE_EVENT) as AlertTemplateEvent[]).find(
+    (key) => EVENT_BY_TEMPLATE_EVENT[key] === event
+  );
+  if (!templateEvent) {
+    return [];
+  }
+
+  return prisma.alert_templates.findMany({ where: { event: templateEvent } });
+}
+
+/**
+ * The template a channel uses, from the templates of an event
+ * @param channelId - Channel the alert goes to, null for the SLACK_WEBHOOK_URL fallback
+ */
+export function pickTemplate(templates: alert_templates[], channelId: string | null): alert_templates | null {
+  return (
+    (channelId ? templates.find((template) => template.channel_id === channelId) : undefined) ??
+    templates.find((template) => template.channel_id === null) ??
+    null
+  );
+}
+
+/**
+ * Validate the event, title, message and timezone of a template
+ * Only fields present in the input are returned
+ */
+export function parseTemplateContent(
+  input: TemplateInput
+): { data: TemplateData; error?: undefined } | { data?: undefined; error: string } {
+  const data: TemplateData = {};
+
+  if (input.event !== undefined) {
+    if (typeof input.event !== "string" || !TEMPLATE_EVENTS.includes(input.event)) {
+      return { error: `Event must be one of: ${TEMPLATE_EVENTS.join(", ")}` };
+    }
+    data.event = input.event as AlertTemplateEvent;
+  }
+
+  if (input.title !== undefined) {
+    if (input.title !== null && typeof input.title !== "string") {
+      return { error: "Title must be text" };
+    }
+    if (input.title && input.title.length > TEMPLATE_LIMITS.title) {
+      return { error: `Title must be at most ${TEMPLATE_LIMITS.title} characters` };
+    }
+    data.title = input.title?.trim() || null;
+  }
+
+  if (input.body !== undefined) {
+    if (typeof input.body !== "string" || !input.body.trim()) {
+      return { error: "Message is required" };
+    }
+    if (input.body.length > TEMPLATE_LIMITS.body) {
+      return { error: `Message must be at most ${TEMPLATE_LIMITS.body} characters` };
+    }
+    data.body = input.body.trim();
+  }
+
+  if (input.timezone !== undefined) {
+    if (typeof input.timezone !== "string" || !isValidTimezone(input.timezone)) {
+      return { error: "Timezone must be an IANA timezone such as Asia/Kolkata" };
+    }
+    data.timezone = input.timezone;
+  }
+
+  return { data };
+}
+
+/**
+ * Validate a template sent by the dashboard
+ * Only fields present in the input are returned, so it works for both create and update.
+ * Each channel, and the default, has at most one template per event.
+ * @param input - Request body from POST/PATCH /api/alert-templates
+ * @param current - Template being updated, if any
+ * @returns Prisma data for the provided fields, or a validation error (conflict for a duplicate)
+ */
+export async function parseTemplateInput(
+  input: TemplateInput,
+  current?: alert_templates
+): Promise<{ data: TemplateData; error?: undefined } | { data?: undefined; error: string; conflict?: boolean }> {
+  const content = parseTemplateContent(input);
+  if (!content.data) {
+    return content;
+  }
+  const data = content.data;
+
+  if (input.channelId !== undefined) {
+    if (input.channelId === null || input.channelId === "") {
+      data.channel_id = null;
+    } else {
+      const channel =
+        typeof input.channelId === "string"
+          ? await prisma.notification_channels.findUnique({ where: { id: input.channelId }, select: { id: true } })
+          : null;
+      if (!channel) {
+        return { error: "Notification channel not found" };
+      }
+      data.channel_id = channel.id;
+    }
+  }
+
+  const channelId = data.channel_id !== undefined ? data.channel_id : current?.channel_id ?? null;
+  const event = data.event ?? current?.event;
+  if (event) {
+    const duplicate = await prisma.alert_templates.findFirst({
+      where: { channel_id: channelId, event, ...(current && { id: { not: current.id } }) },
+      select: { id: true },
+    });
+    if (duplicate) {
+      return {
+        error: `A ${event.toLowerCase()} template for ${channelId ? "this channel" : "all channels"} already exists`,
+        conflict: true,
+      };
+    }
+  }
+
+  return { data };
+}
+
+/**
+ * Map a template row to the camelCase shape used by the dashboard
+ */
+export function serializeTemplate(template: alert_templates & { channel?: { name: string } | null }) {
+  return {
+    id: template.id,
+    channelId: template.channel_id,
+    channelName: template.channel?.name ?? null,
+    event: template.event,
+    title: template.title,
+    body: template.body,
+    timezone: template.timezone,
+    createdAt: template.created_at.toISOString(),
+    updatedAt: template.updated_at.toISOString(),
+  };
+}
+
+/**
+ * Alert to preview a template with, as the monitor would send it
+ * Uses an endpoint's most recent check and incident when given (its latest failed or slow check for
+ * down and degraded alerts), and made-up sample data otherwise
+ * @returns Null when the endpoint does not exist
+ */
+export async function buildPreviewNotification(
+  event: AlertTemplateEvent,
+  endpointId?: string | null
+): Promise<Notification | null> {
+  const now = new Date();
+  let endpoint = { id: "00000000-0000-0000-0000-000000000000", name: "Example API", url: "https://api.example.com/health" };
+  let thresholdMs = 5000;
+  let check: NotificationCheck = {
+    status: event === AlertTemplateEvent.DOWN
+      ? CheckStatus.DOWN
+      : event === AlertTemplateEvent.DEGRADED ? CheckStatus.DEGRADED : CheckStatus.UP,
+    responseTime: event === AlertTemplateEvent.DEGRADED ? 8421 : 187,
+    httpCode: event === AlertTemplateEvent.DOWN ? 503 : 200,
+    errorMessage: event === AlertTemplateEvent.DOWN
+      ? "HTTP 503: Service Unavailable"
+      : event === AlertTemplateEvent.DEGRADED ? `Slow response: 8421ms (threshold ${thresholdMs}ms)` : null,
+    checkedAt: now,
+  };
+  let incident: NotificationIncident = {
+    id: "00000000-0000-0000-0000-000000000001",
+    startedAt: new Date(now.getTime() - 12 * 60000),
+    acknowledgedBy: null,
+  };
+  let certificate = { validTo: new Date(now.getTime() + 9 * 24 * 60 * 60000), issuer: "Let's Encrypt R11" };
+
+  if (endpointId) {
+    const found = await prisma.endpoints.findUnique({
+      where: { id: endpointId },
+      include: { certificate: true },
+    });
+    if (!found) {
+      return null;
+    }
+    endpoint = { id: found.id, name: found.name, url: found.url };
+    thresholdMs = found.degraded_threshold_ms ?? thresholdMs;
+
+    const [latestCheck, latestIncident] = await Promise.all([
+      prisma.checks.findFirst({
+        where: {
+          endpoint_id: found.id,
+          ...(event === AlertTemplateEvent.DOWN && { status: CheckStatus.DOWN }),
+          ...(event === AlertTemplateEvent.DEGRADED && { status: CheckStatus.DEGRADED }),
+        },
+        orderBy: { checked_at: "desc" },
+      }),
+      prisma.incidents.findFirst({
+        where: { endpoint_id: found.id },
+        orderBy: { started_at: "desc" },
+      }),
+    ]);
+    if (latestCheck) {
+      check = {
+        status: latestCheck.status,
+        responseTime: latestCheck.response_time,
+        httpCode: latestCheck.http_code,
+        errorMessage: latestCheck.error_message,
+        checkedAt: latestCheck.checked_at,
+      };
+    }
+    if (latestIncident) {
+      incident = {
+        id: latestIncident.id,
+        startedAt: latestIncident.started_at,
+        acknowledgedBy: latestIncident.acknowledged_by,
+      };
+    }
+    if (found.certificate) {
+      certificate = { validTo: found.certificate.valid_to, issuer: found.certificate.issuer };
+    }
+  }
+
+  const downtimeMinutes = Math.max(0, Math.round((now.getTime() - incident.startedAt.getTime()) / 60000));
+  const base = { endpoint, check, incident };
+
+  switch (event) {
+    case AlertTemplateEvent.DOWN:
+      return {
+        ...base,
+        event: "down",
+        title: `Service down: ${endpoint.name}`,
+        message: formatDowntimeAlert(
+          endpoint.name,
+          endpoint.url,
+          downtimeMinutes,
+          incident.startedAt,
+          check.httpCode || undefined,
+          check.errorMessage || "Service unreachable"
+        ),
+        details: {
+          downtimeMinutes,
+          startedAt: incident.startedAt.toISOString(),
+          statusCode: check.httpCode,
+          responseTime: check.responseTime,
+          error: check.errorMessage,
+        },
+      };
+    case AlertTemplateEvent.RECOVERY:
+      return {
+        ...base,
+        event: "recovery",
+        title: `Service recovered: ${endpoint.name}`,
+        message: formatRecoveryAlert(endpoint.name, endpoint.url, downtimeMinutes),
+        details: { downtimeMinutes },
+      };
+    case AlertTemplateEvent.DEGRADED: {
+      const responseTime = check.responseTime ?? thresholdMs;
+      return {
+        ...base,
+        event: "degraded",
+        title: `Service degraded: ${endpoint.name}`,
+        message: formatDegradedAlert(endpoint.name, endpoint.url, responseTime, thresholdMs),
+        details: { responseTime, thresholdMs },
+      };
+    }
+    case AlertTemplateEvent.CERTIFICATE: {
+      const daysLeft = Math.floor((certificate.validTo.getTime() - now.getTime()) / (24 * 60 * 60000));
+      return {
+        ...base,
+        event: "certificate",
+        title: `SSL certificate for ${endpoint.name} expires in ${daysLeft} days`,
+        message: formatCertificateExpiryAlert(endpoint.name, endpoint.url, daysLeft, certificate.validTo, certificate.issuer),
+        details: { daysLeft, validTo: certificate.validTo.toISOString(), issuer: certificate.issuer },
+      };
+    }
+    case AlertTemplateEvent.FLAPPING:
+      return {
+        ...base,
+        event: "flapping",
+        title: `Service flapping: ${endpoint.name}`,
+        message: formatFlappingAlert(endpoint.name, endpoint.url, 45, 20),
+        details: { stateChangePercent: 45, window: 20, flappingSince: incident.startedAt.toISOString() },
+      };
+  }
+}
@@ -13,7 +13,14 @@ const protectedApiPaths = [
   '/api/endpoints',
   '/api/day-detail',
   '/api/scheduler',
-  '/api/test-slack',
+  '/api/notification-channels',
+  '/api/incidents',
+  '/api/escalation-policies',
+  '/api/oncall-schedules',
+  '/api/maintenance-windows',
+  '/api/alert-rules',
+  '/api/alert-templates',
+  '/api/notification-deliveries',
   '/api/auth/check',
   '/api/auth/logout',
 ];
@@ -0,0 +1,65 @@
+import axios from 'axios';
+
+export type AlertSeverity = 'CRITICAL' | 'WARNING' | 'INFO';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  position: number; // Rules are evaluated in ascending order, the first match wins
+  enabled: boolean;
+  endpointTypes: string[]; // Empty matches any type
+  tags: string[]; // Empty matches any endpoint
+  severities: AlertSeverity[]; // Empty matches any severity
+  days: number[]; // 0 = Sunday, empty for every day
+  startTime: string | null; // HH:mm, null for all day
+  endTime: string | null;
+  timezone: string;
+  channelIds: string[]; // Empty drops matching alerts
+  throttleMinutes: number | null;
+  messageTemplate: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateAlertRuleDTO {
+  name: string;
+  position?: number;
+  enabled?: boolean;
+  endpointTypes?: string[];
+  tags?: string[];
+  severities?: AlertSeverity[];
+  days?: number[];
+  startTime?: string | null;
+  endTime?: string | null;
+  timezone?: string;
+  channelIds: string[];
+  throttleMinutes?: number | null;
+  messageTemplate?: string | null;
+}
+
+export type UpdateAlertRuleDTO = Partial<CreateAlertRuleDTO>;
+
+class AlertRuleService {
+  private baseURL = '/api/alert-rules';
+
+  async getAllRules(): Promise<AlertRule[]> {
+    const response = await axios.get(this.baseURL);
+    return response.data.rules || [];
+  }
+
+  async createRule(data: CreateAlertRuleDTO): Promise<AlertRule> {
+    const response = await axios.post(this.baseURL, data);
+    return response.data.rule;
+  }
+
+  async updateRule(id: string, data: UpdateAlertRuleDTO): Promise<AlertRule> {
+    const response = await axios.patch(`${this.baseURL}/${id}`, data);
+    return response.data.rule;
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    await axios.delete(`${this.baseURL}/${id}`);
+  }
+}
+
+export const alertRuleService = new AlertRuleService();
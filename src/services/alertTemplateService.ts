@@ -0,0 +1,68 @@
+import axios from 'axios';
+
+export type AlertTemplateEvent = 'DOWN' | 'RECOVERY' | 'DEGRADED' | 'CERTIFICATE' | 'FLAPPING';
+
+export interface AlertTemplate {
+  id: string;
+  channelId: string | null; // null for the default template of the event
+  channelName: string | null;
+  event: AlertTemplateEvent;
+  title: string | null; // null keeps the built-in title
+  body: string;
+  timezone: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateAlertTemplateDTO {
+  channelId?: string | null;
+  event: AlertTemplateEvent;
+  title?: string | null;
+  body: string;
+  timezone?: string;
+}
+
+export type UpdateAlertTemplateDTO = Partial<CreateAlertTemplateDTO>;
+
+export interface PreviewAlertTemplateDTO {
+  event: AlertTemplateEvent;
+  title?: string | null;
+  body: string;
+  timezone?: string;
+  endpointId?: string | null; // Render against the endpoint's latest check, sample data when empty
+}
+
+export interface AlertTemplatePreview {
+  title: string;
+  message: string;
+}
+
+class AlertTemplateService {
+  private baseURL = '/api/alert-templates';
+
+  async getAllTemplates(): Promise<AlertTemplate[]> {
+    const response = await axios.get(this.baseURL);
+    return response.data.templates || [];
+  }
+
+  async createTemplate(data: CreateAlertTemplateDTO): Promise<AlertTemplate> {
+    const response = await axios.post(this.baseURL, data);
+    return response.data.template;
+  }
+
+  async updateTemplate(id: string, data: UpdateAlertTemplateDTO): Promise<AlertTemplate> {
+    const response = await axios.patch(`${this.baseURL}/${id}`, data);
+    return response.data.template;
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    await axios.delete(`${this.baseURL}/${id}`);
+  }
+
+  async previewTemplate(data: PreviewAlertTemplateDTO): Promise<AlertTemplatePreview> {
+    const response = await axios.post(`${this.baseURL}/preview`, data);
+    return response.data;
+  }
+}
+
+export const alertTemplateService = new AlertTemplateService();
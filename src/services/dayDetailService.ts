@@ -6,6 +6,7 @@ export interface DayDetailData {
   endpoint?: {
     name: string;
     url: string;
+    degradedThresholdMs: number | null; // Successful checks slower than this are DEGRADED
   };
   date?: string;
   dateFormatted?: string;
@@ -13,6 +14,9 @@ export interface DayDetailData {
     totalChecks: number;
     upChecks: number;
     downChecks: number;
+    degradedChecks: number; // Slow but up, part of uptime but not downtime
+    degradedMinutes: number;
+    maintenanceChecks: number; // Checks during maintenance windows, not part of uptime
     uptimePercent: string;
     avgResponseTime: number;
     maxResponseTime: number;
@@ -26,6 +30,8 @@ export interface DayDetailData {
     totalChecks: number;
     upChecks: number;
     downChecks: number;
+    degradedChecks: number;
+    maintenanceChecks: number;
     uptimePercent: number | null;
     avgResponseTime: number | null;
   }>;
@@ -36,11 +42,21 @@ export interface DayDetailData {
     responseTime?: number | null;
     durationMs?: number | null;
     duration?: string | null;
+    rootCause: { id: string; name: string } | null; // Down dependency the failure is attributed to
+    attempts: Array<{
+      attempt: number;
+      status: string;
+      httpCode: number | null;
+      responseTime: number | null;
+      errorMessage: string | null;
+      checkedAt: string;
+    }>; // Every probe when the failure was confirmed by retries, empty otherwise
   }>;
   timelineData?: Array<{
     time: string;
     status: string;
     responseTime: number | null;
+    inMaintenance: boolean;
   }>;
 }
 
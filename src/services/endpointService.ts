@@ -1,10 +1,76 @@
 import axios from 'axios';
 
+export type MonitorType = 'HTTP' | 'TCP' | 'DNS' | 'HEARTBEAT';
+
+export type DnsRecordType = 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
+
+export type RequestBodyType = 'NONE' | 'JSON' | 'RAW';
+
+export type AssertionType =
+  | 'status_code'
+  | 'body_contains'
+  | 'body_not_contains'
+  | 'json_path'
+  | 'header'
+  | 'response_time';
+
+export type AssertionOperator = 'equals' | 'exists' | 'contains' | 'matches';
+
+export interface Assertion {
+  type: AssertionType;
+  target?: string;
+  operator?: AssertionOperator;
+  value?: string;
+  regex?: boolean;
+}
+
+export interface EndpointCertificate {
+  subject: string;
+  issuer: string;
+  sans: string[];
+  validFrom: string;
+  validTo: string;
+  chainValid: boolean;
+  chainError: string | null;
+  checkedAt: string;
+}
+
 export interface Endpoint {
   id: string;
   name: string;
   url: string;
   type: string;
+  tags: string[]; // Matched by alert rules
+  monitorType: MonitorType;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  queryParams: Record<string, string>;
+  body: string | null;
+  bodyType: RequestBodyType;
+  assertions: Assertion[];
+  dnsRecordType: DnsRecordType;
+  dnsResolver: string | null;
+  dnsExpected: string[];
+  heartbeatPeriod: number;
+  heartbeatGrace: number;
+  heartbeatLastPingAt: string | null;
+  heartbeatLastStatus: 'UP' | 'DOWN' | null;
+  intervalSeconds: number;
+  timeoutSeconds: number;
+  retries: number;
+  retryDelaySeconds: number; // Wait between a failed attempt and its re-check
+  alertThreshold: number;
+  degradedThresholdMs: number | null; // Successful checks slower than this are DEGRADED
+  paused: boolean;
+  alertsMutedUntil: string | null;
+  flappingSince: string | null;
+  notificationChannelIds: string[];
+  escalationPolicyId: string | null;
+  oncallScheduleId: string | null;
+  dependsOnIds: string[]; // Endpoints whose outages suppress this endpoint's alerts
+  certificate: EndpointCertificate | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -13,12 +79,58 @@ export interface CreateEndpointDTO {
   name: string;
   url: string;
   type?: string;
+  tags?: string[];
+  monitorType?: MonitorType;
+  method?: HttpMethod;
+  headers?: Record<string, string>;
+  queryParams?: Record<string, string>;
+  body?: string | null;
+  bodyType?: RequestBodyType;
+  assertions?: Assertion[];
+  dnsRecordType?: DnsRecordType;
+  dnsResolver?: string | null;
+  dnsExpected?: string[];
+  heartbeatPeriod?: number;
+  heartbeatGrace?: number;
+  intervalSeconds?: number;
+  timeoutSeconds?: number;
+  retries?: number;
+  retryDelaySeconds?: number;
+  alertThreshold?: number;
+  degradedThresholdMs?: number | null;
+  notificationChannelIds?: string[];
+  escalationPolicyId?: string | null;
+  oncallScheduleId?: string | null;
+  dependsOnIds?: string[];
 }
 
 export interface UpdateEndpointDTO {
   name?: string;
   url?: string;
   type?: string;
+  tags?: string[];
+  monitorType?: MonitorType;
+  method?: HttpMethod;
+  headers?: Record<string, string>;
+  queryParams?: Record<string, string>;
+  body?: string | null;
+  bodyType?: RequestBodyType;
+  assertions?: Assertion[];
+  dnsRecordType?: DnsRecordType;
+  dnsResolver?: string | null;
+  dnsExpected?: string[];
+  heartbeatPeriod?: number;
+  heartbeatGrace?: number;
+  intervalSeconds?: number;
+  timeoutSeconds?: number;
+  retries?: number;
+  retryDelaySeconds?: number;
+  alertThreshold?: number;
+  degradedThresholdMs?: number | null;
+  notificationChannelIds?: string[];
+  escalationPolicyId?: string | null;
+  oncallScheduleId?: string | null;
+  dependsOnIds?: string[];
 }
 
 class EndpointService {
@@ -0,0 +1,53 @@
+import axios from 'axios';
+
+export interface EscalationStep {
+  afterMinutes: number;
+  channelIds: string[];
+}
+
+export interface EscalationPolicy {
+  id: string;
+  name: string;
+  steps: EscalationStep[];
+  repeatIntervalMinutes: number | null;
+  endpointCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateEscalationPolicyDTO {
+  name: string;
+  steps: EscalationStep[];
+  repeatIntervalMinutes?: number | null;
+}
+
+export interface UpdateEscalationPolicyDTO {
+  name?: string;
+  steps?: EscalationStep[];
+  repeatIntervalMinutes?: number | null;
+}
+
+class EscalationPolicyService {
+  private baseURL = '/api/escalation-policies';
+
+  async getAllPolicies(): Promise<EscalationPolicy[]> {
+    const response = await axios.get(this.baseURL);
+    return response.data.policies || [];
+  }
+
+  async createPolicy(data: CreateEscalationPolicyDTO): Promise<EscalationPolicy> {
+    const response = await axios.post(this.baseURL, data);
+    return response.data.policy;
+  }
+
+  async updatePolicy(id: string, data: UpdateEscalationPolicyDTO): Promise<EscalationPolicy> {
+    const response = await axios.patch(`${this.baseURL}/${id}`, data);
+    return response.data.policy;
+  }
+
+  async deletePolicy(id: string): Promise<void> {
+    await axios.delete(`${this.baseURL}/${id}`);
+  }
+}
+
+export const escalationPolicyService = new EscalationPolicyService();
@@ -0,0 +1,76 @@
+import axios from 'axios';
+
+export type IncidentStatus = 'OPEN' | 'ACKNOWLEDGED' | 'RESOLVED';
+
+export type IncidentEventType = 'OPENED' | 'NOTIFIED' | 'DEPENDENT' | 'ACKNOWLEDGED' | 'NOTE' | 'RESOLVED';
+
+export interface IncidentEvent {
+  id: string;
+  type: IncidentEventType;
+  message: string;
+  author: string | null;
+  createdAt: string;
+}
+
+export interface Incident {
+  id: string;
+  endpointId: string;
+  endpointName: string | null;
+  endpointUrl: string | null;
+  status: IncidentStatus;
+  startedAt: string;
+  endedAt: string | null;
+  durationMs: number;
+  duration: string;
+  firstError: string | null;
+  httpCode: number | null;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+  resolutionNotes: string | null;
+  escalationStep: number;
+  manual: boolean;
+  lastNotifiedAt: string | null;
+  events?: IncidentEvent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface IncidentFilters {
+  endpointId?: string;
+  status?: IncidentStatus;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface UpdateIncidentDTO {
+  status?: 'ACKNOWLEDGED' | 'RESOLVED';
+  resolutionNotes?: string | null;
+  note?: string;
+  author?: string;
+}
+
+class IncidentService {
+  private baseURL = '/api/incidents';
+
+  async getIncidents(filters: IncidentFilters = {}): Promise<Incident[]> {
+    const response = await axios.get(this.baseURL, { params: filters });
+    return response.data.incidents || [];
+  }
+
+  async getIncidentById(id: string): Promise<Incident> {
+    const response = await axios.get(`${this.baseURL}/${id}`);
+    return response.data.incident;
+  }
+
+  async updateIncident(id: string, data: UpdateIncidentDTO): Promise<Incident> {
+    const response = await axios.patch(`${this.baseURL}/${id}`, data);
+    return response.data.incident;
+  }
+
+  async deleteIncident(id: string): Promise<void> {
+    await axios.delete(`${this.baseURL}/${id}`);
+  }
+}
+
+export const incidentService = new IncidentService();
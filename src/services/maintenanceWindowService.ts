@@ -0,0 +1,59 @@
+import axios from 'axios';
+
+export type MaintenanceRecurrence = 'NONE' | 'DAILY' | 'WEEKLY';
+
+export interface MaintenanceWindow {
+  id: string;
+  name: string;
+  description: string | null;
+  endpointId: string | null; // null when the window covers every endpoint
+  endpointName: string | null;
+  startsAt: string; // First occurrence
+  endsAt: string;
+  recurrence: MaintenanceRecurrence;
+  timezone: string;
+  repeatUntil: string | null;
+  active: boolean;
+  nextStartsAt: string | null; // Current occurrence while active, null once the window is over
+  nextEndsAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateMaintenanceWindowDTO {
+  name: string;
+  description?: string | null;
+  endpointId?: string | null;
+  startsAt: string;
+  endsAt: string;
+  recurrence: MaintenanceRecurrence;
+  timezone: string;
+  repeatUntil?: string | null;
+}
+
+export type UpdateMaintenanceWindowDTO = Partial<CreateMaintenanceWindowDTO>;
+
+class MaintenanceWindowService {
+  private baseURL = '/api/maintenance-windows';
+
+  async getAllWindows(): Promise<MaintenanceWindow[]> {
+    const response = await axios.get(this.baseURL);
+    return response.data.windows || [];
+  }
+
+  async createWindow(data: CreateMaintenanceWindowDTO): Promise<MaintenanceWindow> {
+    const response = await axios.post(this.baseURL, data);
+    return response.data.window;
+  }
+
+  async updateWindow(id: string, data: UpdateMaintenanceWindowDTO): Promise<MaintenanceWindow> {
+    const response = await axios.patch(`${this.baseURL}/${id}`, data);
+    return response.data.window;
+  }
+
+  async deleteWindow(id: string): Promise<void> {
+    await axios.delete(`${this.baseURL}/${id}`);
+  }
+}
+
+export const maintenanceWindowService = new MaintenanceWindowService();
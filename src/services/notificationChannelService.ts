@@ -0,0 +1,96 @@
+import axios from 'axios';
+
+export type NotificationChannelType = 'SLACK' | 'WEBHOOK' | 'EMAIL' | 'TEAMS' | 'DISCORD' | 'PAGERDUTY';
+
+export interface WebhookUrlChannelConfig {
+  webhookUrl: string;
+}
+
+export interface SlackChannelConfig {
+  webhookUrl?: string;
+  botToken?: string;
+  channel?: string;
+}
+
+export interface WebhookChannelConfig {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface EmailChannelConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+  to: string[];
+}
+
+export interface PagerDutyChannelConfig {
+  routingKey: string;
+}
+
+export type NotificationChannelConfig =
+  | WebhookUrlChannelConfig
+  | SlackChannelConfig
+  | WebhookChannelConfig
+  | EmailChannelConfig
+  | PagerDutyChannelConfig;
+
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  type: NotificationChannelType;
+  config: NotificationChannelConfig;
+  enabled: boolean;
+  isDefault: boolean;
+  endpointCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateNotificationChannelDTO {
+  name: string;
+  type: NotificationChannelType;
+  config: NotificationChannelConfig;
+  enabled?: boolean;
+  isDefault?: boolean;
+}
+
+export interface UpdateNotificationChannelDTO {
+  name?: string;
+  type?: NotificationChannelType;
+  config?: NotificationChannelConfig;
+  enabled?: boolean;
+  isDefault?: boolean;
+}
+
+class NotificationChannelService {
+  private baseURL = '/api/notification-channels';
+
+  async getAllChannels(): Promise<NotificationChannel[]> {
+    const response = await axios.get(this.baseURL);
+    return response.data.channels || [];
+  }
+
+  async createChannel(data: CreateNotificationChannelDTO): Promise<NotificationChannel> {
+    const response = await axios.post(this.baseURL, data);
+    return response.data.channel;
+  }
+
+  async updateChannel(id: string, data: UpdateNotificationChannelDTO): Promise<NotificationChannel> {
+    const response = await axios.patch(`${this.baseURL}/${id}`, data);
+    return response.data.channel;
+  }
+
+  async deleteChannel(id: string): Promise<void> {
+    await axios.delete(`${this.baseURL}/${id}`);
+  }
+
+  async testChannel(id: string, message?: string): Promise<void> {
+    await axios.post(`${this.baseURL}/${id}/test`, { message });
+  }
+}
+
+export const notificationChannelService = new NotificationChannelService();
@@ -0,0 +1,50 @@
+import axios from 'axios';
+
+export type DeliveryStatus = 'SENT' | 'RETRYING' | 'FAILED';
+
+export interface DeliveryAttempt {
+  id: string;
+  attempt: number; // 1 for the first try
+  payload: unknown; // Request body sent to the channel
+  responseCode: number | null; // HTTP status, or SMTP reply code for email
+  latencyMs: number;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface NotificationDelivery {
+  id: string;
+  channelId: string | null;
+  channelName: string; // SLACK_WEBHOOK_URL for the fallback webhook
+  channelType: string;
+  endpointId: string | null;
+  endpointName: string | null;
+  event: string;
+  title: string;
+  status: DeliveryStatus;
+  attempts: number;
+  nextRetryAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  attemptLog?: DeliveryAttempt[];
+}
+
+export interface DeliveryFilters {
+  status?: DeliveryStatus;
+  channelId?: string;
+  endpointId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+class NotificationDeliveryService {
+  private baseURL = '/api/notification-deliveries';
+
+  async getDeliveries(filters: DeliveryFilters = {}): Promise<NotificationDelivery[]> {
+    const response = await axios.get(this.baseURL, { params: filters });
+    return response.data.deliveries || [];
+  }
+}
+
+export const notificationDeliveryService = new NotificationDeliveryService();
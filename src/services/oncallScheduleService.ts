@@ -0,0 +1,93 @@
+import axios from 'axios';
+
+export type RotationType = 'DAILY' | 'WEEKLY';
+
+export interface OnCallMember {
+  name: string;
+  slackUserId: string | null;
+  email: string | null;
+}
+
+export interface OnCallShift extends OnCallMember {
+  from: string;
+  until: string;
+  override: boolean;
+}
+
+export interface OnCallOverride {
+  id: string;
+  name: string;
+  slackUserId: string | null;
+  email: string | null;
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface OnCallSchedule {
+  id: string;
+  name: string;
+  timezone: string;
+  rotationType: RotationType;
+  handoffTime: string;
+  startsOn: string;
+  members: OnCallMember[];
+  overrides: OnCallOverride[];
+  current: OnCallShift | null;
+  next: OnCallShift | null;
+  endpointCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateOnCallScheduleDTO {
+  name: string;
+  timezone: string;
+  rotationType: RotationType;
+  handoffTime: string;
+  startsOn: string;
+  members: OnCallMember[];
+}
+
+export type UpdateOnCallScheduleDTO = Partial<CreateOnCallScheduleDTO>;
+
+export interface CreateOnCallOverrideDTO {
+  name: string;
+  slackUserId?: string | null;
+  email?: string | null;
+  startsAt: string;
+  endsAt: string;
+}
+
+class OnCallScheduleService {
+  private baseURL = '/api/oncall-schedules';
+
+  async getAllSchedules(): Promise<OnCallSchedule[]> {
+    const response = await axios.get(this.baseURL);
+    return response.data.schedules || [];
+  }
+
+  async createSchedule(data: CreateOnCallScheduleDTO): Promise<OnCallSchedule> {
+    const response = await axios.post(this.baseURL, data);
+    return response.data.schedule;
+  }
+
+  async updateSchedule(id: string, data: UpdateOnCallScheduleDTO): Promise<OnCallSchedule> {
+    const response = await axios.patch(`${this.baseURL}/${id}`, data);
+    return response.data.schedule;
+  }
+
+  async deleteSchedule(id: string): Promise<void> {
+    await axios.delete(`${this.baseURL}/${id}`);
+  }
+
+  async createOverride(scheduleId: string, data: CreateOnCallOverrideDTO): Promise<OnCallOverride> {
+    const response = await axios.post(`${this.baseURL}/${scheduleId}/overrides`, data);
+    return response.data.override;
+  }
+
+  async deleteOverride(scheduleId: string, overrideId: string): Promise<void> {
+    await axios.delete(`${this.baseURL}/${scheduleId}/overrides/${overrideId}`);
+  }
+}
+
+export const oncallScheduleService = new OnCallScheduleService();
@@ -0,0 +1,64 @@
+import axios from 'axios';
+
+export interface SchedulerLeader {
+  holder: string;
+  acquiredAt: string;
+  expiresAt: string;
+}
+
+export interface SchedulerCycle {
+  trigger: 'scheduler' | 'cron' | 'manual' | 'heartbeat';
+  startedAt: string;
+  finishedAt: string;
+  duration: number;
+  total: number;
+  checked: number;
+  up: number;
+  down: number;
+  degraded: number;
+  skipped: number;
+}
+
+export interface SchedulerState {
+  running: boolean;
+  isLeader: boolean;
+  tickSeconds: number;
+  nextRunAt: string | null;
+  leader: SchedulerLeader | null;
+  lastCycle: SchedulerCycle | null;
+  lastCheckAt: string | null;
+}
+
+class SchedulerService {
+  private baseURL = '/api/scheduler';
+
+  async getState(): Promise<SchedulerState> {
+    const response = await axios.get(this.baseURL);
+    return response.data.scheduler;
+  }
+
+  async start(): Promise<SchedulerState> {
+    const response = await axios.post(this.baseURL, { action: 'start' });
+    return response.data.scheduler;
+  }
+
+  async stop(): Promise<SchedulerState> {
+    const response = await axios.post(this.baseURL, { action: 'stop' });
+    return response.data.scheduler;
+  }
+
+  /**
+   * Check one endpoint, or every endpoint when no id is given, right away
+   */
+  async runNow(endpointId?: string): Promise<SchedulerState> {
+    const response = await axios.post(this.baseURL, { action: 'run', endpointId });
+    return response.data.scheduler;
+  }
+
+  async setPaused(endpointId: string, paused: boolean): Promise<SchedulerState> {
+    const response = await axios.post(this.baseURL, { action: paused ? 'pause' : 'resume', endpointId });
+    return response.data.scheduler;
+  }
+}
+
+export const schedulerService = new SchedulerService();
@@ -5,6 +5,8 @@ export interface DailyData {
   totalChecks: number;
   upChecks: number;
   downChecks: number;
+  degradedChecks: number; // Slow but up, counted in uptimePercent
+  maintenanceChecks: number;
   uptimePercent: number;
   errorMessage?: string | null;
 }
@@ -14,7 +16,8 @@ export interface Service {
   name: string;
   url: string;
   type: string;
-  currentStatus: "UP" | "DOWN" | "UNKNOWN";
+  intervalSeconds: number;
+  currentStatus: "UP" | "DOWN" | "DEGRADED" | "FLAPPING" | "MAINTENANCE" | "UNKNOWN";
   uptime: string;
   averageResponseTime: number | null;
   lastChecked: string | null;
@@ -25,9 +28,21 @@ export interface Service {
   };
 }
 
+export interface ScheduledMaintenance {
+  id: string;
+  name: string;
+  description: string | null;
+  endpointId: string | null;
+  endpointName: string | null; // null when every service is affected
+  startsAt: string;
+  endsAt: string;
+  active: boolean;
+}
+
 export interface StatusData {
   allOperational: boolean;
   services: Service[];
+  maintenance: ScheduledMaintenance[];
   dateRange: {
     start: string;
     end: string;